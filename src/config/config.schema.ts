@@ -31,6 +31,20 @@ export enum ConfigKey {
   MAX_DIAS_RETROATIVO = 'MAX_DIAS_RETROATIVO',
   TOLERANCIA_CONCILIACAO = 'TOLERANCIA_CONCILIACAO',
 
+  // Ajustes de conciliação (diferenças de valor entre extrato e lançamento)
+  CONTA_AJUSTE_DESPESA_FINANCEIRA = 'CONTA_AJUSTE_DESPESA_FINANCEIRA',
+  CONTA_AJUSTE_RECEITA_FINANCEIRA = 'CONTA_AJUSTE_RECEITA_FINANCEIRA',
+  CONTA_AJUSTE_DESCONTO_OBTIDO = 'CONTA_AJUSTE_DESCONTO_OBTIDO',
+  CONTA_AJUSTE_TARIFA = 'CONTA_AJUSTE_TARIFA',
+
+  // Vencimentos
+  DIAS_CARENCIA_VENCIMENTO = 'DIAS_CARENCIA_VENCIMENTO',
+  CARENCIA_DIAS_UTEIS = 'CARENCIA_DIAS_UTEIS',
+
+  // Posição de caixa diária
+  SALDO_MINIMO_CONSOLIDADO = 'SALDO_MINIMO_CONSOLIDADO',
+  HORIZONTE_POSICAO_CAIXA_DIAS = 'HORIZONTE_POSICAO_CAIXA_DIAS',
+
   // Cache
   CACHE_TTL_MINUTES = 'CACHE_TTL_MINUTES',
 
@@ -59,6 +73,14 @@ export const DEFAULT_CONFIG: Record<string, any> = {
   [ConfigKey.TIMEZONE]: 'America/Sao_Paulo',
   [ConfigKey.MAX_DIAS_RETROATIVO]: 7,
   [ConfigKey.TOLERANCIA_CONCILIACAO]: 0.01, // R$ 0,01
+  [ConfigKey.CONTA_AJUSTE_DESPESA_FINANCEIRA]: '4.01.001', // juros/multa pagos, desconto concedido
+  [ConfigKey.CONTA_AJUSTE_RECEITA_FINANCEIRA]: '4.02.001', // juros/multa recebidos
+  [ConfigKey.CONTA_AJUSTE_DESCONTO_OBTIDO]: '4.02.002',
+  [ConfigKey.CONTA_AJUSTE_TARIFA]: '4.01.002',
+  [ConfigKey.DIAS_CARENCIA_VENCIMENTO]: 0,
+  [ConfigKey.CARENCIA_DIAS_UTEIS]: true,
+  [ConfigKey.SALDO_MINIMO_CONSOLIDADO]: 0,
+  [ConfigKey.HORIZONTE_POSICAO_CAIXA_DIAS]: 90,
   [ConfigKey.CACHE_TTL_MINUTES]: 60,
   [ConfigKey.FEATURE_AUTO_RECONCILIATION]: true,
   [ConfigKey.FEATURE_DFC_PROJECTION]: true,
@@ -74,7 +96,8 @@ export function parseConfigValue(value: string, type: ConfigType): any {
     case ConfigType.NUMBER:
       return parseFloat(value);
     case ConfigType.BOOLEAN:
-      return value.toLowerCase() === 'true' || value === '1';
+      // A planilha pode devolver o booleano já convertido (TRUE/FALSE)
+      return String(value).toLowerCase() === 'true' || String(value) === '1';
     default:
       return value;
   }
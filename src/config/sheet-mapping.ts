@@ -17,6 +17,11 @@ export const SHEET_CFG_LABELS = 'CFG_LABELS';
 export const SHEET_CFG_THEME = 'CFG_THEME';
 export const SHEET_CFG_DFC = 'CFG_DFC';
 export const SHEET_CFG_VALIDATION = 'CFG_VALIDATION';
+export const SHEET_CFG_REGRAS_CONCILIACAO = 'CFG_REGRAS_CONCILIACAO';
+export const SHEET_CFG_MDR = 'CFG_MDR';
+export const SHEET_CFG_CENARIOS = 'CFG_CENARIOS';
+export const SHEET_CFG_CENARIOS_AJUSTES = 'CFG_CENARIOS_AJUSTES';
+export const SHEET_CFG_DRE_LAYOUT = 'CFG_DRE_LAYOUT';
 
 // ============================================================================
 // ABAS DE REFERÊNCIA (prefixo REF_)
@@ -28,6 +33,9 @@ export const SHEET_REF_CANAIS = 'REF_CANAIS';
 export const SHEET_REF_CCUSTO = 'REF_CCUSTO';
 export const SHEET_REF_NATUREZAS = 'REF_NATUREZAS';
 export const SHEET_REF_CAIXA_TIPOS = 'REF_CAIXA_TIPOS';
+export const SHEET_REF_FERIADOS = 'REF_FERIADOS';
+export const SHEET_REF_CONTAS_BANCARIAS = 'REF_CONTAS_BANCARIAS';
+export const SHEET_REF_PARCEIROS = 'REF_PARCEIROS';
 
 // ============================================================================
 // ABAS TRANSACIONAIS (prefixo TB_)
@@ -38,12 +46,16 @@ export const SHEET_TB_EXTRATOS = 'TB_EXTRATOS';
 export const SHEET_TB_IMPORT_FC = 'TB_IMPORT_FC';
 export const SHEET_TB_IMPORT_ITAU = 'TB_IMPORT_ITAU';
 export const SHEET_TB_IMPORT_SIEG = 'TB_IMPORT_SIEG';
+export const SHEET_TB_IMPORT_CARTAO_VENDAS = 'TB_IMPORT_CARTAO_VENDAS';
+export const SHEET_TB_IMPORT_CARTAO_LIQUIDACOES = 'TB_IMPORT_CARTAO_LIQUIDACOES';
 export const SHEET_TB_CAIXAS = 'TB_CAIXAS';
 export const SHEET_TB_CAIXAS_MOV = 'TB_CAIXAS_MOV';
+export const SHEET_TB_RECORRENCIAS = 'TB_RECORRENCIAS';
 export const SHEET_TB_DRE_MENSAL = 'TB_DRE_MENSAL';
 export const SHEET_TB_DRE_RESUMO = 'TB_DRE_RESUMO';
 export const SHEET_TB_DFC_REAL = 'TB_DFC_REAL';
 export const SHEET_TB_DFC_PROJ = 'TB_DFC_PROJ';
+export const SHEET_TB_ORCAMENTO = 'TB_ORCAMENTO';
 export const SHEET_TB_KPI_RESUMO = 'TB_KPI_RESUMO';
 export const SHEET_TB_KPI_DETALHE = 'TB_KPI_DETALHE';
 
@@ -68,6 +80,11 @@ export const Sheets = {
   CFG_THEME: SHEET_CFG_THEME,
   CFG_DFC: SHEET_CFG_DFC,
   CFG_VALIDATION: SHEET_CFG_VALIDATION,
+  CFG_REGRAS_CONCILIACAO: SHEET_CFG_REGRAS_CONCILIACAO,
+  CFG_MDR: SHEET_CFG_MDR,
+  CFG_CENARIOS: SHEET_CFG_CENARIOS,
+  CFG_CENARIOS_AJUSTES: SHEET_CFG_CENARIOS_AJUSTES,
+  CFG_DRE_LAYOUT: SHEET_CFG_DRE_LAYOUT,
 
   // Referência
   REF_PLANO_CONTAS: SHEET_REF_PLANO_CONTAS,
@@ -76,6 +93,9 @@ export const Sheets = {
   REF_CCUSTO: SHEET_REF_CCUSTO,
   REF_NATUREZAS: SHEET_REF_NATUREZAS,
   REF_CAIXA_TIPOS: SHEET_REF_CAIXA_TIPOS,
+  REF_FERIADOS: SHEET_REF_FERIADOS,
+  REF_CONTAS_BANCARIAS: SHEET_REF_CONTAS_BANCARIAS,
+  REF_PARCEIROS: SHEET_REF_PARCEIROS,
 
   // Transacional
   TB_LANCAMENTOS: SHEET_TB_LANCAMENTOS,
@@ -83,12 +103,16 @@ export const Sheets = {
   TB_IMPORT_FC: SHEET_TB_IMPORT_FC,
   TB_IMPORT_ITAU: SHEET_TB_IMPORT_ITAU,
   TB_IMPORT_SIEG: SHEET_TB_IMPORT_SIEG,
+  TB_IMPORT_CARTAO_VENDAS: SHEET_TB_IMPORT_CARTAO_VENDAS,
+  TB_IMPORT_CARTAO_LIQUIDACOES: SHEET_TB_IMPORT_CARTAO_LIQUIDACOES,
   TB_CAIXAS: SHEET_TB_CAIXAS,
   TB_CAIXAS_MOV: SHEET_TB_CAIXAS_MOV,
+  TB_RECORRENCIAS: SHEET_TB_RECORRENCIAS,
   TB_DRE_MENSAL: SHEET_TB_DRE_MENSAL,
   TB_DRE_RESUMO: SHEET_TB_DRE_RESUMO,
   TB_DFC_REAL: SHEET_TB_DFC_REAL,
   TB_DFC_PROJ: SHEET_TB_DFC_PROJ,
+  TB_ORCAMENTO: SHEET_TB_ORCAMENTO,
   TB_KPI_RESUMO: SHEET_TB_KPI_RESUMO,
   TB_KPI_DETALHE: SHEET_TB_KPI_DETALHE,
 
@@ -139,6 +163,16 @@ export const TB_LANCAMENTOS_COLS = {
   ID_EXTRATO_BANCO: 18,
   ORIGEM: 19,
   OBSERVACOES: 20,
+  // Colunas adicionadas dinamicamente (ensureLancamentosExtraColumns)
+  NUMERO_DOCUMENTO: 21,
+  CHAVE_NFE: 22,
+  LOTE_IMPORTACAO: 23,
+  PARCELAMENTO_ID: 24,
+  PARCELA: 25,
+  VALOR_CONCILIADO: 26, // vazio = tudo ou nada (ID Extrato Banco preenchido)
+  PARCEIRO_ID: 27, // REF_PARCEIROS
+  STATUS_PRE_CONCILIACAO: 28, // status antes da baixa pela conciliação (restaurado ao desfazer)
+  DATA_PAGAMENTO_PRE_CONCILIACAO: 29,
 } as const;
 
 /**
@@ -156,6 +190,9 @@ export const TB_EXTRATOS_COLS = {
   ID_LANCAMENTO: 8,
   OBSERVACOES: 9,
   IMPORTADO_EM: 10,
+  FITID: 11,
+  SALDO_APOS: 12,
+  VALOR_CONCILIADO: 13, // vazio = tudo ou nada (Status Conciliação)
 } as const;
 
 /**
@@ -175,6 +212,7 @@ export const TB_IMPORT_FC_COLS = {
   DATA_VENCIMENTO: 10,
   TIPO: 11,
   IMPORTADO_EM: 12,
+  LOTE_IMPORTACAO: 13,
 } as const;
 
 /**
@@ -192,6 +230,7 @@ export const TB_IMPORT_ITAU_COLS = {
   FILIAL_FC: 8,
   MODELO: 9,
   IMPORTADO_EM: 10,
+  LOTE_IMPORTACAO: 11,
 } as const;
 
 /**
@@ -218,6 +257,161 @@ export const TB_IMPORT_SIEG_COLS = {
   CODIGO_FILIAL_SIEG: 17,
   FILIAL_FC: 18,
   IMPORTADO_EM: 19,
+  LOTE_IMPORTACAO: 20,
+} as const;
+
+/**
+ * Índices de colunas da aba TB_IMPORT_CARTAO_VENDAS (vendas exportadas pela adquirente)
+ */
+export const TB_IMPORT_CARTAO_VENDAS_COLS = {
+  DATA_VENDA: 0,
+  ADQUIRENTE: 1, // CIELO | REDE | STONE | GETNET
+  BANDEIRA: 2,
+  MODALIDADE: 3, // DEBITO | CREDITO | PARCELADO
+  PARCELAS: 4,
+  NSU: 5,
+  AUTORIZACAO: 6,
+  VALOR_BRUTO: 7,
+  VALOR_LIQUIDO: 8, // informado pela adquirente (vazio = não informado)
+  FILIAL_FC: 9,
+  ESTABELECIMENTO: 10,
+  IMPORTADO_EM: 11,
+  LOTE_IMPORTACAO: 12,
+} as const;
+
+/**
+ * Índices de colunas da aba TB_IMPORT_CARTAO_LIQUIDACOES (pagamentos da adquirente, por parcela)
+ */
+export const TB_IMPORT_CARTAO_LIQUIDACOES_COLS = {
+  DATA_PAGAMENTO: 0,
+  ADQUIRENTE: 1,
+  BANDEIRA: 2,
+  NSU: 3,
+  PARCELA: 4,
+  TOTAL_PARCELAS: 5,
+  VALOR_BRUTO: 6,
+  TAXA: 7, // MDR descontado (positivo)
+  VALOR_LIQUIDO: 8,
+  DATA_VENDA: 9,
+  ESTABELECIMENTO: 10,
+  IMPORTADO_EM: 11,
+  LOTE_IMPORTACAO: 12,
+} as const;
+
+/**
+ * Índices de colunas da aba CFG_MDR (taxas contratadas por adquirente/bandeira/modalidade)
+ */
+export const CFG_MDR_COLS = {
+  ADQUIRENTE: 0,
+  BANDEIRA: 1, // vazio = todas
+  MODALIDADE: 2,
+  PARCELAS_MIN: 3,
+  PARCELAS_MAX: 4,
+  TAXA_PCT: 5, // % sobre o valor bruto
+  PRAZO_DIAS: 6, // dias corridos até o pagamento (por parcela no parcelado)
+  ATIVO: 7,
+} as const;
+
+/**
+ * Índices de colunas da aba TB_RECORRENCIAS (modelos de lançamentos recorrentes)
+ */
+export const TB_RECORRENCIAS_COLS = {
+  ID: 0,
+  DESCRICAO: 1,
+  TIPO: 2,
+  FILIAL: 3,
+  CENTRO_CUSTO: 4,
+  CONTA_GERENCIAL: 5,
+  CONTA_CONTABIL: 6,
+  CANAL: 7,
+  VALOR: 8,
+  FREQUENCIA: 9,
+  INTERVALO: 10,
+  DIA: 11,
+  DATA_INICIO: 12,
+  DATA_FIM: 13,
+  MAX_OCORRENCIAS: 14,
+  REAJUSTE_ANUAL: 15,
+  DIAS_ANTECEDENCIA: 16,
+  ATIVO: 17,
+  ULTIMA_GERACAO: 18,
+  ATUALIZADO_EM: 19,
+  OBSERVACOES: 20,
+} as const;
+
+/**
+ * Índices de colunas da aba TB_ORCAMENTO (uma linha por mês × filial × conta/linha DRE)
+ */
+export const TB_ORCAMENTO_COLS = {
+  PERIODO: 0, // yyyy-MM
+  FILIAL: 1, // vazio = sem filial (só entra no consolidado)
+  CHAVE: 2, // conta contábil ou linha da DRE (ex.: DESPESAS_OPERACIONAIS)
+  DESCRICAO: 3,
+  VALOR: 4,
+  ORIGEM: 5, // MANUAL, IMPORTACAO, COPIA_ORCADO, COPIA_REALIZADO
+  ATUALIZADO_EM: 6,
+  ATUALIZADO_POR: 7,
+} as const;
+
+/**
+ * Índices de colunas da aba TB_DFC_PROJ (uma linha por cenário × mês × grupo × origem)
+ */
+export const TB_DFC_PROJ_COLS = {
+  CENARIO: 0,
+  PERIODO: 1, // yyyy-MM
+  GRUPO: 2, // RECEITA, CUSTO_VARIAVEL, DESPESA_FIXA
+  ORIGEM: 3, // TITULOS, RECORRENCIA, HISTORICO, AJUSTE
+  VALOR: 4, // saídas negativas
+  SALDO_PROJETADO: 5, // saldo no fim do mês
+  FILIAL: 6, // vazio = consolidado
+  GERADO_EM: 7,
+} as const;
+
+/**
+ * Índices de colunas da aba CFG_CENARIOS (cenários da projeção de caixa)
+ */
+export const CFG_CENARIOS_COLS = {
+  ID: 0,
+  NOME: 1,
+  DESCRICAO: 2,
+  CHOQUE_RECEITA: 3, // % sobre recorrências e histórico
+  CHOQUE_CUSTO_VARIAVEL: 4,
+  CHOQUE_DESPESA_FIXA: 5,
+  ATIVO: 6,
+  ATUALIZADO_EM: 7,
+} as const;
+
+/**
+ * Índices de colunas da aba CFG_CENARIOS_AJUSTES (ajustes manuais por mês × grupo)
+ */
+export const CFG_CENARIOS_AJUSTES_COLS = {
+  CENARIO: 0,
+  PERIODO: 1, // yyyy-MM
+  GRUPO: 2,
+  MODO: 3, // SUBSTITUIR | SOMAR
+  VALOR: 4,
+  DESCRICAO: 5,
+} as const;
+
+/**
+ * Índices de colunas da aba CFG_DRE_LAYOUT (estrutura da DRE: uma linha por
+ * linha da DRE ou, repetindo o código, por fonte adicional da mesma linha)
+ */
+export const CFG_DRE_LAYOUT_COLS = {
+  ORDEM: 0,
+  CODIGO: 1,
+  DESCRICAO: 2,
+  TIPO: 3, // VALOR | SUBTOTAL
+  SINAL: 4, // + (soma no resultado) | - (subtrai)
+  BASE: 5, // BRUTO | LIQUIDO | DESCONTO
+  TIPO_LANCAMENTO: 6, // RECEITA | DESPESA | vazio = ambos
+  GRUPOS_DRE: 7, // lista separada por ';' (aceita '*' como curinga)
+  SUBGRUPOS_DRE: 8,
+  CLASSES_CONTA: 9, // tipo da conta, variável/fixa ou CMA/CMV
+  CONTAS: 10, // códigos (aceita prefixo com '*', ex.: 3.01.*)
+  CENTROS_CUSTO: 11,
+  FORMULA: 12, // SUBTOTAL: códigos com + e - (ex.: RECEITA_BRUTA - DEDUCOES)
+  NIVEL: 13, // 0 = linha principal, 1 = detalhe
 } as const;
 
 /**
@@ -266,6 +460,80 @@ export const REF_CAIXA_TIPOS_COLS = {
   ATIVO: 5,
 } as const;
 
+/**
+ * Índices de colunas da aba CFG_REGRAS_CONCILIACAO (classificação automática de extratos)
+ */
+export const CFG_REGRAS_CONCILIACAO_COLS = {
+  ID: 0,
+  NOME: 1,
+  PRIORIDADE: 2, // menor número = avaliada primeiro
+  OPERADOR: 3, // CONTEM | COMECA_COM | IGUAL | REGEX
+  PADRAO: 4, // comparado com o histórico sem acentos, em maiúsculas (REGEX: histórico original, flag i)
+  SENTIDO: 5, // DEBITO | CREDITO | AMBOS
+  VALOR_MIN: 6, // em módulo; vazio = sem limite
+  VALOR_MAX: 7,
+  BANCO: 8, // vazio = qualquer banco
+  TIPO_LANCAMENTO: 9, // DESPESA | RECEITA
+  CONTA_CONTABIL: 10,
+  FILIAL: 11,
+  CENTRO_CUSTO: 12,
+  DESCRICAO: 13, // vazio = usa o histórico do extrato
+  ORIGEM: 14, // MANUAL | APRENDIDA
+  ATIVO: 15,
+  ACERTOS: 16,
+  ULTIMO_ACERTO: 17,
+  ATUALIZADO_EM: 18,
+} as const;
+
+/**
+ * Índices de colunas da aba REF_FERIADOS (feriados estaduais/municipais por filial)
+ */
+export const REF_FERIADOS_COLS = {
+  DATA: 0,
+  DESCRICAO: 1,
+  ABRANGENCIA: 2, // ESTADUAL | MUNICIPAL
+  FILIAL: 3, // vazio = todas as filiais
+  RECORRENTE: 4, // TRUE = repete todo ano (mesmo dia/mês)
+  ATIVO: 5,
+} as const;
+
+/**
+ * Índices de colunas da aba REF_CONTAS_BANCARIAS (cadastro de contas correntes)
+ */
+export const REF_CONTAS_BANCARIAS_COLS = {
+  ID: 0, // apelido usado na coluna Conta de TB_EXTRATOS (ex.: ITAU_MATRIZ)
+  BANCO: 1, // código COMPE (ex.: 341)
+  AGENCIA: 2,
+  CONTA: 3, // com dígito
+  DESCRICAO: 4,
+  FILIAL: 5,
+  SALDO_INICIAL: 6,
+  DATA_SALDO_INICIAL: 7, // saldo no fim deste dia; extratos anteriores são ignorados
+  ATIVA: 8,
+  SALDO_MINIMO: 9, // vazio = sem alerta para a conta
+} as const;
+
+/**
+ * Índices de colunas da aba REF_PARCEIROS (fornecedores e clientes)
+ */
+export const REF_PARCEIROS_COLS = {
+  ID: 0, // PAR-000001
+  TIPO: 1, // FORNECEDOR | CLIENTE | AMBOS
+  DOCUMENTO: 2, // CPF/CNPJ (dígitos); vazio = só nome (ex.: fornecedor do relatório FC)
+  RAZAO_SOCIAL: 3,
+  NOME_FANTASIA: 4,
+  CONTA_CONTABIL: 5, // padrão para novos lançamentos
+  CENTRO_CUSTO: 6, // padrão para novos lançamentos
+  PRAZO_PAGAMENTO: 7, // dias após a emissão
+  BANCO: 8,
+  AGENCIA: 9,
+  CONTA: 10,
+  CHAVE_PIX: 11,
+  ATIVO: 12,
+  ORIGEM: 13, // MANUAL, FC, SIEG, NFE_XML, PIX, ...
+  CRIADO_EM: 14,
+} as const;
+
 /**
  * Índices de colunas da aba REF_PLANO_CONTAS
  */
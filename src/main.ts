@@ -6,7 +6,7 @@
  */
 
 import { include } from './services/ui-service';
-import { backupJob, installTriggers } from './services/scheduler-service';
+import { backupJob, installTriggers, dailyJob, monthlyClosing } from './services/scheduler-service';
 import { exportToPDF } from './services/reporting-service';
 import { getCurrentPeriod, Period } from './shared/types';
 import { runCompleteSetup } from './setup-sheets';
@@ -24,6 +24,34 @@ import {
   receberContasEmLote,
   cancelarContasReceberEmLote,
   salvarLancamento,
+  getRecorrencias,
+  salvarRecorrencia,
+  gerarRecorrencias,
+  criarParcelamento,
+  getParcelamento,
+  renegociarParcelamento,
+  getAgingReport,
+  atualizarVencidos,
+  getParceiros,
+  salvarParceiro,
+  getResumoParceiros,
+  vincularParceirosLancamentos,
+  getFeriados,
+  getSugestoesConciliacao,
+  conciliarGrupo,
+  criarLancamentoDeExtrato,
+  getRegrasConciliacao,
+  salvarRegraConciliacao,
+  simularRegrasConciliacao,
+  aplicarRegrasConciliacao,
+  sugerirRegraConciliacao,
+  getSaldosBancarios,
+  getSaldoDiarioConta,
+  verificarContinuidadeExtratos,
+  importarCartaoVendas,
+  importarCartaoLiquidacoes,
+  getRecebiveisCartao,
+  getConciliacaoCartoes,
   atualizarLancamento,
   getLancamentoDetalhes,
   getConciliacaoData,
@@ -33,7 +61,14 @@ import {
   conciliarAutomatico,
   importarFc,
   importarItau,
+  importarOfx,
+  previewRetornoCnab,
+  importarRetornoCnab,
   importarSieg,
+  importarNfeXml,
+  previewImportacao,
+  getLotesImportacao,
+  reverterLoteImportacao,
   importarContasPagasTxt,
   previewContasPagasTxt,
   iniciarImportacaoContasPagasTxt,
@@ -53,8 +88,21 @@ import {
   getDREMensal,
   getDREComparativo,
   getDREPorFilial,
+  getDREPonteRegimes,
+  getDREDetalheLinha,
+  getDREComparativoPadrao,
+  getOrcamento,
+  salvarOrcamento,
+  importarOrcamento,
+  copiarOrcamentoAnoAnterior,
+  getDREOrcadoRealizado,
   getFluxoCaixaMensal,
   getFluxoCaixaProjecao,
+  getCenariosFluxo,
+  salvarCenarioFluxo,
+  gravarProjecaoCenarios,
+  getPosicaoCaixaDiaria,
+  getMovimentosCaixaDia,
   getKPIsMensal,
   getCaixasConfig,
   salvarCaixasConfig,
@@ -464,6 +512,9 @@ global.setupAllSampleData = setupAllSampleData;
 global.setupBulkSampleData = setupBulkSampleData;
 global.openWebApp = openWebApp;
 global.runBackupNow = runBackupNow;
+// Handlers dos triggers instalados por installTriggers
+global.dailyJob = dailyJob;
+global.monthlyClosing = monthlyClosing;
 global.exportCurrentReportPdf = exportCurrentReportPdf;
 global.exportReportPdfForPeriod = exportReportPdfForPeriod;
 
@@ -480,6 +531,34 @@ global.receberConta = wrapApi('receberConta', receberConta);
 global.receberContasEmLote = wrapApi('receberContasEmLote', receberContasEmLote);
 global.cancelarContasReceberEmLote = wrapApi('cancelarContasReceberEmLote', cancelarContasReceberEmLote);
 global.salvarLancamento = wrapApi('salvarLancamento', salvarLancamento);
+global.getRecorrencias = wrapApi('getRecorrencias', getRecorrencias);
+global.salvarRecorrencia = wrapApi('salvarRecorrencia', salvarRecorrencia);
+global.gerarRecorrencias = wrapApi('gerarRecorrencias', gerarRecorrencias);
+global.criarParcelamento = wrapApi('criarParcelamento', criarParcelamento);
+global.getParcelamento = wrapApi('getParcelamento', getParcelamento);
+global.renegociarParcelamento = wrapApi('renegociarParcelamento', renegociarParcelamento);
+global.getAgingReport = wrapApi('getAgingReport', getAgingReport);
+global.atualizarVencidos = wrapApi('atualizarVencidos', atualizarVencidos);
+global.getParceiros = wrapApi('getParceiros', getParceiros);
+global.salvarParceiro = wrapApi('salvarParceiro', salvarParceiro);
+global.getResumoParceiros = wrapApi('getResumoParceiros', getResumoParceiros);
+global.vincularParceirosLancamentos = wrapApi('vincularParceirosLancamentos', vincularParceirosLancamentos);
+global.getFeriados = wrapApi('getFeriados', getFeriados);
+global.getSugestoesConciliacao = wrapApi('getSugestoesConciliacao', getSugestoesConciliacao);
+global.conciliarGrupo = wrapApi('conciliarGrupo', conciliarGrupo);
+global.criarLancamentoDeExtrato = wrapApi('criarLancamentoDeExtrato', criarLancamentoDeExtrato);
+global.getRegrasConciliacao = wrapApi('getRegrasConciliacao', getRegrasConciliacao);
+global.salvarRegraConciliacao = wrapApi('salvarRegraConciliacao', salvarRegraConciliacao);
+global.simularRegrasConciliacao = wrapApi('simularRegrasConciliacao', simularRegrasConciliacao);
+global.aplicarRegrasConciliacao = wrapApi('aplicarRegrasConciliacao', aplicarRegrasConciliacao);
+global.sugerirRegraConciliacao = wrapApi('sugerirRegraConciliacao', sugerirRegraConciliacao);
+global.getSaldosBancarios = wrapApi('getSaldosBancarios', getSaldosBancarios);
+global.getSaldoDiarioConta = wrapApi('getSaldoDiarioConta', getSaldoDiarioConta);
+global.verificarContinuidadeExtratos = wrapApi('verificarContinuidadeExtratos', verificarContinuidadeExtratos);
+global.importarCartaoVendas = wrapApi('importarCartaoVendas', importarCartaoVendas);
+global.importarCartaoLiquidacoes = wrapApi('importarCartaoLiquidacoes', importarCartaoLiquidacoes);
+global.getRecebiveisCartao = wrapApi('getRecebiveisCartao', getRecebiveisCartao);
+global.getConciliacaoCartoes = wrapApi('getConciliacaoCartoes', getConciliacaoCartoes);
 global.atualizarLancamento = wrapApi('atualizarLancamento', atualizarLancamento);
 global.getLancamentoDetalhes = wrapApi('getLancamentoDetalhes', getLancamentoDetalhes);
 global.getConciliacaoData = wrapApi('getConciliacaoData', getConciliacaoData);
@@ -489,7 +568,14 @@ global.desfazerConciliacao = wrapApi('desfazerConciliacao', desfazerConciliacao)
 global.conciliarAutomatico = wrapApi('conciliarAutomatico', conciliarAutomatico);
 global.importarFc = wrapApi('importarFc', importarFc);
 global.importarItau = wrapApi('importarItau', importarItau);
+global.importarOfx = wrapApi('importarOfx', importarOfx);
+global.previewRetornoCnab = wrapApi('previewRetornoCnab', previewRetornoCnab);
+global.importarRetornoCnab = wrapApi('importarRetornoCnab', importarRetornoCnab);
 global.importarSieg = wrapApi('importarSieg', importarSieg);
+global.importarNfeXml = wrapApi('importarNfeXml', importarNfeXml);
+global.previewImportacao = wrapApi('previewImportacao', previewImportacao);
+global.getLotesImportacao = wrapApi('getLotesImportacao', getLotesImportacao);
+global.reverterLoteImportacao = wrapApi('reverterLoteImportacao', reverterLoteImportacao);
 global.importarContasPagasTxt = wrapApi('importarContasPagasTxt', importarContasPagasTxt);
 global.previewContasPagasTxt = wrapApi('previewContasPagasTxt', previewContasPagasTxt);
 global.iniciarImportacaoContasPagasTxt = wrapApi('iniciarImportacaoContasPagasTxt', iniciarImportacaoContasPagasTxt);
@@ -513,10 +599,25 @@ global.toggleFilial = wrapApi('toggleFilial', toggleFilial);
 global.getDREMensal = wrapApi('getDREMensal', getDREMensal);
 global.getDREComparativo = wrapApi('getDREComparativo', getDREComparativo);
 global.getDREPorFilial = wrapApi('getDREPorFilial', getDREPorFilial);
+global.getDREPonteRegimes = wrapApi('getDREPonteRegimes', getDREPonteRegimes);
+global.getDREDetalheLinha = wrapApi('getDREDetalheLinha', getDREDetalheLinha);
+global.getDREComparativoPadrao = wrapApi('getDREComparativoPadrao', getDREComparativoPadrao);
+
+// Orçamento Functions
+global.getOrcamento = wrapApi('getOrcamento', getOrcamento);
+global.salvarOrcamento = wrapApi('salvarOrcamento', salvarOrcamento);
+global.importarOrcamento = wrapApi('importarOrcamento', importarOrcamento);
+global.copiarOrcamentoAnoAnterior = wrapApi('copiarOrcamentoAnoAnterior', copiarOrcamentoAnoAnterior);
+global.getDREOrcadoRealizado = wrapApi('getDREOrcadoRealizado', getDREOrcadoRealizado);
 
 // Fluxo de Caixa Functions
 global.getFluxoCaixaMensal = wrapApi('getFluxoCaixaMensal', getFluxoCaixaMensal);
 global.getFluxoCaixaProjecao = wrapApi('getFluxoCaixaProjecao', getFluxoCaixaProjecao);
+global.getCenariosFluxo = wrapApi('getCenariosFluxo', getCenariosFluxo);
+global.salvarCenarioFluxo = wrapApi('salvarCenarioFluxo', salvarCenarioFluxo);
+global.gravarProjecaoCenarios = wrapApi('gravarProjecaoCenarios', gravarProjecaoCenarios);
+global.getPosicaoCaixaDiaria = wrapApi('getPosicaoCaixaDiaria', getPosicaoCaixaDiaria);
+global.getMovimentosCaixaDia = wrapApi('getMovimentosCaixaDia', getMovimentosCaixaDia);
 
 // KPIs Functions
 global.getKPIsMensal = wrapApi('getKPIsMensal', getKPIsMensal);
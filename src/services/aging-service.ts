@@ -0,0 +1,280 @@
+/**
+ * aging-service.ts
+ *
+ * Vencimento de títulos e aging de contas a pagar/receber.
+ *
+ * Responsabilidades:
+ * - Marcar como VENCIDA os lançamentos PENDENTE cujo vencimento (com carência) passou
+ * - Classificar títulos em aberto por faixa de atraso (a vencer, 1–30, 31–60, 61–90, >90)
+ * - Consolidar o aging por filial, fornecedor/cliente e conta contábil
+ *
+ * IMPORTANTE:
+ * - Vencimento em dia não útil (fim de semana, feriado nacional ou local da
+ *   filial em REF_FERIADOS) é prorrogado para o próximo dia útil
+ * - A carência (CFG_CONFIG: DIAS_CARENCIA_VENCIMENTO) conta em dias úteis ou
+ *   corridos conforme CARENCIA_DIAS_UTEIS
+ * - Lançamentos conciliados nunca são marcados como vencidos
+ */
+
+import { getSheetValues } from '../shared/sheets-client';
+import { SHEET_TB_LANCAMENTOS, TB_LANCAMENTOS_COLS } from '../config/sheet-mapping';
+import { Money } from '../shared/types';
+import {
+  addBusinessDays,
+  addDays,
+  BusinessDayOptions,
+  diffDays,
+  formatDateISO,
+  getToday,
+  nextBusinessDay,
+  parseDateISO,
+} from '../shared/date-utils';
+import { roundMoney } from '../shared/money-utils';
+import { cacheRemoveNamespace, CacheNamespace, CacheScope } from '../shared/cache';
+import { ConfigService } from './config-service';
+import { getBusinessDayOptions } from './reference-data-service';
+
+// ============================================================================
+// TIPOS
+// ============================================================================
+
+/**
+ * Faixas de aging (dias de atraso sobre o vencimento efetivo)
+ */
+export enum AgingBucket {
+  A_VENCER = 'A_VENCER',
+  DIAS_1_30 = 'DIAS_1_30',
+  DIAS_31_60 = 'DIAS_31_60',
+  DIAS_61_90 = 'DIAS_61_90',
+  ACIMA_90 = 'ACIMA_90',
+}
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  [AgingBucket.A_VENCER]: 'A vencer',
+  [AgingBucket.DIAS_1_30]: '1–30 dias',
+  [AgingBucket.DIAS_31_60]: '31–60 dias',
+  [AgingBucket.DIAS_61_90]: '61–90 dias',
+  [AgingBucket.ACIMA_90]: '> 90 dias',
+};
+
+/**
+ * Título em aberto a ser classificado
+ */
+export interface AgingEntry {
+  vencimento: Date;
+  valor: Money;
+  filial: string;
+  contraparte: string; // fornecedor ou cliente
+  contaContabil: string;
+}
+
+export interface AgingCell {
+  quantidade: number;
+  valor: Money;
+}
+
+export interface AgingLine {
+  chave: string;
+  faixas: Record<AgingBucket, AgingCell>;
+  total: AgingCell;
+}
+
+export interface AgingReport {
+  dataBase: string; // yyyy-MM-dd
+  faixas: Record<AgingBucket, AgingCell>;
+  total: AgingCell;
+  porFilial: AgingLine[];
+  porContraparte: AgingLine[];
+  porContaContabil: AgingLine[];
+}
+
+/**
+ * Resultado da atualização de vencidos
+ */
+export interface OverdueUpdateResult {
+  verificados: number;
+  vencidos: number;
+  ids: string[];
+}
+
+// ============================================================================
+// CALENDÁRIO
+// ============================================================================
+
+/**
+ * Calendário por filial, memoizado durante uma execução
+ */
+function calendarResolver(): (filial: string) => BusinessDayOptions {
+  const byBranch = new Map<string, BusinessDayOptions>();
+  return (filial: string) => {
+    const key = String(filial || '').trim();
+    let options = byBranch.get(key);
+    if (!options) {
+      options = getBusinessDayOptions(key || null);
+      byBranch.set(key, options);
+    }
+    return options;
+  };
+}
+
+/**
+ * Vencimento efetivo: prorrogado para o próximo dia útil
+ */
+export function effectiveDueDate(vencimento: Date, calendar: BusinessDayOptions = getBusinessDayOptions()): Date {
+  return nextBusinessDay(vencimento, calendar);
+}
+
+/**
+ * Último dia em que o título ainda não é considerado vencido (vencimento + carência)
+ */
+export function overdueDeadline(
+  vencimento: Date,
+  calendar: BusinessDayOptions = getBusinessDayOptions(),
+  carencia: number = ConfigService.getDiasCarenciaVencimento(),
+  diasUteis: boolean = ConfigService.isCarenciaEmDiasUteis()
+): Date {
+  const efetivo = effectiveDueDate(vencimento, calendar);
+  const dias = Math.max(0, Math.floor(Number(carencia) || 0));
+  return diasUteis ? addBusinessDays(efetivo, dias, calendar) : addDays(efetivo, dias);
+}
+
+// ============================================================================
+// AGING
+// ============================================================================
+
+/**
+ * Faixa de aging de um vencimento na data-base
+ */
+export function agingBucketFor(
+  vencimento: Date,
+  dataBase: Date = getToday(),
+  calendar: BusinessDayOptions = getBusinessDayOptions()
+): AgingBucket {
+  const atraso = diffDays(effectiveDueDate(vencimento, calendar), dataBase);
+  if (atraso <= 0) return AgingBucket.A_VENCER;
+  if (atraso <= 30) return AgingBucket.DIAS_1_30;
+  if (atraso <= 60) return AgingBucket.DIAS_31_60;
+  if (atraso <= 90) return AgingBucket.DIAS_61_90;
+  return AgingBucket.ACIMA_90;
+}
+
+function emptyFaixas(): Record<AgingBucket, AgingCell> {
+  const faixas = {} as Record<AgingBucket, AgingCell>;
+  for (const bucket of Object.values(AgingBucket)) {
+    faixas[bucket] = { quantidade: 0, valor: 0 };
+  }
+  return faixas;
+}
+
+function addToCell(cell: AgingCell, valor: Money): void {
+  cell.quantidade++;
+  cell.valor = roundMoney(cell.valor + valor);
+}
+
+function groupLines(
+  entries: Array<{ entry: AgingEntry; bucket: AgingBucket }>,
+  keyOf: (entry: AgingEntry) => string
+): AgingLine[] {
+  const lines = new Map<string, AgingLine>();
+  for (const { entry, bucket } of entries) {
+    const chave = String(keyOf(entry) || '').trim() || '(sem informação)';
+    let line = lines.get(chave);
+    if (!line) {
+      line = { chave, faixas: emptyFaixas(), total: { quantidade: 0, valor: 0 } };
+      lines.set(chave, line);
+    }
+    addToCell(line.faixas[bucket], entry.valor);
+    addToCell(line.total, entry.valor);
+  }
+  return Array.from(lines.values()).sort((a, b) => b.total.valor - a.total.valor);
+}
+
+/**
+ * Monta o aging dos títulos em aberto informados
+ */
+export function buildAgingReport(entries: AgingEntry[], dataBase: Date = getToday()): AgingReport {
+  const faixas = emptyFaixas();
+  const total: AgingCell = { quantidade: 0, valor: 0 };
+  const calendarOf = calendarResolver();
+  const classified = entries.map((entry) => ({
+    entry,
+    bucket: agingBucketFor(entry.vencimento, dataBase, calendarOf(entry.filial)),
+  }));
+
+  for (const { entry, bucket } of classified) {
+    addToCell(faixas[bucket], entry.valor);
+    addToCell(total, entry.valor);
+  }
+
+  return {
+    dataBase: formatDateISO(dataBase),
+    faixas,
+    total,
+    porFilial: groupLines(classified, (e) => e.filial),
+    porContraparte: groupLines(classified, (e) => e.contraparte),
+    porContaContabil: groupLines(classified, (e) => e.contaContabil),
+  };
+}
+
+// ============================================================================
+// ATUALIZAÇÃO DE STATUS
+// ============================================================================
+
+function toDate(value: any): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : new Date(value.getFullYear(), value.getMonth(), value.getDate());
+  }
+  const str = String(value || '').trim();
+  return str ? parseDateISO(str.slice(0, 10)) : null;
+}
+
+/**
+ * Marca como VENCIDA os lançamentos PENDENTE (não conciliados) cujo
+ * vencimento efetivo + carência já passou. Chamado pelo dailyJob.
+ */
+export function markOverdueEntries(today: Date = getToday()): OverdueUpdateResult {
+  const carencia = ConfigService.getDiasCarenciaVencimento();
+  const diasUteis = ConfigService.isCarenciaEmDiasUteis();
+  const calendarOf = calendarResolver();
+  const result: OverdueUpdateResult = { verificados: 0, vencidos: 0, ids: [] };
+
+  const lock = LockService.getDocumentLock();
+  lock.waitLock(10000);
+  try {
+    const values = getSheetValues(SHEET_TB_LANCAMENTOS, { skipHeader: true });
+    if (!values.length) return result;
+
+    const C = TB_LANCAMENTOS_COLS;
+    const statusColumn = values.map((row) => [row[C.STATUS]]);
+
+    values.forEach((row, idx) => {
+      if (String(row[C.STATUS] || '').trim().toUpperCase() !== 'PENDENTE') return;
+      if (String(row[C.ID_EXTRATO_BANCO] || '').trim()) return;
+      const vencimento = toDate(row[C.DATA_VENCIMENTO]);
+      if (!vencimento) return;
+
+      result.verificados++;
+      const calendar = calendarOf(String(row[C.FILIAL] || ''));
+      if (overdueDeadline(vencimento, calendar, carencia, diasUteis).getTime() >= today.getTime()) return;
+
+      statusColumn[idx][0] = 'VENCIDA';
+      result.vencidos++;
+      result.ids.push(String(row[C.ID] || ''));
+    });
+
+    if (result.vencidos) {
+      const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(SHEET_TB_LANCAMENTOS);
+      if (!sheet) throw new Error(`Aba "${SHEET_TB_LANCAMENTOS}" não encontrada`);
+      sheet.getRange(2, C.STATUS + 1, statusColumn.length, 1).setValues(statusColumn);
+
+      cacheRemoveNamespace(CacheNamespace.LANCAMENTOS, CacheScope.SCRIPT);
+      cacheRemoveNamespace(CacheNamespace.DASHBOARD, CacheScope.SCRIPT);
+    }
+  } finally {
+    try {
+      lock.releaseLock();
+    } catch (_) {}
+  }
+
+  return result;
+}
@@ -0,0 +1,334 @@
+/**
+ * bank-balance-service.ts
+ *
+ * Saldos bancários por conta a partir dos extratos (TB_EXTRATOS).
+ *
+ * Responsabilidades:
+ * - Associar cada linha de extrato a uma conta de REF_CONTAS_BANCARIAS
+ * - Calcular saldo diário por conta (saldo inicial do cadastro + movimentos)
+ * - Verificar a continuidade do saldo informado pelo banco (saldoApos),
+ *   apontando lacunas (importação faltando) e duplicidades
+ *
+ * IMPORTANTE:
+ * - O saldo inicial vale para o fim de DATA_SALDO_INICIAL; movimentos até
+ *   essa data (inclusive) já estão nele e são ignorados
+ * - Linhas cuja conta não é reconhecida ficam fora dos saldos e são contadas
+ *   em naoIdentificados
+ * - Dentro do mesmo dia a ordem das linhas pode divergir da ordem do banco;
+ *   a quebra só é apontada se o saldo de fechamento do dia também não bate
+ */
+
+import { getSheetValues } from '../shared/sheets-client';
+import { Sheets, TB_EXTRATOS_COLS } from '../config/sheet-mapping';
+import { BankAccount, BranchId, Money } from '../shared/types';
+import { formatDateISO, getToday, parseDate, parseDateISO } from '../shared/date-utils';
+import { moneyEquals, roundMoney } from '../shared/money-utils';
+import { findBankAccount, getActiveBankAccounts, getBankAccountById } from './reference-data-service';
+
+// ============================================================================
+// TIPOS
+// ============================================================================
+
+/**
+ * Saldo de um dia com movimento
+ */
+export interface DailyBalance {
+  data: string; // yyyy-MM-dd
+  saldoInicial: Money;
+  entradas: Money;
+  saidas: Money; // negativo
+  saldoFinal: Money;
+  saldoExtrato: Money | null; // último saldoApos informado no dia
+  movimentos: number;
+}
+
+/**
+ * Saldo de uma conta na data-base
+ */
+export interface BankAccountBalance {
+  contaId: string;
+  descricao: string;
+  banco: string;
+  agencia: string;
+  conta: string;
+  filial: BranchId;
+  dataBase: string; // yyyy-MM-dd
+  saldo: Money; // calculado: saldo inicial + movimentos
+  saldoExtrato: Money | null; // último saldoApos até a data-base
+  ultimoMovimento: string | null;
+}
+
+/**
+ * Quebra de continuidade: saldoApos diferente de saldo anterior + valor
+ */
+export interface ContinuityIssue {
+  contaId: string;
+  extratoId: string;
+  data: string;
+  descricao: string;
+  valor: Money;
+  saldoAnterior: Money;
+  saldoEsperado: Money;
+  saldoInformado: Money;
+  diferenca: Money; // informado - esperado
+  provavelCausa: 'LACUNA' | 'DUPLICIDADE';
+}
+
+export interface ContinuityReport {
+  contas: number;
+  verificados: number; // linhas com saldoApos conferido
+  naoIdentificados: number; // linhas sem conta cadastrada correspondente
+  issues: ContinuityIssue[];
+}
+
+/**
+ * Linha de extrato já associada a uma conta cadastrada
+ */
+interface StatementLine {
+  id: string;
+  data: Date;
+  descricao: string;
+  valor: Money;
+  saldoApos: Money | null;
+  seq: number; // ordem na planilha (desempate dentro do dia)
+}
+
+// ============================================================================
+// LEITURA DOS EXTRATOS
+// ============================================================================
+
+function toDate(value: any): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : new Date(value.getFullYear(), value.getMonth(), value.getDate());
+  }
+  const str = String(value || '').trim();
+  return /^\d{4}-\d{2}-\d{2}/.test(str) ? parseDateISO(str.slice(0, 10)) : parseDate(str);
+}
+
+function toMoneyOrNull(value: any): Money | null {
+  if (value === '' || value === null || value === undefined) return null;
+  const num = parseFloat(value);
+  return isNaN(num) ? null : num;
+}
+
+/**
+ * Agrupa as linhas de TB_EXTRATOS por conta cadastrada, em ordem cronológica
+ */
+function loadStatementLines(): { byAccount: Map<string, StatementLine[]>; naoIdentificados: number } {
+  const byAccount = new Map<string, StatementLine[]>();
+  const resolved = new Map<string, BankAccount | null>();
+  let naoIdentificados = 0;
+
+  getSheetValues(Sheets.TB_EXTRATOS, { skipHeader: true }).forEach((row, idx) => {
+    const id = String(row[TB_EXTRATOS_COLS.ID] || '').trim();
+    const data = toDate(row[TB_EXTRATOS_COLS.DATA]);
+    if (!id || !data) return;
+
+    const contaText = String(row[TB_EXTRATOS_COLS.CONTA] || '').trim();
+    const banco = String(row[TB_EXTRATOS_COLS.BANCO] || '').trim();
+    const key = `${banco}|${contaText}`;
+    if (!resolved.has(key)) resolved.set(key, findBankAccount(contaText, banco));
+    const account = resolved.get(key);
+    if (!account) {
+      naoIdentificados++;
+      return;
+    }
+    if (account.dataSaldoInicial && data.getTime() <= account.dataSaldoInicial.getTime()) return;
+
+    const lines = byAccount.get(account.id) || [];
+    lines.push({
+      id,
+      data,
+      descricao: String(row[TB_EXTRATOS_COLS.DESCRICAO] || ''),
+      valor: parseFloat(row[TB_EXTRATOS_COLS.VALOR]) || 0,
+      saldoApos: toMoneyOrNull(row[TB_EXTRATOS_COLS.SALDO_APOS]),
+      seq: idx,
+    });
+    byAccount.set(account.id, lines);
+  });
+
+  byAccount.forEach((lines) => lines.sort((a, b) => a.data.getTime() - b.data.getTime() || a.seq - b.seq));
+  return { byAccount, naoIdentificados };
+}
+
+/**
+ * Agrupa linhas já ordenadas por dia
+ */
+function groupByDay(lines: StatementLine[]): Array<{ data: string; lines: StatementLine[] }> {
+  const days: Array<{ data: string; lines: StatementLine[] }> = [];
+  for (const line of lines) {
+    const data = formatDateISO(line.data);
+    const last = days[days.length - 1];
+    if (last && last.data === data) last.lines.push(line);
+    else days.push({ data, lines: [line] });
+  }
+  return days;
+}
+
+// ============================================================================
+// SALDOS
+// ============================================================================
+
+/**
+ * Saldo diário de uma conta (apenas dias com movimento)
+ *
+ * @param contaId - ID da conta em REF_CONTAS_BANCARIAS
+ * @param inicio - Primeiro dia a listar (saldos anteriores entram no saldo inicial)
+ * @param fim - Último dia a listar
+ */
+export function getDailyBalances(contaId: string, inicio?: Date | null, fim?: Date | null): DailyBalance[] {
+  const account = getBankAccountById(contaId);
+  if (!account) throw new Error(`Conta bancária não cadastrada: ${contaId}`);
+
+  const lines = loadStatementLines().byAccount.get(account.id) || [];
+  const inicioISO = inicio ? formatDateISO(inicio) : '';
+  const fimISO = fim ? formatDateISO(fim) : '';
+  const result: DailyBalance[] = [];
+  let saldo = account.saldoInicial;
+
+  for (const day of groupByDay(lines)) {
+    if (fimISO && day.data > fimISO) break;
+
+    let entradas = 0;
+    let saidas = 0;
+    let saldoExtrato: Money | null = null;
+    for (const line of day.lines) {
+      if (line.valor >= 0) entradas += line.valor;
+      else saidas += line.valor;
+      if (line.saldoApos !== null) saldoExtrato = line.saldoApos;
+    }
+
+    const saldoInicial = saldo;
+    saldo = roundMoney(saldo + entradas + saidas);
+    if (inicioISO && day.data < inicioISO) continue;
+
+    result.push({
+      data: day.data,
+      saldoInicial,
+      entradas: roundMoney(entradas),
+      saidas: roundMoney(saidas),
+      saldoFinal: saldo,
+      saldoExtrato,
+      movimentos: day.lines.length,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Saldo de cada conta ativa no fim da data-base
+ *
+ * @param dataBase - Data de referência (padrão: hoje)
+ * @param filial - Filtra contas da filial (null = todas)
+ */
+export function getBankBalances(dataBase: Date = getToday(), filial: BranchId | null = null): BankAccountBalance[] {
+  const accounts = getActiveBankAccounts().filter((a) => !filial || a.filial === filial);
+  if (!accounts.length) return [];
+
+  const { byAccount } = loadStatementLines();
+  const limite = dataBase.getTime();
+
+  return accounts.map((account) => {
+    let saldo = account.saldoInicial;
+    let saldoExtrato: Money | null = null;
+    let ultimoMovimento: Date | null = null;
+
+    for (const line of byAccount.get(account.id) || []) {
+      if (line.data.getTime() > limite) break;
+      saldo += line.valor;
+      if (line.saldoApos !== null) saldoExtrato = line.saldoApos;
+      ultimoMovimento = line.data;
+    }
+
+    return {
+      contaId: account.id,
+      descricao: account.descricao,
+      banco: account.banco,
+      agencia: account.agencia,
+      conta: account.conta,
+      filial: account.filial,
+      dataBase: formatDateISO(dataBase),
+      saldo: roundMoney(saldo),
+      saldoExtrato,
+      ultimoMovimento: ultimoMovimento ? formatDateISO(ultimoMovimento) : null,
+    };
+  });
+}
+
+// ============================================================================
+// CONTINUIDADE
+// ============================================================================
+
+/**
+ * Confere, linha a linha, se saldoApos = saldo anterior + valor
+ *
+ * O saldo anterior da primeira linha é o saldo inicial do cadastro (quando há
+ * DATA_SALDO_INICIAL) ou o saldoApos da própria linha. Após uma quebra, a
+ * conferência recomeça do saldo informado, para não propagar o erro.
+ *
+ * Diferença igual a -valor indica linha importada duas vezes (o saldo não
+ * andou); qualquer outra diferença indica movimento faltando.
+ *
+ * @param contaId - Confere apenas esta conta (padrão: todas as ativas)
+ */
+export function checkStatementContinuity(contaId?: string | null): ContinuityReport {
+  const accounts = contaId
+    ? [getBankAccountById(contaId)].filter((a): a is BankAccount => !!a)
+    : getActiveBankAccounts();
+  if (contaId && !accounts.length) throw new Error(`Conta bancária não cadastrada: ${contaId}`);
+
+  const { byAccount, naoIdentificados } = loadStatementLines();
+  const report: ContinuityReport = { contas: accounts.length, verificados: 0, naoIdentificados, issues: [] };
+
+  for (const account of accounts) {
+    let saldo: Money | null = account.dataSaldoInicial ? account.saldoInicial : null;
+
+    for (const day of groupByDay(byAccount.get(account.id) || [])) {
+      const abertura = saldo;
+      const dayIssues: ContinuityIssue[] = [];
+
+      for (const line of day.lines) {
+        if (line.saldoApos === null) {
+          saldo = saldo === null ? null : roundMoney(saldo + line.valor);
+          continue;
+        }
+        if (saldo === null) {
+          saldo = line.saldoApos;
+          continue;
+        }
+
+        report.verificados++;
+        const esperado = roundMoney(saldo + line.valor);
+        if (!moneyEquals(esperado, line.saldoApos)) {
+          const diferenca = roundMoney(line.saldoApos - esperado);
+          dayIssues.push({
+            contaId: account.id,
+            extratoId: line.id,
+            data: day.data,
+            descricao: line.descricao,
+            valor: line.valor,
+            saldoAnterior: saldo,
+            saldoEsperado: esperado,
+            saldoInformado: line.saldoApos,
+            diferenca,
+            provavelCausa: line.valor !== 0 && moneyEquals(diferenca, -line.valor) ? 'DUPLICIDADE' : 'LACUNA',
+          });
+        }
+        saldo = line.saldoApos;
+      }
+
+      // Ordem intradiária diferente da do banco: o fechamento do dia ainda bate
+      if (dayIssues.length && abertura !== null) {
+        const fechamento = roundMoney(day.lines.reduce((sum, line) => sum + line.valor, abertura));
+        if (day.lines.some((line) => line.saldoApos !== null && moneyEquals(line.saldoApos, fechamento))) {
+          saldo = fechamento;
+          continue;
+        }
+      }
+      report.issues.push(...dayIssues);
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,710 @@
+/**
+ * budget-service.ts
+ *
+ * Orçamento anual (TB_ORCAMENTO) e DRE orçado x realizado.
+ *
+ * Responsabilidades:
+ * - Ler/gravar o orçamento por mês × filial × conta contábil (ou linha da DRE)
+ * - Importar o orçamento anual de CSV (uma coluna por mês ou uma linha por mês)
+ * - Gerar o orçamento a partir do ano anterior (orçado ou realizado) + X%
+ * - Comparar com o realizado por linha da DRE: variação absoluta e %, no mês,
+ *   no acumulado do ano e na projeção do ano (realizado acumulado + orçamento
+ *   dos meses restantes)
+ *
+ * IMPORTANTE:
+ * - Valores são gravados como aparecem na DRE: receitas, deduções, custos e
+ *   despesas positivos. Contas financeiras entram em RESULTADO_FINANCEIRO com
+ *   sinal pelo tipo da conta (despesa subtrai); a chave RESULTADO_FINANCEIRO
+ *   direta aceita o valor já com sinal
+ * - A conta contábil é classificada pela estrutura da DRE (CFG_DRE_LAYOUT) como
+ *   um lançamento da conta, e a linha em que cai é levada à linha orçável que a
+ *   contém (ex.: DESP_PESSOAL entra em DESPESAS_OPERACIONAIS)
+ * - Linhas exibidas, descrições e subtotais do orçado x realizado também vêm
+ *   da estrutura da DRE
+ * - Filial vazia = orçamento sem filial; só entra na visão consolidada
+ * - Funções de gravação devem rodar com o lock já obtido
+ */
+
+import { getSheetValues, setSheetValues, clearRange, createSheetIfNotExists } from '../shared/sheets-client';
+import { SHEET_TB_ORCAMENTO, TB_ORCAMENTO_COLS } from '../config/sheet-mapping';
+import { AccountType, Money } from '../shared/types';
+import { formatDateISO } from '../shared/date-utils';
+import { parseMoney, roundMoney } from '../shared/money-utils';
+import { getAccountByCode } from './reference-data-service';
+import { classifyDREEntry, dreLineWeights, getDRELayout, DRELayout, DRELayoutLineType } from './dre-layout-service';
+
+// ============================================================================
+// TIPOS
+// ============================================================================
+
+/**
+ * Linhas da DRE que recebem orçamento (as demais são calculadas)
+ */
+export const BUDGET_LINES = [
+  'RECEITA_BRUTA',
+  'DEDUCOES',
+  'CUSTOS',
+  'DESPESAS_OPERACIONAIS',
+  'RESULTADO_FINANCEIRO',
+] as const;
+
+export type BudgetLine = (typeof BUDGET_LINES)[number];
+
+export type DreLineValues = Record<BudgetLine, Money>;
+
+export type BudgetOrigin = 'MANUAL' | 'IMPORTACAO' | 'COPIA_ORCADO' | 'COPIA_REALIZADO';
+
+/**
+ * Linha gravada em TB_ORCAMENTO
+ */
+export interface BudgetEntry {
+  periodo: string; // yyyy-MM
+  filial: string;
+  chave: string; // conta contábil ou linha da DRE
+  descricao: string;
+  valor: Money;
+  origem: string;
+  atualizadoEm: string;
+  atualizadoPor: string;
+}
+
+/**
+ * Valor a gravar (valor 0 remove a linha existente)
+ */
+export interface BudgetInput {
+  periodo: string;
+  filial: string;
+  chave: string;
+  descricao?: string;
+  valor: Money;
+}
+
+/**
+ * Orçamento de uma conta/linha no ano, um valor por mês
+ */
+export interface BudgetGridRow {
+  filial: string;
+  chave: string;
+  descricao: string;
+  linha: BudgetLine | null; // null = chave não classificada
+  valores: Money[]; // 12 posições (jan..dez)
+  total: Money;
+}
+
+export interface VarianceCell {
+  orcado: Money;
+  realizado: Money;
+  variacao: Money; // realizado - orçado
+  variacaoPct: number | null; // null = sem orçamento
+  favoravel: boolean;
+}
+
+export interface BudgetVarianceLine {
+  linha: string;
+  descricao: string;
+  calculada: boolean; // subtotal (receita líquida, margem, EBITDA, lucro)
+  mes: VarianceCell;
+  acumulado: VarianceCell;
+  ano: {
+    orcado: Money;
+    projecao: Money; // realizado acumulado + orçamento dos meses restantes
+    variacao: Money; // projeção - orçado
+    variacaoPct: number | null;
+    favoravel: boolean;
+  };
+}
+
+export interface BudgetVarianceReport {
+  ano: number;
+  mes: number;
+  linhas: BudgetVarianceLine[];
+}
+
+export interface BudgetSaveResult {
+  gravados: number;
+  removidos: number;
+}
+
+export const BUDGET_HEADERS = [
+  'Período', 'Filial', 'Conta/Linha DRE', 'Descrição', 'Valor', 'Origem', 'Atualizado Em', 'Atualizado Por',
+];
+
+/**
+ * Nomes aceitos como chave de linha (além das próprias BUDGET_LINES)
+ */
+const LINE_ALIASES: Record<string, BudgetLine> = {
+  RECEITA: 'RECEITA_BRUTA',
+  DEDUCAO: 'DEDUCOES',
+  CUSTO: 'CUSTOS',
+  CMV: 'CUSTOS',
+  CMV_CSP: 'CUSTOS',
+  DESPESAS: 'DESPESAS_OPERACIONAIS',
+  DESPESA_OPERACIONAL: 'DESPESAS_OPERACIONAIS',
+  FINANCEIRO: 'RESULTADO_FINANCEIRO',
+};
+
+const MONTH_ABBR = ['JAN', 'FEV', 'MAR', 'ABR', 'MAI', 'JUN', 'JUL', 'AGO', 'SET', 'OUT', 'NOV', 'DEZ'];
+
+// ============================================================================
+// CLASSIFICAÇÃO
+// ============================================================================
+
+function normalizeLabel(value: any): string {
+  return String(value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toUpperCase()
+    .replace(/[\s/-]+/g, '_');
+}
+
+function isBudgetLine(codigo: string): codigo is BudgetLine {
+  return (BUDGET_LINES as readonly string[]).includes(codigo);
+}
+
+function lineFromAlias(value: any): BudgetLine | null {
+  const key = normalizeLabel(value);
+  if (isBudgetLine(key)) return key;
+  return LINE_ALIASES[key] || null;
+}
+
+/**
+ * Linha da DRE (e sinal) de uma chave do orçamento
+ *
+ * A conta é classificada na estrutura da DRE como um lançamento do seu tipo;
+ * o sinal é o peso da linha de destino na linha orçável (despesa financeira
+ * subtrai do resultado financeiro, por exemplo).
+ *
+ * @param layout - Estrutura da DRE (padrão: getDRELayout), para chamadas em lote
+ * @returns null quando a chave não é conta do plano nem linha conhecida, ou
+ *   quando a conta cai fora das linhas orçáveis da estrutura
+ */
+export function resolveBudgetLine(
+  chave: string,
+  layout: DRELayout = getDRELayout()
+): { linha: BudgetLine; sinal: 1 | -1 } | null {
+  const codigo = String(chave || '').trim();
+  if (!codigo) return null;
+
+  const account = getAccountByCode(codigo);
+  if (!account) {
+    const linha = lineFromAlias(codigo);
+    return linha ? { linha, sinal: 1 } : null;
+  }
+
+  const tipo = String(account.tipo || '').toUpperCase() === AccountType.RECEITA ? 'RECEITA' : 'DESPESA';
+  const classificacao = classifyDREEntry(
+    layout,
+    { tipo, valorBruto: 1, desconto: 0, valorLiquido: 1, contaContabil: codigo },
+    account
+  );
+  if (!classificacao.principal) return null;
+
+  for (const linha of BUDGET_LINES) {
+    const peso = dreLineWeights(layout.linhas, linha).get(classificacao.principal);
+    if (peso) return { linha, sinal: peso * classificacao.valorPrincipal > 0 ? 1 : -1 };
+  }
+  return null;
+}
+
+/**
+ * Chave como deve ser gravada: código da conta ou nome canônico da linha
+ */
+export function canonicalBudgetKey(chave: string): string {
+  const codigo = String(chave || '').trim();
+  if (!codigo || getAccountByCode(codigo)) return codigo;
+  return lineFromAlias(codigo) || codigo;
+}
+
+export function emptyDreLineValues(): DreLineValues {
+  return { RECEITA_BRUTA: 0, DEDUCOES: 0, CUSTOS: 0, DESPESAS_OPERACIONAIS: 0, RESULTADO_FINANCEIRO: 0 };
+}
+
+/**
+ * Valores das linhas orçáveis a partir do retorno de getDREMensal
+ */
+export function dreLineValuesFromMensal(dre: any): DreLineValues {
+  const v = dre?.valores || {};
+  return {
+    RECEITA_BRUTA: Number(v.receitaBruta) || 0,
+    DEDUCOES: Number(v.deducoes) || 0,
+    CUSTOS: Number(v.custos) || 0,
+    DESPESAS_OPERACIONAIS: Number(v.despesasOperacionais?.total) || 0,
+    RESULTADO_FINANCEIRO: Number(v.resultadoFinanceiro) || 0,
+  };
+}
+
+/**
+ * Linhas orçáveis + subtotais pelas fórmulas da estrutura da DRE
+ *
+ * Linhas orçáveis usam o próprio valor mesmo quando são subtotal na estrutura
+ * (DESPESAS_OPERACIONAIS); linhas VALOR fora do orçamento valem 0.
+ */
+function withSubtotals(v: DreLineValues, layout: DRELayout): Record<string, Money> {
+  const porCodigo = new Map(layout.linhas.map((l) => [l.codigo, l]));
+  const valores: Record<string, Money> = { ...v };
+  const valorDe = (codigo: string): Money => {
+    if (valores[codigo] !== undefined) return valores[codigo];
+    const linha = porCodigo.get(codigo);
+    valores[codigo] =
+      linha?.tipo === DRELayoutLineType.SUBTOTAL
+        ? linha.formula.reduce((acc, termo) => acc + termo.sinal * valorDe(termo.codigo), 0)
+        : 0;
+    return valores[codigo];
+  };
+  layout.linhas.forEach((linha) => valorDe(linha.codigo));
+  return valores;
+}
+
+/**
+ * Linhas do orçado x realizado: as orçáveis e os subtotais, na ordem e com a
+ * descrição da estrutura. Linha exibida com sinal negativo (deduções, custos,
+ * despesas) é custo: variação positiva é desfavorável
+ */
+function varianceLayout(layout: DRELayout): Array<{ linha: string; descricao: string; custo: boolean; calculada: boolean }> {
+  return layout.linhas
+    .filter((l) => isBudgetLine(l.codigo) || l.tipo === DRELayoutLineType.SUBTOTAL)
+    .map((l) => ({
+      linha: l.codigo,
+      descricao: l.descricao,
+      custo: l.sinal === -1,
+      calculada: !isBudgetLine(l.codigo),
+    }));
+}
+
+function sumLineValues(values: DreLineValues[]): DreLineValues {
+  const total = emptyDreLineValues();
+  values.forEach((v) => {
+    BUDGET_LINES.forEach((linha) => {
+      total[linha] += v[linha] || 0;
+    });
+  });
+  return total;
+}
+
+// ============================================================================
+// LEITURA / GRAVAÇÃO
+// ============================================================================
+
+function pad2(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+/**
+ * Período yyyy-MM a partir de célula (Date, "2025-01", "01/2025")
+ */
+export function normalizeBudgetPeriod(value: any): string {
+  if (value instanceof Date) return isNaN(value.getTime()) ? '' : formatDateISO(value).slice(0, 7);
+  const str = String(value ?? '').trim();
+  let match = /^(\d{4})-(\d{1,2})/.exec(str);
+  if (match) return `${match[1]}-${pad2(Number(match[2]))}`;
+  match = /^(\d{1,2})\/(\d{4})$/.exec(str);
+  if (match) return `${match[2]}-${pad2(Number(match[1]))}`;
+  return '';
+}
+
+function isValidPeriod(periodo: string): boolean {
+  const match = /^(\d{4})-(\d{2})$/.exec(periodo);
+  return Boolean(match) && Number(match![2]) >= 1 && Number(match![2]) <= 12;
+}
+
+function entryKey(periodo: string, filial: string, chave: string): string {
+  return `${periodo}|${filial.toUpperCase()}|${chave.toUpperCase()}`;
+}
+
+function rowToBudgetEntry(row: any[]): BudgetEntry | null {
+  const C = TB_ORCAMENTO_COLS;
+  const periodo = normalizeBudgetPeriod(row[C.PERIODO]);
+  const chave = String(row[C.CHAVE] ?? '').trim();
+  if (!periodo || !chave) return null;
+  return {
+    periodo,
+    filial: String(row[C.FILIAL] ?? '').trim(),
+    chave,
+    descricao: String(row[C.DESCRICAO] ?? '').trim(),
+    valor: parseMoney(row[C.VALOR]),
+    origem: String(row[C.ORIGEM] ?? '').trim(),
+    atualizadoEm: String(row[C.ATUALIZADO_EM] ?? ''),
+    atualizadoPor: String(row[C.ATUALIZADO_POR] ?? ''),
+  };
+}
+
+function budgetEntryToRow(entry: BudgetEntry): any[] {
+  const C = TB_ORCAMENTO_COLS;
+  const row = new Array(BUDGET_HEADERS.length).fill('');
+  row[C.PERIODO] = entry.periodo;
+  row[C.FILIAL] = entry.filial;
+  row[C.CHAVE] = entry.chave;
+  row[C.DESCRICAO] = entry.descricao;
+  row[C.VALOR] = entry.valor;
+  row[C.ORIGEM] = entry.origem;
+  row[C.ATUALIZADO_EM] = entry.atualizadoEm;
+  row[C.ATUALIZADO_POR] = entry.atualizadoPor;
+  return row;
+}
+
+/**
+ * Todas as linhas de TB_ORCAMENTO (cria a aba se não existir)
+ */
+export function loadBudgetEntries(): BudgetEntry[] {
+  createSheetIfNotExists(SHEET_TB_ORCAMENTO, BUDGET_HEADERS);
+  return getSheetValues(SHEET_TB_ORCAMENTO, { skipHeader: true })
+    .map((row) => (row ? rowToBudgetEntry(row) : null))
+    .filter((entry): entry is BudgetEntry => entry !== null);
+}
+
+/**
+ * Grava valores no orçamento (upsert por período × filial × chave)
+ *
+ * Reescreve a aba inteira, ordenada por período, filial e chave.
+ *
+ * @param options.substituirAno - remove antes o orçamento desse ano
+ *   (só da filial informada em options.filial, se houver)
+ */
+export function saveBudgetEntries(
+  inputs: BudgetInput[],
+  origem: BudgetOrigin,
+  usuario: string,
+  options: { substituirAno?: number; filial?: string } = {}
+): BudgetSaveResult {
+  const atuais = loadBudgetEntries();
+  const porChave = new Map<string, BudgetEntry>();
+  let removidos = 0;
+
+  const prefixoAno = options.substituirAno ? `${options.substituirAno}-` : null;
+  const filialSubstituir = options.filial !== undefined ? String(options.filial).trim().toUpperCase() : null;
+  atuais.forEach((entry) => {
+    const substituir =
+      prefixoAno !== null &&
+      entry.periodo.startsWith(prefixoAno) &&
+      (filialSubstituir === null || entry.filial.toUpperCase() === filialSubstituir);
+    if (substituir) {
+      removidos++;
+      return;
+    }
+    porChave.set(entryKey(entry.periodo, entry.filial, entry.chave), entry);
+  });
+
+  const agora = new Date().toISOString();
+  let gravados = 0;
+  inputs.forEach((input) => {
+    const key = entryKey(input.periodo, input.filial, input.chave);
+    const valor = roundMoney(Number(input.valor) || 0);
+    if (valor === 0) {
+      if (porChave.delete(key)) removidos++;
+      return;
+    }
+    const anterior = porChave.get(key);
+    porChave.set(key, {
+      periodo: input.periodo,
+      filial: input.filial,
+      chave: input.chave,
+      descricao: String(input.descricao || anterior?.descricao || '').trim(),
+      valor,
+      origem,
+      atualizadoEm: agora,
+      atualizadoPor: usuario,
+    });
+    gravados++;
+  });
+
+  const rows = Array.from(porChave.values())
+    .sort((a, b) =>
+      a.periodo.localeCompare(b.periodo) || a.filial.localeCompare(b.filial) || a.chave.localeCompare(b.chave)
+    )
+    .map(budgetEntryToRow);
+
+  clearRange(SHEET_TB_ORCAMENTO, 'A2:H');
+  if (rows.length) setSheetValues(SHEET_TB_ORCAMENTO, `A2:H${rows.length + 1}`, rows);
+
+  return { gravados, removidos };
+}
+
+/**
+ * Valida e normaliza valores informados pela tela/API
+ */
+export function parseBudgetInputs(inputs: any[]): { linhas: BudgetInput[]; erros: string[] } {
+  const linhas: BudgetInput[] = [];
+  const erros: string[] = [];
+  const layout = getDRELayout();
+  (inputs || []).forEach((item, idx) => {
+    const periodo = normalizeBudgetPeriod(item?.periodo);
+    const chave = canonicalBudgetKey(item?.chave);
+    if (!isValidPeriod(periodo)) {
+      erros.push(`Item ${idx + 1}: período inválido (${item?.periodo ?? ''})`);
+      return;
+    }
+    if (!resolveBudgetLine(chave, layout)) {
+      erros.push(`Item ${idx + 1}: conta ou linha da DRE desconhecida (${item?.chave ?? ''})`);
+      return;
+    }
+    linhas.push({
+      periodo,
+      filial: String(item?.filial ?? '').trim(),
+      chave,
+      descricao: String(item?.descricao ?? '').trim(),
+      valor: typeof item?.valor === 'number' ? item.valor : parseMoney(item?.valor),
+    });
+  });
+  return { linhas, erros };
+}
+
+// ============================================================================
+// IMPORTAÇÃO CSV
+// ============================================================================
+
+function splitCsvLine(line: string, sep: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (ch === sep && !quoted) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  cells.push(current);
+  return cells.map((c) => c.trim());
+}
+
+/**
+ * Mês (1-12) de um cabeçalho: "Jan", "Janeiro", "01", "01/2025", "2025-01"
+ */
+function monthFromHeader(header: string): number | null {
+  const label = normalizeLabel(header);
+  const abbr = MONTH_ABBR.indexOf(label.slice(0, 3));
+  if (abbr >= 0 && /^[A-Z]+(_?\d{2,4})?$/.test(label)) return abbr + 1;
+  if (/^\d{1,2}$/.test(label)) {
+    const n = Number(label);
+    return n >= 1 && n <= 12 ? n : null;
+  }
+  const periodo = normalizeBudgetPeriod(header);
+  return periodo ? Number(periodo.slice(5, 7)) : null;
+}
+
+/**
+ * Lê o orçamento de um CSV
+ *
+ * Formatos aceitos (separador ; , ou tab):
+ * - Largo: Filial | Conta | Descrição | Jan | Fev | ... | Dez
+ * - Longo: Período | Filial | Conta | Valor
+ * A coluna Filial é opcional (usa filialPadrao).
+ */
+export function parseBudgetCsv(
+  content: string,
+  ano: number,
+  filialPadrao = ''
+): { linhas: BudgetInput[]; erros: string[] } {
+  const lines = String(content || '')
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter((l) => l.trim());
+  if (lines.length < 2) return { linhas: [], erros: ['Arquivo sem linhas de orçamento'] };
+
+  const header = lines[0];
+  const sep = [';', '\t', ','].reduce((best, s) => (header.split(s).length > header.split(best).length ? s : best), ';');
+  const headers = splitCsvLine(header, sep).map(normalizeLabel);
+  const find = (...names: string[]) => headers.findIndex((h) => names.includes(h));
+
+  const colFilial = find('FILIAL');
+  const colChave = find('CONTA', 'CONTA_CONTABIL', 'CONTA_LINHA_DRE', 'LINHA_DRE', 'LINHA', 'GRUPO_DRE', 'CHAVE');
+  const colDescricao = find('DESCRICAO', 'NOME');
+  const colPeriodo = find('PERIODO', 'MES', 'COMPETENCIA');
+  const colValor = find('VALOR', 'VALOR_ORCADO', 'ORCADO');
+  if (colChave < 0) return { linhas: [], erros: ['Coluna "Conta" (ou "Linha DRE") não encontrada'] };
+
+  const monthCols: Array<{ col: number; mes: number }> = [];
+  if (colPeriodo < 0 || colValor < 0) {
+    splitCsvLine(header, sep).forEach((h, col) => {
+      if (col === colFilial || col === colChave || col === colDescricao) return;
+      const mes = monthFromHeader(h);
+      if (mes) monthCols.push({ col, mes });
+    });
+    if (!monthCols.length) {
+      return { linhas: [], erros: ['Informe colunas de mês (Jan..Dez) ou as colunas Período e Valor'] };
+    }
+  }
+
+  const raw: any[] = [];
+  const erros: string[] = [];
+  lines.slice(1).forEach((line, idx) => {
+    const cells = splitCsvLine(line, sep);
+    const chave = cells[colChave] || '';
+    if (!chave) return;
+    const base = {
+      filial: colFilial >= 0 ? cells[colFilial] || '' : filialPadrao,
+      chave,
+      descricao: colDescricao >= 0 ? cells[colDescricao] || '' : '',
+    };
+    if (monthCols.length) {
+      monthCols.forEach(({ col, mes }) => {
+        raw.push({ ...base, periodo: `${ano}-${pad2(mes)}`, valor: parseMoney(cells[col] || '') });
+      });
+      return;
+    }
+    const celulaPeriodo = cells[colPeriodo] || '';
+    const mesCelula = monthFromHeader(celulaPeriodo);
+    const periodo = normalizeBudgetPeriod(celulaPeriodo) || (mesCelula ? `${ano}-${pad2(mesCelula)}` : '');
+    if (!periodo.startsWith(`${ano}-`)) {
+      erros.push(`Linha ${idx + 2}: período fora de ${ano} (${celulaPeriodo})`);
+      return;
+    }
+    raw.push({ ...base, periodo, valor: parseMoney(cells[colValor] || '') });
+  });
+
+  const parsed = parseBudgetInputs(raw);
+  return { linhas: parsed.linhas, erros: erros.concat(parsed.erros) };
+}
+
+// ============================================================================
+// CONSULTAS
+// ============================================================================
+
+function matchesFilial(entry: BudgetEntry, filial?: string | null): boolean {
+  return !filial || entry.filial.toUpperCase() === String(filial).trim().toUpperCase();
+}
+
+/**
+ * Orçamento do ano em formato de grade (uma linha por filial × chave)
+ */
+export function buildBudgetGrid(entries: BudgetEntry[], ano: number, filial?: string | null): BudgetGridRow[] {
+  const prefixo = `${ano}-`;
+  const grid = new Map<string, BudgetGridRow>();
+  const layout = getDRELayout();
+  entries.forEach((entry) => {
+    if (!entry.periodo.startsWith(prefixo) || !matchesFilial(entry, filial)) return;
+    const key = `${entry.filial.toUpperCase()}|${entry.chave.toUpperCase()}`;
+    let row = grid.get(key);
+    if (!row) {
+      const account = getAccountByCode(entry.chave);
+      row = {
+        filial: entry.filial,
+        chave: entry.chave,
+        descricao: entry.descricao || account?.descricao || '',
+        linha: resolveBudgetLine(entry.chave, layout)?.linha || null,
+        valores: new Array(12).fill(0),
+        total: 0,
+      };
+      grid.set(key, row);
+    }
+    const mes = Number(entry.periodo.slice(5, 7));
+    row.valores[mes - 1] = roundMoney(row.valores[mes - 1] + entry.valor);
+    row.total = roundMoney(row.total + entry.valor);
+  });
+
+  const ordem = (linha: BudgetLine | null) => (linha ? BUDGET_LINES.indexOf(linha) : BUDGET_LINES.length);
+  return Array.from(grid.values()).sort(
+    (a, b) => ordem(a.linha) - ordem(b.linha) || a.chave.localeCompare(b.chave) || a.filial.localeCompare(b.filial)
+  );
+}
+
+/**
+ * Orçamento por linha da DRE, mês a mês (índice 0 = janeiro)
+ */
+export function budgetByMonth(
+  entries: BudgetEntry[],
+  ano: number,
+  filial?: string | null
+): { valores: DreLineValues[]; naoClassificados: string[] } {
+  const valores = Array.from({ length: 12 }, () => emptyDreLineValues());
+  const naoClassificados = new Set<string>();
+  const prefixo = `${ano}-`;
+  const layout = getDRELayout();
+
+  entries.forEach((entry) => {
+    if (!entry.periodo.startsWith(prefixo) || !matchesFilial(entry, filial)) return;
+    const resolved = resolveBudgetLine(entry.chave, layout);
+    if (!resolved) {
+      naoClassificados.add(entry.chave);
+      return;
+    }
+    const mes = Number(entry.periodo.slice(5, 7));
+    valores[mes - 1][resolved.linha] += entry.valor * resolved.sinal;
+  });
+
+  return { valores, naoClassificados: Array.from(naoClassificados).sort() };
+}
+
+/**
+ * Orçamento do ano seguinte a partir de valores do ano de origem + percentual
+ */
+export function projectBudget(source: BudgetInput[], anoDestino: number, percentual: number): BudgetInput[] {
+  const fator = 1 + (Number(percentual) || 0) / 100;
+  return source
+    .filter((item) => item.valor)
+    .map((item) => ({
+      ...item,
+      periodo: `${anoDestino}-${item.periodo.slice(5, 7)}`,
+      valor: roundMoney(item.valor * fator),
+    }));
+}
+
+// ============================================================================
+// ORÇADO x REALIZADO
+// ============================================================================
+
+function varianceCell(orcado: Money, realizado: Money, custo: boolean): VarianceCell {
+  const variacao = roundMoney(realizado - orcado);
+  return {
+    orcado: roundMoney(orcado),
+    realizado: roundMoney(realizado),
+    variacao,
+    variacaoPct: orcado !== 0 ? roundMoney((variacao / Math.abs(orcado)) * 100) : null,
+    favoravel: custo ? variacao <= 0 : variacao >= 0,
+  };
+}
+
+/**
+ * DRE orçado x realizado
+ *
+ * @param orcado - orçamento por mês (12 posições)
+ * @param realizado - realizado por mês, de janeiro até o mês de referência
+ * @param mes - mês de referência (1-12): fim do acumulado e início da projeção
+ * @param layout - Estrutura da DRE (padrão: getDRELayout)
+ */
+export function buildBudgetVariance(
+  ano: number,
+  mes: number,
+  orcado: DreLineValues[],
+  realizado: DreLineValues[],
+  layout: DRELayout = getDRELayout()
+): BudgetVarianceReport {
+  const mesRef = Math.min(Math.max(Math.floor(Number(mes) || 12), 1), 12);
+  const orcMes = withSubtotals(orcado[mesRef - 1] || emptyDreLineValues(), layout);
+  const realMes = withSubtotals(realizado[mesRef - 1] || emptyDreLineValues(), layout);
+  const orcAcum = withSubtotals(sumLineValues(orcado.slice(0, mesRef)), layout);
+  const realAcum = withSubtotals(sumLineValues(realizado.slice(0, mesRef)), layout);
+  const orcAno = withSubtotals(sumLineValues(orcado), layout);
+  const orcRestante = withSubtotals(sumLineValues(orcado.slice(mesRef)), layout);
+
+  const linhas = varianceLayout(layout).map((item): BudgetVarianceLine => {
+    const projecao = roundMoney(realAcum[item.linha] + orcRestante[item.linha]);
+    const anoCell = varianceCell(orcAno[item.linha], projecao, item.custo);
+    return {
+      linha: item.linha,
+      descricao: item.descricao,
+      calculada: item.calculada,
+      mes: varianceCell(orcMes[item.linha], realMes[item.linha], item.custo),
+      acumulado: varianceCell(orcAcum[item.linha], realAcum[item.linha], item.custo),
+      ano: {
+        orcado: anoCell.orcado,
+        projecao,
+        variacao: anoCell.variacao,
+        variacaoPct: anoCell.variacaoPct,
+        favoravel: anoCell.favoravel,
+      },
+    };
+  });
+
+  return { ano, mes: mesRef, linhas };
+}
@@ -0,0 +1,764 @@
+/**
+ * card-acquirer-service.ts
+ *
+ * Recebíveis de cartão (Cielo, Rede, Stone, Getnet).
+ *
+ * Responsabilidades:
+ * - Normalizar adquirente, bandeira e modalidade dos arquivos exportados
+ * - Montar a agenda de recebíveis esperada (D+1 débito, D+30 crédito, parcelas)
+ *   com o MDR contratado (CFG_MDR)
+ * - Conciliação em três pontas: venda FC ↔ transação da adquirente ↔ depósito Itaú
+ * - Apurar a diferença entre a taxa cobrada e a contratada por bandeira
+ *
+ * IMPORTANTE:
+ * - Vendas vêm de TB_IMPORT_CARTAO_VENDAS, liquidações de TB_IMPORT_CARTAO_LIQUIDACOES
+ * - A adquirente deposita o líquido somado por data de pagamento: o depósito
+ *   é conciliado contra o lote (adquirente + data), não contra a parcela
+ * - Sem contrato em CFG_MDR a taxa contratada fica nula e a venda não entra
+ *   na apuração de diferença de MDR
+ */
+
+import { getSheetValues } from '../shared/sheets-client';
+import {
+  Sheets,
+  CFG_MDR_COLS,
+  TB_IMPORT_CARTAO_LIQUIDACOES_COLS,
+  TB_IMPORT_CARTAO_VENDAS_COLS,
+  TB_IMPORT_FC_COLS,
+  TB_IMPORT_ITAU_COLS,
+} from '../config/sheet-mapping';
+import {
+  CardAcquirer,
+  CardModality,
+  CardSale,
+  CardSettlement,
+  MdrContract,
+  Money,
+  Period,
+} from '../shared/types';
+import {
+  addBusinessDays,
+  addDays,
+  BusinessDayOptions,
+  formatDateISO,
+  getFirstDayOfPeriod,
+  getLastDayOfPeriod,
+  getToday,
+  nextBusinessDay,
+  parseDate,
+  parseDateISO,
+} from '../shared/date-utils';
+import { moneyEquals, roundMoney } from '../shared/money-utils';
+import { cacheGetOrLoad, CacheNamespace, CacheScope } from '../shared/cache';
+import { ConfigService } from './config-service';
+import { getBusinessDayOptions } from './reference-data-service';
+
+// ============================================================================
+// TIPOS
+// ============================================================================
+
+/**
+ * Parcela esperada de uma venda
+ */
+export interface ExpectedReceivable {
+  adquirente: CardAcquirer;
+  bandeira: string;
+  modalidade: CardModality;
+  nsu: string;
+  dataVenda: string; // yyyy-MM-dd
+  parcela: number;
+  totalParcelas: number;
+  dataPrevista: string;
+  valorBruto: Money;
+  taxaPct: number | null; // contratada
+  valorLiquidoPrevisto: Money;
+  filialFc: string;
+  status: 'PREVISTO' | 'LIQUIDADO' | 'ATRASADO';
+  dataPagamento: string | null;
+  valorLiquidoPago: Money | null;
+}
+
+export interface ReceivablesSchedule {
+  inicio: string;
+  fim: string;
+  items: ExpectedReceivable[];
+  totais: { previsto: Money; liquidado: Money; atrasado: Money };
+}
+
+/**
+ * Lote depositado pela adquirente (soma das liquidações de um dia)
+ */
+export interface SettlementBatch {
+  adquirente: CardAcquirer;
+  dataPagamento: string;
+  quantidade: number;
+  valorLiquido: Money;
+  deposito: { data: string; lancamento: string; valor: Money } | null;
+}
+
+export type CardMatchStatus = 'COMPLETO' | 'A_RECEBER' | 'SEM_VENDA_FC' | 'SEM_LIQUIDACAO' | 'SEM_DEPOSITO';
+
+/**
+ * Uma venda da adquirente e suas três pontas
+ */
+export interface CardMatchItem {
+  status: CardMatchStatus;
+  venda: {
+    dataVenda: string;
+    adquirente: CardAcquirer;
+    bandeira: string;
+    modalidade: CardModality;
+    parcelas: number;
+    nsu: string;
+    autorizacao: string;
+    valorBruto: Money;
+    filialFc: string;
+  };
+  fc: { dataEmissao: string; numDocumento: string; valor: Money; filialFc: string; historico: string } | null;
+  parcelasLiquidadas: number;
+  parcelasDepositadas: number;
+  valorLiquidado: Money;
+}
+
+export interface CardReconciliation {
+  period: Period;
+  stats: Record<CardMatchStatus, number> & { total: number; liquidacoesSemVenda: number };
+  items: CardMatchItem[];
+  lotes: SettlementBatch[];
+}
+
+/**
+ * Diferença entre a taxa cobrada e a contratada (por adquirente/bandeira/modalidade)
+ */
+export interface MdrVarianceLine {
+  adquirente: CardAcquirer;
+  bandeira: string;
+  modalidade: CardModality;
+  parcelas: number; // liquidações consideradas
+  valorBruto: Money;
+  taxaCobrada: Money;
+  taxaContratada: Money | null; // null = sem contrato em CFG_MDR
+  taxaPctEfetiva: number;
+  taxaPctContratada: number | null;
+  diferenca: Money | null; // cobrada - contratada
+}
+
+const DEFAULT_PRAZO_DIAS: Record<CardModality, number> = {
+  [CardModality.DEBITO]: 1, // dias úteis
+  [CardModality.CREDITO]: 30,
+  [CardModality.PARCELADO]: 30, // por parcela
+};
+
+/** Textos que identificam a adquirente no histórico do depósito */
+const ACQUIRER_KEYWORDS: Record<CardAcquirer, string[]> = {
+  [CardAcquirer.CIELO]: ['CIELO'],
+  [CardAcquirer.REDE]: ['REDECARD', 'REDE'],
+  [CardAcquirer.STONE]: ['STONE'],
+  [CardAcquirer.GETNET]: ['GETNET'],
+};
+
+// ============================================================================
+// NORMALIZAÇÃO
+// ============================================================================
+
+function normalizeText(value: any): string {
+  return String(value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toUpperCase();
+}
+
+/**
+ * Adquirente a partir do nome no arquivo ou no histórico bancário
+ */
+export function normalizeAcquirer(value: any): CardAcquirer | null {
+  const text = normalizeText(value);
+  if (!text) return null;
+  for (const acquirer of Object.values(CardAcquirer)) {
+    if (ACQUIRER_KEYWORDS[acquirer].some((k) => new RegExp(`\\b${k}\\b`).test(text))) return acquirer;
+  }
+  return null;
+}
+
+/**
+ * Bandeira com nome padronizado (VISA ELECTRON → VISA, MAESTRO → MASTERCARD...)
+ */
+export function normalizeBrand(value: any): string {
+  const text = normalizeText(value);
+  if (!text) return '';
+  if (text.includes('VISA')) return 'VISA';
+  if (text.includes('MASTER') || text.includes('MAESTRO')) return 'MASTERCARD';
+  if (text.includes('AMEX') || text.includes('AMERICAN')) return 'AMEX';
+  if (text.includes('HIPER')) return 'HIPERCARD';
+  if (text.includes('DINERS')) return 'DINERS';
+  if (text.includes('ELO')) return 'ELO';
+  return text;
+}
+
+/**
+ * Modalidade: débito/pré-pago, crédito à vista ou parcelado
+ */
+export function normalizeModality(value: any, parcelas: number = 1): CardModality {
+  const text = normalizeText(value);
+  if (text.includes('DEB') || text.replace(/[^A-Z]/g, '').includes('PREPAGO')) return CardModality.DEBITO;
+  if (parcelas > 1 || text.includes('PARCEL')) return CardModality.PARCELADO;
+  return CardModality.CREDITO;
+}
+
+function toDate(value: any): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : new Date(value.getFullYear(), value.getMonth(), value.getDate());
+  }
+  const str = String(value || '').trim();
+  return /^\d{4}-\d{2}-\d{2}/.test(str) ? parseDateISO(str.slice(0, 10)) : parseDate(str);
+}
+
+function toInt(value: any, fallback: number): number {
+  const num = parseInt(String(value || ''), 10);
+  return isNaN(num) || num < 1 ? fallback : num;
+}
+
+/**
+ * NSU sem zeros à esquerda (cada adquirente formata de um jeito)
+ */
+function normalizeNsu(value: any): string {
+  return String(value || '').trim().replace(/^0+(?=.)/, '');
+}
+
+// ============================================================================
+// LEITURA
+// ============================================================================
+
+/**
+ * Vendas importadas (ignora linhas sem data, adquirente ou valor)
+ */
+export function listCardSales(): CardSale[] {
+  const C = TB_IMPORT_CARTAO_VENDAS_COLS;
+  const sales: CardSale[] = [];
+
+  for (const row of getSheetValues(Sheets.TB_IMPORT_CARTAO_VENDAS, { skipHeader: true })) {
+    const dataVenda = toDate(row[C.DATA_VENDA]);
+    const adquirente = normalizeAcquirer(row[C.ADQUIRENTE]);
+    const valorBruto = parseFloat(row[C.VALOR_BRUTO]);
+    if (!dataVenda || !adquirente || isNaN(valorBruto)) continue;
+
+    const parcelas = toInt(row[C.PARCELAS], 1);
+    const liquido = parseFloat(row[C.VALOR_LIQUIDO]);
+    sales.push({
+      dataVenda,
+      adquirente,
+      bandeira: normalizeBrand(row[C.BANDEIRA]),
+      modalidade: normalizeModality(row[C.MODALIDADE], parcelas),
+      parcelas,
+      nsu: normalizeNsu(row[C.NSU]),
+      autorizacao: String(row[C.AUTORIZACAO] || '').trim(),
+      valorBruto,
+      valorLiquido: isNaN(liquido) ? null : liquido,
+      filialFc: String(row[C.FILIAL_FC] || '').trim(),
+      estabelecimento: String(row[C.ESTABELECIMENTO] || '').trim(),
+    });
+  }
+
+  return sales;
+}
+
+/**
+ * Liquidações importadas (uma linha por parcela paga)
+ */
+export function listCardSettlements(): CardSettlement[] {
+  const C = TB_IMPORT_CARTAO_LIQUIDACOES_COLS;
+  const settlements: CardSettlement[] = [];
+
+  for (const row of getSheetValues(Sheets.TB_IMPORT_CARTAO_LIQUIDACOES, { skipHeader: true })) {
+    const dataPagamento = toDate(row[C.DATA_PAGAMENTO]);
+    const adquirente = normalizeAcquirer(row[C.ADQUIRENTE]);
+    const valorLiquido = parseFloat(row[C.VALOR_LIQUIDO]);
+    if (!dataPagamento || !adquirente || isNaN(valorLiquido)) continue;
+
+    const bruto = parseFloat(row[C.VALOR_BRUTO]);
+    const taxa = parseFloat(row[C.TAXA]);
+    const valorBruto = isNaN(bruto) ? roundMoney(valorLiquido + (isNaN(taxa) ? 0 : Math.abs(taxa))) : bruto;
+    settlements.push({
+      dataPagamento,
+      adquirente,
+      bandeira: normalizeBrand(row[C.BANDEIRA]),
+      nsu: normalizeNsu(row[C.NSU]),
+      parcela: toInt(row[C.PARCELA], 1),
+      totalParcelas: toInt(row[C.TOTAL_PARCELAS], 1),
+      valorBruto,
+      taxa: isNaN(taxa) ? roundMoney(valorBruto - valorLiquido) : Math.abs(taxa),
+      valorLiquido,
+      dataVenda: toDate(row[C.DATA_VENDA]),
+      estabelecimento: String(row[C.ESTABELECIMENTO] || '').trim(),
+    });
+  }
+
+  return settlements;
+}
+
+function loadMdrContractsFromSheet(): MdrContract[] {
+  const C = CFG_MDR_COLS;
+  const contracts: MdrContract[] = [];
+
+  for (const row of getSheetValues(Sheets.CFG_MDR, { skipHeader: true })) {
+    const ativo = row[C.ATIVO];
+    if (ativo === false || String(ativo).toUpperCase() === 'FALSE') continue;
+    const adquirente = normalizeAcquirer(row[C.ADQUIRENTE]);
+    const taxaPct = parseFloat(row[C.TAXA_PCT]);
+    if (!adquirente || isNaN(taxaPct)) continue;
+
+    const modalidade = normalizeModality(row[C.MODALIDADE]);
+    const prazo = parseInt(String(row[C.PRAZO_DIAS] || ''), 10);
+    contracts.push({
+      adquirente,
+      bandeira: normalizeBrand(row[C.BANDEIRA]) || null,
+      modalidade,
+      parcelasMin: toInt(row[C.PARCELAS_MIN], 1),
+      parcelasMax: toInt(row[C.PARCELAS_MAX], modalidade === CardModality.PARCELADO ? 12 : 1),
+      taxaPct,
+      prazoDias: isNaN(prazo) || prazo < 0 ? DEFAULT_PRAZO_DIAS[modalidade] : prazo,
+    });
+  }
+
+  return contracts;
+}
+
+/**
+ * Contratos de MDR ativos (com cache)
+ */
+export function getMdrContracts(): MdrContract[] {
+  return cacheGetOrLoad(CacheNamespace.REFERENCE, 'mdrContracts', loadMdrContractsFromSheet, 3600, CacheScope.SCRIPT);
+}
+
+/**
+ * Contrato aplicável; o específico da bandeira prevalece sobre o genérico
+ */
+export function findMdrContract(
+  adquirente: CardAcquirer,
+  bandeira: string,
+  modalidade: CardModality,
+  parcelas: number,
+  contracts: MdrContract[] = getMdrContracts()
+): MdrContract | null {
+  const candidates = contracts.filter(
+    (c) =>
+      c.adquirente === adquirente &&
+      c.modalidade === modalidade &&
+      parcelas >= c.parcelasMin &&
+      parcelas <= c.parcelasMax &&
+      (!c.bandeira || c.bandeira === bandeira)
+  );
+  return candidates.find((c) => c.bandeira) || candidates[0] || null;
+}
+
+// ============================================================================
+// AGENDA DE RECEBÍVEIS
+// ============================================================================
+
+function settlementKey(adquirente: CardAcquirer, nsu: string, parcela: number): string {
+  return `${adquirente}|${nsu}|${parcela}`;
+}
+
+/**
+ * Parcelas esperadas de uma venda (ainda sem status de liquidação)
+ *
+ * Débito: D+prazo em dias úteis. Crédito/parcelado: parcela k em
+ * D+prazo×k corridos, prorrogado para o próximo dia útil. O centavo que
+ * sobra da divisão fica na primeira parcela.
+ */
+export function buildSaleSchedule(
+  sale: CardSale,
+  contract: MdrContract | null = findMdrContract(sale.adquirente, sale.bandeira, sale.modalidade, sale.parcelas),
+  calendar: BusinessDayOptions = getBusinessDayOptions()
+): ExpectedReceivable[] {
+  const total = sale.modalidade === CardModality.PARCELADO ? Math.max(1, sale.parcelas) : 1;
+  const prazo = contract ? contract.prazoDias : DEFAULT_PRAZO_DIAS[sale.modalidade];
+  const base = Math.floor((sale.valorBruto / total) * 100) / 100;
+  const sobra = roundMoney(sale.valorBruto - base * total);
+  const items: ExpectedReceivable[] = [];
+
+  for (let parcela = 1; parcela <= total; parcela++) {
+    const valorBruto = roundMoney(base + (parcela === 1 ? sobra : 0));
+    const dataPrevista =
+      sale.modalidade === CardModality.DEBITO
+        ? addBusinessDays(sale.dataVenda, prazo, calendar)
+        : nextBusinessDay(addDays(sale.dataVenda, prazo * parcela), calendar);
+    const taxa = contract ? roundMoney((valorBruto * contract.taxaPct) / 100) : 0;
+
+    items.push({
+      adquirente: sale.adquirente,
+      bandeira: sale.bandeira,
+      modalidade: sale.modalidade,
+      nsu: sale.nsu,
+      dataVenda: formatDateISO(sale.dataVenda),
+      parcela,
+      totalParcelas: total,
+      dataPrevista: formatDateISO(dataPrevista),
+      valorBruto,
+      taxaPct: contract ? contract.taxaPct : null,
+      valorLiquidoPrevisto: roundMoney(valorBruto - taxa),
+      filialFc: sale.filialFc,
+      status: 'PREVISTO',
+      dataPagamento: null,
+      valorLiquidoPago: null,
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Agenda de recebíveis com previsão entre inicio e fim, cruzada com as liquidações
+ */
+export function getExpectedCardReceivables(inicio: Date, fim: Date, today: Date = getToday()): ReceivablesSchedule {
+  const contracts = getMdrContracts();
+  const calendar = getBusinessDayOptions();
+  const settled = new Map<string, CardSettlement>();
+  for (const s of listCardSettlements()) settled.set(settlementKey(s.adquirente, s.nsu, s.parcela), s);
+
+  const inicioISO = formatDateISO(inicio);
+  const fimISO = formatDateISO(fim);
+  const todayISO = formatDateISO(today);
+  const totais = { previsto: 0, liquidado: 0, atrasado: 0 };
+  const items: ExpectedReceivable[] = [];
+
+  for (const sale of listCardSales()) {
+    const contract = findMdrContract(sale.adquirente, sale.bandeira, sale.modalidade, sale.parcelas, contracts);
+    for (const item of buildSaleSchedule(sale, contract, calendar)) {
+      if (item.dataPrevista < inicioISO || item.dataPrevista > fimISO) continue;
+
+      const settlement = settled.get(settlementKey(item.adquirente, item.nsu, item.parcela));
+      if (settlement) {
+        item.status = 'LIQUIDADO';
+        item.dataPagamento = formatDateISO(settlement.dataPagamento);
+        item.valorLiquidoPago = settlement.valorLiquido;
+        totais.liquidado += settlement.valorLiquido;
+      } else if (item.dataPrevista < todayISO) {
+        item.status = 'ATRASADO';
+        totais.atrasado += item.valorLiquidoPrevisto;
+      } else {
+        totais.previsto += item.valorLiquidoPrevisto;
+      }
+      items.push(item);
+    }
+  }
+
+  items.sort((a, b) => a.dataPrevista.localeCompare(b.dataPrevista) || a.nsu.localeCompare(b.nsu));
+  return {
+    inicio: inicioISO,
+    fim: fimISO,
+    items,
+    totais: {
+      previsto: roundMoney(totais.previsto),
+      liquidado: roundMoney(totais.liquidado),
+      atrasado: roundMoney(totais.atrasado),
+    },
+  };
+}
+
+// ============================================================================
+// CONCILIAÇÃO EM TRÊS PONTAS
+// ============================================================================
+
+interface FcSaleRow {
+  dataEmissao: string;
+  numDocumento: string;
+  valor: Money;
+  filialFc: string;
+  historico: string;
+  texto: string; // documento + histórico + descrição, para achar NSU/autorização
+}
+
+interface ItauDeposit {
+  data: string;
+  lancamento: string;
+  valor: Money;
+  adquirente: CardAcquirer | null;
+}
+
+/**
+ * Chave de uma linha do relatório FC (usada pelo Comparativo para achar a venda)
+ */
+export function cardFcKey(dataEmissao: string, valor: Money, numDocumento: string, filialFc: string): string {
+  return [dataEmissao, roundMoney(valor).toFixed(2), String(numDocumento || '').trim(), String(filialFc || '').trim()].join('|');
+}
+
+function loadFcSales(inicioISO: string, fimISO: string): FcSaleRow[] {
+  const C = TB_IMPORT_FC_COLS;
+  const rows: FcSaleRow[] = [];
+  for (const row of getSheetValues(Sheets.TB_IMPORT_FC, { skipHeader: true })) {
+    if (String(row[C.TIPO] || '').toUpperCase() !== 'RECEBER') continue;
+    const data = toDate(row[C.DATA_EMISSAO]);
+    const valor = parseFloat(row[C.VALOR]);
+    if (!data || isNaN(valor)) continue;
+    const dataEmissao = formatDateISO(data);
+    if (dataEmissao < inicioISO || dataEmissao > fimISO) continue;
+
+    const numDocumento = String(row[C.NUM_DOCUMENTO] || '').trim();
+    const historico = String(row[C.HISTORICO] || '').trim();
+    rows.push({
+      dataEmissao,
+      numDocumento,
+      valor,
+      filialFc: String(row[C.FILIAL_FC] || '').trim(),
+      historico,
+      texto: normalizeText(`${numDocumento} ${historico} ${row[C.DESCRICAO] || ''}`),
+    });
+  }
+  return rows;
+}
+
+function loadItauDeposits(): ItauDeposit[] {
+  const C = TB_IMPORT_ITAU_COLS;
+  const deposits: ItauDeposit[] = [];
+  for (const row of getSheetValues(Sheets.TB_IMPORT_ITAU, { skipHeader: true })) {
+    const data = toDate(row[C.DATA]);
+    const valor = parseFloat(row[C.VALOR]);
+    if (!data || isNaN(valor) || valor <= 0) continue;
+    const lancamento = String(row[C.LANCAMENTO] || '').trim();
+    deposits.push({
+      data: formatDateISO(data),
+      lancamento,
+      valor,
+      adquirente: normalizeAcquirer(`${lancamento} ${row[C.RAZAO_SOCIAL] || ''}`),
+    });
+  }
+  return deposits;
+}
+
+/**
+ * Lotes por adquirente + data de pagamento, cada um com o depósito Itaú
+ * correspondente (mesmo dia e valor; adquirente no histórico tem prioridade)
+ */
+function matchSettlementBatches(settlements: CardSettlement[], deposits: ItauDeposit[]): Map<string, SettlementBatch> {
+  const tolerance = ConfigService.getToleranciaConciliacao();
+  const batches = new Map<string, SettlementBatch>();
+
+  for (const s of settlements) {
+    const dataPagamento = formatDateISO(s.dataPagamento);
+    const key = `${s.adquirente}|${dataPagamento}`;
+    const batch = batches.get(key) || {
+      adquirente: s.adquirente,
+      dataPagamento,
+      quantidade: 0,
+      valorLiquido: 0,
+      deposito: null,
+    };
+    batch.quantidade++;
+    batch.valorLiquido = roundMoney(batch.valorLiquido + s.valorLiquido);
+    batches.set(key, batch);
+  }
+
+  const used = new Set<number>();
+  batches.forEach((batch) => {
+    let best = -1;
+    deposits.forEach((d, idx) => {
+      if (used.has(idx) || d.data !== batch.dataPagamento) return;
+      if (!moneyEquals(d.valor, batch.valorLiquido, tolerance)) return;
+      if (d.adquirente && d.adquirente !== batch.adquirente) return;
+      if (best < 0 || (d.adquirente && !deposits[best].adquirente)) best = idx;
+    });
+    if (best >= 0) {
+      used.add(best);
+      const d = deposits[best];
+      batch.deposito = { data: d.data, lancamento: d.lancamento, valor: d.valor };
+    }
+  });
+
+  return batches;
+}
+
+/**
+ * Venda FC correspondente: mesma data e valor bruto (e filial, quando as duas
+ * informam); NSU ou autorização no documento/histórico desempata
+ */
+function findFcSale(sale: CardSale, fcRows: FcSaleRow[], used: Set<number>, tolerance: Money): number {
+  const dataVenda = formatDateISO(sale.dataVenda);
+  let best = -1;
+  let bestScore = -1;
+
+  fcRows.forEach((fc, idx) => {
+    if (used.has(idx) || fc.dataEmissao !== dataVenda) return;
+    if (!moneyEquals(fc.valor, sale.valorBruto, tolerance)) return;
+    if (sale.filialFc && fc.filialFc && sale.filialFc !== fc.filialFc) return;
+    let score = 0;
+    if (sale.nsu && fc.texto.includes(sale.nsu)) score += 2;
+    if (sale.autorizacao && fc.texto.includes(normalizeText(sale.autorizacao))) score += 2;
+    if (sale.filialFc && fc.filialFc === sale.filialFc) score += 1;
+    if (score > bestScore) {
+      best = idx;
+      bestScore = score;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Cruza, para as vendas da adquirente no período, a venda FC, as liquidações
+ * de cada parcela e o depósito Itaú de cada lote
+ */
+export function reconcileCardSales(period: Period, today: Date = getToday()): CardReconciliation {
+  const inicioISO = formatDateISO(getFirstDayOfPeriod(period));
+  const fimISO = formatDateISO(getLastDayOfPeriod(period));
+  const todayISO = formatDateISO(today);
+  const tolerance = ConfigService.getToleranciaConciliacao();
+  const contracts = getMdrContracts();
+  const calendar = getBusinessDayOptions();
+
+  const allSales = listCardSales();
+  const saleKeys = new Set(allSales.map((s) => `${s.adquirente}|${s.nsu}`));
+  const sales = allSales.filter((s) => {
+    const data = formatDateISO(s.dataVenda);
+    return data >= inicioISO && data <= fimISO;
+  });
+  const settlements = listCardSettlements();
+  const batches = matchSettlementBatches(settlements, loadItauDeposits());
+  const fcRows = loadFcSales(inicioISO, fimISO);
+
+  const settledByNsu = new Map<string, CardSettlement[]>();
+  for (const s of settlements) {
+    const key = `${s.adquirente}|${s.nsu}`;
+    settledByNsu.set(key, [...(settledByNsu.get(key) || []), s]);
+  }
+
+  const usedFc = new Set<number>();
+  const stats: CardReconciliation['stats'] = {
+    total: sales.length,
+    COMPLETO: 0,
+    A_RECEBER: 0,
+    SEM_VENDA_FC: 0,
+    SEM_LIQUIDACAO: 0,
+    SEM_DEPOSITO: 0,
+    liquidacoesSemVenda: 0,
+  };
+
+  const items: CardMatchItem[] = sales.map((sale) => {
+    const nsuKey = `${sale.adquirente}|${sale.nsu}`;
+
+    const fcIdx = findFcSale(sale, fcRows, usedFc, tolerance);
+    if (fcIdx >= 0) usedFc.add(fcIdx);
+    const fc = fcIdx >= 0 ? fcRows[fcIdx] : null;
+
+    const contract = findMdrContract(sale.adquirente, sale.bandeira, sale.modalidade, sale.parcelas, contracts);
+    const schedule = buildSaleSchedule(sale, contract, calendar);
+    const liquidacoes = settledByNsu.get(nsuKey) || [];
+    const pagas = new Set(liquidacoes.map((s) => s.parcela));
+    const atrasada = schedule.some((p) => !pagas.has(p.parcela) && p.dataPrevista < todayISO);
+    const futura = schedule.some((p) => !pagas.has(p.parcela) && p.dataPrevista >= todayISO);
+    const depositadas = liquidacoes.filter(
+      (s) => batches.get(`${s.adquirente}|${formatDateISO(s.dataPagamento)}`)?.deposito
+    ).length;
+
+    let status: CardMatchStatus = 'COMPLETO';
+    if (!fc) status = 'SEM_VENDA_FC';
+    else if (atrasada) status = 'SEM_LIQUIDACAO';
+    else if (depositadas < liquidacoes.length) status = 'SEM_DEPOSITO';
+    else if (futura) status = 'A_RECEBER';
+    stats[status]++;
+
+    return {
+      status,
+      venda: {
+        dataVenda: formatDateISO(sale.dataVenda),
+        adquirente: sale.adquirente,
+        bandeira: sale.bandeira,
+        modalidade: sale.modalidade,
+        parcelas: sale.parcelas,
+        nsu: sale.nsu,
+        autorizacao: sale.autorizacao,
+        valorBruto: sale.valorBruto,
+        filialFc: sale.filialFc,
+      },
+      fc: fc
+        ? {
+            dataEmissao: fc.dataEmissao,
+            numDocumento: fc.numDocumento,
+            valor: fc.valor,
+            filialFc: fc.filialFc,
+            historico: fc.historico,
+          }
+        : null,
+      parcelasLiquidadas: pagas.size,
+      parcelasDepositadas: depositadas,
+      valorLiquidado: roundMoney(liquidacoes.reduce((sum, s) => sum + s.valorLiquido, 0)),
+    };
+  });
+
+  // Liquidações pagas no período sem venda importada (arquivo de vendas faltando)
+  stats.liquidacoesSemVenda = settlements.filter((s) => {
+    const data = formatDateISO(s.dataPagamento);
+    return data >= inicioISO && data <= fimISO && !saleKeys.has(`${s.adquirente}|${s.nsu}`);
+  }).length;
+
+  const lotes = Array.from(batches.values())
+    .filter((b) => b.dataPagamento >= inicioISO && b.dataPagamento <= fimISO)
+    .sort((a, b) => a.dataPagamento.localeCompare(b.dataPagamento) || a.adquirente.localeCompare(b.adquirente));
+
+  return { period, stats, items, lotes };
+}
+
+// ============================================================================
+// DIFERENÇA DE MDR
+// ============================================================================
+
+/**
+ * Taxa cobrada x contratada nas liquidações pagas entre inicio e fim
+ */
+export function buildMdrVariance(inicio: Date, fim: Date): MdrVarianceLine[] {
+  const inicioISO = formatDateISO(inicio);
+  const fimISO = formatDateISO(fim);
+  const contracts = getMdrContracts();
+  const modalityByNsu = new Map<string, CardModality>();
+  for (const sale of listCardSales()) modalityByNsu.set(`${sale.adquirente}|${sale.nsu}`, sale.modalidade);
+
+  const lines = new Map<string, MdrVarianceLine & { semContrato: boolean }>();
+
+  for (const s of listCardSettlements()) {
+    const data = formatDateISO(s.dataPagamento);
+    if (data < inicioISO || data > fimISO) continue;
+
+    const modalidade =
+      modalityByNsu.get(`${s.adquirente}|${s.nsu}`) ||
+      (s.totalParcelas > 1 ? CardModality.PARCELADO : CardModality.CREDITO);
+    const contract = findMdrContract(s.adquirente, s.bandeira, modalidade, s.totalParcelas, contracts);
+    const key = `${s.adquirente}|${s.bandeira}|${modalidade}`;
+    const line = lines.get(key) || {
+      adquirente: s.adquirente,
+      bandeira: s.bandeira,
+      modalidade,
+      parcelas: 0,
+      valorBruto: 0,
+      taxaCobrada: 0,
+      taxaContratada: 0,
+      taxaPctEfetiva: 0,
+      taxaPctContratada: contract ? contract.taxaPct : null,
+      diferenca: 0,
+      semContrato: false,
+    };
+
+    line.parcelas++;
+    line.valorBruto = roundMoney(line.valorBruto + s.valorBruto);
+    line.taxaCobrada = roundMoney(line.taxaCobrada + s.taxa);
+    if (contract) {
+      line.taxaContratada = roundMoney((line.taxaContratada || 0) + (s.valorBruto * contract.taxaPct) / 100);
+    } else {
+      line.semContrato = true;
+    }
+    lines.set(key, line);
+  }
+
+  return Array.from(lines.values())
+    .map(({ semContrato, ...line }) => {
+      const taxaContratada = semContrato ? null : line.taxaContratada;
+      return {
+        ...line,
+        taxaContratada,
+        taxaPctEfetiva: line.valorBruto ? roundMoney((line.taxaCobrada / line.valorBruto) * 100) : 0,
+        taxaPctContratada: semContrato ? null : line.taxaPctContratada,
+        diferenca: taxaContratada === null ? null : roundMoney(line.taxaCobrada - taxaContratada),
+      };
+    })
+    .sort((a, b) => Math.abs(b.diferenca || 0) - Math.abs(a.diferenca || 0));
+}
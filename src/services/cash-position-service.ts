@@ -0,0 +1,368 @@
+/**
+ * cash-position-service.ts
+ *
+ * Posição de caixa diária (escada de caixa) e alertas de saldo mínimo.
+ *
+ * Responsabilidades:
+ * - Projetar o saldo dia a dia nos próximos N dias (CFG_CONFIG:
+ *   HORIZONTE_POSICAO_CAIXA_DIAS, padrão 90) a partir do saldo das contas
+ *   bancárias, dos títulos a pagar/receber e dos recebíveis de cartão
+ * - Apontar cada dia em que o saldo projetado fica abaixo do mínimo,
+ *   consolidado (SALDO_MINIMO_CONSOLIDADO) e por conta (REF_CONTAS_BANCARIAS)
+ *
+ * IMPORTANTE:
+ * - Títulos entram pelo saldo em aberto na data efetiva (próximo dia útil da
+ *   filial); títulos vencidos e recebíveis de cartão atrasados entram no
+ *   primeiro dia, pois ainda podem ser pagos/recebidos a qualquer momento
+ * - Os títulos não dizem de qual conta saem; na visão por conta, cada
+ *   movimento é atribuído à primeira conta ativa da filial (ou à primeira
+ *   conta ativa, se a filial não tiver conta)
+ * - Recebíveis de cartão vêm da agenda da adquirente (TB_IMPORT_CARTAO_*);
+ *   vendas em cartão não devem ficar também como títulos a receber
+ */
+
+import { BankAccount, CashflowType, Money } from '../shared/types';
+import { addDays, diffDays, formatDateISO, getToday, parseDateISO } from '../shared/date-utils';
+import { roundMoney } from '../shared/money-utils';
+import { ConfigService } from './config-service';
+import { getActiveBankAccounts } from './reference-data-service';
+import { getBankBalances } from './bank-balance-service';
+import { getFutureAccountsTimeline } from './cashflow-service';
+import { getExpectedCardReceivables } from './card-acquirer-service';
+
+// ============================================================================
+// TIPOS
+// ============================================================================
+
+export type CashMovementSource = 'TITULO' | 'CARTAO';
+
+/**
+ * Movimento projetado em um dia (valor com sinal: saídas negativas)
+ */
+export interface CashMovement {
+  data: string; // yyyy-MM-dd (data em que entra na escada)
+  dataOriginal: string; // vencimento/data prevista original
+  origem: CashMovementSource;
+  referencia: string; // ID do lançamento ou adquirente/NSU/parcela
+  descricao: string;
+  filial: string;
+  contaId: string | null;
+  valor: Money;
+  atrasado: boolean;
+}
+
+export interface CashLadderDay {
+  data: string;
+  saldoInicial: Money;
+  entradas: Money;
+  saidas: Money; // negativo
+  saldoFinal: Money;
+  movimentos: number;
+  abaixoMinimo: boolean; // consolidado
+  contasAbaixoMinimo: string[];
+}
+
+export interface CashLadderAccount {
+  contaId: string;
+  descricao: string;
+  filial: string;
+  saldoMinimo: Money | null;
+  saldoInicial: Money;
+  saldoFinal: Money;
+  menorSaldo: { data: string; valor: Money };
+  diasAbaixoMinimo: number;
+  primeiroDiaAbaixo: string | null;
+}
+
+export interface CashLadderAlert {
+  data: string;
+  escopo: 'CONSOLIDADO' | 'CONTA';
+  contaId: string | null;
+  saldo: Money;
+  minimo: Money;
+  deficit: Money; // minimo - saldo (positivo)
+}
+
+export interface CashLadder {
+  dataBase: string;
+  fim: string;
+  filial: string | null;
+  saldoMinimo: Money; // consolidado
+  saldoInicial: Money;
+  saldoFinal: Money;
+  menorSaldo: { data: string; valor: Money };
+  primeiroDiaAbaixo: string | null;
+  dias: CashLadderDay[];
+  contas: CashLadderAccount[];
+  alertas: CashLadderAlert[];
+  totais: { titulosReceber: Money; titulosPagar: Money; cartoes: Money; atrasados: Money };
+}
+
+export interface CashLadderOptions {
+  dias?: number; // padrão: CFG_CONFIG HORIZONTE_POSICAO_CAIXA_DIAS
+  filial?: string | null;
+  dataBase?: Date;
+  saldoMinimo?: Money | null; // sobrepõe SALDO_MINIMO_CONSOLIDADO
+  incluirCartoes?: boolean; // padrão: true
+}
+
+const MAX_DIAS = 366;
+
+// ============================================================================
+// MOVIMENTOS
+// ============================================================================
+
+/**
+ * Conta de cada filial (primeira conta ativa; senão, a primeira conta ativa)
+ */
+function accountResolver(accounts: BankAccount[]): (filial: string) => string | null {
+  const byBranch = new Map<string, string>();
+  accounts.forEach((a) => {
+    const key = String(a.filial || '').trim();
+    if (!byBranch.has(key)) byBranch.set(key, a.id);
+  });
+  const fallback = accounts.length ? accounts[0].id : null;
+  return (filial: string) => byBranch.get(String(filial || '').trim()) || fallback;
+}
+
+/**
+ * Movimentos projetados entre a data-base e o fim (atrasados entram na data-base)
+ */
+export function loadCashMovements(
+  dataBase: Date,
+  dias: number,
+  filial: string | null,
+  accounts: BankAccount[],
+  incluirCartoes: boolean = true
+): CashMovement[] {
+  const accountOf = accountResolver(accounts);
+  const inicioISO = formatDateISO(dataBase);
+  const movements: CashMovement[] = [];
+
+  for (const item of getFutureAccountsTimeline(dias - 1, { filial, incluirVencidos: true, today: dataBase })) {
+    const original = formatDateISO(item.data);
+    const itemFilial = String(item.entry.filial || '').trim();
+    movements.push({
+      data: item.vencido ? inicioISO : original,
+      dataOriginal: original,
+      origem: 'TITULO',
+      referencia: String(item.entry.id || ''),
+      descricao: String(item.entry.descricao || ''),
+      filial: itemFilial,
+      contaId: accountOf(itemFilial),
+      valor: item.sentido === CashflowType.ENTRADA ? item.valor : -item.valor,
+      atrasado: item.vencido,
+    });
+  }
+
+  if (incluirCartoes) {
+    // Atrasados: até 1 ano para trás, para não reler toda a agenda
+    const schedule = getExpectedCardReceivables(addDays(dataBase, -365), addDays(dataBase, dias - 1), dataBase);
+    for (const item of schedule.items) {
+      if (item.status === 'LIQUIDADO') continue;
+      if (filial && item.filialFc !== filial) continue;
+      const atrasado = item.status === 'ATRASADO';
+      movements.push({
+        data: atrasado ? inicioISO : item.dataPrevista,
+        dataOriginal: item.dataPrevista,
+        origem: 'CARTAO',
+        referencia: `${item.adquirente}/${item.nsu}/${item.parcela}`,
+        descricao: `${item.adquirente} ${item.bandeira} ${item.parcela}/${item.totalParcelas}`.trim(),
+        filial: item.filialFc,
+        contaId: accountOf(item.filialFc),
+        valor: item.valorLiquidoPrevisto,
+        atrasado,
+      });
+    }
+  }
+
+  return movements.sort((a, b) => a.data.localeCompare(b.data) || a.referencia.localeCompare(b.referencia));
+}
+
+// ============================================================================
+// ESCADA DE CAIXA
+// ============================================================================
+
+/**
+ * Encadeia o saldo dia a dia e aponta os dias abaixo do mínimo
+ *
+ * @param saldos - Saldo de abertura por conta (contaId → saldo)
+ * @param minimos - Saldo mínimo por conta (ausente = sem alerta)
+ */
+export function buildCashLadder(
+  dataBase: Date,
+  dias: number,
+  movements: CashMovement[],
+  saldos: Map<string, Money>,
+  minimos: Map<string, Money>,
+  saldoMinimo: Money
+): Omit<CashLadder, 'filial' | 'contas'> & { contas: Array<Omit<CashLadderAccount, 'descricao' | 'filial'>> } {
+  const byDay = new Map<string, CashMovement[]>();
+  movements.forEach((m) => {
+    const list = byDay.get(m.data) || [];
+    list.push(m);
+    byDay.set(m.data, list);
+  });
+
+  const contaSaldo = new Map<string, Money>(saldos);
+  movements.forEach((m) => {
+    if (m.contaId && !contaSaldo.has(m.contaId)) contaSaldo.set(m.contaId, 0);
+  });
+  const contaStats = new Map<string, Omit<CashLadderAccount, 'descricao' | 'filial'>>();
+  contaSaldo.forEach((saldo, contaId) => {
+    contaStats.set(contaId, {
+      contaId,
+      saldoMinimo: minimos.has(contaId) ? minimos.get(contaId)! : null,
+      saldoInicial: roundMoney(saldo),
+      saldoFinal: roundMoney(saldo),
+      menorSaldo: { data: formatDateISO(dataBase), valor: roundMoney(saldo) },
+      diasAbaixoMinimo: 0,
+      primeiroDiaAbaixo: null,
+    });
+  });
+
+  let saldo = roundMoney(Array.from(saldos.values()).reduce((s, v) => s + v, 0));
+  const saldoInicial = saldo;
+  let menorSaldo = { data: formatDateISO(dataBase), valor: saldo };
+  let primeiroDiaAbaixo: string | null = null;
+  const totais = { titulosReceber: 0, titulosPagar: 0, cartoes: 0, atrasados: 0 };
+  const alertas: CashLadderAlert[] = [];
+
+  const ladder: CashLadderDay[] = [];
+  for (let i = 0; i < dias; i++) {
+    const data = formatDateISO(addDays(dataBase, i));
+    const doDia = byDay.get(data) || [];
+    let entradas = 0;
+    let saidas = 0;
+
+    for (const m of doDia) {
+      if (m.valor >= 0) entradas += m.valor;
+      else saidas += m.valor;
+      if (m.contaId) contaSaldo.set(m.contaId, (contaSaldo.get(m.contaId) || 0) + m.valor);
+
+      if (m.origem === 'CARTAO') totais.cartoes += m.valor;
+      else if (m.valor >= 0) totais.titulosReceber += m.valor;
+      else totais.titulosPagar += -m.valor;
+      if (m.atrasado) totais.atrasados += m.valor;
+    }
+
+    const inicial = saldo;
+    saldo = roundMoney(saldo + entradas + saidas);
+    if (saldo < menorSaldo.valor) menorSaldo = { data, valor: saldo };
+
+    const abaixoMinimo = saldo < saldoMinimo;
+    if (abaixoMinimo) {
+      if (!primeiroDiaAbaixo) primeiroDiaAbaixo = data;
+      alertas.push({
+        data,
+        escopo: 'CONSOLIDADO',
+        contaId: null,
+        saldo,
+        minimo: saldoMinimo,
+        deficit: roundMoney(saldoMinimo - saldo),
+      });
+    }
+
+    const contasAbaixoMinimo: string[] = [];
+    contaStats.forEach((stats, contaId) => {
+      const valor = roundMoney(contaSaldo.get(contaId) || 0);
+      stats.saldoFinal = valor;
+      if (valor < stats.menorSaldo.valor) stats.menorSaldo = { data, valor };
+      if (stats.saldoMinimo === null || valor >= stats.saldoMinimo) return;
+
+      contasAbaixoMinimo.push(contaId);
+      stats.diasAbaixoMinimo++;
+      if (!stats.primeiroDiaAbaixo) stats.primeiroDiaAbaixo = data;
+      alertas.push({
+        data,
+        escopo: 'CONTA',
+        contaId,
+        saldo: valor,
+        minimo: stats.saldoMinimo,
+        deficit: roundMoney(stats.saldoMinimo - valor),
+      });
+    });
+
+    ladder.push({
+      data,
+      saldoInicial: inicial,
+      entradas: roundMoney(entradas),
+      saidas: roundMoney(saidas),
+      saldoFinal: saldo,
+      movimentos: doDia.length,
+      abaixoMinimo,
+      contasAbaixoMinimo,
+    });
+  }
+
+  return {
+    dataBase: formatDateISO(dataBase),
+    fim: formatDateISO(addDays(dataBase, dias - 1)),
+    saldoMinimo,
+    saldoInicial,
+    saldoFinal: saldo,
+    menorSaldo,
+    primeiroDiaAbaixo,
+    dias: ladder,
+    contas: Array.from(contaStats.values()),
+    alertas,
+    totais: {
+      titulosReceber: roundMoney(totais.titulosReceber),
+      titulosPagar: roundMoney(totais.titulosPagar),
+      cartoes: roundMoney(totais.cartoes),
+      atrasados: roundMoney(totais.atrasados),
+    },
+  };
+}
+
+/**
+ * Posição de caixa diária: saldo das contas + títulos + recebíveis de cartão
+ */
+export function getDailyCashPosition(options: CashLadderOptions = {}): CashLadder {
+  const dataBase = options.dataBase || getToday();
+  const diasConfig = Number(options.dias) || ConfigService.getHorizontePosicaoCaixaDias();
+  const dias = Math.min(MAX_DIAS, Math.max(1, Math.floor(diasConfig) || 90));
+  const filial = options.filial ? String(options.filial).trim() : null;
+  const saldoMinimo =
+    options.saldoMinimo !== undefined && options.saldoMinimo !== null && !isNaN(Number(options.saldoMinimo))
+      ? Number(options.saldoMinimo)
+      : Number(ConfigService.getSaldoMinimoConsolidado()) || 0;
+
+  const accounts = getActiveBankAccounts().filter((a) => !filial || a.filial === filial);
+  // Saldo de abertura já inclui o extrato do dia; títulos do dia ainda em aberto entram na escada
+  const saldos = new Map<string, Money>();
+  getBankBalances(dataBase, filial).forEach((b) => saldos.set(b.contaId, b.saldo));
+  const minimos = new Map<string, Money>();
+  accounts.forEach((a) => {
+    if (a.saldoMinimo !== null) minimos.set(a.id, a.saldoMinimo);
+  });
+
+  const movements = loadCashMovements(dataBase, dias, filial, accounts, options.incluirCartoes !== false);
+  const ladder = buildCashLadder(dataBase, dias, movements, saldos, minimos, saldoMinimo);
+
+  const byId = new Map(accounts.map((a) => [a.id, a]));
+  return {
+    ...ladder,
+    filial,
+    contas: ladder.contas.map((c) => ({
+      ...c,
+      descricao: byId.get(c.contaId)?.descricao || c.contaId,
+      filial: byId.get(c.contaId)?.filial || '',
+    })),
+  };
+}
+
+/**
+ * Movimentos de um dia da escada (detalhe do front)
+ */
+export function getCashMovementsForDay(data: string, options: CashLadderOptions = {}): CashMovement[] {
+  const dataBase = options.dataBase || getToday();
+  const dia = parseDateISO(data);
+  if (!dia) throw new Error(`Data inválida: ${data}`);
+  const filial = options.filial ? String(options.filial).trim() : null;
+  const dias = Math.max(1, diffDays(dataBase, dia) + 1);
+  const accounts = getActiveBankAccounts().filter((a) => !filial || a.filial === filial);
+  return loadCashMovements(dataBase, dias, filial, accounts, options.incluirCartoes !== false).filter(
+    (m) => m.data === data
+  );
+}
@@ -6,11 +6,12 @@
  * Responsabilidades:
  * - Calcular fluxo de caixa realizado (com base em lançamentos pagos)
  * - Calcular fluxo de caixa projetado (com base em lançamentos previstos)
+ *   (projeção por cenários gravada em TB_DFC_PROJ: forecast-service)
  * - Gerar timeline de contas futuras
  * - Calcular saldo projetado
  */
 
-import { getSheetValues, setSheetValues, clearRange, createSheetIfNotExists } from '../shared/sheets-client';
+import { getSheetValues, createSheetIfNotExists } from '../shared/sheets-client';
 import { Sheets } from '../config/sheet-mapping';
 import {
   CashflowLine,
@@ -23,9 +24,16 @@ import {
   LedgerEntryType,
 } from '../shared/types';
 import { listEntries } from './ledger-service';
+import { residualAmount } from './reconciliation-service';
 import { sumMoney } from '../shared/money-utils';
-import { formatDateISO, generatePeriodRange, getFirstDayOfPeriod } from '../shared/date-utils';
-import { getAccountByCode } from './reference-data-service';
+import {
+  BusinessDayOptions,
+  formatDateISO,
+  generatePeriodRange,
+  getFirstDayOfPeriod,
+  nextBusinessDay,
+} from '../shared/date-utils';
+import { getAccountByCode, getBusinessDayOptions } from './reference-data-service';
 
 // ============================================================================
 // CÁLCULO DE FLUXO DE CAIXA REALIZADO
@@ -145,9 +153,8 @@ export interface CashflowProjectionParams {
  * @param params - Parâmetros de projeção
  * @returns Array de linhas de fluxo de caixa projetado
  *
- * TODO: Implementar projeções baseadas em histórico
- * TODO: Considerar sazonalidade
- * TODO: Permitir ajustes manuais
+ * Considera apenas lançamentos previstos; a projeção por cenários (histórico,
+ * sazonalidade, recorrências e ajustes manuais) está em forecast-service.
  */
 export function calculateForecastCashflow(
   startPeriod: Period,
@@ -172,18 +179,31 @@ export function calculateForecastCashflow(
 
   const periods = generatePeriodRange(startPeriod, endPeriod);
 
+  // Vencimento em dia não útil é pago/recebido no próximo dia útil da filial
+  const calendars = new Map<string, BusinessDayOptions>();
+  const effectiveDate = (entry: { vencimento: Date | null; filial: string }): Date | null => {
+    if (!entry.vencimento) return null;
+    let calendar = calendars.get(entry.filial);
+    if (!calendar) {
+      calendar = getBusinessDayOptions(entry.filial || null);
+      calendars.set(entry.filial, calendar);
+    }
+    return nextBusinessDay(entry.vencimento, calendar);
+  };
+  const datedEntries = entries.map((entry) => ({ entry, date: effectiveDate(entry) }));
+
   for (const period of periods) {
     // Filtra lançamentos previstos do período
-    const periodEntries = entries.filter((entry) => {
-      if (!entry.vencimento) return false;
+    const periodEntries = datedEntries.filter(({ date }) => {
+      if (!date) return false;
 
-      const entryYear = entry.vencimento.getFullYear();
-      const entryMonth = entry.vencimento.getMonth() + 1;
+      const entryYear = date.getFullYear();
+      const entryMonth = date.getMonth() + 1;
 
       return entryYear === period.year && entryMonth === period.month;
     });
 
-    for (const entry of periodEntries) {
+    for (const { entry, date } of periodEntries) {
       const accountCode = entry.contaContabil || entry.contaGerencial;
       const account = accountCode ? getAccountByCode(accountCode) : null;
       const category: CashflowCategory = account?.grupoDFC || CashflowCategory.OPERACIONAL;
@@ -192,7 +212,7 @@ export function calculateForecastCashflow(
         entry.tipo === LedgerEntryType.RECEBER ? CashflowType.ENTRADA : CashflowType.SAIDA;
 
       const line: CashflowLine = {
-        date: entry.vencimento!,
+        date: date!,
         type,
         category,
         description: entry.descricao,
@@ -207,65 +227,90 @@ export function calculateForecastCashflow(
   return lines;
 }
 
+// ============================================================================
+// TIMELINE E SALDOS
+// ============================================================================
+
 /**
- * Persiste fluxo de caixa projetado na aba TB_DFC_PROJ
- *
- * TODO: Implementar estrutura agregada por mês (não dia a dia)
+ * Título a pagar/receber na timeline, já na data efetiva de pagamento
  */
-export function persistForecastCashflow(lines: CashflowLine[]): void {
-  const headers = ['Ano', 'Mes', 'Categoria', 'Tipo', 'Valor'];
-  createSheetIfNotExists(Sheets.TB_DFC_PROJ, headers);
-
-  const aggregated = new Map<string, Money>();
-  for (const line of lines) {
-    const year = line.date.getFullYear();
-    const month = line.date.getMonth() + 1;
-    const key = `${year}|${month}|${line.category}|${line.type}`;
-    aggregated.set(key, (aggregated.get(key) || 0) + line.value);
-  }
-
-  const rows = Array.from(aggregated.entries()).map(([key, value]) => {
-    const [year, month, category, type] = key.split('|');
-    return [Number(year), Number(month), category, type, value];
-  });
+export interface FutureAccountItem {
+  entry: LedgerEntry;
+  data: Date; // vencimento prorrogado para o próximo dia útil da filial
+  valor: Money; // saldo em aberto (descontado o já conciliado)
+  sentido: CashflowType;
+  vencido: boolean;
+}
 
-  clearRange(Sheets.TB_DFC_PROJ, 'A1:Z');
-  setSheetValues(Sheets.TB_DFC_PROJ, 'A1', [headers, ...rows]);
+export interface FutureAccountsOptions {
+  filial?: string | null;
+  incluirVencidos?: boolean; // inclui títulos já vencidos (data efetiva anterior a hoje)
+  today?: Date;
 }
 
-// ============================================================================
-// TIMELINE E SALDOS
-// ============================================================================
+// PREVISTO é o vocabulário do ledger; os demais, o de TB_LANCAMENTOS
+const OPEN_STATUSES = ['PREVISTO', 'PENDENTE', 'VENCIDA', 'PARCIAL'];
+const ENTRADA_TIPOS = ['RECEBER', 'RECEITA'];
+const SAIDA_TIPOS = ['PAGAR', 'DESPESA'];
 
 /**
  * Gera timeline de contas futuras (a pagar e a receber)
  *
+ * Considera o saldo em aberto de cada título e o vencimento prorrogado para o
+ * próximo dia útil da filial.
+ *
  * @param horizonDays - Quantos dias à frente projetar
- * @returns Array de lançamentos futuros ordenados por vencimento
+ * @returns Títulos em aberto ordenados pela data efetiva
  */
-export function getFutureAccountsTimeline(horizonDays: number = 90): LedgerEntry[] {
-  const entries = listEntries({ status: LedgerEntryStatus.PREVISTO });
+export function getFutureAccountsTimeline(
+  horizonDays: number = 90,
+  options: FutureAccountsOptions = {}
+): FutureAccountItem[] {
+  const entries = listEntries(options.filial ? { filial: options.filial } : {});
 
-  const today = new Date();
+  const today = options.today ? new Date(options.today) : new Date();
   today.setHours(0, 0, 0, 0);
 
   const futureDate = new Date(today);
   futureDate.setDate(futureDate.getDate() + horizonDays);
 
-  // Filtra por vencimento
-  const futureEntries = entries.filter((entry) => {
-    if (!entry.vencimento) return false;
+  const calendars = new Map<string, BusinessDayOptions>();
+  const calendarOf = (filial: string): BusinessDayOptions => {
+    let calendar = calendars.get(filial);
+    if (!calendar) {
+      calendar = getBusinessDayOptions(filial || null);
+      calendars.set(filial, calendar);
+    }
+    return calendar;
+  };
 
-    return entry.vencimento >= today && entry.vencimento <= futureDate;
-  });
+  const items: FutureAccountItem[] = [];
+  for (const entry of entries) {
+    if (!entry.vencimento) continue;
+    if (!OPEN_STATUSES.includes(String(entry.status || '').toUpperCase())) continue;
 
-  // Ordena por vencimento
-  futureEntries.sort((a, b) => {
-    if (!a.vencimento || !b.vencimento) return 0;
-    return a.vencimento.getTime() - b.vencimento.getTime();
-  });
+    const tipo = String(entry.tipo || '').toUpperCase();
+    const sentido = ENTRADA_TIPOS.includes(tipo)
+      ? CashflowType.ENTRADA
+      : SAIDA_TIPOS.includes(tipo)
+        ? CashflowType.SAIDA
+        : null;
+    if (!sentido) continue;
+
+    const data = nextBusinessDay(entry.vencimento, calendarOf(String(entry.filial || '')));
+    const vencido = data < today;
+    if (data > futureDate || (vencido && !options.incluirVencidos)) continue;
+
+    const valor = residualAmount(entry.valorConciliado ?? '', entry.valorLiquido, !!entry.idExtratoBanco);
+    if (!valor) continue;
+
+    items.push({ entry, data, valor, sentido, vencido });
+  }
+
+  // Ordena pela data efetiva
+  items.sort((a, b) => a.data.getTime() - b.data.getTime());
 
-  return futureEntries;
+  return items;
 }
 
 /**
@@ -176,6 +176,38 @@ export const ConfigService = {
     return getConfig(ConfigKey.TOLERANCIA_CONCILIACAO, 0.01);
   },
 
+  getContaAjusteDespesaFinanceira(): string {
+    return getConfig(ConfigKey.CONTA_AJUSTE_DESPESA_FINANCEIRA, '4.01.001');
+  },
+
+  getContaAjusteReceitaFinanceira(): string {
+    return getConfig(ConfigKey.CONTA_AJUSTE_RECEITA_FINANCEIRA, '4.02.001');
+  },
+
+  getContaAjusteDescontoObtido(): string {
+    return getConfig(ConfigKey.CONTA_AJUSTE_DESCONTO_OBTIDO, '4.02.002');
+  },
+
+  getContaAjusteTarifa(): string {
+    return getConfig(ConfigKey.CONTA_AJUSTE_TARIFA, '4.01.002');
+  },
+
+  getDiasCarenciaVencimento(): number {
+    return getConfig(ConfigKey.DIAS_CARENCIA_VENCIMENTO, 0);
+  },
+
+  isCarenciaEmDiasUteis(): boolean {
+    return getConfig(ConfigKey.CARENCIA_DIAS_UTEIS, true);
+  },
+
+  getSaldoMinimoConsolidado(): number {
+    return getConfig(ConfigKey.SALDO_MINIMO_CONSOLIDADO, 0);
+  },
+
+  getHorizontePosicaoCaixaDias(): number {
+    return getConfig(ConfigKey.HORIZONTE_POSICAO_CAIXA_DIAS, 90);
+  },
+
   getCacheTTL(): number {
     return getConfig(ConfigKey.CACHE_TTL_MINUTES, 60);
   },
@@ -0,0 +1,381 @@
+/**
+ * counterparty-service.ts
+ *
+ * Identificação de clientes e fornecedores (contrapartes) por CPF/CNPJ e nome.
+ *
+ * Responsabilidades:
+ * - Extrair pagador/recebedor e CPF/CNPJ das linhas PIX do Itaú
+ * - Montar o cadastro de contrapartes conhecidas a partir de filiais, parceiros
+ *   (REF_PARCEIROS), NF-e (SIEG), lançamentos e do próprio histórico PIX
+ * - Resolver a contraparte de um movimento: documento, raiz do CNPJ, CPF
+ *   mascarado ou nome
+ *
+ * IMPORTANTE:
+ * - Documentos só são aceitos com dígitos verificadores válidos
+ * - O Itaú costuma mascarar o CPF no PIX (***.123.456-**): os 6 dígitos visíveis
+ *   só identificam a pessoa junto com o nome
+ * - Movimentos do extrato (TB_EXTRATOS) são ligados à linha Itaú por data + valor
+ */
+
+import { getSheetValues } from '../shared/sheets-client';
+import { Sheets, TB_IMPORT_ITAU_COLS, TB_IMPORT_SIEG_COLS, TB_LANCAMENTOS_COLS } from '../config/sheet-mapping';
+import { Money } from '../shared/types';
+import { formatDateISO, parseDate, parseDateISO } from '../shared/date-utils';
+import { cacheGetOrLoad, CacheNamespace, CacheScope } from '../shared/cache';
+import { cnpjRoot, formatTaxId, normalizeTaxId, TaxIdKind, taxIdKind } from '../shared/tax-id-utils';
+import { getAllPartners } from './reference-data-service';
+
+// ============================================================================
+// TIPOS
+// ============================================================================
+
+export type CounterpartySource = 'FILIAL' | 'PARCEIRO' | 'NFE' | 'LANCAMENTO' | 'PIX';
+
+/**
+ * Contraparte conhecida (um registro por CPF/CNPJ)
+ */
+export interface Counterparty {
+  documento: string; // dígitos
+  tipo: TaxIdKind;
+  nome: string;
+  fontes: CounterpartySource[];
+}
+
+/**
+ * Movimento PIX decomposto
+ */
+export interface PixTransaction {
+  direcao: 'RECEBIDO' | 'ENVIADO' | null;
+  nome: string;
+  documentoInformado: string; // como veio do banco
+  documento: string | null; // dígitos, apenas se válido
+  documentoMascarado: string | null; // 6 dígitos centrais de CPF mascarado
+}
+
+/**
+ * Resultado da identificação
+ */
+export interface CounterpartyMatch {
+  documento: string;
+  documentoFormatado: string;
+  tipo: TaxIdKind;
+  nome: string;
+  criterio: 'DOCUMENTO' | 'RAIZ_CNPJ' | 'CPF_MASCARADO' | 'NOME';
+  confianca: number; // 0-100
+}
+
+/**
+ * Contraparte de um movimento do extrato
+ */
+export interface StatementCounterparty {
+  pix: PixTransaction | null;
+  contraparte: CounterpartyMatch | null;
+}
+
+/** Prioridade do nome quando o mesmo documento aparece em mais de uma fonte */
+const SOURCE_PRIORITY: Record<CounterpartySource, number> = {
+  FILIAL: 0,
+  PARCEIRO: 1,
+  NFE: 2,
+  LANCAMENTO: 3,
+  PIX: 4,
+};
+
+/** Semelhança mínima de nomes para identificar só pelo nome */
+const NAME_MATCH_MIN = 0.8;
+
+/** Semelhança mínima de nomes para confirmar CPF mascarado */
+const MASKED_NAME_MIN = 0.5;
+
+const NAME_STOPWORDS = new Set([
+  'LTDA', 'EIRELI', 'EPP', 'ME', 'MEI', 'SA', 'S', 'A', 'CIA', 'DE', 'DA', 'DO', 'DAS', 'DOS', 'E',
+  'COMERCIO', 'SERVICOS', 'INDUSTRIA',
+]);
+
+/** Palavras que o Itaú coloca antes do nome no lançamento PIX */
+const PIX_PREFIX = /^(SISPAG\s+)?PIX\s+((TRANSF(ERENCIA)?|RECEB(IDO)?|ENVIADO|ENVIO|QRS|QR\s*CODE|DEVOL(UCAO)?|AGENDADO)\s+)*/;
+
+// ============================================================================
+// PIX
+// ============================================================================
+
+function normalizeName(value: any): string {
+  return String(value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .trim();
+}
+
+function nameTokens(value: any): string[] {
+  return Array.from(new Set(
+    normalizeName(value)
+      .split(' ')
+      .filter((t) => t.length >= 2 && !/^\d+$/.test(t) && !NAME_STOPWORDS.has(t))
+  ));
+}
+
+/**
+ * Semelhança entre nomes (Dice sobre palavras; o banco trunca a última
+ * palavra, então prefixo com 3+ letras também conta)
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const ta = nameTokens(a);
+  const tb = nameTokens(b);
+  if (!ta.length || !tb.length) return 0;
+
+  let hits = 0;
+  for (const x of ta) {
+    const found = tb.some(
+      (y) => x === y || (Math.min(x.length, y.length) >= 3 && (x.startsWith(y) || y.startsWith(x)))
+    );
+    if (found) hits++;
+  }
+  return (2 * hits) / (ta.length + tb.length);
+}
+
+export function isPixMovement(lancamento: any): boolean {
+  return /(^|\s)PIX(\s|$)/.test(normalizeName(lancamento));
+}
+
+/**
+ * Decompõe uma linha PIX do Itaú. O nome vem de razaoSocial (modelo B) ou do
+ * próprio lançamento (modelo A: "PIX TRANSF FULANO DE T12/10")
+ *
+ * @returns null quando o lançamento não é PIX
+ */
+export function parsePixTransaction(lancamento: any, razaoSocial?: any, cpfCnpj?: any): PixTransaction | null {
+  const texto = String(lancamento || '');
+  if (!isPixMovement(texto)) return null;
+
+  const upper = normalizeName(texto);
+  const direcao = /\b(RECEB|RECEBIDO|DEVOL|DEVOLUCAO)\b/.test(upper)
+    ? 'RECEBIDO'
+    : /\b(ENVIADO|ENVIO|QRS|SISPAG|AGENDADO)\b/.test(upper)
+      ? 'ENVIADO'
+      : null;
+
+  let nome = String(razaoSocial || '').trim();
+  if (!nome) {
+    nome = texto
+      .toUpperCase()
+      .replace(/\*{3}\.?\d{3}\.?\d{3}-?\*{2}/g, ' ')
+      .replace(/\d{2}\.\d{3}\.\d{3}\/\d{4}-\d{2}|\d{3}\.\d{3}\.\d{3}-\d{2}/g, ' ')
+      .replace(/\d{2}\/\d{2}(\/\d{2,4})?\s*$/, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .replace(PIX_PREFIX, '')
+      .trim();
+  }
+
+  const informado = String(cpfCnpj || '').trim() || (texto.match(/\d{2}\.\d{3}\.\d{3}\/\d{4}-\d{2}|\d{3}\.\d{3}\.\d{3}-\d{2}/) || [''])[0];
+  const masked = informado.match(/^\*{3}\.?(\d{3})\.?(\d{3})-?\*{2}$/) || texto.match(/\*{3}\.?(\d{3})\.?(\d{3})-?\*{2}/);
+  const digits = normalizeTaxId(informado);
+
+  return {
+    direcao,
+    nome,
+    documentoInformado: informado,
+    documento: taxIdKind(digits) ? digits : null,
+    documentoMascarado: masked ? `${masked[1]}${masked[2]}` : null,
+  };
+}
+
+// ============================================================================
+// CADASTRO DE CONTRAPARTES
+// ============================================================================
+
+function toDateValue(value: any): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : new Date(value.getFullYear(), value.getMonth(), value.getDate());
+  }
+  const str = String(value || '').trim();
+  if (!str) return null;
+  return /^\d{4}-\d{2}-\d{2}/.test(str) ? parseDateISO(str.slice(0, 10)) : parseDate(str);
+}
+
+/**
+ * CPF/CNPJ válidos citados num texto livre
+ */
+export function taxIdsInText(value: any): string[] {
+  const text = String(value || '');
+  const found = (text.match(/\d{2}\.\d{3}\.\d{3}\/\d{4}-\d{2}|\d{3}\.\d{3}\.\d{3}-\d{2}|\b\d{11}\b|\b\d{14}\b/g) || [])
+    .map(normalizeTaxId)
+    .filter((d) => taxIdKind(d) !== null);
+  return Array.from(new Set(found));
+}
+
+function loadCounterparties(): Counterparty[] {
+  const byDoc = new Map<string, Counterparty & { prioridade: number }>();
+
+  const add = (documento: any, nome: any, fonte: CounterpartySource) => {
+    const digits = normalizeTaxId(documento);
+    const tipo = taxIdKind(digits);
+    const nomeLimpo = String(nome || '').replace(/\s+/g, ' ').trim();
+    if (!tipo) return;
+
+    const existing = byDoc.get(digits);
+    if (!existing) {
+      byDoc.set(digits, { documento: digits, tipo, nome: nomeLimpo, fontes: [fonte], prioridade: SOURCE_PRIORITY[fonte] });
+      return;
+    }
+    if (!existing.fontes.includes(fonte)) existing.fontes.push(fonte);
+    if (nomeLimpo && (!existing.nome || SOURCE_PRIORITY[fonte] < existing.prioridade)) {
+      existing.nome = nomeLimpo;
+      existing.prioridade = SOURCE_PRIORITY[fonte];
+    }
+  };
+
+  getSheetValues(Sheets.REF_FILIAIS, { skipHeader: true }).forEach((row) => add(row[2], row[1], 'FILIAL'));
+  getAllPartners().forEach((p) => add(p.documento, p.razaoSocial, 'PARCEIRO'));
+
+  const S = TB_IMPORT_SIEG_COLS;
+  getSheetValues(Sheets.TB_IMPORT_SIEG, { skipHeader: true }).forEach((row) => {
+    add(row[S.CNPJ_EMIT], row[S.RAZAO_EMIT] || row[S.NOME_FANT_EMIT], 'NFE');
+    add(row[S.CNPJ_DEST], row[S.RAZAO_DEST] || row[S.NOME_FANT_DEST], 'NFE');
+  });
+
+  // Lançamentos citam o documento em descrição/observações; o nome é o início da descrição
+  const L = TB_LANCAMENTOS_COLS;
+  getSheetValues(Sheets.TB_LANCAMENTOS, { skipHeader: true }).forEach((row) => {
+    const descricao = String(row[L.DESCRICAO] || '');
+    taxIdsInText(`${descricao} ${row[L.OBSERVACOES] || ''}`).forEach((doc) =>
+      add(doc, descricao.split('-')[0], 'LANCAMENTO')
+    );
+  });
+
+  const I = TB_IMPORT_ITAU_COLS;
+  getSheetValues(Sheets.TB_IMPORT_ITAU, { skipHeader: true }).forEach((row) => {
+    const pix = parsePixTransaction(row[I.LANCAMENTO], row[I.RAZAO_SOCIAL], row[I.CPF_CNPJ]);
+    if (pix?.documento) add(pix.documento, pix.nome, 'PIX');
+  });
+
+  return Array.from(byDoc.values()).map(({ prioridade, ...cp }) => cp);
+}
+
+/**
+ * Contrapartes conhecidas (cache curto: importações e lançamentos alteram o cadastro)
+ */
+export function getKnownCounterparties(): Counterparty[] {
+  return cacheGetOrLoad(CacheNamespace.CONCILIACAO, 'counterparties', loadCounterparties, 600, CacheScope.SCRIPT);
+}
+
+// ============================================================================
+// IDENTIFICAÇÃO
+// ============================================================================
+
+function toMatch(cp: Counterparty, criterio: CounterpartyMatch['criterio'], confianca: number): CounterpartyMatch {
+  return {
+    documento: cp.documento,
+    documentoFormatado: formatTaxId(cp.documento),
+    tipo: cp.tipo,
+    nome: cp.nome,
+    criterio,
+    confianca: Math.round(confianca),
+  };
+}
+
+/**
+ * Melhor contraparte por nome entre os candidatos (exige vencedor único)
+ */
+function bestByName(nome: string, candidates: Counterparty[], minimo: number): { cp: Counterparty; score: number } | null {
+  let best: { cp: Counterparty; score: number } | null = null;
+  let empate = false;
+  for (const cp of candidates) {
+    const score = nameSimilarity(nome, cp.nome);
+    if (score < minimo) continue;
+    if (!best || score > best.score) {
+      best = { cp, score };
+      empate = false;
+    } else if (score === best.score) {
+      empate = true;
+    }
+  }
+  return best && !empate ? best : null;
+}
+
+/**
+ * Identifica a contraparte, na ordem: documento válido, raiz do CNPJ (outro
+ * estabelecimento da mesma empresa), CPF mascarado + nome, nome
+ *
+ * @param directory - Cadastro já carregado (padrão: getKnownCounterparties)
+ */
+export function resolveCounterparty(
+  input: { documento?: any; documentoMascarado?: string | null; nome?: any },
+  directory: Counterparty[] = getKnownCounterparties()
+): CounterpartyMatch | null {
+  const documento = normalizeTaxId(input.documento);
+  const nome = String(input.nome || '').trim();
+
+  if (taxIdKind(documento)) {
+    const exato = directory.find((cp) => cp.documento === documento);
+    if (exato) return toMatch(exato, 'DOCUMENTO', 100);
+
+    const raiz = cnpjRoot(documento);
+    const mesmaEmpresa = raiz ? directory.filter((cp) => cnpjRoot(cp.documento) === raiz) : [];
+    if (mesmaEmpresa.length) {
+      const porNome = nome ? bestByName(nome, mesmaEmpresa, 0) : null;
+      return toMatch({ ...(porNome?.cp || mesmaEmpresa[0]), documento }, 'RAIZ_CNPJ', 85);
+    }
+  }
+
+  if (input.documentoMascarado && nome) {
+    const cpfs = directory.filter((cp) => cp.tipo === 'CPF' && cp.documento.slice(3, 9) === input.documentoMascarado);
+    const found = bestByName(nome, cpfs, MASKED_NAME_MIN);
+    if (found) return toMatch(found.cp, 'CPF_MASCARADO', 90);
+  }
+
+  if (nome) {
+    const found = bestByName(nome, directory, NAME_MATCH_MIN);
+    if (found) return toMatch(found.cp, 'NOME', 60 + 20 * found.score);
+  }
+
+  return null;
+}
+
+/**
+ * Índice das linhas PIX do Itaú por data|centavos
+ */
+function loadPixIndex(): Map<string, PixTransaction> {
+  const I = TB_IMPORT_ITAU_COLS;
+  const index = new Map<string, PixTransaction>();
+  for (const row of getSheetValues(Sheets.TB_IMPORT_ITAU, { skipHeader: true })) {
+    const data = toDateValue(row[I.DATA]);
+    const valor = parseFloat(row[I.VALOR]);
+    if (!data || isNaN(valor)) continue;
+    const pix = parsePixTransaction(row[I.LANCAMENTO], row[I.RAZAO_SOCIAL], row[I.CPF_CNPJ]);
+    if (pix) index.set(`${formatDateISO(data)}|${Math.round(Math.abs(valor) * 100)}`, pix);
+  }
+  return index;
+}
+
+/**
+ * Resolve a contraparte de vários movimentos do extrato de uma vez
+ *
+ * O PIX vem da linha Itaú de mesma data e valor; sem ela, do próprio histórico.
+ */
+export function resolveStatementCounterparties(
+  movimentos: Array<{ data: any; valor: Money; historico: string }>
+): StatementCounterparty[] {
+  if (!movimentos.length) return [];
+  const pixIndex = loadPixIndex();
+  let directory: Counterparty[] | null = null;
+
+  return movimentos.map((mov) => {
+    const data = toDateValue(mov.data);
+    const key = data ? `${formatDateISO(data)}|${Math.round(Math.abs(Number(mov.valor) || 0) * 100)}` : '';
+    const pix = (key && pixIndex.get(key)) || parsePixTransaction(mov.historico);
+    if (!pix) return { pix: null, contraparte: null };
+
+    if (!directory) directory = getKnownCounterparties();
+    return { pix, contraparte: resolveCounterparty(pix, directory) };
+  });
+}
+
+/**
+ * Contraparte de um único movimento do extrato
+ */
+export function resolveStatementCounterparty(data: any, valor: Money, historico: string): StatementCounterparty {
+  return resolveStatementCounterparties([{ data, valor, historico }])[0];
+}
@@ -0,0 +1,617 @@
+/**
+ * dre-layout-service.ts
+ *
+ * Estrutura configurável da DRE (CFG_DRE_LAYOUT).
+ *
+ * Responsabilidades:
+ * - Ler a estrutura da DRE: linhas ordenadas, fontes de cada linha (grupo/
+ *   subgrupo DRE, classe da conta, contas, centros de custo) e fórmulas dos
+ *   subtotais
+ * - Classificar lançamentos nas linhas da estrutura
+ * - Calcular os valores de todas as linhas para um conjunto de lançamentos
+ *
+ * IMPORTANTE:
+ * - Aba vazia (ou inexistente) = estrutura padrão (DEFAULT_DRE_LAYOUT_ROWS)
+ * - Uma linha VALOR pode ter várias fontes: basta repetir o código em outra
+ *   linha da aba (descrição, sinal, nível e ordem vêm da primeira)
+ * - Cada lançamento cai em uma única linha por valor: o valor principal
+ *   (BRUTO/LIQUIDO) na primeira fonte que o aceita e o desconto na primeira
+ *   fonte DESCONTO que o aceita. Fontes com critério (grupo, subgrupo, classe,
+ *   conta ou centro de custo) têm prioridade sobre fontes genéricas
+ * - O desconto só é classificado quando o valor principal entrou pelo BRUTO;
+ *   pelo LIQUIDO ele já está descontado
+ * - Convenção de sinal: receita soma e despesa subtrai no resultado; desconto
+ *   de receita subtrai e desconto de despesa soma. A linha exibe o valor
+ *   multiplicado pelo seu SINAL, de modo que receitas, deduções, custos e
+ *   despesas aparecem positivos
+ * - Fórmulas de SUBTOTAL usam os valores exibidos das linhas citadas
+ *   (ex.: RECEITA_BRUTA - DEDUCOES) e podem citar outros subtotais
+ */
+
+import { getSheetValues, createSheetIfNotExists } from '../shared/sheets-client';
+import { SHEET_CFG_DRE_LAYOUT, CFG_DRE_LAYOUT_COLS } from '../config/sheet-mapping';
+import { Money } from '../shared/types';
+import { roundMoney } from '../shared/money-utils';
+import { cacheGetOrLoad, CacheNamespace, CacheScope } from '../shared/cache';
+
+// ============================================================================
+// TIPOS
+// ============================================================================
+
+/**
+ * Tipo da linha: VALOR soma lançamentos; SUBTOTAL aplica uma fórmula
+ */
+export enum DRELayoutLineType {
+  VALOR = 'VALOR',
+  SUBTOTAL = 'SUBTOTAL',
+}
+
+/**
+ * Valor do lançamento que alimenta a linha
+ */
+export enum DREValueBase {
+  BRUTO = 'BRUTO',
+  LIQUIDO = 'LIQUIDO',
+  DESCONTO = 'DESCONTO',
+}
+
+/**
+ * Fonte de uma linha VALOR (critérios vazios = aceita qualquer valor)
+ */
+export interface DRELayoutSource {
+  base: DREValueBase;
+  tipoLancamento: 'RECEITA' | 'DESPESA' | null;
+  grupos: string[];
+  subgrupos: string[];
+  classes: string[];
+  contas: string[];
+  centrosCusto: string[];
+}
+
+/**
+ * Termo de fórmula de subtotal
+ */
+export interface DREFormulaTerm {
+  codigo: string;
+  sinal: 1 | -1;
+}
+
+/**
+ * Linha da estrutura da DRE
+ */
+export interface DRELayoutLine {
+  ordem: number;
+  codigo: string;
+  descricao: string;
+  tipo: DRELayoutLineType;
+  sinal: 1 | -1;
+  nivel: number;
+  formula: DREFormulaTerm[];
+  fontes: DRELayoutSource[];
+}
+
+/**
+ * Estrutura completa, com as fontes já na ordem de classificação
+ */
+export interface DRELayout {
+  linhas: DRELayoutLine[];
+  fontes: Array<{ codigo: string; fonte: DRELayoutSource }>;
+  padrao: boolean; // true = estrutura padrão (aba vazia)
+}
+
+/**
+ * Campos do lançamento usados na classificação (TB_LANCAMENTOS ou LedgerEntry)
+ */
+export interface DREClassifiableEntry {
+  tipo: string; // RECEITA/DESPESA ou RECEBER/PAGAR
+  valorBruto: Money;
+  desconto: Money;
+  valorLiquido: Money;
+  contaContabil?: string | null;
+  centroCusto?: string | null;
+}
+
+/**
+ * Atributos da conta do plano de contas usados nos critérios
+ */
+export interface DREAccountInfo {
+  tipo?: string | null;
+  grupoDRE?: string | null;
+  subgrupoDRE?: string | null;
+  variavelFixa?: string | null;
+  cmaCmv?: string | null;
+}
+
+export type DREAccountLookup = (codigo: string) => DREAccountInfo | null;
+
+/**
+ * Linhas que recebem cada valor do lançamento (null = não classificado)
+ */
+export interface DREEntryClassification {
+  principal: string | null;
+  desconto: string | null;
+  valorPrincipal: Money; // com sinal (receita +, despesa -)
+  valorDesconto: Money; // com sinal (desconto de receita -, de despesa +)
+}
+
+/**
+ * Valor calculado de uma linha
+ */
+export interface DRELayoutLineValue {
+  codigo: string;
+  descricao: string;
+  tipo: DRELayoutLineType;
+  sinal: 1 | -1;
+  nivel: number;
+  valor: Money;
+  percentual: number | null; // % da receita líquida
+  componentes: string[]; // linhas citadas na fórmula (SUBTOTAL)
+  lancamentos: number; // lançamentos classificados na linha (VALOR)
+}
+
+/**
+ * Resultado da DRE calculada pela estrutura
+ */
+export interface DRELayoutResult {
+  linhas: DRELayoutLineValue[];
+  valores: Record<string, Money>;
+  naoClassificado: { lancamentos: number; valor: Money };
+  totalLancado: Money; // soma com sinal de todos os valores classificáveis
+}
+
+// ============================================================================
+// CONSTANTES
+// ============================================================================
+
+/**
+ * Códigos de linha usados pelos relatórios (getDREMensal, calculateDRE, comitê)
+ */
+export const DRE_LINE_CODES = {
+  RECEITA_BRUTA: 'RECEITA_BRUTA',
+  DEDUCOES: 'DEDUCOES',
+  RECEITA_LIQUIDA: 'RECEITA_LIQUIDA',
+  CUSTOS: 'CUSTOS',
+  MARGEM_BRUTA: 'MARGEM_BRUTA',
+  DESPESAS_OPERACIONAIS: 'DESPESAS_OPERACIONAIS',
+  DESP_PESSOAL: 'DESP_PESSOAL',
+  DESP_MARKETING: 'DESP_MARKETING',
+  DESP_ADMINISTRATIVAS: 'DESP_ADMINISTRATIVAS',
+  EBITDA: 'EBITDA',
+  RESULTADO_FINANCEIRO: 'RESULTADO_FINANCEIRO',
+  LUCRO_LIQUIDO: 'LUCRO_LIQUIDO',
+} as const;
+
+export const DRE_LAYOUT_HEADERS = [
+  'Ordem',
+  'Código',
+  'Descrição',
+  'Tipo',
+  'Sinal',
+  'Base',
+  'Tipo Lançamento',
+  'Grupos DRE',
+  'Subgrupos DRE',
+  'Classes Conta',
+  'Contas',
+  'Centros Custo',
+  'Fórmula',
+  'Nível',
+];
+
+/**
+ * Estrutura padrão (mesmas colunas de CFG_DRE_LAYOUT)
+ */
+export const DEFAULT_DRE_LAYOUT_ROWS: any[][] = [
+  [10, 'RECEITA_BRUTA', 'Receita Bruta', 'VALOR', '+', 'BRUTO', 'RECEITA', '', '', '', '', '', '', 0],
+  [20, 'DEDUCOES', '(-) Deduções', 'VALOR', '-', 'DESCONTO', 'RECEITA', '', '', '', '', '', '', 1],
+  [20, 'DEDUCOES', '(-) Deduções', 'VALOR', '-', 'LIQUIDO', '', '*DEDU*', '', '', '', '', '', 1],
+  [30, 'RECEITA_LIQUIDA', '(=) Receita Líquida', 'SUBTOTAL', '+', '', '', '', '', '', '', '', 'RECEITA_BRUTA - DEDUCOES', 0],
+  [40, 'CUSTOS', '(-) Custo das Mercadorias/Serviços', 'VALOR', '-', 'LIQUIDO', 'DESPESA', '*CMV*;*CUSTO*;*CSP*', '', '', '', '', '', 0],
+  [40, 'CUSTOS', '(-) Custo das Mercadorias/Serviços', 'VALOR', '-', 'LIQUIDO', 'DESPESA', '', '', 'CUSTO;CMA;CMV', '', '', '', 0],
+  [50, 'MARGEM_BRUTA', '(=) Margem Bruta', 'SUBTOTAL', '+', '', '', '', '', '', '', '', 'RECEITA_LIQUIDA - CUSTOS', 0],
+  [60, 'DESPESAS_OPERACIONAIS', '(-) Despesas Operacionais', 'SUBTOTAL', '-', '', '', '', '', '', '', '', 'DESP_PESSOAL + DESP_MARKETING + DESP_ADMINISTRATIVAS', 0],
+  [61, 'DESP_PESSOAL', 'Pessoal', 'VALOR', '-', 'LIQUIDO', 'DESPESA', '', 'Pessoal', '', '', '', '', 1],
+  [62, 'DESP_MARKETING', 'Marketing e Comercial', 'VALOR', '-', 'LIQUIDO', 'DESPESA', '', 'Marketing;Comercial', '', '', '', '', 1],
+  [63, 'DESP_ADMINISTRATIVAS', 'Administrativas e demais', 'VALOR', '-', 'LIQUIDO', 'DESPESA', '', '', '', '', '', '', 1],
+  [70, 'EBITDA', '(=) EBITDA', 'SUBTOTAL', '+', '', '', '', '', '', '', '', 'MARGEM_BRUTA - DESPESAS_OPERACIONAIS', 0],
+  [80, 'RESULTADO_FINANCEIRO', '(+/-) Resultado Financeiro', 'VALOR', '+', 'LIQUIDO', '', '*FINANCEIRO*', '', '', '', '', '', 0],
+  [90, 'LUCRO_LIQUIDO', '(=) Lucro Líquido', 'SUBTOTAL', '+', '', '', '', '', '', '', '', 'EBITDA + RESULTADO_FINANCEIRO', 0],
+];
+
+const LAYOUT_CACHE_TTL_SECONDS = 600;
+
+// ============================================================================
+// LEITURA DA ESTRUTURA
+// ============================================================================
+
+function normalizeToken(value: any): string {
+  return String(value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toUpperCase()
+    .replace(/[\s_]+/g, '_');
+}
+
+function normalizeCode(value: any): string {
+  return normalizeToken(value).replace(/[^A-Z0-9_]+/g, '');
+}
+
+function splitList(value: any): string[] {
+  return String(value ?? '')
+    .split(/[;,]/)
+    .map((item) => normalizeToken(item))
+    .filter(Boolean);
+}
+
+function parseLineType(value: any, hasFormula: boolean): DRELayoutLineType {
+  const tipo = normalizeToken(value);
+  if (tipo === DRELayoutLineType.SUBTOTAL || tipo === 'FORMULA') return DRELayoutLineType.SUBTOTAL;
+  if (tipo === DRELayoutLineType.VALOR) return DRELayoutLineType.VALOR;
+  return hasFormula ? DRELayoutLineType.SUBTOTAL : DRELayoutLineType.VALOR;
+}
+
+function parseSign(value: any): 1 | -1 {
+  const sinal = String(value ?? '').trim();
+  return sinal === '-' || sinal === '-1' || normalizeToken(sinal) === 'NEGATIVO' ? -1 : 1;
+}
+
+function parseBase(value: any): DREValueBase {
+  const base = normalizeToken(value);
+  if (base === DREValueBase.BRUTO) return DREValueBase.BRUTO;
+  if (base === DREValueBase.DESCONTO) return DREValueBase.DESCONTO;
+  return DREValueBase.LIQUIDO;
+}
+
+function normalizeEntryType(value: any): 'RECEITA' | 'DESPESA' | null {
+  const tipo = normalizeToken(value);
+  if (tipo === 'RECEITA' || tipo === 'RECEBER') return 'RECEITA';
+  if (tipo === 'DESPESA' || tipo === 'PAGAR') return 'DESPESA';
+  return null;
+}
+
+/**
+ * Interpreta a fórmula de subtotal (códigos separados por + e -)
+ *
+ * @throws Error se a fórmula tiver trechos que não são códigos de linha
+ */
+function parseFormula(value: any, codigo: string): DREFormulaTerm[] {
+  const texto = String(value ?? '').trim();
+  if (!texto) return [];
+
+  const termos: DREFormulaTerm[] = [];
+  const regex = /\s*([+-])?\s*([^\s+-]+)\s*/g;
+  let match: RegExpExecArray | null;
+  let consumido = 0;
+  while ((match = regex.exec(texto)) !== null) {
+    if (match.index !== consumido || !match[0]) break;
+    consumido = regex.lastIndex;
+    if (termos.length > 0 && !match[1]) {
+      throw new Error(`Fórmula da linha ${codigo} sem operador antes de "${match[2]}"`);
+    }
+    const termo = normalizeCode(match[2]);
+    if (!termo) throw new Error(`Fórmula da linha ${codigo} com termo inválido: "${match[2]}"`);
+    termos.push({ codigo: termo, sinal: match[1] === '-' ? -1 : 1 });
+  }
+  if (consumido !== texto.length) {
+    throw new Error(`Fórmula da linha ${codigo} inválida: "${texto}"`);
+  }
+  return termos;
+}
+
+function rowToSource(row: any[]): DRELayoutSource {
+  return {
+    base: parseBase(row[CFG_DRE_LAYOUT_COLS.BASE]),
+    tipoLancamento: normalizeEntryType(row[CFG_DRE_LAYOUT_COLS.TIPO_LANCAMENTO]),
+    grupos: splitList(row[CFG_DRE_LAYOUT_COLS.GRUPOS_DRE]),
+    subgrupos: splitList(row[CFG_DRE_LAYOUT_COLS.SUBGRUPOS_DRE]),
+    classes: splitList(row[CFG_DRE_LAYOUT_COLS.CLASSES_CONTA]),
+    contas: splitList(row[CFG_DRE_LAYOUT_COLS.CONTAS]),
+    centrosCusto: splitList(row[CFG_DRE_LAYOUT_COLS.CENTROS_CUSTO]),
+  };
+}
+
+function hasCriteria(fonte: DRELayoutSource): boolean {
+  return (
+    fonte.grupos.length > 0 ||
+    fonte.subgrupos.length > 0 ||
+    fonte.classes.length > 0 ||
+    fonte.contas.length > 0 ||
+    fonte.centrosCusto.length > 0
+  );
+}
+
+/**
+ * Garante que toda fórmula cita linhas existentes e que não há ciclos
+ */
+function validateFormulas(linhas: DRELayoutLine[]): void {
+  const porCodigo = new Map(linhas.map((l) => [l.codigo, l]));
+  const estado = new Map<string, 'visitando' | 'ok'>();
+
+  const visitar = (linha: DRELayoutLine, caminho: string[]) => {
+    if (estado.get(linha.codigo) === 'ok') return;
+    if (estado.get(linha.codigo) === 'visitando') {
+      throw new Error(`Fórmulas circulares: ${[...caminho, linha.codigo].join(' -> ')}`);
+    }
+    estado.set(linha.codigo, 'visitando');
+    linha.formula.forEach((termo) => {
+      const ref = porCodigo.get(termo.codigo);
+      if (!ref) throw new Error(`Fórmula da linha ${linha.codigo} cita linha inexistente: ${termo.codigo}`);
+      visitar(ref, [...caminho, linha.codigo]);
+    });
+    estado.set(linha.codigo, 'ok');
+  };
+
+  linhas.forEach((linha) => visitar(linha, []));
+}
+
+/**
+ * Monta a estrutura a partir das linhas da aba (sem cabeçalho)
+ *
+ * @throws Error se alguma fórmula for inválida, citar linha inexistente ou
+ * formar ciclo, ou se uma linha SUBTOTAL não tiver fórmula
+ */
+export function parseDRELayoutRows(rows: any[][], padrao: boolean = false): DRELayout {
+  const linhas: DRELayoutLine[] = [];
+  const porCodigo = new Map<string, DRELayoutLine>();
+
+  rows.forEach((row, index) => {
+    if (!row) return;
+    const codigo = normalizeCode(row[CFG_DRE_LAYOUT_COLS.CODIGO]);
+    if (!codigo) return;
+
+    const existente = porCodigo.get(codigo);
+    if (existente) {
+      if (existente.tipo === DRELayoutLineType.VALOR) existente.fontes.push(rowToSource(row));
+      return;
+    }
+
+    const formulaTexto = row[CFG_DRE_LAYOUT_COLS.FORMULA];
+    const tipo = parseLineType(row[CFG_DRE_LAYOUT_COLS.TIPO], String(formulaTexto ?? '').trim() !== '');
+    const formula = tipo === DRELayoutLineType.SUBTOTAL ? parseFormula(formulaTexto, codigo) : [];
+    if (tipo === DRELayoutLineType.SUBTOTAL && !formula.length) {
+      throw new Error(`Linha ${codigo} é SUBTOTAL mas não tem fórmula`);
+    }
+
+    const ordem = Number(row[CFG_DRE_LAYOUT_COLS.ORDEM]);
+    const nivel = Math.floor(Number(row[CFG_DRE_LAYOUT_COLS.NIVEL]));
+    const linha: DRELayoutLine = {
+      ordem: Number.isFinite(ordem) && String(row[CFG_DRE_LAYOUT_COLS.ORDEM]).trim() !== '' ? ordem : index + 1,
+      codigo,
+      descricao: String(row[CFG_DRE_LAYOUT_COLS.DESCRICAO] ?? '').trim() || codigo,
+      tipo,
+      sinal: parseSign(row[CFG_DRE_LAYOUT_COLS.SINAL]),
+      nivel: Number.isFinite(nivel) && nivel > 0 ? nivel : 0,
+      formula,
+      fontes: tipo === DRELayoutLineType.VALOR ? [rowToSource(row)] : [],
+    };
+    linhas.push(linha);
+    porCodigo.set(codigo, linha);
+  });
+
+  // sort estável: empates mantêm a ordem da aba
+  const ordenadas = linhas
+    .map((linha, i) => ({ linha, i }))
+    .sort((a, b) => a.linha.ordem - b.linha.ordem || a.i - b.i)
+    .map((item) => item.linha);
+
+  validateFormulas(ordenadas);
+
+  const fontes: DRELayout['fontes'] = [];
+  [true, false].forEach((comCriterio) => {
+    ordenadas.forEach((linha) => {
+      linha.fontes.forEach((fonte) => {
+        if (hasCriteria(fonte) === comCriterio) fontes.push({ codigo: linha.codigo, fonte });
+      });
+    });
+  });
+
+  return { linhas: ordenadas, fontes, padrao };
+}
+
+function loadDRELayoutFromSheet(): DRELayout {
+  createSheetIfNotExists(SHEET_CFG_DRE_LAYOUT, DRE_LAYOUT_HEADERS);
+  const rows = getSheetValues(SHEET_CFG_DRE_LAYOUT, { skipHeader: true }).filter(
+    (row) => row && String(row[CFG_DRE_LAYOUT_COLS.CODIGO] ?? '').trim() !== ''
+  );
+  if (!rows.length) return parseDRELayoutRows(DEFAULT_DRE_LAYOUT_ROWS, true);
+
+  try {
+    return parseDRELayoutRows(rows);
+  } catch (error: any) {
+    throw new Error(`Estrutura da DRE inválida (${SHEET_CFG_DRE_LAYOUT}): ${error.message}`);
+  }
+}
+
+/**
+ * Estrutura da DRE vigente (com cache)
+ *
+ * @throws Error se a aba CFG_DRE_LAYOUT tiver fórmulas inválidas
+ */
+export function getDRELayout(): DRELayout {
+  return cacheGetOrLoad(
+    CacheNamespace.CONFIG,
+    'dre_layout',
+    loadDRELayoutFromSheet,
+    LAYOUT_CACHE_TTL_SECONDS,
+    CacheScope.SCRIPT
+  );
+}
+
+// ============================================================================
+// CLASSIFICAÇÃO
+// ============================================================================
+
+function matchesPattern(value: string, pattern: string): boolean {
+  if (!pattern.includes('*')) return value === pattern;
+  const regex = new RegExp(
+    `^${pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')}$`
+  );
+  return regex.test(value);
+}
+
+function matchesAny(values: string[], patterns: string[]): boolean {
+  if (!patterns.length) return true;
+  return values.some((value) => value && patterns.some((pattern) => matchesPattern(value, pattern)));
+}
+
+function sourceAccepts(
+  fonte: DRELayoutSource,
+  tipo: 'RECEITA' | 'DESPESA' | null,
+  conta: string,
+  centroCusto: string,
+  account: DREAccountInfo | null
+): boolean {
+  if (fonte.tipoLancamento && fonte.tipoLancamento !== tipo) return false;
+  if (!matchesAny([conta], fonte.contas)) return false;
+  if (!matchesAny([centroCusto], fonte.centrosCusto)) return false;
+  if (!matchesAny([normalizeToken(account?.grupoDRE)], fonte.grupos)) return false;
+  if (!matchesAny([normalizeToken(account?.subgrupoDRE)], fonte.subgrupos)) return false;
+  const classes = [account?.tipo, account?.variavelFixa, account?.cmaCmv].map((c) => normalizeToken(c));
+  return matchesAny(classes, fonte.classes);
+}
+
+/**
+ * Linhas da estrutura que recebem o valor principal e o desconto do lançamento
+ */
+export function classifyDREEntry(
+  layout: DRELayout,
+  entry: DREClassifiableEntry,
+  account: DREAccountInfo | null
+): DREEntryClassification {
+  const tipo = normalizeEntryType(entry.tipo);
+  const conta = normalizeToken(entry.contaContabil);
+  const centroCusto = normalizeToken(entry.centroCusto);
+  const natural = tipo === 'DESPESA' ? -1 : 1;
+
+  const find = (descontos: boolean) =>
+    layout.fontes.find(
+      ({ fonte }) =>
+        (fonte.base === DREValueBase.DESCONTO) === descontos &&
+        sourceAccepts(fonte, tipo, conta, centroCusto, account)
+    ) || null;
+
+  const principal = find(false);
+  const pelaBruta = principal?.fonte.base === DREValueBase.BRUTO;
+  const desconto = pelaBruta ? Number(entry.desconto) || 0 : 0;
+  const valor = pelaBruta ? entry.valorBruto : entry.valorLiquido;
+
+  return {
+    principal: principal ? principal.codigo : null,
+    desconto: desconto ? find(true)?.codigo || null : null,
+    valorPrincipal: natural * (Number(valor) || 0),
+    valorDesconto: -natural * desconto,
+  };
+}
+
+// ============================================================================
+// CÁLCULO
+// ============================================================================
+
+/**
+ * Calcula todas as linhas da estrutura para os lançamentos informados
+ *
+ * @param layout - Estrutura da DRE (getDRELayout)
+ * @param entries - Lançamentos já filtrados por período/filial
+ * @param lookupAccount - Busca da conta do plano de contas pelo código
+ */
+export function computeDRE(
+  layout: DRELayout,
+  entries: DREClassifiableEntry[],
+  lookupAccount: DREAccountLookup
+): DRELayoutResult {
+  const brutos = new Map<string, Money>();
+  const contagem = new Map<string, number>();
+  const naoClassificado = { lancamentos: 0, valor: 0 };
+  let totalLancado = 0;
+
+  const acumular = (codigo: string | null, valor: Money) => {
+    totalLancado += valor;
+    if (!codigo) {
+      naoClassificado.valor += valor;
+      return;
+    }
+    brutos.set(codigo, (brutos.get(codigo) || 0) + valor);
+  };
+
+  for (const entry of entries) {
+    const conta = String(entry.contaContabil || '').trim();
+    const account = conta ? lookupAccount(conta) : null;
+    const classificacao = classifyDREEntry(layout, entry, account);
+
+    acumular(classificacao.principal, classificacao.valorPrincipal);
+    if (classificacao.valorDesconto) acumular(classificacao.desconto, classificacao.valorDesconto);
+
+    if (!classificacao.principal) naoClassificado.lancamentos++;
+    else contagem.set(classificacao.principal, (contagem.get(classificacao.principal) || 0) + 1);
+  }
+
+  const porCodigo = new Map(layout.linhas.map((l) => [l.codigo, l]));
+  const valores: Record<string, Money> = {};
+  const valorDe = (codigo: string): Money => {
+    if (valores[codigo] !== undefined) return valores[codigo];
+    const linha = porCodigo.get(codigo);
+    if (!linha) return 0;
+    const valor =
+      linha.tipo === DRELayoutLineType.SUBTOTAL
+        ? linha.formula.reduce((acc, termo) => acc + termo.sinal * valorDe(termo.codigo), 0)
+        : linha.sinal * (brutos.get(codigo) || 0);
+    valores[codigo] = roundMoney(valor);
+    return valores[codigo];
+  };
+  layout.linhas.forEach((linha) => valorDe(linha.codigo));
+
+  const baseReceita = valores[DRE_LINE_CODES.RECEITA_LIQUIDA];
+  const linhas: DRELayoutLineValue[] = layout.linhas.map((linha) => ({
+    codigo: linha.codigo,
+    descricao: linha.descricao,
+    tipo: linha.tipo,
+    sinal: linha.sinal,
+    nivel: linha.nivel,
+    valor: valores[linha.codigo],
+    percentual: baseReceita > 0 ? (valores[linha.codigo] / baseReceita) * 100 : null,
+    componentes: linha.formula.map((termo) => termo.codigo),
+    lancamentos: contagem.get(linha.codigo) || 0,
+  }));
+
+  return {
+    linhas,
+    valores,
+    naoClassificado: { lancamentos: naoClassificado.lancamentos, valor: roundMoney(naoClassificado.valor) },
+    totalLancado: roundMoney(totalLancado),
+  };
+}
+
+/**
+ * Peso de cada linha VALOR no valor exibido da linha consultada
+ *
+ * Subtotais são abertos pela fórmula (sinal de cada termo); linhas VALOR
+ * exibem sinal × soma natural.
+ */
+export function dreLineWeights(linhas: DRELayoutLine[], codigo: string): Map<string, number> {
+  const porCodigo = new Map(linhas.map((l) => [l.codigo, l]));
+  const pesos = new Map<string, number>();
+  const expandir = (linha: DRELayoutLine, sinal: number) => {
+    if (linha.tipo === DRELayoutLineType.SUBTOTAL) {
+      linha.formula.forEach((termo) => {
+        const componente = porCodigo.get(termo.codigo);
+        if (componente) expandir(componente, sinal * termo.sinal);
+      });
+      return;
+    }
+    pesos.set(linha.codigo, (pesos.get(linha.codigo) || 0) + sinal * linha.sinal);
+  };
+  const alvo = porCodigo.get(codigo);
+  if (alvo) expandir(alvo, 1);
+  return pesos;
+}
+
+/**
+ * Valor de uma linha no resultado (0 se a estrutura não tiver a linha)
+ */
+export function dreLineValue(result: DRELayoutResult, codigo: string): Money {
+  return result.valores[codigo] || 0;
+}
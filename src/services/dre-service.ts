@@ -3,60 +3,303 @@
  *
  * Gerencia DRE (Demonstrativo de Resultados do Exercício) gerencial.
  *
+ * Motor único da DRE: a tela (getDREMensal), o fechamento mensal e os
+ * relatórios do comitê calculam por aqui.
+ *
  * Responsabilidades:
- * - Calcular DRE por período, filial, consolidado
- * - Mapear lançamentos para grupos DRE
- * - Validar consistência com lançamentos
+ * - Ler TB_LANCAMENTOS nos dois vocabulários (RECEITA/DESPESA com PAGA,
+ *   PENDENTE... e RECEBER/PAGAR com PREVISTO/REALIZADO)
+ * - Ratear despesas lançadas na filial RATEIO entre as filiais
+ * - Calcular DRE por período, filial, canal, consolidado, nos regimes de
+ *   competência e de caixa
+ * - Montar a ponte entre o resultado por competência e o resultado de caixa
+ * - Detalhar os lançamentos que compõem uma linha da DRE (drill-down)
+ * - Comparar períodos (mês x ano anterior, YTD, últimos 12 meses, trimestre)
+ * - Mapear lançamentos para as linhas da estrutura da DRE (CFG_DRE_LAYOUT)
+ * - Validar consistência com lançamentos e com o que foi persistido
  * - Persistir em TB_DRE_MENSAL e TB_DRE_RESUMO
+ *
+ * IMPORTANTE:
+ * - Regime de competência: entram todos os lançamentos do mês de competência,
+ *   quitados ou não; apenas cancelados ficam de fora
+ * - Rateio: cada despesa RATEIO é dividida pela participação das filiais nas
+ *   receitas quitadas do mês (sem receitas, em partes iguais entre as filiais
+ *   com lançamentos no mês). O rateio é feito antes do filtro de filial, então
+ *   o consolidado e a soma das filiais fecham
+ * - Regime de caixa: entram os lançamentos quitados (PAGA, RECEBIDA,
+ *   CONCILIADO...) com DATA_PAGAMENTO no mês, qualquer que seja a competência.
+ *   Baixas parciais (VALOR_CONCILIADO em lançamento ainda PENDENTE) não têm
+ *   data de pagamento e só entram no caixa quando o lançamento é quitado
  */
 
 import { getSheetValues, setSheetValues, clearRange, createSheetIfNotExists } from '../shared/sheets-client';
-import { Sheets } from '../config/sheet-mapping';
+import { Sheets, TB_LANCAMENTOS_COLS } from '../config/sheet-mapping';
+import { Account, DRELine, Period, BranchId, Money, ReportFilter } from '../shared/types';
+import { getAllAccounts, getActiveBranches } from './reference-data-service';
+import { calculatePercentage, parseMoney, roundMoney } from '../shared/money-utils';
+import { generatePeriodRange, parseDate, parseDateISO } from '../shared/date-utils';
 import {
-  DRELine,
-  Period,
-  BranchId,
-  Money,
-  LedgerEntry,
-  LedgerEntryStatus,
-  LedgerEntryType,
-  ReportFilter,
-} from '../shared/types';
-import { listEntries } from './ledger-service';
-import { getAccountByCode, getActiveBranches } from './reference-data-service';
-import { sumMoney, calculatePercentage } from '../shared/money-utils';
+  classifyDREEntry,
+  computeDRE,
+  dreLineValue,
+  dreLineWeights,
+  getDRELayout,
+  DREAccountLookup,
+  DREClassifiableEntry,
+  DRELayoutLineType,
+  DRELayoutLineValue,
+  DRE_LINE_CODES,
+} from './dre-layout-service';
 
 // ============================================================================
-// GRUPOS DRE
+// LANÇAMENTOS DA DRE
 // ============================================================================
 
 /**
- * Estrutura hierárquica de grupos DRE
+ * Regime de reconhecimento da DRE
+ */
+export enum DRERegime {
+  COMPETENCIA = 'COMPETENCIA', // mês de competência
+  CAIXA = 'CAIXA', // mês do pagamento/recebimento
+}
+
+/**
+ * Origem de uma parte gerada pelo rateio
+ */
+export interface RateioOrigem {
+  filialOrigem: string;
+  percentual: number; // 0-1
+  valorOriginal: Money;
+}
+
+/**
+ * Campos usados no rateio (aceita também as linhas já lidas pela web app)
+ */
+export interface RateioEntry {
+  tipo: string;
+  filial: string;
+  status: string;
+  valorBruto: Money;
+  desconto: Money;
+  valorLiquido: Money;
+  descricao?: string;
+  observacoes?: string;
+  rateio?: RateioOrigem; // preenchido nas partes geradas por applyExpenseRateio
+}
+
+/**
+ * Lançamento normalizado para a DRE
+ */
+export interface DREEntry extends DREClassifiableEntry, RateioEntry {
+  id: string;
+  competencia: Date;
+  pagamento: Date | null;
+  tipo: 'RECEITA' | 'DESPESA';
+  canal: string | null;
+  descricao: string;
+}
+
+/**
+ * Opções de cálculo da DRE
+ */
+export interface DREOptions {
+  canal?: string | null;
+  regime?: DRERegime; // padrão: competência
+  entries?: DREEntry[]; // lançamentos já lidos com loadDREEntries (mesmo período, canal e regime)
+}
+
+const DRE_MENSAL_HEADERS = ['Ano', 'Mes', 'Filial', 'Grupo', 'Subgrupo', 'Valor', 'Regime'];
+const DRE_RESUMO_HEADERS = ['Ano', 'Mes', 'Indicador', 'Valor', 'Regime'];
+
+const CANCELLED_STATUSES = ['CANCELADA', 'CANCELADO'];
+const SETTLED_STATUSES = ['PAGO', 'PAGA', 'RECEBIDO', 'RECEBIDA', 'REALIZADO', 'CONCILIADO'];
+
+/**
+ * RECEITA/RECEBER/AR = receita; DESPESA/PAGAR/AP = despesa; demais tipos ficam fora
+ */
+function normalizeEntryKind(value: any): 'RECEITA' | 'DESPESA' | null {
+  const tipo = String(value || '').trim().toUpperCase();
+  if (tipo === 'RECEITA' || tipo === 'RECEBER' || tipo === 'AR') return 'RECEITA';
+  if (tipo === 'DESPESA' || tipo === 'PAGAR' || tipo === 'AP') return 'DESPESA';
+  return null;
+}
+
+export function isRateioFilial(value: any): boolean {
+  return String(value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .includes('RATEIO');
+}
+
+/**
+ * Célula de data: Date da planilha, yyyy-MM-dd ou dd/MM/yyyy (sempre no fuso local)
+ */
+function dateCell(value: any): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : new Date(value.getFullYear(), value.getMonth(), value.getDate());
+  }
+  const str = String(value || '').trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(str)) return parseDateISO(str.slice(0, 10));
+  if (/^\d{2}\/\d{2}\/\d{4}/.test(str)) return parseDate(str.slice(0, 10));
+  return null;
+}
+
+function rowToDREEntry(row: any[]): DREEntry | null {
+  const C = TB_LANCAMENTOS_COLS;
+  const tipo = normalizeEntryKind(row[C.TIPO]);
+  if (!tipo) return null;
+
+  const status = String(row[C.STATUS] || '').trim().toUpperCase();
+  if (CANCELLED_STATUSES.includes(status)) return null;
+
+  const competencia = dateCell(row[C.DATA_COMPETENCIA]);
+  if (!competencia) return null;
+
+  const valorBruto = parseMoney(row[C.VALOR_BRUTO]);
+  const desconto = parseMoney(row[C.DESCONTO]);
+  const liquido = row[C.VALOR_LIQUIDO];
+  const valorLiquido =
+    liquido === '' || liquido === null || liquido === undefined
+      ? roundMoney(valorBruto - desconto + parseMoney(row[C.JUROS]) + parseMoney(row[C.MULTA]))
+      : parseMoney(liquido);
+
+  return {
+    id: String(row[C.ID] || ''),
+    competencia,
+    pagamento: dateCell(row[C.DATA_PAGAMENTO]),
+    tipo,
+    filial: String(row[C.FILIAL] || '').trim(),
+    canal: String(row[C.CANAL] || '').trim() || null,
+    centroCusto: String(row[C.CENTRO_CUSTO] || '').trim() || null,
+    contaContabil: String(row[C.CONTA_CONTABIL] || '').trim() || String(row[C.CONTA_GERENCIAL] || '').trim() || null,
+    status,
+    descricao: String(row[C.DESCRICAO] || ''),
+    observacoes: String(row[C.OBSERVACOES] || ''),
+    valorBruto,
+    desconto,
+    valorLiquido,
+  };
+}
+
+/**
+ * Participação de cada filial no rateio do mês
  */
-export const DRE_GROUPS = {
-  RECEITA_BRUTA: 'RECEITA_BRUTA',
-  DEDUCOES: 'DEDUCOES',
-  RECEITA_LIQUIDA: 'RECEITA_LIQUIDA',
-  CUSTOS: 'CUSTOS',
-  LUCRO_BRUTO: 'LUCRO_BRUTO',
-  DESPESAS_OPERACIONAIS: 'DESPESAS_OPERACIONAIS',
-  EBITDA: 'EBITDA',
-  DEPRECIACAO: 'DEPRECIACAO',
-  EBIT: 'EBIT',
-  RESULTADO_FINANCEIRO: 'RESULTADO_FINANCEIRO',
-  LUCRO_LIQUIDO: 'LUCRO_LIQUIDO',
-} as const;
+function buildRateioShares(entries: RateioEntry[]): Array<{ filial: string; percentual: number }> {
+  const porFilial = new Map<string, number>();
+  entries.forEach((e) => {
+    const filial = String(e.filial || '').trim();
+    if (!filial || isRateioFilial(filial)) return;
+    if (normalizeEntryKind(e.tipo) !== 'RECEITA') return;
+    if (!SETTLED_STATUSES.includes(String(e.status || '').trim().toUpperCase())) return;
+    porFilial.set(filial, (porFilial.get(filial) || 0) + (Number(e.valorLiquido) || 0));
+  });
+
+  const total = Array.from(porFilial.values()).reduce((sum, v) => sum + v, 0);
+  if (total > 0) {
+    return Array.from(porFilial.entries()).map(([filial, valor]) => ({ filial, percentual: valor / total }));
+  }
+
+  const filiais = Array.from(new Set(entries.map((e) => String(e.filial || '').trim()))).filter(
+    (f) => f && !isRateioFilial(f)
+  );
+  return filiais.map((filial) => ({ filial, percentual: 1 / filiais.length }));
+}
 
 /**
- * Subgrupos de despesas operacionais
+ * Distribui as despesas da filial RATEIO entre as filiais do mês
+ *
+ * Cada parte é arredondada em centavos; a diferença fica na última filial.
+ * As partes mantêm o ID do lançamento original e registram a origem em `rateio`.
+ * Sem filiais de destino, os lançamentos seguem na filial original.
+ *
+ * @param entries - Lançamentos de um único mês (e canal, se filtrado)
  */
-export const DRE_SUBGROUPS = {
-  PESSOAL: 'PESSOAL',
-  MARKETING: 'MARKETING',
-  INFRAESTRUTURA: 'INFRAESTRUTURA',
-  ADMINISTRATIVA: 'ADMINISTRATIVA',
-  TRIBUTARIA: 'TRIBUTARIA',
-} as const;
+export function applyExpenseRateio<T extends RateioEntry>(entries: T[]): T[] {
+  const isRateio = (e: T) => normalizeEntryKind(e.tipo) === 'DESPESA' && isRateioFilial(e.filial);
+  const rateio = entries.filter(isRateio);
+  if (!rateio.length) return entries;
+
+  const shares = buildRateioShares(entries);
+  if (!shares.length) return entries;
+
+  const alocados: T[] = [];
+  rateio.forEach((d) => {
+    const total = Number(d.valorLiquido) || 0;
+    if (!Number.isFinite(total) || total === 0) return;
+    let restante = total;
+    shares.forEach((share, idx) => {
+      const valor = idx === shares.length - 1 ? roundMoney(restante) : roundMoney(total * share.percentual);
+      restante -= valor;
+      alocados.push({
+        ...d,
+        filial: share.filial,
+        valorBruto: valor,
+        desconto: 0,
+        valorLiquido: valor,
+        descricao: `${d.descricao || ''} | Rateio ${Math.round(share.percentual * 100)}%`,
+        observacoes: `${d.observacoes || ''} Rateio origem: ${d.filial || ''}`.trim(),
+        rateio: { filialOrigem: d.filial, percentual: share.percentual, valorOriginal: total },
+      });
+    });
+  });
+
+  return entries.filter((e) => !isRateio(e)).concat(alocados);
+}
+
+/**
+ * Todos os lançamentos não cancelados de TB_LANCAMENTOS (sem rateio)
+ */
+function readDREEntries(canal?: string | null): DREEntry[] {
+  return getSheetValues(Sheets.TB_LANCAMENTOS, { skipHeader: true })
+    .map((row) => (row && row.length ? rowToDREEntry(row) : null))
+    .filter((e): e is DREEntry => e !== null && (!canal || e.canal === canal));
+}
+
+function isInPeriod(date: Date | null, period: Period): boolean {
+  return !!date && date.getFullYear() === period.year && date.getMonth() + 1 === period.month;
+}
+
+/**
+ * Lançamento quitado com pagamento/recebimento dentro do período
+ */
+function isCashInPeriod(entry: DREEntry, period: Period): boolean {
+  return SETTLED_STATUSES.includes(entry.status) && isInPeriod(entry.pagamento, period);
+}
+
+function selectRegimeEntries(entries: DREEntry[], period: Period, regime: DRERegime): DREEntry[] {
+  return regime === DRERegime.CAIXA
+    ? entries.filter((e) => isCashInPeriod(e, period))
+    : entries.filter((e) => isInPeriod(e.competencia, period));
+}
+
+/**
+ * Lançamentos do período no regime pedido, sem cancelados e com rateio aplicado
+ *
+ * @param period - Mês de competência (ou de pagamento, no regime de caixa)
+ * @param canal - Filtra por canal (padrão: todos)
+ * @param regime - Competência (padrão) ou caixa
+ * @returns Lançamentos de todas as filiais (filtrar filial depois do rateio)
+ */
+export function loadDREEntries(
+  period: Period,
+  canal?: string | null,
+  regime: DRERegime = DRERegime.COMPETENCIA
+): DREEntry[] {
+  return applyExpenseRateio(selectRegimeEntries(readDREEntries(canal), period, regime));
+}
+
+/**
+ * Converte o parâmetro recebido da tela/planilha (vazio = competência)
+ */
+export function parseDRERegime(value: any): DRERegime {
+  return String(value || '').trim().toUpperCase() === DRERegime.CAIXA ? DRERegime.CAIXA : DRERegime.COMPETENCIA;
+}
+
+function accountLookup(): DREAccountLookup {
+  const accounts = new Map<string, Account>(getAllAccounts().map((a) => [a.codigo, a]));
+  return (codigo) => accounts.get(codigo) || null;
+}
 
 // ============================================================================
 // CÁLCULO DE DRE
@@ -68,7 +311,14 @@ export const DRE_SUBGROUPS = {
 export interface DREStatement {
   period: Period;
   branchId: BranchId | null;
-  lines: DRELine[];
+  canal: string | null;
+  regime: DRERegime;
+  lines: DRELine[]; // uma por linha da estrutura (group = código da linha)
+  estrutura: DRELayoutLineValue[];
+  valores: Record<string, Money>; // valor por código de linha
+  naoClassificado: { lancamentos: number; valor: Money };
+  totalLancado: Money;
+  lancamentos: { receitas: number; despesas: number };
   summary: {
     receitaBruta: Money;
     receitaLiquida: Money;
@@ -85,83 +335,62 @@ export interface DREStatement {
 /**
  * Calcula DRE para um período
  *
+ * Linhas e subtotais seguem a estrutura configurada em CFG_DRE_LAYOUT.
+ *
  * @param period - Período a calcular
  * @param branchId - ID da filial (null = consolidado)
+ * @param options - Canal, regime e lançamentos já carregados (para calcular várias filiais com uma leitura)
  * @returns DRE calculado
- *
- * TODO: Implementar cálculos reais com base no plano de contas
- * TODO: Considerar rateios entre filiais
- * TODO: Calcular impostos e deduções
- */
-export function calculateDRE(period: Period, branchId: BranchId | null = null): DREStatement {
-  // Busca lançamentos realizados do período
-  const entries = listEntries({
-    status: LedgerEntryStatus.REALIZADO,
-    periodStart: period,
-    periodEnd: period,
-    ...(branchId && { filial: branchId }),
-  });
-
-  const lines: DRELine[] = [];
-  const groupTotals = new Map<string, Money>();
-
-  // Agrupa lançamentos por grupo DRE
-  for (const entry of entries) {
-    const accountCode = entry.contaContabil || entry.contaGerencial;
-    const account = accountCode ? getAccountByCode(accountCode) : null;
-
-    const group =
-      account?.grupoDRE ||
-      (entry.tipo === LedgerEntryType.RECEBER ? DRE_GROUPS.RECEITA_BRUTA : DRE_GROUPS.DESPESAS_OPERACIONAIS);
-    const subGroup = account?.subgrupoDRE || null;
-
-    const current = groupTotals.get(group) || 0;
-    groupTotals.set(group, current + entry.valorLiquido);
-
-    const line: DRELine = {
-      period,
-      branchId,
-      group,
-      subGroup,
-      value: entry.valorLiquido,
-    };
-
-    lines.push(line);
-  }
-
-  // Calcula resumo
-  const receitaBruta = groupTotals.get(DRE_GROUPS.RECEITA_BRUTA) || 0;
-  const deducoes = groupTotals.get(DRE_GROUPS.DEDUCOES) || 0;
-  const receitaLiquida = receitaBruta - deducoes;
-
-  const custos = groupTotals.get(DRE_GROUPS.CUSTOS) || 0;
-  const lucroBruto = receitaLiquida - custos;
-
-  const despesasOperacionais = groupTotals.get(DRE_GROUPS.DESPESAS_OPERACIONAIS) || 0;
-  const ebitda = lucroBruto - despesasOperacionais;
-  const ebitdaPct = calculatePercentage(ebitda, receitaLiquida);
+ */
+export function calculateDRE(
+  period: Period,
+  branchId: BranchId | null = null,
+  options: DREOptions = {}
+): DREStatement {
+  const canal = options.canal || null;
+  const regime = options.regime || DRERegime.COMPETENCIA;
+  const entries = (options.entries || loadDREEntries(period, canal, regime)).filter(
+    (e) => !branchId || e.filial === branchId
+  );
+  const result = computeDRE(getDRELayout(), entries, accountLookup());
+  const valor = (codigo: string) => dreLineValue(result, codigo);
 
-  const depreciacao = groupTotals.get(DRE_GROUPS.DEPRECIACAO) || 0;
-  const ebit = ebitda - depreciacao;
+  const lines: DRELine[] = result.linhas.map((linha) => ({
+    period,
+    branchId,
+    group: linha.codigo,
+    subGroup: null,
+    value: linha.valor,
+  }));
 
-  const resultadoFinanceiro = groupTotals.get(DRE_GROUPS.RESULTADO_FINANCEIRO) || 0;
-  const lucroLiquido = ebit + resultadoFinanceiro;
-  const margemLiquida = calculatePercentage(lucroLiquido, receitaLiquida);
+  const receitaLiquida = valor(DRE_LINE_CODES.RECEITA_LIQUIDA);
+  const ebitda = valor(DRE_LINE_CODES.EBITDA);
+  const lucroLiquido = valor(DRE_LINE_CODES.LUCRO_LIQUIDO);
 
   return {
     period,
     branchId,
+    canal,
+    regime,
     lines,
+    estrutura: result.linhas,
+    valores: result.valores,
+    naoClassificado: result.naoClassificado,
+    totalLancado: result.totalLancado,
+    lancamentos: {
+      receitas: entries.filter((e) => e.tipo === 'RECEITA').length,
+      despesas: entries.filter((e) => e.tipo === 'DESPESA').length,
+    },
     summary: {
-      receitaBruta,
+      receitaBruta: valor(DRE_LINE_CODES.RECEITA_BRUTA),
       receitaLiquida,
-      custos,
-      lucroBruto,
-      despesasOperacionais,
+      custos: valor(DRE_LINE_CODES.CUSTOS),
+      lucroBruto: valor(DRE_LINE_CODES.MARGEM_BRUTA),
+      despesasOperacionais: valor(DRE_LINE_CODES.DESPESAS_OPERACIONAIS),
       ebitda,
-      ebitdaPct,
+      ebitdaPct: calculatePercentage(ebitda, receitaLiquida),
       lucroLiquido,
-      margemLiquida,
+      margemLiquida: calculatePercentage(lucroLiquido, receitaLiquida),
     },
   };
 }
@@ -171,39 +400,215 @@ export function calculateDRE(period: Period, branchId: BranchId | null = null):
  *
  * @param period - Período a calcular
  * @param includeConsolidated - Se true, inclui DRE consolidado
+ * @param regime - Competência (padrão) ou caixa
  * @returns Array de DREs
  */
 export function calculateMultiBranchDRE(
   period: Period,
-  includeConsolidated: boolean = true
+  includeConsolidated: boolean = true,
+  regime: DRERegime = DRERegime.COMPETENCIA
 ): DREStatement[] {
   const statements: DREStatement[] = [];
+  const entries = loadDREEntries(period, null, regime);
 
   // DRE consolidado
   if (includeConsolidated) {
-    statements.push(calculateDRE(period, null));
+    statements.push(calculateDRE(period, null, { entries, regime }));
   }
 
   // DRE por filial
   const branches = getActiveBranches();
   for (const branch of branches) {
-    statements.push(calculateDRE(period, branch.id));
+    statements.push(calculateDRE(period, branch.id, { entries, regime }));
   }
 
   return statements;
 }
 
+// ============================================================================
+// COMPARATIVOS
+// ============================================================================
+
+/**
+ * Modos padrão de comparação da DRE
+ */
+export enum DREComparisonMode {
+  MES_ANO_ANTERIOR = 'MES_ANO_ANTERIOR', // mês x mesmo mês do ano anterior
+  YTD = 'YTD', // acumulado do ano x mesmo acumulado do ano anterior
+  TTM = 'TTM', // últimos 12 meses x 12 meses anteriores
+  QTD = 'QTD', // trimestre até o mês x mesmo trecho do trimestre no ano anterior
+}
+
+/**
+ * Linha da estrutura com o valor dos dois intervalos comparados
+ */
+export interface DREComparisonLine {
+  codigo: string;
+  descricao: string;
+  tipo: DRELayoutLineType;
+  sinal: 1 | -1;
+  nivel: number;
+  atual: Money;
+  anterior: Money;
+  variacao: Money; // atual - anterior
+  variacaoPct: number | null; // sobre |anterior|; null quando anterior = 0
+}
+
+export interface DREComparisonRange {
+  inicio: Period;
+  fim: Period;
+  meses: number;
+}
+
+export interface DREComparison {
+  modo: DREComparisonMode;
+  branchId: BranchId | null;
+  canal: string | null;
+  regime: DRERegime;
+  atual: DREComparisonRange;
+  anterior: DREComparisonRange;
+  linhas: DREComparisonLine[];
+}
+
+function shiftPeriod(period: Period, months: number): Period {
+  const index = period.year * 12 + (period.month - 1) + months;
+  return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+}
+
+/**
+ * Meses do intervalo atual e do intervalo de comparação para o mês de referência
+ */
+export function getDREComparisonPeriods(
+  modo: DREComparisonMode,
+  period: Period
+): { atual: Period[]; anterior: Period[] } {
+  const anoAnterior = (periods: Period[]) => periods.map((p) => shiftPeriod(p, -12));
+  switch (modo) {
+    case DREComparisonMode.MES_ANO_ANTERIOR:
+      return { atual: [period], anterior: anoAnterior([period]) };
+    case DREComparisonMode.YTD: {
+      const atual = generatePeriodRange({ year: period.year, month: 1 }, period);
+      return { atual, anterior: anoAnterior(atual) };
+    }
+    case DREComparisonMode.TTM: {
+      const atual = generatePeriodRange(shiftPeriod(period, -11), period);
+      return { atual, anterior: anoAnterior(atual) };
+    }
+    case DREComparisonMode.QTD: {
+      const inicioTrimestre = { year: period.year, month: Math.floor((period.month - 1) / 3) * 3 + 1 };
+      const atual = generatePeriodRange(inicioTrimestre, period);
+      return { atual, anterior: anoAnterior(atual) };
+    }
+    default:
+      throw new Error(`Modo de comparação inválido: ${modo}`);
+  }
+}
+
+/**
+ * Converte o parâmetro recebido da tela (vazio = mês x ano anterior)
+ */
+export function parseDREComparisonMode(value: any): DREComparisonMode {
+  const modo = String(value || '').trim().toUpperCase();
+  if (!modo) return DREComparisonMode.MES_ANO_ANTERIOR;
+  const valido = (Object.values(DREComparisonMode) as string[]).includes(modo);
+  if (!valido) throw new Error(`Modo de comparação inválido: ${value}`);
+  return modo as DREComparisonMode;
+}
+
+/**
+ * Compara a DRE de dois intervalos, linha a linha
+ *
+ * Cada mês é calculado com o seu próprio rateio e os valores das linhas são
+ * somados (subtotais são lineares, então a soma fecha com a estrutura).
+ * TB_LANCAMENTOS é lido uma única vez para todos os meses.
+ *
+ * @param modo - Modo de comparação
+ * @param period - Mês de referência (último mês do intervalo atual)
+ * @param branchId - Filial (null = consolidado)
+ * @param options - Canal e regime
+ */
+export function compareDREPeriods(
+  modo: DREComparisonMode,
+  period: Period,
+  branchId: BranchId | null = null,
+  options: Pick<DREOptions, 'canal' | 'regime'> = {}
+): DREComparison {
+  const canal = options.canal || null;
+  const regime = options.regime || DRERegime.COMPETENCIA;
+  const { atual, anterior } = getDREComparisonPeriods(modo, period);
+
+  const todos = readDREEntries(canal);
+  const layout = getDRELayout();
+  const lookup = accountLookup();
+
+  const somar = (periods: Period[]): Record<string, Money> => {
+    const soma: Record<string, Money> = {};
+    periods.forEach((p) => {
+      const entries = applyExpenseRateio(selectRegimeEntries(todos, p, regime)).filter(
+        (e) => !branchId || e.filial === branchId
+      );
+      const result = computeDRE(layout, entries, lookup);
+      layout.linhas.forEach((linha) => {
+        soma[linha.codigo] = (soma[linha.codigo] || 0) + dreLineValue(result, linha.codigo);
+      });
+    });
+    return soma;
+  };
+  const valoresAtual = somar(atual);
+  const valoresAnterior = somar(anterior);
+
+  const linhas: DREComparisonLine[] = layout.linhas.map((linha) => {
+    const valorAtual = roundMoney(valoresAtual[linha.codigo] || 0);
+    const valorAnterior = roundMoney(valoresAnterior[linha.codigo] || 0);
+    const variacao = roundMoney(valorAtual - valorAnterior);
+    return {
+      codigo: linha.codigo,
+      descricao: linha.descricao,
+      tipo: linha.tipo,
+      sinal: linha.sinal,
+      nivel: linha.nivel,
+      atual: valorAtual,
+      anterior: valorAnterior,
+      variacao,
+      variacaoPct: valorAnterior === 0 ? null : (variacao / Math.abs(valorAnterior)) * 100,
+    };
+  });
+
+  const intervalo = (periods: Period[]): DREComparisonRange => ({
+    inicio: periods[0],
+    fim: periods[periods.length - 1],
+    meses: periods.length,
+  });
+
+  return {
+    modo,
+    branchId,
+    canal,
+    regime,
+    atual: intervalo(atual),
+    anterior: intervalo(anterior),
+    linhas,
+  };
+}
+
 // ============================================================================
 // PERSISTÊNCIA
 // ============================================================================
 
+/**
+ * Linhas gravadas antes da coluna Regime têm uma coluna a menos (= competência)
+ */
+function padRow(row: any[], length: number): any[] {
+  return row.length >= length ? row.slice(0, length) : row.concat(new Array(length - row.length).fill(''));
+}
+
 /**
  * Persiste DRE na aba TB_DRE_MENSAL
  *
  * TODO: Implementar lógica de merge (atualizar apenas o período específico)
  */
 export function persistDREMensal(statement: DREStatement): void {
-  const headers = ['Ano', 'Mes', 'Filial', 'Grupo', 'Subgrupo', 'Valor'];
+  const headers = DRE_MENSAL_HEADERS;
   createSheetIfNotExists(Sheets.TB_DRE_MENSAL, headers);
 
   // Agrupa linhas por grupo/subgrupo
@@ -227,12 +632,16 @@ export function persistDREMensal(statement: DREStatement): void {
       group,
       subGroup || '',
       value,
+      statement.regime,
     ]);
   }
 
   const existing = getSheetValues(Sheets.TB_DRE_MENSAL);
   const filtered = existing.length > 1
-    ? existing.slice(1).filter((r) => !(r[0] === statement.period.year && r[1] === statement.period.month && String(r[2] || '') === String(statement.branchId || '')))
+    ? existing
+        .slice(1)
+        .filter((r) => !(r[0] === statement.period.year && r[1] === statement.period.month && String(r[2] || '') === String(statement.branchId || '') && parseDRERegime(r[6]) === statement.regime))
+        .map((r) => padRow(r, headers.length))
     : [];
 
   const allRows = [headers, ...filtered, ...rows];
@@ -250,24 +659,29 @@ export function persistDREMensal(statement: DREStatement): void {
  * Persiste resumo DRE na aba TB_DRE_RESUMO
  */
 export function persistDREResumo(statement: DREStatement): void {
-  const headers = ['Ano', 'Mes', 'Indicador', 'Valor'];
+  const headers = DRE_RESUMO_HEADERS;
   createSheetIfNotExists(Sheets.TB_DRE_RESUMO, headers);
 
+  const { year, month } = statement.period;
+  const s = statement.summary;
   const rows: any[][] = [
-    [statement.period.year, statement.period.month, 'RECEITA_BRUTA', statement.summary.receitaBruta],
-    [statement.period.year, statement.period.month, 'RECEITA_LIQUIDA', statement.summary.receitaLiquida],
-    [statement.period.year, statement.period.month, 'CUSTOS', statement.summary.custos],
-    [statement.period.year, statement.period.month, 'LUCRO_BRUTO', statement.summary.lucroBruto],
-    [statement.period.year, statement.period.month, 'DESPESAS_OPERACIONAIS', statement.summary.despesasOperacionais],
-    [statement.period.year, statement.period.month, 'EBITDA', statement.summary.ebitda],
-    [statement.period.year, statement.period.month, 'EBITDA_PCT', statement.summary.ebitdaPct],
-    [statement.period.year, statement.period.month, 'LUCRO_LIQUIDO', statement.summary.lucroLiquido],
-    [statement.period.year, statement.period.month, 'MARGEM_LIQUIDA', statement.summary.margemLiquida],
+    [year, month, 'RECEITA_BRUTA', s.receitaBruta, statement.regime],
+    [year, month, 'RECEITA_LIQUIDA', s.receitaLiquida, statement.regime],
+    [year, month, 'CUSTOS', s.custos, statement.regime],
+    [year, month, 'LUCRO_BRUTO', s.lucroBruto, statement.regime],
+    [year, month, 'DESPESAS_OPERACIONAIS', s.despesasOperacionais, statement.regime],
+    [year, month, 'EBITDA', s.ebitda, statement.regime],
+    [year, month, 'EBITDA_PCT', s.ebitdaPct, statement.regime],
+    [year, month, 'LUCRO_LIQUIDO', s.lucroLiquido, statement.regime],
+    [year, month, 'MARGEM_LIQUIDA', s.margemLiquida, statement.regime],
   ];
 
   const existing = getSheetValues(Sheets.TB_DRE_RESUMO);
   const filtered = existing.length > 1
-    ? existing.slice(1).filter((r) => !(r[0] === statement.period.year && r[1] === statement.period.month))
+    ? existing
+        .slice(1)
+        .filter((r) => !(r[0] === year && r[1] === month && parseDRERegime(r[4]) === statement.regime))
+        .map((r) => padRow(r, headers.length))
     : [];
 
   const allRows = [headers, ...filtered, ...rows];
@@ -282,58 +696,330 @@ export function persistDREResumo(statement: DREStatement): void {
 }
 
 // ============================================================================
-// VALIDAÇÃO
+// DRILL-DOWN
 // ============================================================================
 
 /**
- * Valida DRE contra lançamentos (sanity check)
+ * Código especial do drill-down: lançamentos fora da estrutura da DRE
+ */
+export const DRE_NAO_CLASSIFICADO = 'NAO_CLASSIFICADO';
+
+/**
+ * Parcela de um lançamento que compõe a linha consultada
+ */
+export interface DREDrillDownItem {
+  id: string; // ID do lançamento original (também nas partes de rateio)
+  competencia: Date;
+  pagamento: Date | null;
+  tipo: 'RECEITA' | 'DESPESA';
+  filial: string;
+  canal: string | null;
+  centroCusto: string | null;
+  contaContabil: string | null;
+  descricao: string;
+  status: string;
+  linha: string; // linha VALOR que recebeu a parcela
+  parcela: 'PRINCIPAL' | 'DESCONTO';
+  valor: Money; // contribuição no valor exibido da linha consultada
+  rateio: RateioOrigem | null;
+}
+
+export interface DREDrillDown {
+  period: Period;
+  branchId: BranchId | null;
+  canal: string | null;
+  regime: DRERegime;
+  codigo: string;
+  descricao: string;
+  valor: Money; // soma de todas as parcelas (= valor da linha na DRE)
+  items: DREDrillDownItem[];
+  total: number;
+  page: number;
+  pageSize: number; // 0 = todas as parcelas (exportação)
+}
+
+export interface DREDrillDownOptions extends DREOptions {
+  page?: number;
+  pageSize?: number; // 0 = sem paginação
+}
+
+/**
+ * Lançamentos que compõem uma linha da DRE (valor ou subtotal)
  *
- * Verifica se totais de receita/despesa batem com lançamentos
+ * Usa o mesmo motor e os mesmos lançamentos da DRE (regime, canal e rateio),
+ * então a soma das parcelas fecha com o valor da linha. Partes de rateio
+ * trazem a filial de origem, o percentual e o valor original.
  *
- * TODO: Implementar validação completa
+ * @param period - Período da DRE
+ * @param branchId - Filial (null = consolidado)
+ * @param codigo - Código da linha em CFG_DRE_LAYOUT ou NAO_CLASSIFICADO
+ * @param options - Canal, regime e paginação (padrão: página 1 com 50 parcelas)
+ * @returns Parcelas ordenadas pelo valor absoluto (maiores primeiro)
  */
-export function validateDREAgainstLedger(statement: DREStatement): boolean {
-  const entries = listEntries({
-    status: LedgerEntryStatus.REALIZADO,
-    periodStart: statement.period,
-    periodEnd: statement.period,
-    ...(statement.branchId && { filial: statement.branchId }),
+export function drillDownDRELine(
+  period: Period,
+  branchId: BranchId | null,
+  codigo: string,
+  options: DREDrillDownOptions = {}
+): DREDrillDown {
+  const canal = options.canal || null;
+  const regime = options.regime || DRERegime.COMPETENCIA;
+  const layout = getDRELayout();
+  const alvo = String(codigo || '').trim().toUpperCase();
+
+  const naoClassificado = alvo === DRE_NAO_CLASSIFICADO;
+  const linha = layout.linhas.find((l) => l.codigo === alvo);
+  if (!naoClassificado && !linha) {
+    throw new Error(`Linha da DRE não encontrada: ${codigo}`);
+  }
+  const pesos = naoClassificado ? new Map<string, number>() : dreLineWeights(layout.linhas, alvo);
+  const pesoDe = (destino: string | null) => (destino === null ? (naoClassificado ? 1 : 0) : pesos.get(destino) || 0);
+
+  const lookup = accountLookup();
+  const entries = (options.entries || loadDREEntries(period, canal, regime)).filter(
+    (e) => !branchId || e.filial === branchId
+  );
+
+  const items: DREDrillDownItem[] = [];
+  entries.forEach((entry) => {
+    const conta = String(entry.contaContabil || '').trim();
+    const classificacao = classifyDREEntry(layout, entry, conta ? lookup(conta) : null);
+    const parcelas: Array<{ parcela: 'PRINCIPAL' | 'DESCONTO'; destino: string | null; natural: Money }> = [
+      { parcela: 'PRINCIPAL', destino: classificacao.principal, natural: classificacao.valorPrincipal },
+    ];
+    if (classificacao.valorDesconto) {
+      parcelas.push({ parcela: 'DESCONTO', destino: classificacao.desconto, natural: classificacao.valorDesconto });
+    }
+
+    parcelas.forEach(({ parcela, destino, natural }) => {
+      const valor = roundMoney(pesoDe(destino) * natural);
+      if (!valor) return;
+      items.push({
+        id: entry.id,
+        competencia: entry.competencia,
+        pagamento: entry.pagamento,
+        tipo: entry.tipo,
+        filial: entry.filial,
+        canal: entry.canal,
+        centroCusto: entry.centroCusto || null,
+        contaContabil: entry.contaContabil || null,
+        descricao: entry.descricao,
+        status: entry.status,
+        linha: destino || DRE_NAO_CLASSIFICADO,
+        parcela,
+        valor,
+        rateio: entry.rateio || null,
+      });
+    });
   });
 
-  const totals = new Map<string, Money>();
-  for (const entry of entries) {
-    const accountCode = entry.contaContabil || entry.contaGerencial;
-    const account = accountCode ? getAccountByCode(accountCode) : null;
-    const group = account?.grupoDRE || (entry.tipo === LedgerEntryType.RECEBER ? DRE_GROUPS.RECEITA_BRUTA : DRE_GROUPS.DESPESAS_OPERACIONAIS);
-    totals.set(group, (totals.get(group) || 0) + entry.valorLiquido);
+  items.sort((a, b) => Math.abs(b.valor) - Math.abs(a.valor) || a.id.localeCompare(b.id));
+
+  const pageSize = options.pageSize === 0 ? 0 : Math.max(10, Math.min(200, Number(options.pageSize) || 50));
+  const page = pageSize ? Math.max(1, Number(options.page) || 1) : 1;
+  const offset = (page - 1) * pageSize;
+
+  return {
+    period,
+    branchId,
+    canal,
+    regime,
+    codigo: alvo,
+    descricao: linha ? linha.descricao : 'Fora da estrutura da DRE',
+    valor: roundMoney(items.reduce((acc, i) => acc + i.valor, 0)),
+    items: pageSize ? items.slice(offset, offset + pageSize) : items,
+    total: items.length,
+    page,
+    pageSize,
+  };
+}
+
+// ============================================================================
+// PONTE COMPETÊNCIA x CAIXA
+// ============================================================================
+
+/**
+ * Item da ponte entre o resultado por competência e o de caixa
+ */
+export interface DREBridgeItem {
+  codigo: string;
+  descricao: string;
+  valor: Money; // efeito no resultado de caixa (positivo = caixa maior)
+  lancamentos: number;
+}
+
+/**
+ * Ponte: resultadoCompetencia + Σ itens = resultadoCaixa
+ */
+export interface DREBridge {
+  period: Period;
+  branchId: BranchId | null;
+  canal: string | null;
+  resultadoCompetencia: Money;
+  resultadoCaixa: Money;
+  diferenca: Money; // caixa - competência
+  itens: DREBridgeItem[];
+}
+
+/**
+ * Explica a diferença entre o lucro líquido por competência e o de caixa
+ *
+ * Itens (cada um avaliado pela mesma estrutura da DRE):
+ * - Receitas e despesas do mês ainda não recebidas/pagas no mês
+ * - Recebimentos e pagamentos no mês de competências anteriores
+ * - Recebimentos e pagamentos antecipados (competência futura)
+ * - Rateio e arredondamentos: o que sobra, pois o rateio de cada regime usa
+ *   a participação das filiais no seu próprio conjunto de receitas
+ *
+ * @param period - Mês
+ * @param branchId - Filial (null = consolidado)
+ * @param canal - Filtra por canal (padrão: todos)
+ */
+export function calculateDREBridge(
+  period: Period,
+  branchId: BranchId | null = null,
+  canal: string | null = null
+): DREBridge {
+  const todos = readDREEntries(canal);
+  const layout = getDRELayout();
+  const lookup = accountLookup();
+
+  const resultado = (regime: DRERegime) =>
+    calculateDRE(period, branchId, {
+      canal,
+      regime,
+      entries: applyExpenseRateio(selectRegimeEntries(todos, period, regime)),
+    }).summary.lucroLiquido;
+  const resultadoCompetencia = resultado(DRERegime.COMPETENCIA);
+  const resultadoCaixa = resultado(DRERegime.CAIXA);
+
+  const inicio = new Date(period.year, period.month - 1, 1);
+  const doPeriodo = todos.filter((e) => !branchId || e.filial === branchId);
+  const abertos = doPeriodo.filter((e) => isInPeriod(e.competencia, period) && !isCashInPeriod(e, period));
+  const deOutrosMeses = doPeriodo.filter((e) => isCashInPeriod(e, period) && !isInPeriod(e.competencia, period));
+  const anteriores = deOutrosMeses.filter((e) => e.competencia < inicio);
+  const antecipados = deOutrosMeses.filter((e) => e.competencia >= inicio);
+
+  const item = (codigo: string, descricao: string, entries: DREEntry[], sinal: number): DREBridgeItem => ({
+    codigo,
+    descricao,
+    valor: roundMoney(sinal * dreLineValue(computeDRE(layout, entries, lookup), DRE_LINE_CODES.LUCRO_LIQUIDO)) || 0,
+    lancamentos: entries.length,
+  });
+  const receitas = (entries: DREEntry[]) => entries.filter((e) => e.tipo === 'RECEITA');
+  const despesas = (entries: DREEntry[]) => entries.filter((e) => e.tipo === 'DESPESA');
+
+  const itens: DREBridgeItem[] = [
+    item('RECEITAS_A_RECEBER', '(-) Receitas do mês não recebidas no mês', receitas(abertos), -1),
+    item('DESPESAS_A_PAGAR', '(+) Despesas do mês não pagas no mês', despesas(abertos), -1),
+    item('RECEBIMENTOS_ANTERIORES', '(+) Recebimentos de competências anteriores', receitas(anteriores), 1),
+    item('PAGAMENTOS_ANTERIORES', '(-) Pagamentos de competências anteriores', despesas(anteriores), 1),
+    item('RECEBIMENTOS_ANTECIPADOS', '(+) Recebimentos antecipados (competência futura)', receitas(antecipados), 1),
+    item('PAGAMENTOS_ANTECIPADOS', '(-) Pagamentos antecipados (competência futura)', despesas(antecipados), 1),
+  ];
+
+  const diferenca = roundMoney(resultadoCaixa - resultadoCompetencia);
+  const explicado = itens.reduce((acc, i) => acc + i.valor, 0);
+  const ajuste = roundMoney(diferenca - explicado);
+  if (ajuste !== 0) {
+    itens.push({ codigo: 'RATEIO_AJUSTES', descricao: 'Rateio e arredondamentos', valor: ajuste, lancamentos: 0 });
   }
 
-  const receitaBruta = totals.get(DRE_GROUPS.RECEITA_BRUTA) || 0;
-  const deducoes = totals.get(DRE_GROUPS.DEDUCOES) || 0;
-  const receitaLiquida = receitaBruta - deducoes;
-  const custos = totals.get(DRE_GROUPS.CUSTOS) || 0;
-  const lucroBruto = receitaLiquida - custos;
-  const despesasOperacionais = totals.get(DRE_GROUPS.DESPESAS_OPERACIONAIS) || 0;
-  const ebitda = lucroBruto - despesasOperacionais;
-  const depreciacao = totals.get(DRE_GROUPS.DEPRECIACAO) || 0;
-  const ebit = ebitda - depreciacao;
-  const resultadoFinanceiro = totals.get(DRE_GROUPS.RESULTADO_FINANCEIRO) || 0;
-  const lucroLiquido = ebit + resultadoFinanceiro;
-
-  const tolerance = 0.01;
-  const closeEnough = (a: number, b: number) => Math.abs(a - b) <= tolerance;
+  return { period, branchId, canal, resultadoCompetencia, resultadoCaixa, diferenca, itens };
+}
+
+// ============================================================================
+// VALIDAÇÃO
+// ============================================================================
+
+const DRE_TOLERANCE = 0.01;
+
+function closeEnough(a: number, b: number): boolean {
+  return Math.abs(a - b) <= DRE_TOLERANCE;
+}
+
+/**
+ * Valida DRE contra lançamentos (sanity check)
+ *
+ * Recalcula a DRE a partir dos lançamentos e verifica se o resumo bate e se
+ * todo valor lançado caiu em alguma linha da estrutura
+ */
+export function validateDREAgainstLedger(statement: DREStatement): boolean {
+  const atual = calculateDRE(statement.period, statement.branchId, {
+    canal: statement.canal,
+    regime: statement.regime,
+  });
 
+  // soma com sinal das linhas VALOR deve fechar com o total lançado
+  const classificado = atual.estrutura
+    .filter((linha) => linha.tipo === DRELayoutLineType.VALOR)
+    .reduce((acc, linha) => acc + linha.sinal * linha.valor, 0);
+
+  const s = statement.summary;
+  const a = atual.summary;
   return (
-    closeEnough(statement.summary.receitaBruta, receitaBruta) &&
-    closeEnough(statement.summary.receitaLiquida, receitaLiquida) &&
-    closeEnough(statement.summary.custos, custos) &&
-    closeEnough(statement.summary.lucroBruto, lucroBruto) &&
-    closeEnough(statement.summary.despesasOperacionais, despesasOperacionais) &&
-    closeEnough(statement.summary.ebitda, ebitda) &&
-    closeEnough(statement.summary.lucroLiquido, lucroLiquido)
+    atual.naoClassificado.lancamentos === 0 &&
+    closeEnough(classificado + atual.naoClassificado.valor, atual.totalLancado) &&
+    closeEnough(s.receitaBruta, a.receitaBruta) &&
+    closeEnough(s.receitaLiquida, a.receitaLiquida) &&
+    closeEnough(s.custos, a.custos) &&
+    closeEnough(s.lucroBruto, a.lucroBruto) &&
+    closeEnough(s.despesasOperacionais, a.despesasOperacionais) &&
+    closeEnough(s.ebitda, a.ebitda) &&
+    closeEnough(s.lucroLiquido, a.lucroLiquido)
   );
 }
 
+/**
+ * Divergência entre TB_DRE_MENSAL e a DRE calculada
+ */
+export interface DREPersistedDivergence {
+  codigo: string;
+  persistido: Money | null; // null = linha ausente em TB_DRE_MENSAL
+  calculado: Money;
+}
+
+/**
+ * Confere TB_DRE_MENSAL com a DRE calculada agora pelo mesmo motor da tela
+ * (getDREMensal sem filtro de canal)
+ *
+ * @param period - Período persistido
+ * @param branchId - Filial (null = consolidado)
+ * @param entries - Lançamentos já lidos com loadDREEntries no mesmo regime (padrão: lê TB_LANCAMENTOS)
+ * @param regime - Regime persistido (padrão: competência)
+ * @returns Linhas divergentes (vazio = persistido igual ao calculado)
+ */
+export function comparePersistedDRE(
+  period: Period,
+  branchId: BranchId | null = null,
+  entries?: DREEntry[],
+  regime: DRERegime = DRERegime.COMPETENCIA
+): DREPersistedDivergence[] {
+  const calculado = calculateDRE(period, branchId, { entries, regime });
+
+  const persistido = new Map<string, Money>();
+  createSheetIfNotExists(Sheets.TB_DRE_MENSAL, DRE_MENSAL_HEADERS);
+  getSheetValues(Sheets.TB_DRE_MENSAL, { skipHeader: true }).forEach((r) => {
+    if (Number(r[0]) !== period.year || Number(r[1]) !== period.month) return;
+    if (String(r[2] || '') !== String(branchId || '')) return;
+    if (parseDRERegime(r[6]) !== regime) return;
+    const codigo = String(r[3] || '').trim();
+    if (!codigo) return;
+    persistido.set(codigo, (persistido.get(codigo) || 0) + parseMoney(r[5]));
+  });
+
+  return calculado.estrutura
+    .filter((linha) => {
+      const valor = persistido.get(linha.codigo);
+      return valor === undefined ? linha.valor !== 0 : !closeEnough(valor, linha.valor);
+    })
+    .map((linha) => ({
+      codigo: linha.codigo,
+      persistido: persistido.has(linha.codigo) ? roundMoney(persistido.get(linha.codigo) || 0) : null,
+      calculado: linha.valor,
+    }));
+}
+
 // ============================================================================
 // HELPERS
 // ============================================================================
@@ -0,0 +1,765 @@
+/**
+ * forecast-service.ts
+ *
+ * Projeção de caixa contínua (rolling forecast) e cenários.
+ *
+ * Responsabilidades:
+ * - Montar a base da projeção mês a mês a partir de três fontes:
+ *   títulos em aberto (a pagar/receber), modelos de recorrência ainda não
+ *   gerados e histórico de recebimentos/custos variáveis com sazonalidade
+ * - Aplicar cenários nomeados (CFG_CENARIOS): choques percentuais por grupo
+ *   e ajustes manuais por mês (CFG_CENARIOS_AJUSTES)
+ * - Persistir a projeção de cada cenário em TB_DFC_PROJ
+ *
+ * IMPORTANTE:
+ * - Títulos entram pelo saldo em aberto (descontado o valor já conciliado), no
+ *   vencimento prorrogado para o próximo dia útil da filial; vencidos entram
+ *   no primeiro mês da projeção
+ * - Recorrências entram só a partir da última ocorrência gerada: as anteriores
+ *   já estão em TB_LANCAMENTOS como títulos
+ * - O histórico completa apenas o que falta: max(0, esperado - comprometido)
+ *   por mês e grupo, para não contar duas vezes o que já está lançado
+ * - Choques dos cenários valem para recorrências e histórico; títulos lançados
+ *   são compromissos e não variam com o cenário
+ * - Funções de gravação devem rodar com o lock já obtido
+ */
+
+import { getSheetValues, setSheetValues, clearRange, createSheetIfNotExists } from '../shared/sheets-client';
+import {
+  SHEET_CFG_CENARIOS,
+  SHEET_CFG_CENARIOS_AJUSTES,
+  SHEET_TB_DFC_PROJ,
+  SHEET_TB_LANCAMENTOS,
+  CFG_CENARIOS_COLS,
+  CFG_CENARIOS_AJUSTES_COLS,
+  TB_DFC_PROJ_COLS,
+  TB_LANCAMENTOS_COLS,
+} from '../config/sheet-mapping';
+import { AccountType, ExpenseClassification, Money } from '../shared/types';
+import {
+  addDays,
+  BusinessDayOptions,
+  formatDateISO,
+  getToday,
+  nextBusinessDay,
+  parseDateISO,
+} from '../shared/date-utils';
+import { parseMoney, roundMoney } from '../shared/money-utils';
+import { getAccountByCode, getBusinessDayOptions } from './reference-data-service';
+import { computeOccurrences, listRecurrenceTemplates } from './recurrence-service';
+import { residualAmount } from './reconciliation-service';
+import { getBankBalances } from './bank-balance-service';
+
+// ============================================================================
+// TIPOS
+// ============================================================================
+
+/**
+ * Grupos da projeção (receita entra; custos e despesas saem)
+ */
+export enum ForecastGroup {
+  RECEITA = 'RECEITA',
+  CUSTO_VARIAVEL = 'CUSTO_VARIAVEL',
+  DESPESA_FIXA = 'DESPESA_FIXA',
+}
+
+/**
+ * Origem de cada parcela projetada
+ */
+export enum ForecastSource {
+  TITULOS = 'TITULOS',
+  RECORRENCIA = 'RECORRENCIA',
+  HISTORICO = 'HISTORICO',
+  AJUSTE = 'AJUSTE',
+}
+
+export type ForecastOverrideMode = 'SUBSTITUIR' | 'SOMAR';
+
+/**
+ * Cenário nomeado: choques em % sobre recorrências e histórico
+ */
+export interface ForecastScenario {
+  id: string; // BASE, OTIMISTA, PESSIMISTA...
+  nome: string;
+  descricao: string;
+  choqueReceita: number;
+  choqueCustoVariavel: number;
+  choqueDespesaFixa: number;
+  ativo: boolean;
+  atualizadoEm: string;
+}
+
+/**
+ * Ajuste manual de um cenário em um mês × grupo
+ */
+export interface ForecastOverride {
+  cenario: string;
+  periodo: string; // yyyy-MM
+  grupo: ForecastGroup;
+  modo: ForecastOverrideMode; // SUBSTITUIR = total do grupo no mês; SOMAR = acrescenta
+  valor: Money;
+  descricao: string;
+}
+
+/**
+ * Valor de um grupo por origem em um mês (positivo; o sentido vem do grupo)
+ */
+export type ForecastGroupCell = Record<ForecastSource, Money> & { total: Money };
+
+/**
+ * Base da projeção, antes do cenário
+ */
+export interface ForecastBase {
+  dataBase: string; // yyyy-MM-dd
+  filial: string | null;
+  periodos: string[]; // yyyy-MM
+  valores: Record<string, Record<ForecastGroup, ForecastGroupCell>>; // período → grupo
+  historico: {
+    meses: number; // meses com movimento usados na média
+    media: Record<ForecastGroup, Money>;
+    sazonalidade: Record<ForecastGroup, number[]>; // índice por mês do ano (jan..dez)
+  };
+}
+
+export interface ForecastPeriod {
+  periodo: string;
+  grupos: Record<ForecastGroup, ForecastGroupCell>;
+  entradas: Money;
+  saidas: Money;
+  liquido: Money;
+  saldoInicial: Money;
+  saldoFinal: Money;
+}
+
+export interface ForecastResult {
+  cenario: ForecastScenario;
+  dataBase: string;
+  filial: string | null;
+  saldoInicial: Money;
+  periodos: ForecastPeriod[];
+  menorSaldo: { periodo: string; valor: Money } | null;
+  ajustes: number; // ajustes manuais aplicados
+}
+
+export interface ForecastOptions {
+  meses?: number; // horizonte (padrão: 12, contando o mês atual)
+  mesesHistorico?: number; // janela do histórico (padrão: 24)
+  filial?: string | null;
+  dataBase?: Date;
+}
+
+export const FORECAST_GROUPS: ForecastGroup[] = [
+  ForecastGroup.RECEITA,
+  ForecastGroup.CUSTO_VARIAVEL,
+  ForecastGroup.DESPESA_FIXA,
+];
+
+export const FORECAST_GROUP_LABELS: Record<ForecastGroup, string> = {
+  [ForecastGroup.RECEITA]: 'Recebimentos',
+  [ForecastGroup.CUSTO_VARIAVEL]: 'Custos variáveis',
+  [ForecastGroup.DESPESA_FIXA]: 'Despesas fixas',
+};
+
+export const SCENARIO_HEADERS = [
+  'ID', 'Nome', 'Descrição', 'Choque Receita %', 'Choque Custo Variável %', 'Choque Despesa Fixa %',
+  'Ativo', 'Atualizado Em',
+];
+
+export const SCENARIO_OVERRIDE_HEADERS = ['Cenário', 'Período', 'Grupo', 'Modo', 'Valor', 'Descrição'];
+
+export const FORECAST_HEADERS = [
+  'Cenário', 'Período', 'Grupo', 'Origem', 'Valor', 'Saldo Projetado', 'Filial', 'Gerado Em',
+];
+
+/**
+ * Cenários usados enquanto CFG_CENARIOS estiver vazia
+ */
+export const DEFAULT_SCENARIOS: ForecastScenario[] = [
+  {
+    id: 'BASE', nome: 'Base', descricao: 'Histórico e compromissos sem choques',
+    choqueReceita: 0, choqueCustoVariavel: 0, choqueDespesaFixa: 0, ativo: true, atualizadoEm: '',
+  },
+  {
+    id: 'OTIMISTA', nome: 'Otimista', descricao: 'Receita +10%, custos variáveis acompanhando',
+    choqueReceita: 10, choqueCustoVariavel: 5, choqueDespesaFixa: 0, ativo: true, atualizadoEm: '',
+  },
+  {
+    id: 'PESSIMISTA', nome: 'Pessimista', descricao: 'Receita -15%, despesas fixas +5%',
+    choqueReceita: -15, choqueCustoVariavel: -10, choqueDespesaFixa: 5, ativo: true, atualizadoEm: '',
+  },
+];
+
+const DEFAULT_HORIZON = 12;
+const DEFAULT_HISTORY = 24;
+const MAX_HORIZON = 36;
+
+const OPEN_STATUSES = ['PENDENTE', 'VENCIDA', 'PARCIAL'];
+const PAID_STATUSES = ['PAGO', 'PAGA', 'RECEBIDO', 'RECEBIDA', 'CONCILIADO'];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function pad2(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function periodOf(date: Date): string {
+  return `${date.getFullYear()}-${pad2(date.getMonth() + 1)}`;
+}
+
+function toDate(value: any): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : new Date(value.getFullYear(), value.getMonth(), value.getDate());
+  }
+  const str = String(value || '').trim();
+  return str ? parseDateISO(str.slice(0, 10)) : null;
+}
+
+function isTruthy(value: any, fallback: boolean): boolean {
+  if (value === true || value === false) return value;
+  const str = String(value ?? '').trim().toUpperCase();
+  if (!str) return fallback;
+  return !['FALSE', 'NAO', 'NÃO', 'N', '0'].includes(str);
+}
+
+function emptyCell(): ForecastGroupCell {
+  return {
+    [ForecastSource.TITULOS]: 0,
+    [ForecastSource.RECORRENCIA]: 0,
+    [ForecastSource.HISTORICO]: 0,
+    [ForecastSource.AJUSTE]: 0,
+    total: 0,
+  };
+}
+
+function emptyGroups(): Record<ForecastGroup, ForecastGroupCell> {
+  const grupos = {} as Record<ForecastGroup, ForecastGroupCell>;
+  FORECAST_GROUPS.forEach((g) => (grupos[g] = emptyCell()));
+  return grupos;
+}
+
+function cellTotal(cell: ForecastGroupCell): Money {
+  return roundMoney(
+    cell[ForecastSource.TITULOS] + cell[ForecastSource.RECORRENCIA] + cell[ForecastSource.HISTORICO] + cell[ForecastSource.AJUSTE]
+  );
+}
+
+/**
+ * Períodos yyyy-MM a partir do mês da data-base
+ */
+export function forecastPeriods(dataBase: Date, meses: number): string[] {
+  const periodos: string[] = [];
+  for (let i = 0; i < meses; i++) {
+    periodos.push(periodOf(new Date(dataBase.getFullYear(), dataBase.getMonth() + i, 1)));
+  }
+  return periodos;
+}
+
+/**
+ * Normaliza o grupo informado (aceita rótulos e sinônimos simples)
+ */
+export function normalizeForecastGroup(value: any): ForecastGroup | null {
+  const str = String(value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toUpperCase()
+    .replace(/[\s-]+/g, '_');
+  if (!str) return null;
+  if ((Object.values(ForecastGroup) as string[]).includes(str)) return str as ForecastGroup;
+  if (str.startsWith('RECEB') || str.startsWith('RECEITA') || str === 'ENTRADAS') return ForecastGroup.RECEITA;
+  if (str.includes('VARIAV')) return ForecastGroup.CUSTO_VARIAVEL;
+  if (str.includes('FIX')) return ForecastGroup.DESPESA_FIXA;
+  return null;
+}
+
+/**
+ * Classificador tipo × conta → grupo, memoizado durante uma execução
+ *
+ * Despesa é custo variável quando a conta é VARIAVEL no plano de contas, é
+ * CMA/CMV ou do tipo CUSTO; as demais são despesas fixas.
+ */
+function groupResolver(): (tipo: any, conta: any) => ForecastGroup {
+  const byAccount = new Map<string, ForecastGroup>();
+  return (tipo: any, conta: any) => {
+    const t = String(tipo || '').trim().toUpperCase();
+    if (t === 'RECEITA' || t === 'RECEBER' || t === 'AR') return ForecastGroup.RECEITA;
+
+    const codigo = String(conta || '').trim();
+    let grupo = byAccount.get(codigo);
+    if (!grupo) {
+      const account = codigo ? getAccountByCode(codigo) : null;
+      const variavel =
+        !!account &&
+        (account.variavelFixa === ExpenseClassification.VARIAVEL ||
+          !!account.cmaCmv ||
+          account.tipo === AccountType.CUSTO);
+      grupo = variavel ? ForecastGroup.CUSTO_VARIAVEL : ForecastGroup.DESPESA_FIXA;
+      byAccount.set(codigo, grupo);
+    }
+    return grupo;
+  };
+}
+
+/**
+ * Calendário por filial, memoizado durante uma execução
+ */
+function calendarResolver(): (filial: string) => BusinessDayOptions {
+  const byBranch = new Map<string, BusinessDayOptions>();
+  return (filial: string) => {
+    const key = String(filial || '').trim();
+    let options = byBranch.get(key);
+    if (!options) {
+      options = getBusinessDayOptions(key || null);
+      byBranch.set(key, options);
+    }
+    return options;
+  };
+}
+
+// ============================================================================
+// BASE DA PROJEÇÃO
+// ============================================================================
+
+/**
+ * Média mensal e índice sazonal por mês do ano, a partir dos totais mensais
+ *
+ * A média considera os meses desde o primeiro com movimento (empresa nova não
+ * é diluída por meses vazios). O índice sazonal só é calculado com pelo menos
+ * 12 meses; senão vale 1 para todos os meses.
+ */
+export function seasonalProfile(mensal: Money[], primeiroMes: number): { media: Money; meses: number; indices: number[] } {
+  const inicio = mensal.findIndex((v) => v > 0);
+  const indices = new Array(12).fill(1);
+  if (inicio < 0) return { media: 0, meses: 0, indices };
+
+  const usados = mensal.slice(inicio);
+  const media = usados.reduce((s, v) => s + v, 0) / usados.length;
+  if (usados.length >= 12 && media > 0) {
+    const soma = new Array(12).fill(0);
+    const qtd = new Array(12).fill(0);
+    usados.forEach((valor, i) => {
+      const mesDoAno = (primeiroMes + inicio + i) % 12;
+      soma[mesDoAno] += valor;
+      qtd[mesDoAno]++;
+    });
+    for (let m = 0; m < 12; m++) {
+      if (qtd[m]) indices[m] = Math.round((soma[m] / qtd[m] / media) * 1000) / 1000;
+    }
+  }
+
+  return { media: roundMoney(media), meses: usados.length, indices };
+}
+
+/**
+ * Monta a base da projeção (títulos, recorrências e histórico) lendo
+ * TB_LANCAMENTOS e TB_RECORRENCIAS
+ */
+export function buildForecastBase(options: ForecastOptions = {}): ForecastBase {
+  const dataBase = options.dataBase || getToday();
+  const meses = Math.min(MAX_HORIZON, Math.max(1, Math.floor(Number(options.meses) || DEFAULT_HORIZON)));
+  const mesesHistorico = Math.max(1, Math.floor(Number(options.mesesHistorico) || DEFAULT_HISTORY));
+  const filial = options.filial ? String(options.filial).trim() : null;
+
+  const periodos = forecastPeriods(dataBase, meses);
+  const primeiro = periodos[0];
+  const ultimo = periodos[periodos.length - 1];
+  const [anoFim, mesFim] = ultimo.split('-').map(Number);
+  const limite = new Date(anoFim, mesFim, 0);
+
+  const valores: Record<string, Record<ForecastGroup, ForecastGroupCell>> = {};
+  periodos.forEach((p) => (valores[p] = emptyGroups()));
+  const add = (periodo: string, grupo: ForecastGroup, origem: ForecastSource, valor: Money) => {
+    const cell = valores[periodo]?.[grupo];
+    if (!cell) return;
+    cell[origem] = roundMoney(cell[origem] + valor);
+  };
+
+  const groupOf = groupResolver();
+  const calendarOf = calendarResolver();
+  const matchesFilial = (value: any) => !filial || String(value || '').trim() === filial;
+
+  // Histórico: janela de meses completos anteriores ao mês da data-base
+  const inicioHistorico = new Date(dataBase.getFullYear(), dataBase.getMonth() - mesesHistorico, 1);
+  const fimHistorico = new Date(dataBase.getFullYear(), dataBase.getMonth(), 1);
+  const historicoMensal: Record<ForecastGroup, Money[]> = {
+    [ForecastGroup.RECEITA]: new Array(mesesHistorico).fill(0),
+    [ForecastGroup.CUSTO_VARIAVEL]: new Array(mesesHistorico).fill(0),
+    [ForecastGroup.DESPESA_FIXA]: new Array(mesesHistorico).fill(0),
+  };
+
+  const C = TB_LANCAMENTOS_COLS;
+  for (const row of getSheetValues(SHEET_TB_LANCAMENTOS, { skipHeader: true })) {
+    if (!row || !String(row[C.ID] || '').trim()) continue;
+    if (!matchesFilial(row[C.FILIAL])) continue;
+
+    const status = String(row[C.STATUS] || '').trim().toUpperCase();
+    const valor = Math.abs(parseMoney(row[C.VALOR_LIQUIDO]));
+    if (!valor) continue;
+    const grupo = groupOf(row[C.TIPO], row[C.CONTA_CONTABIL] || row[C.CONTA_GERENCIAL]);
+
+    if (OPEN_STATUSES.includes(status)) {
+      const aberto = residualAmount(row[C.VALOR_CONCILIADO], valor, !!String(row[C.ID_EXTRATO_BANCO] || '').trim());
+      const vencimento = toDate(row[C.DATA_VENCIMENTO]) || toDate(row[C.DATA_COMPETENCIA]);
+      if (!aberto || !vencimento) continue;
+      const efetivo = nextBusinessDay(vencimento, calendarOf(String(row[C.FILIAL] || '')));
+      const periodo = efetivo.getTime() < dataBase.getTime() ? primeiro : periodOf(efetivo);
+      add(periodo, grupo, ForecastSource.TITULOS, aberto);
+      continue;
+    }
+
+    if (PAID_STATUSES.includes(status)) {
+      const pagamento = toDate(row[C.DATA_PAGAMENTO]) || toDate(row[C.DATA_VENCIMENTO]);
+      if (!pagamento || pagamento < inicioHistorico || pagamento >= fimHistorico) continue;
+      const idx =
+        (pagamento.getFullYear() - inicioHistorico.getFullYear()) * 12 + pagamento.getMonth() - inicioHistorico.getMonth();
+      historicoMensal[grupo][idx] += valor;
+    }
+  }
+
+  // Recorrências: só ocorrências posteriores à última gerada e a partir de hoje
+  const ontem = addDays(dataBase, -1);
+  for (const template of listRecurrenceTemplates()) {
+    if (!template.ativo || !matchesFilial(template.filial)) continue;
+    const after =
+      template.ultimaGeracao && template.ultimaGeracao.getTime() > ontem.getTime() ? template.ultimaGeracao : ontem;
+    const grupo = groupOf(template.tipo, template.contaContabil || template.contaGerencial);
+    const calendar = calendarOf(template.filial);
+    for (const occurrence of computeOccurrences(template, after, limite)) {
+      add(periodOf(nextBusinessDay(occurrence.data, calendar)), grupo, ForecastSource.RECORRENCIA, occurrence.valor);
+    }
+  }
+
+  // Histórico completa o que falta em receitas e custos variáveis; despesas
+  // fixas são cobertas por títulos e recorrências
+  const media = {} as Record<ForecastGroup, Money>;
+  const sazonalidade = {} as Record<ForecastGroup, number[]>;
+  let mesesUsados = 0;
+  for (const grupo of FORECAST_GROUPS) {
+    const perfil = seasonalProfile(historicoMensal[grupo], inicioHistorico.getMonth());
+    media[grupo] = perfil.media;
+    sazonalidade[grupo] = perfil.indices;
+    mesesUsados = Math.max(mesesUsados, perfil.meses);
+    if (grupo === ForecastGroup.DESPESA_FIXA || !perfil.media) continue;
+
+    for (const periodo of periodos) {
+      const mesDoAno = Number(periodo.slice(5, 7)) - 1;
+      const cell = valores[periodo][grupo];
+      const esperado = perfil.media * perfil.indices[mesDoAno];
+      const comprometido = cell[ForecastSource.TITULOS] + cell[ForecastSource.RECORRENCIA];
+      cell[ForecastSource.HISTORICO] = roundMoney(Math.max(0, esperado - comprometido));
+    }
+  }
+
+  periodos.forEach((p) => FORECAST_GROUPS.forEach((g) => (valores[p][g].total = cellTotal(valores[p][g]))));
+
+  return {
+    dataBase: formatDateISO(dataBase),
+    filial,
+    periodos,
+    valores,
+    historico: { meses: mesesUsados, media, sazonalidade },
+  };
+}
+
+// ============================================================================
+// CENÁRIOS
+// ============================================================================
+
+function shockFor(scenario: ForecastScenario, grupo: ForecastGroup): number {
+  if (grupo === ForecastGroup.RECEITA) return scenario.choqueReceita;
+  if (grupo === ForecastGroup.CUSTO_VARIAVEL) return scenario.choqueCustoVariavel;
+  return scenario.choqueDespesaFixa;
+}
+
+/**
+ * Aplica o cenário sobre a base e encadeia os saldos mês a mês
+ *
+ * @param saldoInicial - Saldo de caixa na data-base
+ */
+export function applyScenario(
+  base: ForecastBase,
+  scenario: ForecastScenario,
+  overrides: ForecastOverride[],
+  saldoInicial: Money
+): ForecastResult {
+  const ajustesDoCenario = overrides.filter((o) => o.cenario === scenario.id && base.periodos.includes(o.periodo));
+  let saldo = roundMoney(saldoInicial);
+  let menorSaldo: { periodo: string; valor: Money } | null = null;
+
+  const periodos = base.periodos.map((periodo) => {
+    const grupos = emptyGroups();
+    for (const grupo of FORECAST_GROUPS) {
+      const origem = base.valores[periodo][grupo];
+      const fator = 1 + (Number(shockFor(scenario, grupo)) || 0) / 100;
+      const cell = grupos[grupo];
+      cell[ForecastSource.TITULOS] = origem[ForecastSource.TITULOS];
+      cell[ForecastSource.RECORRENCIA] = roundMoney(origem[ForecastSource.RECORRENCIA] * fator);
+      cell[ForecastSource.HISTORICO] = roundMoney(origem[ForecastSource.HISTORICO] * fator);
+
+      for (const ajuste of ajustesDoCenario) {
+        if (ajuste.periodo !== periodo || ajuste.grupo !== grupo) continue;
+        if (ajuste.modo === 'SUBSTITUIR') {
+          const semAjuste =
+            cell[ForecastSource.TITULOS] + cell[ForecastSource.RECORRENCIA] + cell[ForecastSource.HISTORICO];
+          cell[ForecastSource.AJUSTE] = roundMoney(ajuste.valor - semAjuste);
+        } else {
+          cell[ForecastSource.AJUSTE] = roundMoney(cell[ForecastSource.AJUSTE] + ajuste.valor);
+        }
+      }
+      cell.total = cellTotal(cell);
+    }
+
+    const entradas = grupos[ForecastGroup.RECEITA].total;
+    const saidas = roundMoney(grupos[ForecastGroup.CUSTO_VARIAVEL].total + grupos[ForecastGroup.DESPESA_FIXA].total);
+    const liquido = roundMoney(entradas - saidas);
+    const inicial = saldo;
+    saldo = roundMoney(saldo + liquido);
+    if (!menorSaldo || saldo < menorSaldo.valor) menorSaldo = { periodo, valor: saldo };
+
+    return { periodo, grupos, entradas, saidas, liquido, saldoInicial: inicial, saldoFinal: saldo };
+  });
+
+  return {
+    cenario: scenario,
+    dataBase: base.dataBase,
+    filial: base.filial,
+    saldoInicial: roundMoney(saldoInicial),
+    periodos,
+    menorSaldo,
+    ajustes: ajustesDoCenario.length,
+  };
+}
+
+/**
+ * Saldo de caixa na data-base: soma dos saldos das contas bancárias ativas
+ */
+export function getForecastStartingCash(dataBase: Date = getToday(), filial: string | null = null): Money {
+  return roundMoney(getBankBalances(dataBase, filial).reduce((s, b) => s + b.saldo, 0));
+}
+
+// ============================================================================
+// LEITURA/GRAVAÇÃO DE CENÁRIOS
+// ============================================================================
+
+function rowToScenario(row: any[]): ForecastScenario | null {
+  const C = CFG_CENARIOS_COLS;
+  const id = String(row[C.ID] || '').trim().toUpperCase();
+  if (!id) return null;
+  return {
+    id,
+    nome: String(row[C.NOME] || '').trim() || id,
+    descricao: String(row[C.DESCRICAO] || '').trim(),
+    choqueReceita: Number(row[C.CHOQUE_RECEITA]) || 0,
+    choqueCustoVariavel: Number(row[C.CHOQUE_CUSTO_VARIAVEL]) || 0,
+    choqueDespesaFixa: Number(row[C.CHOQUE_DESPESA_FIXA]) || 0,
+    ativo: isTruthy(row[C.ATIVO], true),
+    atualizadoEm: row[C.ATUALIZADO_EM] instanceof Date ? row[C.ATUALIZADO_EM].toISOString() : String(row[C.ATUALIZADO_EM] || ''),
+  };
+}
+
+function scenarioToRow(scenario: ForecastScenario): any[] {
+  const C = CFG_CENARIOS_COLS;
+  const row = new Array(SCENARIO_HEADERS.length).fill('');
+  row[C.ID] = scenario.id;
+  row[C.NOME] = scenario.nome;
+  row[C.DESCRICAO] = scenario.descricao;
+  row[C.CHOQUE_RECEITA] = scenario.choqueReceita;
+  row[C.CHOQUE_CUSTO_VARIAVEL] = scenario.choqueCustoVariavel;
+  row[C.CHOQUE_DESPESA_FIXA] = scenario.choqueDespesaFixa;
+  row[C.ATIVO] = scenario.ativo ? 'TRUE' : 'FALSE';
+  row[C.ATUALIZADO_EM] = scenario.atualizadoEm;
+  return row;
+}
+
+function rowToOverride(row: any[]): ForecastOverride | null {
+  const C = CFG_CENARIOS_AJUSTES_COLS;
+  const cenario = String(row[C.CENARIO] || '').trim().toUpperCase();
+  const grupo = normalizeForecastGroup(row[C.GRUPO]);
+  const periodoRaw = row[C.PERIODO] instanceof Date ? periodOf(row[C.PERIODO]) : String(row[C.PERIODO] || '').trim();
+  const periodo = /^\d{4}-\d{2}/.test(periodoRaw) ? periodoRaw.slice(0, 7) : '';
+  if (!cenario || !grupo || !periodo) return null;
+  return {
+    cenario,
+    periodo,
+    grupo,
+    modo: String(row[C.MODO] || '').trim().toUpperCase() === 'SUBSTITUIR' ? 'SUBSTITUIR' : 'SOMAR',
+    valor: parseMoney(row[C.VALOR]),
+    descricao: String(row[C.DESCRICAO] || '').trim(),
+  };
+}
+
+function overrideToRow(override: ForecastOverride): any[] {
+  const C = CFG_CENARIOS_AJUSTES_COLS;
+  const row = new Array(SCENARIO_OVERRIDE_HEADERS.length).fill('');
+  row[C.CENARIO] = override.cenario;
+  row[C.PERIODO] = override.periodo;
+  row[C.GRUPO] = override.grupo;
+  row[C.MODO] = override.modo;
+  row[C.VALOR] = override.valor;
+  row[C.DESCRICAO] = override.descricao;
+  return row;
+}
+
+/**
+ * Cenários cadastrados em CFG_CENARIOS (padrões se a aba estiver vazia)
+ */
+export function listScenarios(): ForecastScenario[] {
+  createSheetIfNotExists(SHEET_CFG_CENARIOS, SCENARIO_HEADERS);
+  const scenarios = getSheetValues(SHEET_CFG_CENARIOS, { skipHeader: true })
+    .map((row) => (row ? rowToScenario(row) : null))
+    .filter((s): s is ForecastScenario => s !== null);
+  return scenarios.length ? scenarios : DEFAULT_SCENARIOS.map((s) => ({ ...s }));
+}
+
+/**
+ * Ajustes manuais de CFG_CENARIOS_AJUSTES
+ *
+ * @param cenario - Filtra por cenário (padrão: todos)
+ */
+export function listScenarioOverrides(cenario?: string | null): ForecastOverride[] {
+  createSheetIfNotExists(SHEET_CFG_CENARIOS_AJUSTES, SCENARIO_OVERRIDE_HEADERS);
+  const id = cenario ? String(cenario).trim().toUpperCase() : null;
+  return getSheetValues(SHEET_CFG_CENARIOS_AJUSTES, { skipHeader: true })
+    .map((row) => (row ? rowToOverride(row) : null))
+    .filter((o): o is ForecastOverride => o !== null && (!id || o.cenario === id));
+}
+
+/**
+ * Converte dados recebidos do front em cenário + ajustes
+ *
+ * @throws Error se o ID for inválido ou algum ajuste estiver incompleto
+ */
+export function parseScenarioInput(input: any, ajustes: any[] = []): { cenario: ForecastScenario; ajustes: ForecastOverride[] } {
+  const id = String(input?.id || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toUpperCase()
+    .replace(/[^A-Z0-9_]+/g, '_');
+  if (!id) throw new Error('Informe o identificador do cenário');
+
+  const cenario: ForecastScenario = {
+    id,
+    nome: String(input?.nome || '').trim() || id,
+    descricao: String(input?.descricao || '').trim(),
+    choqueReceita: Number(input?.choqueReceita) || 0,
+    choqueCustoVariavel: Number(input?.choqueCustoVariavel) || 0,
+    choqueDespesaFixa: Number(input?.choqueDespesaFixa) || 0,
+    ativo: input?.ativo !== false,
+    atualizadoEm: new Date().toISOString(),
+  };
+
+  const parsed = (ajustes || []).map((a, idx) => {
+    const override = rowToOverride(
+      overrideToRow({
+        cenario: id,
+        periodo: String(a?.periodo || '').trim(),
+        grupo: a?.grupo,
+        modo: a?.modo,
+        valor: parseMoney(a?.valor),
+        descricao: String(a?.descricao || '').trim(),
+      } as ForecastOverride)
+    );
+    if (!override) throw new Error(`Ajuste ${idx + 1}: informe período (aaaa-mm) e grupo válidos`);
+    return override;
+  });
+
+  return { cenario, ajustes: parsed };
+}
+
+/**
+ * Grava o cenário (upsert por ID) e substitui seus ajustes manuais
+ *
+ * Se CFG_CENARIOS estiver vazia, os cenários padrão são gravados junto.
+ */
+export function saveScenario(cenario: ForecastScenario, ajustes: ForecastOverride[]): void {
+  const scenarios = listScenarios().filter((s) => s.id !== cenario.id);
+  const rows = [...scenarios, cenario].map(scenarioToRow);
+  clearRange(SHEET_CFG_CENARIOS, 'A2:H');
+  setSheetValues(SHEET_CFG_CENARIOS, `A2:H${rows.length + 1}`, rows);
+
+  const outros = listScenarioOverrides().filter((o) => o.cenario !== cenario.id);
+  const overrideRows = [...outros, ...ajustes]
+    .sort((a, b) => a.cenario.localeCompare(b.cenario) || a.periodo.localeCompare(b.periodo))
+    .map(overrideToRow);
+  clearRange(SHEET_CFG_CENARIOS_AJUSTES, 'A2:F');
+  if (overrideRows.length) {
+    setSheetValues(SHEET_CFG_CENARIOS_AJUSTES, `A2:F${overrideRows.length + 1}`, overrideRows);
+  }
+}
+
+// ============================================================================
+// PERSISTÊNCIA (TB_DFC_PROJ)
+// ============================================================================
+
+/**
+ * Grava a projeção em TB_DFC_PROJ: uma linha por mês × grupo × origem, com o
+ * valor com sinal (saídas negativas) e o saldo projetado no fim do mês
+ *
+ * Substitui apenas as linhas do mesmo cenário e filial.
+ */
+export function persistForecast(result: ForecastResult): number {
+  createSheetIfNotExists(SHEET_TB_DFC_PROJ, FORECAST_HEADERS);
+  const C = TB_DFC_PROJ_COLS;
+  const filial = result.filial || '';
+
+  const mantidas = getSheetValues(SHEET_TB_DFC_PROJ, { skipHeader: true }).filter((row) => {
+    if (!row || !String(row[C.CENARIO] || '').trim()) return false;
+    return !(
+      String(row[C.CENARIO]).trim().toUpperCase() === result.cenario.id &&
+      String(row[C.FILIAL] || '').trim() === filial
+    );
+  });
+
+  const geradoEm = new Date().toISOString();
+  const novas: any[][] = [];
+  for (const periodo of result.periodos) {
+    for (const grupo of FORECAST_GROUPS) {
+      const sinal = grupo === ForecastGroup.RECEITA ? 1 : -1;
+      for (const origem of Object.values(ForecastSource)) {
+        const valor = periodo.grupos[grupo][origem];
+        if (!valor) continue;
+        const row = new Array(FORECAST_HEADERS.length).fill('');
+        row[C.CENARIO] = result.cenario.id;
+        row[C.PERIODO] = periodo.periodo;
+        row[C.GRUPO] = grupo;
+        row[C.ORIGEM] = origem;
+        row[C.VALOR] = roundMoney(sinal * valor);
+        row[C.SALDO_PROJETADO] = periodo.saldoFinal;
+        row[C.FILIAL] = filial;
+        row[C.GERADO_EM] = geradoEm;
+        novas.push(row);
+      }
+    }
+  }
+
+  const rows = [...mantidas.map((r) => r.slice(0, FORECAST_HEADERS.length)), ...novas];
+  clearRange(SHEET_TB_DFC_PROJ, 'A2:H');
+  if (rows.length) setSheetValues(SHEET_TB_DFC_PROJ, `A2:H${rows.length + 1}`, rows);
+  return novas.length;
+}
+
+/**
+ * Projeta e grava todos os cenários ativos (base calculada uma única vez)
+ *
+ * @param saldoInicial - Saldo na data-base (padrão: saldo das contas bancárias)
+ */
+export function runForecastScenarios(options: ForecastOptions = {}, saldoInicial?: Money | null): ForecastResult[] {
+  const base = buildForecastBase(options);
+  const dataBase = options.dataBase || getToday();
+  const saldo =
+    saldoInicial !== undefined && saldoInicial !== null
+      ? saldoInicial
+      : getForecastStartingCash(dataBase, base.filial);
+  const overrides = listScenarioOverrides();
+
+  return listScenarios()
+    .filter((s) => s.ativo)
+    .map((scenario) => {
+      const result = applyScenario(base, scenario, overrides, saldo);
+      persistForecast(result);
+      return result;
+    });
+}
@@ -0,0 +1,519 @@
+/**
+ * import-service.ts
+ *
+ * Framework de importação de arquivos (FC, Itaú, SIEG, TXT de contas pagas...).
+ *
+ * Cada formato registra um Importer (parser + mapper) e toda importação
+ * passa pelas mesmas etapas, sempre retornando ImportResult:
+ *
+ *   preview  → parse + validação + deduplicação, nada é gravado
+ *   validate → cada registro vira linha da planilha ou motivo de rejeição
+ *   commit   → grava as linhas novas em lote (com lock), carimbando o ID do lote
+ *   revert   → remove (ou cancela) exatamente as linhas carimbadas com o lote
+ *
+ * IMPORTANTE:
+ * - Permissões e auditoria ficam no endpoint (webapp-service)
+ * - rowKey deve produzir a mesma chave para a linha nova e para a linha
+ *   já gravada (normalizar datas/valores lidos da planilha)
+ * - Lote não é revertido se alguma linha estiver conciliada ou em período fechado
+ */
+
+import { getSheetValues, appendRows, deleteRows, createSheetIfNotExists } from '../shared/sheets-client';
+import { cacheRemoveNamespace, CacheScope } from '../shared/cache';
+import { isPeriodLocked } from '../shared/validation';
+import { Period } from '../shared/types';
+
+// ============================================================================
+// TIPOS
+// ============================================================================
+
+/**
+ * Registro rejeitado na validação
+ */
+export interface ImportRejection {
+  linha: number; // posição do registro na entrada (1-based)
+  motivo: string;
+}
+
+/**
+ * Resultado único de preview/commit/revert
+ */
+export interface ImportResult {
+  success: boolean;
+  message: string;
+  importer: string;
+  batchId: string | null; // ID do lote gravado (permite reverter)
+  total: number; // registros recebidos
+  imported: number;
+  skippedDup: number;
+  rejected: ImportRejection[];
+  reverted?: number; // apenas revert
+  preview?: any[][]; // apenas preview (amostra das linhas a gravar)
+}
+
+/**
+ * Contexto de uma execução
+ */
+export interface ImportContext {
+  batchId: string; // ID do lote, gravado na coluna batchColumn
+  importedAt: string; // timestamp ISO da execução
+  meta: Record<string, any>;
+}
+
+/**
+ * Definição de um formato de importação
+ */
+export interface Importer<TInput = any, TRecord = any> {
+  id: string;
+  label: string; // usado nas mensagens (ex.: "FC", "Itau")
+  sheetName: string;
+  headers?: string[]; // cabeçalhos para criar a aba se não existir
+
+  /** Converte a entrada bruta em registros */
+  parse(input: TInput, context: ImportContext): TRecord[];
+
+  /** Valida e converte um registro em linha da planilha (string = motivo da rejeição) */
+  map(record: TRecord, context: ImportContext): any[] | string;
+
+  /** Chave de deduplicação de uma linha (nova ou já gravada); vazia = não considerar */
+  rowKey(row: any[]): string;
+
+  /** Coluna (0-based) que recebe o ID do lote; sem ela o lote não pode ser revertido */
+  batchColumn?: number;
+
+  /** Reverte gravando um status em vez de remover as linhas */
+  cancel?: { column: number; value: string };
+
+  /** Coluna de data usada para verificar período fechado na reversão */
+  periodDateColumn?: number;
+
+  /** Linha já conciliada (impede reverter o lote) */
+  isReconciled?(row: any[]): boolean;
+
+  /**
+   * Executado com lock antes de gravar (ex.: garantir colunas, vincular
+   * parceiros). Recebe as linhas novas e pode completá-las.
+   */
+  beforeCommit?(context: ImportContext, rows: any[][]): void;
+
+  /** Namespaces de cache invalidados após commit/revert */
+  cacheNamespaces?: string[];
+
+  /** Invalidação adicional após commit/revert */
+  invalidate?(): void;
+}
+
+/**
+ * Opções de execução
+ */
+export interface ImportOptions {
+  skipDedup?: boolean;
+  knownKeys?: Set<string>; // chaves já conhecidas (importação em fatias); é atualizado
+  batchId?: string; // reutiliza o lote entre fatias de uma mesma importação
+}
+
+/**
+ * Resumo de um lote gravado
+ */
+export interface ImportBatchSummary {
+  batchId: string;
+  linhas: number;
+}
+
+export const BATCH_HEADER = 'Lote Importação';
+
+const PREVIEW_LIMIT = 50;
+const LOCK_TIMEOUT_MS = 5000;
+
+// ============================================================================
+// REGISTRO
+// ============================================================================
+
+const registry: Record<string, Importer> = {};
+
+/**
+ * Registra (ou substitui) um importador
+ */
+export function registerImporter(importer: Importer): void {
+  registry[importer.id] = importer;
+}
+
+/**
+ * Busca importador pelo ID
+ *
+ * @throws Error se o importador não estiver registrado
+ */
+export function getImporter(id: string): Importer {
+  const importer = registry[String(id || '').toUpperCase()];
+  if (!importer) {
+    throw new Error(`Importador não registrado: ${id}`);
+  }
+  return importer;
+}
+
+/**
+ * Lista importadores registrados
+ */
+export function listImporters(): Array<{ id: string; label: string; revertible: boolean }> {
+  return Object.keys(registry).map((id) => ({
+    id,
+    label: registry[id].label,
+    revertible: registry[id].batchColumn !== undefined,
+  }));
+}
+
+/**
+ * Gera ID de lote (ex.: LT20250103-142530-0481)
+ */
+export function generateBatchId(): string {
+  const stamp = Utilities.formatDate(new Date(), Session.getScriptTimeZone(), 'yyyyMMdd-HHmmss');
+  const random = String(Math.floor(Math.random() * 10000)).padStart(4, '0');
+  return `LT${stamp}-${random}`;
+}
+
+// ============================================================================
+// PIPELINE
+// ============================================================================
+
+function isEmptyRow(row: any[]): boolean {
+  return !row || row.every((c) => c === '' || c === null || c === undefined);
+}
+
+function createContext(meta: Record<string, any>, options: ImportOptions): ImportContext {
+  return {
+    batchId: options.batchId || generateBatchId(),
+    importedAt: new Date().toISOString(),
+    meta,
+  };
+}
+
+/**
+ * Chaves das linhas já gravadas pelo importador
+ */
+export function loadImporterKeys(importerId: string): Set<string> {
+  return loadExistingKeys(getImporter(importerId));
+}
+
+function loadExistingKeys(importer: Importer): Set<string> {
+  if (importer.headers) {
+    createSheetIfNotExists(importer.sheetName, importer.headers);
+  }
+  const keys = new Set<string>();
+  for (const row of getSheetValues(importer.sheetName, { skipHeader: true })) {
+    if (isEmptyRow(row)) continue;
+    const key = importer.rowKey(row);
+    if (key) keys.add(key);
+  }
+  return keys;
+}
+
+/**
+ * Parse + validação + deduplicação (sem gravar)
+ */
+function prepareImport(
+  importer: Importer,
+  input: any,
+  context: ImportContext,
+  options: ImportOptions
+): { rows: any[][]; total: number; skippedDup: number; rejected: ImportRejection[] } {
+  const records = importer.parse(input, context) || [];
+  const known = options.skipDedup
+    ? new Set<string>()
+    : options.knownKeys || loadExistingKeys(importer);
+
+  const rows: any[][] = [];
+  const rejected: ImportRejection[] = [];
+  let skippedDup = 0;
+
+  records.forEach((record, idx) => {
+    const mapped = importer.map(record, context);
+    if (typeof mapped === 'string') {
+      rejected.push({ linha: idx + 1, motivo: mapped });
+      return;
+    }
+
+    if (importer.batchColumn !== undefined) {
+      for (let i = mapped.length; i < importer.batchColumn; i++) mapped[i] = '';
+      mapped[importer.batchColumn] = context.batchId;
+    }
+
+    if (!options.skipDedup) {
+      const key = importer.rowKey(mapped);
+      if (!key) {
+        rejected.push({ linha: idx + 1, motivo: 'Linha sem dados para identificação' });
+        return;
+      }
+      if (known.has(key)) {
+        skippedDup++;
+        return;
+      }
+      known.add(key);
+    }
+
+    rows.push(mapped);
+  });
+
+  return { rows, total: records.length, skippedDup, rejected };
+}
+
+/**
+ * Garante o cabeçalho da coluna de lote em abas criadas antes dela
+ */
+function ensureBatchHeader(importer: Importer): void {
+  if (importer.batchColumn === undefined) return;
+  const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(importer.sheetName);
+  if (!sheet) return;
+
+  const col = importer.batchColumn + 1;
+  const maxCols = sheet.getMaxColumns();
+  if (maxCols < col) {
+    sheet.insertColumnsAfter(maxCols, col - maxCols);
+  }
+  const cell = sheet.getRange(1, col);
+  if (!String(cell.getValue() || '').trim()) {
+    cell.setValue(BATCH_HEADER);
+  }
+}
+
+/**
+ * Período (ano/mês) de uma célula de data (Date, yyyy-MM-dd ou dd/MM/yyyy)
+ */
+function cellToPeriod(value: any): Period | null {
+  if (value instanceof Date && !isNaN(value.getTime())) {
+    return { year: value.getFullYear(), month: value.getMonth() + 1 };
+  }
+  const s = String(value || '').trim();
+  const iso = /^(\d{4})-(\d{2})/.exec(s);
+  if (iso) return { year: Number(iso[1]), month: Number(iso[2]) };
+  const br = /^\d{1,2}\/(\d{1,2})\/(\d{4})/.exec(s);
+  if (br) return { year: Number(br[2]), month: Number(br[1]) };
+  return null;
+}
+
+function invalidateImporterCaches(importer: Importer): void {
+  for (const ns of importer.cacheNamespaces || []) {
+    cacheRemoveNamespace(ns, CacheScope.SCRIPT);
+  }
+  if (importer.invalidate) importer.invalidate();
+}
+
+function buildMessage(
+  importer: Importer,
+  imported: number,
+  total: number,
+  skippedDup: number,
+  rejected: number
+): string {
+  if (!imported) {
+    return total > 0
+      ? 'Nenhuma linha importada (todas duplicadas ou invalidas)'
+      : 'Nenhuma linha valida para importar';
+  }
+  const notes = [] as string[];
+  if (skippedDup) notes.push(`ignoradas ${skippedDup} duplicadas`);
+  if (rejected) notes.push(`${rejected} rejeitadas`);
+  const suffix = notes.length ? ` (${notes.join(', ')})` : '';
+  return `Importado ${imported} linhas ${importer.label}${suffix}`;
+}
+
+// ============================================================================
+// API PÚBLICA
+// ============================================================================
+
+/**
+ * Pré-visualiza uma importação (nada é gravado)
+ */
+export function previewImport(
+  importerId: string,
+  input: any,
+  meta: Record<string, any> = {},
+  options: ImportOptions = {}
+): ImportResult {
+  const importer = getImporter(importerId);
+  const context = createContext(meta, options);
+  const prepared = prepareImport(importer, input, context, options);
+
+  return {
+    success: prepared.rows.length > 0,
+    message: prepared.rows.length
+      ? `${prepared.rows.length} linhas ${importer.label} prontas para importar`
+      : buildMessage(importer, 0, prepared.total, prepared.skippedDup, prepared.rejected.length),
+    importer: importer.id,
+    batchId: null,
+    total: prepared.total,
+    imported: 0,
+    skippedDup: prepared.skippedDup,
+    rejected: prepared.rejected,
+    preview: prepared.rows.slice(0, PREVIEW_LIMIT),
+  };
+}
+
+/**
+ * Executa a importação: valida, deduplica e grava as linhas novas
+ */
+export function commitImport(
+  importerId: string,
+  input: any,
+  meta: Record<string, any> = {},
+  options: ImportOptions = {}
+): ImportResult {
+  const importer = getImporter(importerId);
+  const context = createContext(meta, options);
+
+  const lock = LockService.getDocumentLock();
+  lock.waitLock(LOCK_TIMEOUT_MS);
+  try {
+    const prepared = prepareImport(importer, input, context, options);
+
+    if (prepared.rows.length > 0) {
+      if (importer.beforeCommit) importer.beforeCommit(context, prepared.rows);
+      ensureBatchHeader(importer);
+      appendRows(importer.sheetName, prepared.rows);
+      invalidateImporterCaches(importer);
+    }
+
+    const imported = prepared.rows.length;
+    return {
+      success: imported > 0,
+      message: buildMessage(importer, imported, prepared.total, prepared.skippedDup, prepared.rejected.length),
+      importer: importer.id,
+      batchId: imported > 0 ? context.batchId : null,
+      total: prepared.total,
+      imported,
+      skippedDup: prepared.skippedDup,
+      rejected: prepared.rejected,
+    };
+  } finally {
+    try {
+      lock.releaseLock();
+    } catch (_) {}
+  }
+}
+
+/**
+ * Lista os lotes gravados por um importador (mais recentes primeiro)
+ */
+export function listBatches(importerId: string): ImportBatchSummary[] {
+  const importer = getImporter(importerId);
+  const col = importer.batchColumn;
+  if (col === undefined) return [];
+
+  const counts: Record<string, number> = {};
+  const order: string[] = [];
+  for (const row of getSheetValues(importer.sheetName, { skipHeader: true })) {
+    const batchId = String(row[col] || '').trim();
+    if (!batchId) continue;
+    if (!counts[batchId]) order.push(batchId);
+    counts[batchId] = (counts[batchId] || 0) + 1;
+  }
+
+  return order.reverse().map((batchId) => ({ batchId, linhas: counts[batchId] }));
+}
+
+/**
+ * Reverte um lote: remove (ou cancela) exatamente as linhas carimbadas com o ID
+ *
+ * Recusa a reversão inteira se alguma linha do lote já estiver conciliada
+ * ou pertencer a período fechado.
+ */
+export function revertBatch(importerId: string, batchId: string): ImportResult {
+  const importer = getImporter(importerId);
+  const wanted = String(batchId || '').trim();
+  const base: ImportResult = {
+    success: false,
+    message: '',
+    importer: importer.id,
+    batchId: wanted || null,
+    total: 0,
+    imported: 0,
+    skippedDup: 0,
+    rejected: [],
+    reverted: 0,
+  };
+
+  const col = importer.batchColumn;
+  if (col === undefined) {
+    return { ...base, message: `Importação ${importer.label} não pode ser revertida` };
+  }
+  if (!wanted) {
+    return { ...base, message: 'ID do lote não informado' };
+  }
+
+  const lock = LockService.getDocumentLock();
+  lock.waitLock(LOCK_TIMEOUT_MS);
+  try {
+    const values = getSheetValues(importer.sheetName, { skipHeader: true });
+    const sheetRows: number[] = [];
+    const blockers: ImportRejection[] = [];
+
+    values.forEach((row, idx) => {
+      if (String(row[col] || '').trim() !== wanted) return;
+      const sheetRow = idx + 2; // 1-based + cabeçalho
+      sheetRows.push(sheetRow);
+
+      if (importer.isReconciled && importer.isReconciled(row)) {
+        blockers.push({ linha: sheetRow, motivo: 'Linha já conciliada' });
+        return;
+      }
+      if (importer.periodDateColumn !== undefined) {
+        const period = cellToPeriod(row[importer.periodDateColumn]);
+        if (period && isPeriodLocked(period)) {
+          const label = `${String(period.month).padStart(2, '0')}/${period.year}`;
+          blockers.push({ linha: sheetRow, motivo: `Período ${label} fechado` });
+        }
+      }
+    });
+
+    if (!sheetRows.length) {
+      return { ...base, message: `Lote ${wanted} não encontrado em ${importer.label}` };
+    }
+    if (blockers.length) {
+      return {
+        ...base,
+        total: sheetRows.length,
+        rejected: blockers,
+        message: `Lote não revertido: ${blockers.length} linha(s) conciliada(s) ou em período fechado`,
+      };
+    }
+
+    if (importer.cancel) {
+      const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(importer.sheetName);
+      if (!sheet) throw new Error(`Aba ${importer.sheetName} não encontrada`);
+      const cancelCol = importer.cancel.column + 1;
+      sheet
+        .getRangeList(sheetRows.map((r) => sheet.getRange(r, cancelCol).getA1Notation()))
+        .setValue(importer.cancel.value);
+    } else {
+      // Linhas agrupadas em blocos contíguos, removidos de baixo para cima
+      const blocks: Array<{ start: number; count: number }> = [];
+      for (const r of sheetRows) {
+        const last = blocks[blocks.length - 1];
+        if (last && last.start + last.count === r) {
+          last.count++;
+        } else {
+          blocks.push({ start: r, count: 1 });
+        }
+      }
+      for (let i = blocks.length - 1; i >= 0; i--) {
+        deleteRows(importer.sheetName, blocks[i].start, blocks[i].count);
+      }
+    }
+
+    invalidateImporterCaches(importer);
+
+    const reverted = sheetRows.length;
+    return {
+      ...base,
+      success: true,
+      total: reverted,
+      reverted,
+      message: importer.cancel
+        ? `Lote ${wanted}: ${reverted} linhas ${importer.label} canceladas`
+        : `Lote ${wanted}: removidas ${reverted} linhas ${importer.label}`,
+    };
+  } finally {
+    try {
+      lock.releaseLock();
+    } catch (_) {}
+  }
+}
@@ -28,7 +28,8 @@ import { BenchmarkRange, KPIMetric, getBenchmarkRange, BenchmarkConfig } from '.
 import { getAllBenchmarks, getAccountByCode } from './reference-data-service';
 import { calculateDRE } from './dre-service';
 import { listEntries } from './ledger-service';
-import { getFirstDayOfPeriod } from '../shared/date-utils';
+import { getBankBalances } from './bank-balance-service';
+import { addDays, getFirstDayOfPeriod } from '../shared/date-utils';
 
 // ============================================================================
 // CÁLCULO DE KPIs
@@ -246,7 +247,19 @@ export function getDashboardData(period: Period, branchId: BranchId | null = nul
   };
 }
 
+/**
+ * Saldo de caixa no início do período
+ *
+ * Com contas cadastradas em REF_CONTAS_BANCARIAS, usa o saldo bancário
+ * (saldo inicial + extratos) do dia anterior; senão, acumula os lançamentos
+ * realizados.
+ */
 function calculateSaldoCaixa(period: Period, branchId: BranchId | null): Money {
+  const balances = getBankBalances(addDays(getFirstDayOfPeriod(period), -1), branchId);
+  if (balances.length) {
+    return sumMoney(balances.map((b) => b.saldo));
+  }
+
   const entries = listEntries({
     status: LedgerEntryStatus.REALIZADO,
     ...(branchId && { filial: branchId }),
@@ -58,15 +58,26 @@ function generateLedgerId(): string {
 // CONVERSÃO ENTRE SHEET E OBJETO
 // ============================================================================
 
+/**
+ * Célula de data: a planilha devolve Date quando a coluna não está como texto
+ */
+function dateCell(value: any): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : new Date(value.getFullYear(), value.getMonth(), value.getDate());
+  }
+  const str = String(value || '').trim();
+  return str ? parseDateISO(str.slice(0, 10)) : null;
+}
+
 /**
  * Converte linha da planilha para objeto LedgerEntry
  */
 function rowToLedgerEntry(row: any[]): LedgerEntry {
   return {
     id: row[TB_LANCAMENTOS_COLS.ID],
-    competencia: parseDateISO(row[TB_LANCAMENTOS_COLS.DATA_COMPETENCIA]) || new Date(),
-    vencimento: parseDateISO(row[TB_LANCAMENTOS_COLS.DATA_VENCIMENTO]),
-    pagamento: parseDateISO(row[TB_LANCAMENTOS_COLS.DATA_PAGAMENTO]),
+    competencia: dateCell(row[TB_LANCAMENTOS_COLS.DATA_COMPETENCIA]) || new Date(),
+    vencimento: dateCell(row[TB_LANCAMENTOS_COLS.DATA_VENCIMENTO]),
+    pagamento: dateCell(row[TB_LANCAMENTOS_COLS.DATA_PAGAMENTO]),
     tipo: row[TB_LANCAMENTOS_COLS.TIPO] as LedgerEntryType,
     filial: row[TB_LANCAMENTOS_COLS.FILIAL],
     centroCusto: row[TB_LANCAMENTOS_COLS.CENTRO_CUSTO] || null,
@@ -84,6 +95,11 @@ function rowToLedgerEntry(row: any[]): LedgerEntry {
     idExtratoBanco: row[TB_LANCAMENTOS_COLS.ID_EXTRATO_BANCO] || null,
     origem: row[TB_LANCAMENTOS_COLS.ORIGEM] as LedgerEntryOrigin,
     observacoes: row[TB_LANCAMENTOS_COLS.OBSERVACOES] || undefined,
+    parceiroId: row[TB_LANCAMENTOS_COLS.PARCEIRO_ID] || null,
+    valorConciliado:
+      row[TB_LANCAMENTOS_COLS.VALOR_CONCILIADO] === '' || row[TB_LANCAMENTOS_COLS.VALOR_CONCILIADO] == null
+        ? null
+        : parseFloat(row[TB_LANCAMENTOS_COLS.VALOR_CONCILIADO]) || 0,
   };
 }
 
@@ -118,6 +134,28 @@ function ledgerEntryToRow(entry: LedgerEntry): any[] {
   return row;
 }
 
+/**
+ * Grava o parceiro na coluna própria (fora das 21 colunas básicas, que são
+ * as únicas reescritas por updateRow), criando o cabeçalho se faltar
+ */
+function writeParceiroId(rowIndex: number, parceiroId: string | null | undefined): void {
+  const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(Sheets.TB_LANCAMENTOS);
+  if (!sheet) {
+    throw new Error(`Aba "${Sheets.TB_LANCAMENTOS}" não encontrada`);
+  }
+
+  const col = TB_LANCAMENTOS_COLS.PARCEIRO_ID + 1;
+  const maxCols = sheet.getMaxColumns();
+  if (maxCols < col) {
+    sheet.insertColumnsAfter(maxCols, col - maxCols);
+  }
+  const header = sheet.getRange(1, col);
+  if (!String(header.getValue() || '').trim()) {
+    header.setValue('Parceiro');
+  }
+  sheet.getRange(rowIndex, col).setValue(parceiroId || '');
+}
+
 // ============================================================================
 // CRUD OPERATIONS
 // ============================================================================
@@ -152,6 +190,10 @@ export function createEntry(entry: Omit<LedgerEntry, 'id'>): LedgerEntry {
   // Converte para linha e adiciona na planilha
   const row = ledgerEntryToRow(newEntry);
   appendRows(Sheets.TB_LANCAMENTOS, [row]);
+  if (newEntry.parceiroId) {
+    const rowIndex = findRowByColumnValue(Sheets.TB_LANCAMENTOS, TB_LANCAMENTOS_COLS.ID, newEntry.id);
+    if (rowIndex) writeParceiroId(rowIndex, newEntry.parceiroId);
+  }
 
   return newEntry;
 }
@@ -199,6 +241,9 @@ export function updateEntry(id: string, updates: Partial<LedgerEntry>): void {
   // Atualiza
   const row = ledgerEntryToRow(updated);
   updateRow(Sheets.TB_LANCAMENTOS, rowIndex, row);
+  if ('parceiroId' in updates) {
+    writeParceiroId(rowIndex, updates.parceiroId);
+  }
 }
 
 /**
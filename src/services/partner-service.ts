@@ -0,0 +1,439 @@
+/**
+ * partner-service.ts
+ *
+ * Cadastro de parceiros (fornecedores e clientes) na aba REF_PARCEIROS.
+ *
+ * Responsabilidades:
+ * - Criar/atualizar parceiros (CPF/CNPJ, razão social, nome fantasia, padrões
+ *   contábeis, prazo de pagamento e dados bancários/PIX)
+ * - Vincular ou criar automaticamente os parceiros citados pelas importações
+ *   (FC, SIEG, PIX do Itaú, contas pagas, NF-e XML)
+ * - Sugerir conta contábil, centro de custo e vencimento a partir do parceiro
+ * - Consolidar gasto por fornecedor e recebíveis por cliente
+ *
+ * IMPORTANTE:
+ * - Documento só é gravado com dígitos verificadores válidos e é único no cadastro
+ * - Sem documento, o vínculo é feito pelo nome normalizado (razão social ou fantasia)
+ * - Funções de gravação chamadas pelas importações devem rodar com o lock já obtido
+ */
+
+import { getSheetValues, appendRows, updateRow, createSheetIfNotExists } from '../shared/sheets-client';
+import { SHEET_REF_PARCEIROS, REF_PARCEIROS_COLS } from '../config/sheet-mapping';
+import { Money, Partner, PartnerType } from '../shared/types';
+import { addDays, formatDateISO, parseDateISO } from '../shared/date-utils';
+import { roundMoney } from '../shared/money-utils';
+import { cacheRemove, CacheNamespace, CacheScope } from '../shared/cache';
+import { normalizeTaxId, taxIdKind } from '../shared/tax-id-utils';
+import { rowToPartner } from './reference-data-service';
+
+// ============================================================================
+// TIPOS
+// ============================================================================
+
+/**
+ * Parceiro citado por uma importação
+ */
+export interface PartnerCandidate {
+  documento?: string | null;
+  nome: string; // razão social ou nome como veio do arquivo
+  nomeFantasia?: string | null;
+  tipo: PartnerType;
+  origem: string; // FC, SIEG, PIX, NFE_XML, ...
+}
+
+/**
+ * Resultado do vínculo de uma lista de candidatos
+ */
+export interface PartnerLinkResult {
+  ids: Array<string | null>; // mesmo índice dos candidatos (null = sem vínculo)
+  criados: number;
+  atualizados: number;
+}
+
+/**
+ * Padrões sugeridos para um novo lançamento do parceiro
+ */
+export interface PartnerDefaults {
+  contaContabil: string | null;
+  centroCusto: string | null;
+  dataVencimento: string | null; // yyyy-MM-dd (emissão + prazo)
+}
+
+/**
+ * Lançamento resumido para o consolidado por parceiro
+ */
+export interface PartnerLedgerItem {
+  parceiroId: string;
+  valor: Money;
+  aberto: boolean;
+  vencido: boolean;
+}
+
+/**
+ * Linha do consolidado por parceiro
+ */
+export interface PartnerSummaryLine {
+  parceiroId: string;
+  nome: string;
+  documento: string;
+  quantidade: number;
+  total: Money;
+  pago: Money; // pago (fornecedor) ou recebido (cliente)
+  aberto: Money;
+  vencido: Money;
+}
+
+export const PARTNER_HEADERS = [
+  'ID', 'Tipo', 'CPF/CNPJ', 'Razão Social', 'Nome Fantasia', 'Conta Contábil', 'Centro Custo',
+  'Prazo Pagamento (dias)', 'Banco', 'Agência', 'Conta', 'Chave PIX', 'Ativo', 'Origem', 'Criado Em',
+];
+
+const ID_PREFIX = 'PAR-';
+const LOCK_TIMEOUT_MS = 5000;
+
+// ============================================================================
+// LEITURA / CHAVES
+// ============================================================================
+
+/**
+ * Nome para comparação: sem acentos, pontuação e sufixos societários
+ */
+export function partnerNameKey(value: any): string {
+  return String(value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .replace(/\b(LTDA|EIRELI|EPP|ME|MEI|S A|SA|CIA)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Lê a aba sem cache (IDs e unicidade precisam do estado atual)
+ */
+function loadPartnerRows(): Array<{ partner: Partner; sheetRow: number; criadoEm: string }> {
+  createSheetIfNotExists(SHEET_REF_PARCEIROS, PARTNER_HEADERS);
+  const result: Array<{ partner: Partner; sheetRow: number; criadoEm: string }> = [];
+  getSheetValues(SHEET_REF_PARCEIROS, { skipHeader: true }).forEach((row, idx) => {
+    const partner = row ? rowToPartner(row) : null;
+    if (partner) {
+      result.push({ partner, sheetRow: idx + 2, criadoEm: String(row[REF_PARCEIROS_COLS.CRIADO_EM] || '') });
+    }
+  });
+  return result;
+}
+
+function nextPartnerId(partners: Partner[]): string {
+  let max = 0;
+  for (const p of partners) {
+    const match = /^PAR-(\d+)$/.exec(p.id);
+    if (match) max = Math.max(max, Number(match[1]));
+  }
+  return `${ID_PREFIX}${String(max + 1).padStart(6, '0')}`;
+}
+
+function partnerToRow(partner: Partner, criadoEm: string): any[] {
+  const C = REF_PARCEIROS_COLS;
+  const row = new Array(PARTNER_HEADERS.length).fill('');
+  row[C.ID] = partner.id;
+  row[C.TIPO] = partner.tipo;
+  row[C.DOCUMENTO] = partner.documento;
+  row[C.RAZAO_SOCIAL] = partner.razaoSocial;
+  row[C.NOME_FANTASIA] = partner.nomeFantasia;
+  row[C.CONTA_CONTABIL] = partner.contaContabil || '';
+  row[C.CENTRO_CUSTO] = partner.centroCusto || '';
+  row[C.PRAZO_PAGAMENTO] = partner.prazoPagamento ?? '';
+  row[C.BANCO] = partner.banco;
+  row[C.AGENCIA] = partner.agencia;
+  row[C.CONTA] = partner.conta;
+  row[C.CHAVE_PIX] = partner.chavePix;
+  row[C.ATIVO] = partner.ativo ? 'TRUE' : 'FALSE';
+  row[C.ORIGEM] = partner.origem;
+  row[C.CRIADO_EM] = criadoEm;
+  return row;
+}
+
+function mergeType(atual: PartnerType, novo: PartnerType): PartnerType {
+  return atual === novo ? atual : PartnerType.AMBOS;
+}
+
+export function invalidatePartnersCache(): void {
+  cacheRemove(CacheNamespace.REFERENCE, 'partners', CacheScope.SCRIPT);
+}
+
+/**
+ * Índice em memória por documento e por nome (razão social e fantasia)
+ */
+class PartnerIndex {
+  private byDoc = new Map<string, Partner>();
+  private byName = new Map<string, Partner>();
+
+  constructor(partners: Partner[]) {
+    partners.forEach((p) => this.add(p));
+  }
+
+  add(partner: Partner): void {
+    if (partner.documento) this.byDoc.set(partner.documento, partner);
+    for (const nome of [partner.razaoSocial, partner.nomeFantasia]) {
+      const key = partnerNameKey(nome);
+      if (key && !this.byName.has(key)) this.byName.set(key, partner);
+    }
+  }
+
+  find(documento: string, nome: string): Partner | null {
+    if (documento) {
+      const byDoc = this.byDoc.get(documento);
+      if (byDoc) return byDoc;
+    }
+    const byName = this.byName.get(partnerNameKey(nome));
+    // Nome só vincula quando não há conflito de documento
+    if (byName && (!documento || !byName.documento)) return byName;
+    return null;
+  }
+}
+
+// ============================================================================
+// VÍNCULO AUTOMÁTICO (IMPORTAÇÕES)
+// ============================================================================
+
+/**
+ * Vincula candidatos a parceiros existentes e, com autoCreate, cadastra os
+ * que faltam. Completa o documento de parceiros cadastrados só pelo nome e
+ * promove o tipo para AMBOS quando o parceiro aparece nos dois papéis.
+ * Deve ser chamado com lock.
+ */
+export function linkPartners(
+  candidates: PartnerCandidate[],
+  options: { autoCreate: boolean } = { autoCreate: true }
+): PartnerLinkResult {
+  const result: PartnerLinkResult = { ids: [], criados: 0, atualizados: 0 };
+  if (!candidates.length) return result;
+
+  const loaded = loadPartnerRows();
+  const loadedById = new Map(loaded.map((item) => [item.partner.id, item]));
+  const partners = loaded.map((item) => item.partner);
+  const index = new PartnerIndex(partners);
+  const changed = new Map<string, Partner>();
+  const created: Partner[] = [];
+  const criadoEm = new Date().toISOString();
+
+  for (const candidate of candidates) {
+    const digits = normalizeTaxId(candidate.documento);
+    const documento = taxIdKind(digits) ? digits : '';
+    const nome = String(candidate.nome || '').replace(/\s+/g, ' ').trim();
+    if (!documento && !partnerNameKey(nome)) {
+      result.ids.push(null);
+      continue;
+    }
+
+    const existing = index.find(documento, nome);
+    if (existing) {
+      const tipo = mergeType(existing.tipo, candidate.tipo);
+      const completaDocumento = documento && !existing.documento;
+      if (tipo !== existing.tipo || completaDocumento) {
+        existing.tipo = tipo;
+        if (completaDocumento) existing.documento = documento;
+        index.add(existing);
+        if (loadedById.has(existing.id)) changed.set(existing.id, existing);
+      }
+      result.ids.push(existing.id);
+      continue;
+    }
+
+    if (!options.autoCreate) {
+      result.ids.push(null);
+      continue;
+    }
+
+    const partner: Partner = {
+      id: nextPartnerId(partners),
+      tipo: candidate.tipo,
+      documento,
+      razaoSocial: nome,
+      nomeFantasia: String(candidate.nomeFantasia || '').trim(),
+      contaContabil: null,
+      centroCusto: null,
+      prazoPagamento: null,
+      banco: '',
+      agencia: '',
+      conta: '',
+      chavePix: '',
+      ativo: true,
+      origem: candidate.origem,
+    };
+    partners.push(partner);
+    created.push(partner);
+    index.add(partner);
+    result.ids.push(partner.id);
+  }
+
+  changed.forEach((partner) => {
+    const item = loadedById.get(partner.id)!;
+    updateRow(SHEET_REF_PARCEIROS, item.sheetRow, partnerToRow(partner, item.criadoEm));
+  });
+  if (created.length) {
+    appendRows(SHEET_REF_PARCEIROS, created.map((p) => partnerToRow(p, criadoEm)));
+  }
+
+  result.criados = created.length;
+  result.atualizados = changed.size;
+  if (result.criados || result.atualizados) invalidatePartnersCache();
+  return result;
+}
+
+/**
+ * Atalho para um único candidato (null = sem documento/nome ou sem vínculo)
+ */
+export function linkPartner(candidate: PartnerCandidate, autoCreate: boolean = true): string | null {
+  return linkPartners([candidate], { autoCreate }).ids[0];
+}
+
+// ============================================================================
+// CADASTRO MANUAL
+// ============================================================================
+
+/**
+ * Converte dados recebidos do front (strings) em parceiro
+ *
+ * @throws Error se o documento for inválido ou faltar a razão social
+ */
+export function parsePartnerInput(input: any): Partner {
+  const razaoSocial = String(input?.razaoSocial || '').replace(/\s+/g, ' ').trim();
+  if (!razaoSocial) {
+    throw new Error('Razão social é obrigatória');
+  }
+
+  const digits = normalizeTaxId(input?.documento);
+  if (digits && !taxIdKind(digits)) {
+    throw new Error(`CPF/CNPJ inválido: ${input.documento}`);
+  }
+
+  const tipo = Object.values(PartnerType).includes(input?.tipo) ? input.tipo : PartnerType.FORNECEDOR;
+  const prazo = parseInt(String(input?.prazoPagamento ?? ''), 10);
+
+  return {
+    id: String(input?.id || '').trim(),
+    tipo,
+    documento: digits,
+    razaoSocial,
+    nomeFantasia: String(input?.nomeFantasia || '').trim(),
+    contaContabil: String(input?.contaContabil || '').trim() || null,
+    centroCusto: String(input?.centroCusto || '').trim() || null,
+    prazoPagamento: Number.isFinite(prazo) && prazo >= 0 ? prazo : null,
+    banco: String(input?.banco || '').trim(),
+    agencia: String(input?.agencia || '').trim(),
+    conta: String(input?.conta || '').trim(),
+    chavePix: String(input?.chavePix || '').trim(),
+    ativo: input?.ativo !== false && String(input?.ativo).toUpperCase() !== 'FALSE',
+    origem: String(input?.origem || '').trim() || 'MANUAL',
+  };
+}
+
+/**
+ * Cria ou atualiza um parceiro
+ *
+ * @throws Error se o documento já pertencer a outro parceiro ou o ID não existir
+ */
+export function savePartner(partner: Partner): { partner: Partner; criado: boolean } {
+  const lock = LockService.getDocumentLock();
+  lock.waitLock(LOCK_TIMEOUT_MS);
+  try {
+    const loaded = loadPartnerRows();
+
+    if (partner.documento) {
+      const duplicate = loaded.find(
+        (item) => item.partner.documento === partner.documento && item.partner.id !== partner.id
+      );
+      if (duplicate) {
+        throw new Error(`CPF/CNPJ já cadastrado no parceiro ${duplicate.partner.id} (${duplicate.partner.razaoSocial})`);
+      }
+    }
+
+    let result: { partner: Partner; criado: boolean };
+    if (!partner.id) {
+      const created = { ...partner, id: nextPartnerId(loaded.map((item) => item.partner)) };
+      appendRows(SHEET_REF_PARCEIROS, [partnerToRow(created, new Date().toISOString())]);
+      result = { partner: created, criado: true };
+    } else {
+      const existing = loaded.find((item) => item.partner.id === partner.id);
+      if (!existing) {
+        throw new Error(`Parceiro não encontrado: ${partner.id}`);
+      }
+      const updated = { ...partner, origem: existing.partner.origem || partner.origem };
+      updateRow(SHEET_REF_PARCEIROS, existing.sheetRow, partnerToRow(updated, existing.criadoEm));
+      result = { partner: updated, criado: false };
+    }
+
+    invalidatePartnersCache();
+    return result;
+  } finally {
+    try {
+      lock.releaseLock();
+    } catch (_) {}
+  }
+}
+
+// ============================================================================
+// PADRÕES PARA LANÇAMENTOS
+// ============================================================================
+
+/**
+ * Conta contábil, centro de custo e vencimento (emissão + prazo) sugeridos
+ */
+export function partnerDefaults(partner: Partner | null, dataEmissao?: string | null): PartnerDefaults {
+  if (!partner) return { contaContabil: null, centroCusto: null, dataVencimento: null };
+
+  const emissao = dataEmissao ? parseDateISO(String(dataEmissao).slice(0, 10)) : null;
+  const dataVencimento =
+    emissao && partner.prazoPagamento !== null ? formatDateISO(addDays(emissao, partner.prazoPagamento)) : null;
+
+  return {
+    contaContabil: partner.contaContabil,
+    centroCusto: partner.centroCusto,
+    dataVencimento,
+  };
+}
+
+// ============================================================================
+// CONSOLIDADO POR PARCEIRO
+// ============================================================================
+
+/**
+ * Gasto por fornecedor ou recebíveis por cliente (maior total primeiro)
+ */
+export function buildPartnerSummary(items: PartnerLedgerItem[], partners: Partner[]): PartnerSummaryLine[] {
+  const byId = new Map(partners.map((p) => [p.id, p]));
+  const lines = new Map<string, PartnerSummaryLine>();
+
+  for (const item of items) {
+    if (!item.parceiroId) continue;
+    let line = lines.get(item.parceiroId);
+    if (!line) {
+      const partner = byId.get(item.parceiroId);
+      line = {
+        parceiroId: item.parceiroId,
+        nome: partner ? partner.nomeFantasia || partner.razaoSocial : item.parceiroId,
+        documento: partner?.documento || '',
+        quantidade: 0,
+        total: 0,
+        pago: 0,
+        aberto: 0,
+        vencido: 0,
+      };
+      lines.set(item.parceiroId, line);
+    }
+
+    const valor = Math.abs(Number(item.valor) || 0);
+    line.quantidade++;
+    line.total = roundMoney(line.total + valor);
+    if (item.aberto) {
+      line.aberto = roundMoney(line.aberto + valor);
+      if (item.vencido) line.vencido = roundMoney(line.vencido + valor);
+    } else {
+      line.pago = roundMoney(line.pago + valor);
+    }
+  }
+
+  return Array.from(lines.values()).sort((a, b) => b.total - a.total);
+}
@@ -0,0 +1,620 @@
+/**
+ * reconciliation-rules-service.ts
+ *
+ * Regras de conciliação: classificação automática de extratos recorrentes
+ * (tarifas bancárias, IOF, taxas PIX, depósitos de adquirente...).
+ *
+ * Responsabilidades:
+ * - CRUD das regras na aba CFG_REGRAS_CONCILIACAO
+ * - Avaliar as regras por prioridade sobre os extratos pendentes
+ * - Pré-visualizar (dry-run) o que cada regra faria, sem gravar nada
+ * - Criar o lançamento correspondente já conciliado e contar os acertos da regra
+ * - Sugerir uma regra a partir de uma conciliação manual ("aprender")
+ *
+ * IMPORTANTE:
+ * - A primeira regra ativa (menor prioridade) que casar com o extrato vence
+ * - O lançamento criado já nasce PAGA/RECEBIDA, com pagamento na data do extrato
+ * - Extratos já conciliados ou vinculados a um lançamento nunca são tocados
+ */
+
+import { getSheetValues, appendRows, updateRow, createSheetIfNotExists } from '../shared/sheets-client';
+import {
+  SHEET_CFG_REGRAS_CONCILIACAO,
+  SHEET_TB_EXTRATOS,
+  SHEET_TB_LANCAMENTOS,
+  CFG_REGRAS_CONCILIACAO_COLS,
+  TB_EXTRATOS_COLS,
+  TB_LANCAMENTOS_COLS,
+} from '../config/sheet-mapping';
+import { Money, ReconciliationRule, RuleDirection, RuleOperator } from '../shared/types';
+import { formatDateISO, getToday, parseDate, parseDateISO } from '../shared/date-utils';
+import { roundMoney } from '../shared/money-utils';
+import { cacheRemoveNamespace, CacheNamespace, CacheScope } from '../shared/cache';
+import {
+  ValidationResult,
+  combineValidations,
+  validateRequired,
+  validateEnum,
+  validationError,
+  validationSuccess,
+} from '../shared/validation';
+
+// ============================================================================
+// TIPOS
+// ============================================================================
+
+/**
+ * Resultado (previsto ou aplicado) de uma regra sobre um extrato
+ */
+export interface RuleHit {
+  extratoId: string;
+  data: string; // yyyy-MM-dd
+  historico: string;
+  valor: Money; // com sinal, como no extrato
+  banco: string;
+  regraId: string;
+  regraNome: string;
+  lancamento: {
+    id: string | null; // null no dry-run
+    tipo: string;
+    contaContabil: string;
+    filial: string;
+    centroCusto: string | null;
+    descricao: string;
+    valor: Money;
+  };
+}
+
+/**
+ * Resultado da aplicação das regras
+ */
+export interface RuleApplicationResult {
+  avaliados: number; // extratos pendentes verificados
+  conciliados: number;
+  hits: RuleHit[];
+}
+
+interface PendingStatement {
+  id: string;
+  sheetRow: number;
+  data: Date | null;
+  historico: string;
+  valor: Money;
+  banco: string;
+}
+
+const HEADERS = [
+  'ID', 'Nome', 'Prioridade', 'Operador', 'Padrão', 'Sentido', 'Valor Mín', 'Valor Máx',
+  'Banco', 'Tipo Lançamento', 'Conta Contábil', 'Filial', 'Centro Custo', 'Descrição',
+  'Origem', 'Ativo', 'Acertos', 'Último Acerto', 'Atualizado Em',
+];
+
+export const ORIGEM_REGRA = 'REGRA_CONCILIACAO';
+const DEFAULT_PRIORIDADE = 100;
+const LOCK_TIMEOUT_MS = 10000;
+
+// ============================================================================
+// CONVERSÃO ENTRE SHEET E OBJETO
+// ============================================================================
+
+function toDate(value: any): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : new Date(value.getFullYear(), value.getMonth(), value.getDate());
+  }
+  const str = String(value || '').trim();
+  if (!str) return null;
+  return /^\d{4}-\d{2}-\d{2}/.test(str) ? parseDateISO(str.slice(0, 10)) : parseDate(str);
+}
+
+function toNumberOrNull(value: any): number | null {
+  if (value === '' || value === null || value === undefined) return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+function toBoolean(value: any): boolean {
+  if (value === true || value === false) return value;
+  return !['FALSE', 'NAO', 'NÃO', '0'].includes(String(value || '').trim().toUpperCase());
+}
+
+function rowToRule(row: any[]): ReconciliationRule {
+  const C = CFG_REGRAS_CONCILIACAO_COLS;
+  return {
+    id: String(row[C.ID] || '').trim(),
+    nome: String(row[C.NOME] || ''),
+    prioridade: toNumberOrNull(row[C.PRIORIDADE]) ?? DEFAULT_PRIORIDADE,
+    operador: (String(row[C.OPERADOR] || '').toUpperCase() || RuleOperator.CONTEM) as RuleOperator,
+    padrao: String(row[C.PADRAO] || ''),
+    sentido: (String(row[C.SENTIDO] || '').toUpperCase() || RuleDirection.AMBOS) as RuleDirection,
+    valorMin: toNumberOrNull(row[C.VALOR_MIN]),
+    valorMax: toNumberOrNull(row[C.VALOR_MAX]),
+    banco: String(row[C.BANCO] || '').trim() || null,
+    tipoLancamento: String(row[C.TIPO_LANCAMENTO] || '').toUpperCase(),
+    contaContabil: String(row[C.CONTA_CONTABIL] || '').trim(),
+    filial: String(row[C.FILIAL] || '').trim(),
+    centroCusto: String(row[C.CENTRO_CUSTO] || '').trim() || null,
+    descricao: String(row[C.DESCRICAO] || '').trim() || null,
+    origem: String(row[C.ORIGEM] || '').toUpperCase() === 'APRENDIDA' ? 'APRENDIDA' : 'MANUAL',
+    ativo: toBoolean(row[C.ATIVO]),
+    acertos: Number(row[C.ACERTOS]) || 0,
+    ultimoAcerto: toDate(row[C.ULTIMO_ACERTO]),
+  };
+}
+
+function ruleToRow(rule: ReconciliationRule): any[] {
+  const C = CFG_REGRAS_CONCILIACAO_COLS;
+  const row = new Array(HEADERS.length).fill('');
+
+  row[C.ID] = rule.id;
+  row[C.NOME] = rule.nome;
+  row[C.PRIORIDADE] = rule.prioridade;
+  row[C.OPERADOR] = rule.operador;
+  row[C.PADRAO] = rule.padrao;
+  row[C.SENTIDO] = rule.sentido;
+  row[C.VALOR_MIN] = rule.valorMin ?? '';
+  row[C.VALOR_MAX] = rule.valorMax ?? '';
+  row[C.BANCO] = rule.banco || '';
+  row[C.TIPO_LANCAMENTO] = rule.tipoLancamento;
+  row[C.CONTA_CONTABIL] = rule.contaContabil;
+  row[C.FILIAL] = rule.filial;
+  row[C.CENTRO_CUSTO] = rule.centroCusto || '';
+  row[C.DESCRICAO] = rule.descricao || '';
+  row[C.ORIGEM] = rule.origem;
+  row[C.ATIVO] = rule.ativo ? 'TRUE' : 'FALSE';
+  row[C.ACERTOS] = rule.acertos || 0;
+  row[C.ULTIMO_ACERTO] = formatDateISO(rule.ultimoAcerto);
+  row[C.ATUALIZADO_EM] = new Date().toISOString();
+
+  return row;
+}
+
+/**
+ * Gera ID de regra (formato: RC-000001)
+ */
+function generateRuleId(): string {
+  const random = Math.floor(Math.random() * 999999)
+    .toString()
+    .padStart(6, '0');
+  return `RC-${random}`;
+}
+
+/**
+ * Gera ID do lançamento criado por regra (formato: LR2025-000001)
+ */
+function generateEntryId(existing: Set<string>): string {
+  const year = new Date().getFullYear();
+  let id = '';
+  do {
+    const random = Math.floor(Math.random() * 999999)
+      .toString()
+      .padStart(6, '0');
+    id = `LR${year}-${random}`;
+  } while (existing.has(id));
+  existing.add(id);
+  return id;
+}
+
+// ============================================================================
+// AVALIAÇÃO
+// ============================================================================
+
+function normalizeText(value: any): string {
+  return String(value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Verifica se a regra casa com o histórico/valor/banco do extrato
+ */
+export function ruleMatches(
+  rule: ReconciliationRule,
+  statement: { historico: string; valor: Money; banco?: string }
+): boolean {
+  const valor = Number(statement.valor) || 0;
+  if (!valor) return false;
+  if (rule.sentido === RuleDirection.DEBITO && valor > 0) return false;
+  if (rule.sentido === RuleDirection.CREDITO && valor < 0) return false;
+
+  const absoluto = Math.abs(valor);
+  if (rule.valorMin !== null && absoluto < rule.valorMin) return false;
+  if (rule.valorMax !== null && absoluto > rule.valorMax) return false;
+  if (rule.banco && normalizeText(rule.banco) !== normalizeText(statement.banco)) return false;
+
+  const historico = normalizeText(statement.historico);
+  const padrao = normalizeText(rule.padrao);
+  if (!padrao) return false;
+
+  switch (rule.operador) {
+    case RuleOperator.CONTEM:
+      return historico.includes(padrao);
+    case RuleOperator.COMECA_COM:
+      return historico.startsWith(padrao);
+    case RuleOperator.IGUAL:
+      return historico === padrao;
+    case RuleOperator.REGEX:
+      // Expressão regular roda sobre o histórico original (acentos e pontuação preservados)
+      try {
+        return new RegExp(rule.padrao, 'i').test(String(statement.historico || ''));
+      } catch (_) {
+        return false;
+      }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Ordena por prioridade (e, no empate, pela regra com mais acertos)
+ */
+function sortRules(rules: ReconciliationRule[]): ReconciliationRule[] {
+  return rules.slice().sort((a, b) => a.prioridade - b.prioridade || b.acertos - a.acertos);
+}
+
+function buildHit(statement: PendingStatement, rule: ReconciliationRule): RuleHit {
+  return {
+    extratoId: statement.id,
+    data: formatDateISO(statement.data),
+    historico: statement.historico,
+    valor: statement.valor,
+    banco: statement.banco,
+    regraId: rule.id,
+    regraNome: rule.nome,
+    lancamento: {
+      id: null,
+      tipo: rule.tipoLancamento,
+      contaContabil: rule.contaContabil,
+      filial: rule.filial,
+      centroCusto: rule.centroCusto,
+      descricao: rule.descricao || statement.historico,
+      valor: roundMoney(Math.abs(statement.valor)),
+    },
+  };
+}
+
+/**
+ * Avalia as regras sobre os extratos pendentes (sem gravar)
+ */
+function evaluate(statements: PendingStatement[], rules: ReconciliationRule[]): RuleHit[] {
+  const ordered = sortRules(rules);
+  const hits: RuleHit[] = [];
+  for (const statement of statements) {
+    const rule = ordered.find((r) => ruleMatches(r, statement));
+    if (rule) hits.push(buildHit(statement, rule));
+  }
+  return hits;
+}
+
+// ============================================================================
+// PERSISTÊNCIA
+// ============================================================================
+
+function loadRules(): Array<{ rule: ReconciliationRule; sheetRow: number }> {
+  createSheetIfNotExists(SHEET_CFG_REGRAS_CONCILIACAO, HEADERS);
+  const result: Array<{ rule: ReconciliationRule; sheetRow: number }> = [];
+  getSheetValues(SHEET_CFG_REGRAS_CONCILIACAO, { skipHeader: true }).forEach((row, idx) => {
+    if (!String(row[CFG_REGRAS_CONCILIACAO_COLS.ID] || '').trim()) return;
+    result.push({ rule: rowToRule(row), sheetRow: idx + 2 });
+  });
+  return result;
+}
+
+function loadPendingStatements(): PendingStatement[] {
+  const C = TB_EXTRATOS_COLS;
+  const result: PendingStatement[] = [];
+
+  getSheetValues(SHEET_TB_EXTRATOS, { skipHeader: true }).forEach((row, idx) => {
+    const id = String(row[C.ID] || '').trim();
+    if (!id) return;
+    if (String(row[C.STATUS_CONCILIACAO] || 'PENDENTE').toUpperCase() !== 'PENDENTE') return;
+    if (String(row[C.ID_LANCAMENTO] || '').trim()) return;
+
+    result.push({
+      id,
+      sheetRow: idx + 2,
+      data: toDate(row[C.DATA]),
+      historico: String(row[C.DESCRICAO] || ''),
+      valor: parseFloat(row[C.VALOR]) || 0,
+      banco: String(row[C.BANCO] || ''),
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Linha de TB_LANCAMENTOS (já paga e conciliada) para um acerto de regra
+ */
+function hitToLancamentoRow(hit: RuleHit): any[] {
+  const C = TB_LANCAMENTOS_COLS;
+  const row = new Array(21).fill('');
+
+  row[C.ID] = hit.lancamento.id;
+  row[C.DATA_COMPETENCIA] = hit.data;
+  row[C.DATA_VENCIMENTO] = hit.data;
+  row[C.DATA_PAGAMENTO] = hit.data;
+  row[C.TIPO] = hit.lancamento.tipo;
+  row[C.FILIAL] = hit.lancamento.filial;
+  row[C.CENTRO_CUSTO] = hit.lancamento.centroCusto || '';
+  row[C.CONTA_CONTABIL] = hit.lancamento.contaContabil;
+  row[C.DESCRICAO] = hit.lancamento.descricao;
+  row[C.VALOR_BRUTO] = hit.lancamento.valor;
+  row[C.DESCONTO] = 0;
+  row[C.JUROS] = 0;
+  row[C.MULTA] = 0;
+  row[C.VALOR_LIQUIDO] = hit.lancamento.valor;
+  row[C.STATUS] = hit.lancamento.tipo === 'RECEITA' ? 'RECEBIDA' : 'PAGA';
+  row[C.ID_EXTRATO_BANCO] = hit.extratoId;
+  row[C.ORIGEM] = ORIGEM_REGRA;
+  row[C.OBSERVACOES] = `Regra ${hit.regraId} | ${hit.regraNome}`;
+
+  return row;
+}
+
+function loadLancamentoIds(): Set<string> {
+  const ids = new Set<string>();
+  for (const row of getSheetValues(SHEET_TB_LANCAMENTOS, { skipHeader: true })) {
+    const id = String(row[TB_LANCAMENTOS_COLS.ID] || '').trim();
+    if (id) ids.add(id);
+  }
+  return ids;
+}
+
+function invalidateCaches(): void {
+  cacheRemoveNamespace(CacheNamespace.LANCAMENTOS, CacheScope.SCRIPT);
+  cacheRemoveNamespace(CacheNamespace.EXTRATOS, CacheScope.SCRIPT);
+  cacheRemoveNamespace(CacheNamespace.CONCILIACAO, CacheScope.SCRIPT);
+  cacheRemoveNamespace(CacheNamespace.DRE, CacheScope.SCRIPT);
+  cacheRemoveNamespace(CacheNamespace.DFC, CacheScope.SCRIPT);
+  cacheRemoveNamespace(CacheNamespace.KPI, CacheScope.SCRIPT);
+  cacheRemoveNamespace(CacheNamespace.DASHBOARD, CacheScope.SCRIPT);
+}
+
+function withLock<T>(fn: () => T): T {
+  const lock = LockService.getDocumentLock();
+  lock.waitLock(LOCK_TIMEOUT_MS);
+  try {
+    return fn();
+  } finally {
+    try {
+      lock.releaseLock();
+    } catch (_) {}
+  }
+}
+
+// ============================================================================
+// VALIDAÇÃO
+// ============================================================================
+
+/**
+ * Valida regra de conciliação
+ */
+export function validateReconciliationRule(rule: ReconciliationRule): ValidationResult {
+  const errors: string[] = [];
+
+  if (rule.operador === RuleOperator.REGEX && rule.padrao) {
+    try {
+      new RegExp(rule.padrao, 'i');
+    } catch (_) {
+      errors.push('Padrão não é uma expressão regular válida');
+    }
+  }
+  if (rule.valorMin !== null && rule.valorMin < 0) {
+    errors.push('Valor mínimo não pode ser negativo');
+  }
+  if (rule.valorMin !== null && rule.valorMax !== null && rule.valorMax < rule.valorMin) {
+    errors.push('Valor máximo não pode ser menor que o mínimo');
+  }
+  if (!Number.isFinite(rule.prioridade)) {
+    errors.push('Prioridade deve ser numérica');
+  }
+  if (rule.sentido === RuleDirection.DEBITO && rule.tipoLancamento === 'RECEITA') {
+    errors.push('Regra de débito não pode gerar lançamento de receita');
+  }
+  if (rule.sentido === RuleDirection.CREDITO && rule.tipoLancamento === 'DESPESA') {
+    errors.push('Regra de crédito não pode gerar lançamento de despesa');
+  }
+
+  return combineValidations(
+    validateRequired(rule.nome, 'Nome'),
+    validateRequired(rule.padrao, 'Padrão'),
+    validateEnum(rule.operador, Object.values(RuleOperator), 'Operador'),
+    validateEnum(rule.sentido, Object.values(RuleDirection), 'Sentido'),
+    validateEnum(rule.tipoLancamento, ['RECEITA', 'DESPESA'], 'Tipo lançamento'),
+    validateRequired(rule.contaContabil, 'Conta contábil'),
+    validateRequired(rule.filial, 'Filial'),
+    errors.length ? validationError(errors) : validationSuccess()
+  );
+}
+
+// ============================================================================
+// API PÚBLICA
+// ============================================================================
+
+/**
+ * Lista as regras cadastradas, na ordem de avaliação
+ */
+export function listReconciliationRules(): ReconciliationRule[] {
+  return sortRules(loadRules().map((item) => item.rule));
+}
+
+/**
+ * Converte dados recebidos do front (strings) em regra
+ */
+export function parseReconciliationRuleInput(input: any): ReconciliationRule {
+  const C = CFG_REGRAS_CONCILIACAO_COLS;
+  const row = new Array(HEADERS.length).fill('');
+  row[C.ID] = input?.id || '';
+  row[C.NOME] = input?.nome || '';
+  row[C.PRIORIDADE] = input?.prioridade ?? '';
+  row[C.OPERADOR] = input?.operador || '';
+  row[C.PADRAO] = input?.padrao || '';
+  row[C.SENTIDO] = input?.sentido || '';
+  row[C.VALOR_MIN] = input?.valorMin ?? '';
+  row[C.VALOR_MAX] = input?.valorMax ?? '';
+  row[C.BANCO] = input?.banco || '';
+  row[C.TIPO_LANCAMENTO] = input?.tipoLancamento || '';
+  row[C.CONTA_CONTABIL] = input?.contaContabil || '';
+  row[C.FILIAL] = input?.filial || '';
+  row[C.CENTRO_CUSTO] = input?.centroCusto || '';
+  row[C.DESCRICAO] = input?.descricao || '';
+  row[C.ORIGEM] = input?.origem || '';
+  row[C.ATIVO] = input?.ativo ?? true;
+
+  return rowToRule(row);
+}
+
+/**
+ * Cria ou atualiza uma regra (contadores de acerto são preservados)
+ *
+ * @throws Error se a regra for inválida ou o ID não existir
+ */
+export function saveReconciliationRule(rule: ReconciliationRule): { rule: ReconciliationRule; criada: boolean } {
+  const validation = validateReconciliationRule(rule);
+  if (!validation.valid) {
+    throw new Error(validation.errors.join('; '));
+  }
+
+  return withLock(() => {
+    const rules = loadRules();
+
+    if (!rule.id) {
+      const created = { ...rule, id: generateRuleId(), acertos: 0, ultimoAcerto: null };
+      appendRows(SHEET_CFG_REGRAS_CONCILIACAO, [ruleToRow(created)]);
+      return { rule: created, criada: true };
+    }
+
+    const existing = rules.find((item) => item.rule.id === rule.id);
+    if (!existing) {
+      throw new Error(`Regra de conciliação não encontrada: ${rule.id}`);
+    }
+
+    const updated: ReconciliationRule = {
+      ...rule,
+      acertos: existing.rule.acertos,
+      ultimoAcerto: existing.rule.ultimoAcerto,
+    };
+    updateRow(SHEET_CFG_REGRAS_CONCILIACAO, existing.sheetRow, ruleToRow(updated));
+    return { rule: updated, criada: false };
+  });
+}
+
+/**
+ * Dry-run: o que as regras fariam com os extratos pendentes, sem gravar nada
+ *
+ * @param rule - Regra avulsa (ex.: ainda não salva); sem ela avalia todas as regras ativas
+ */
+export function previewReconciliationRules(rule?: ReconciliationRule): RuleApplicationResult {
+  const statements = loadPendingStatements();
+  const rules = rule ? [rule] : loadRules().map((item) => item.rule).filter((r) => r.ativo);
+  const hits = evaluate(statements, rules);
+  return { avaliados: statements.length, conciliados: hits.length, hits };
+}
+
+/**
+ * Aplica as regras ativas: cria o lançamento de cada extrato que casar,
+ * concilia os dois lados e atualiza os acertos das regras.
+ * Chamado por conciliarAutomatico e autoReconcile.
+ */
+export function applyReconciliationRules(today: Date = getToday()): RuleApplicationResult {
+  return withLock(() => {
+    const rules = loadRules();
+    const active = rules.map((item) => item.rule).filter((r) => r.ativo);
+    const statements = loadPendingStatements();
+    if (!active.length || !statements.length) {
+      return { avaliados: statements.length, conciliados: 0, hits: [] };
+    }
+
+    const hits = evaluate(statements, active);
+    if (!hits.length) {
+      return { avaliados: statements.length, conciliados: 0, hits };
+    }
+
+    const existingIds = loadLancamentoIds();
+    for (const hit of hits) {
+      hit.lancamento.id = generateEntryId(existingIds);
+    }
+    appendRows(SHEET_TB_LANCAMENTOS, hits.map(hitToLancamentoRow));
+
+    // Marca os extratos como conciliados
+    const sheetExtratos = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(SHEET_TB_EXTRATOS);
+    if (!sheetExtratos) throw new Error(`Aba "${SHEET_TB_EXTRATOS}" não encontrada`);
+    const rowById = new Map(statements.map((st) => [st.id, st.sheetRow]));
+    for (const hit of hits) {
+      const sheetRow = rowById.get(hit.extratoId)!;
+      sheetExtratos
+        .getRange(sheetRow, TB_EXTRATOS_COLS.STATUS_CONCILIACAO + 1, 1, 2)
+        .setValues([['CONCILIADO', hit.lancamento.id]]);
+    }
+
+    // Contadores de acerto
+    const sheetRegras = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(SHEET_CFG_REGRAS_CONCILIACAO);
+    if (sheetRegras) {
+      const counts = new Map<string, number>();
+      hits.forEach((hit) => counts.set(hit.regraId, (counts.get(hit.regraId) || 0) + 1));
+      for (const { rule, sheetRow } of rules) {
+        const count = counts.get(rule.id);
+        if (!count) continue;
+        sheetRegras
+          .getRange(sheetRow, CFG_REGRAS_CONCILIACAO_COLS.ACERTOS + 1, 1, 2)
+          .setValues([[rule.acertos + count, formatDateISO(today)]]);
+      }
+    }
+
+    invalidateCaches();
+    return { avaliados: statements.length, conciliados: hits.length, hits };
+  });
+}
+
+/**
+ * Rascunho de regra a partir de uma conciliação manual (extrato + lançamento).
+ * Não grava: o usuário revisa, testa no dry-run e salva.
+ *
+ * @throws Error se o extrato ou o lançamento não existir
+ */
+export function suggestRuleFromReconciliation(extratoId: string, lancamentoId: string): ReconciliationRule {
+  const E = TB_EXTRATOS_COLS;
+  const L = TB_LANCAMENTOS_COLS;
+
+  const extrato = getSheetValues(SHEET_TB_EXTRATOS, { skipHeader: true }).find(
+    (row) => String(row[E.ID] || '').trim() === extratoId
+  );
+  if (!extrato) throw new Error(`Extrato ${extratoId} não encontrado`);
+
+  const lancamento = getSheetValues(SHEET_TB_LANCAMENTOS, { skipHeader: true }).find(
+    (row) => String(row[L.ID] || '').trim() === lancamentoId
+  );
+  if (!lancamento) throw new Error(`Lançamento ${lancamentoId} não encontrado`);
+
+  // Padrão: início do histórico sem números (datas, documentos, autenticações)
+  const palavras = normalizeText(extrato[E.DESCRICAO])
+    .replace(/[^A-Z0-9 ]+/g, ' ')
+    .split(' ')
+    .filter((t) => t && !/\d/.test(t));
+  const padrao = palavras.slice(0, 3).join(' ');
+  const valor = parseFloat(extrato[E.VALOR]) || 0;
+
+  return {
+    id: '',
+    nome: padrao ? `Aprendida: ${padrao}` : '',
+    prioridade: DEFAULT_PRIORIDADE,
+    operador: RuleOperator.CONTEM,
+    padrao,
+    sentido: valor < 0 ? RuleDirection.DEBITO : RuleDirection.CREDITO,
+    valorMin: null,
+    valorMax: null,
+    banco: String(extrato[E.BANCO] || '').trim() || null,
+    tipoLancamento: String(lancamento[L.TIPO] || '').toUpperCase(),
+    contaContabil: String(lancamento[L.CONTA_CONTABIL] || '').trim(),
+    filial: String(lancamento[L.FILIAL] || '').trim(),
+    centroCusto: String(lancamento[L.CENTRO_CUSTO] || '').trim() || null,
+    descricao: null,
+    origem: 'APRENDIDA',
+    ativo: true,
+    acertos: 0,
+    ultimoAcerto: null,
+  };
+}
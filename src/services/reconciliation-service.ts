@@ -5,23 +5,38 @@
  *
  * Responsabilidades:
  * - Importar extratos bancários
- * - Conciliar automaticamente lançamentos com extratos
- * - Sugerir matches baseado em valor e data
- * - Permitir conciliação manual
+ * - Conciliar automaticamente lançamentos com extratos (regras + pares 1:1)
+ * - Sugerir matches (valor, data, CNPJ/CPF, contraparte PIX, documento, descrição;
+ *   combinações N:1 e 1:N)
+ * - Permitir conciliação manual, inclusive parcial (residual em aberto ou ajuste
+ *   de juros/multa/desconto/tarifa)
  */
 
 import { getSheetValues, appendRows, updateRow } from '../shared/sheets-client';
-import { Sheets, TB_EXTRATOS_COLS, TB_LANCAMENTOS_COLS } from '../config/sheet-mapping';
-import { BankStatement, LedgerEntry, Money } from '../shared/types';
-import { moneyEquals } from '../shared/money-utils';
-import { diffDays, formatDateISO, parseDateISO } from '../shared/date-utils';
+import { Sheets, TB_EXTRATOS_COLS, TB_LANCAMENTOS_COLS, TB_IMPORT_ITAU_COLS } from '../config/sheet-mapping';
+import { AdjustmentKind, BankStatement, LedgerEntry, Money } from '../shared/types';
+import { moneyEquals, roundMoney } from '../shared/money-utils';
+import { diffDays, formatDateISO, parseDate, parseDateISO } from '../shared/date-utils';
+import { parseOfx, ofxToBankStatements } from '../shared/ofx-parser';
 import { ConfigService } from './config-service';
-import { getEntryById, updateEntry } from './ledger-service';
+import { applyReconciliationRules, ORIGEM_REGRA } from './reconciliation-rules-service';
+import { CounterpartyMatch, nameSimilarity, resolveStatementCounterparties } from './counterparty-service';
+import { formatTaxId, isValidTaxId, normalizeTaxId } from '../shared/tax-id-utils';
+import { cacheRemoveNamespace, CacheNamespace, CacheScope } from '../shared/cache';
 
 // ============================================================================
 // CONVERSÃO ENTRE SHEET E OBJETO
 // ============================================================================
 
+/**
+ * Lê saldo após movimento (coluna opcional, vazia em extratos antigos)
+ */
+function parseSaldoApos(value: any): Money | null {
+  if (value === '' || value === null || value === undefined) return null;
+  const num = parseFloat(value);
+  return isNaN(num) ? null : num;
+}
+
 /**
  * Converte linha da planilha para BankStatement
  */
@@ -33,10 +48,11 @@ function rowToBankStatement(row: any[]): BankStatement {
     historico: row[TB_EXTRATOS_COLS.DESCRICAO],
     documento: row[TB_EXTRATOS_COLS.OBSERVACOES] || null,
     valor: parseFloat(row[TB_EXTRATOS_COLS.VALOR]) || 0,
-    saldoApos: null,
+    saldoApos: parseSaldoApos(row[TB_EXTRATOS_COLS.SALDO_APOS]),
     conciliado:
       String(row[TB_EXTRATOS_COLS.STATUS_CONCILIACAO] || '').toUpperCase() === 'CONCILIADO',
     idLancamento: row[TB_EXTRATOS_COLS.ID_LANCAMENTO] || null,
+    fitId: row[TB_EXTRATOS_COLS.FITID] ? String(row[TB_EXTRATOS_COLS.FITID]) : null,
   };
 }
 
@@ -44,7 +60,7 @@ function rowToBankStatement(row: any[]): BankStatement {
  * Converte BankStatement para linha da planilha
  */
 function bankStatementToRow(statement: BankStatement): any[] {
-  const row = new Array(11).fill('');
+  const row = new Array(13).fill('');
 
   row[TB_EXTRATOS_COLS.ID] = statement.id;
   row[TB_EXTRATOS_COLS.DATA] = formatDateISO(statement.dataMovimento);
@@ -57,6 +73,8 @@ function bankStatementToRow(statement: BankStatement): any[] {
   row[TB_EXTRATOS_COLS.ID_LANCAMENTO] = statement.idLancamento || '';
   row[TB_EXTRATOS_COLS.OBSERVACOES] = statement.documento || '';
   row[TB_EXTRATOS_COLS.IMPORTADO_EM] = formatDateISO(new Date());
+  row[TB_EXTRATOS_COLS.FITID] = statement.fitId || '';
+  row[TB_EXTRATOS_COLS.SALDO_APOS] = statement.saldoApos !== null ? statement.saldoApos : '';
 
   return row;
 }
@@ -78,29 +96,136 @@ function generateBankStatementId(): string {
   return `EB${year}-${random}`;
 }
 
+/**
+ * Chave de deduplicação por FITID (conta + FITID)
+ */
+function buildFitIdKey(contaBancaria: string, fitId: string): string {
+  return `${String(contaBancaria || '').trim().toUpperCase()}|${String(fitId).trim()}`;
+}
+
+/**
+ * Chave de deduplicação para extratos sem FITID (conta + data + valor + histórico)
+ */
+function buildFallbackKey(contaBancaria: any, data: any, valor: any, historico: any): string {
+  const date = toDateValue(data);
+  return [
+    String(contaBancaria || '').trim().toUpperCase(),
+    date ? formatDateISO(date) : '',
+    roundMoney(parseFloat(valor) || 0).toFixed(2),
+    normalizeText(historico),
+  ].join('|');
+}
+
 /**
  * Importa extrato bancário de um arquivo ou array de dados
  *
+ * Extratos com FITID já existente na mesma conta são ignorados. Sem FITID, a
+ * duplicidade é verificada por data + valor + histórico na mesma conta.
+ *
  * @param statements - Array de extratos a importar
  * @returns Quantidade de extratos importados
  *
- * TODO: Implementar parsing de OFX, CSV, Excel
- * TODO: Detectar duplicatas antes de importar
+ * TODO: Implementar parsing de CSV, Excel
  */
 export function importBankStatement(statements: Omit<BankStatement, 'id'>[]): number {
-  const rows = statements.map((stmt) => {
+  return importBankStatementDetailed(statements).imported;
+}
+
+/**
+ * Importa extratos retornando também a quantidade de duplicados ignorados
+ */
+function importBankStatementDetailed(statements: Omit<BankStatement, 'id'>[]): {
+  imported: number;
+  skippedDup: number;
+} {
+  const existingFitIds = new Set<string>();
+  // Contagem por chave: movimentos idênticos legítimos no mesmo arquivo continuam
+  // entrando, apenas os que já existem na aba são descartados
+  const existingFallback = new Map<string, number>();
+  const values = getSheetValues(Sheets.TB_EXTRATOS, { skipHeader: true });
+  for (const row of values) {
+    const fitId = row[TB_EXTRATOS_COLS.FITID];
+    if (fitId) existingFitIds.add(buildFitIdKey(row[TB_EXTRATOS_COLS.CONTA], fitId));
+    const fallbackKey = buildFallbackKey(
+      row[TB_EXTRATOS_COLS.CONTA],
+      row[TB_EXTRATOS_COLS.DATA],
+      row[TB_EXTRATOS_COLS.VALOR],
+      row[TB_EXTRATOS_COLS.DESCRICAO]
+    );
+    existingFallback.set(fallbackKey, (existingFallback.get(fallbackKey) || 0) + 1);
+  }
+
+  let skippedDup = 0;
+  const rows: any[][] = [];
+
+  for (const stmt of statements) {
+    if (stmt.fitId) {
+      const key = buildFitIdKey(stmt.contaBancaria, stmt.fitId);
+      if (existingFitIds.has(key)) {
+        skippedDup++;
+        continue;
+      }
+      existingFitIds.add(key);
+    } else {
+      const key = buildFallbackKey(stmt.contaBancaria, stmt.dataMovimento, stmt.valor, stmt.historico);
+      const remaining = existingFallback.get(key) || 0;
+      if (remaining > 0) {
+        existingFallback.set(key, remaining - 1);
+        skippedDup++;
+        continue;
+      }
+    }
+
     const full: BankStatement = {
       ...stmt,
       id: generateBankStatementId(),
       conciliado: false,
       idLancamento: null,
     };
-    return bankStatementToRow(full);
-  });
+    rows.push(bankStatementToRow(full));
+  }
+
+  if (rows.length > 0) {
+    appendRows(Sheets.TB_EXTRATOS, rows);
+  }
 
-  appendRows(Sheets.TB_EXTRATOS, rows);
+  return { imported: rows.length, skippedDup };
+}
+
+/**
+ * Importa arquivo OFX (1.x SGML ou 2.x XML) para TB_EXTRATOS
+ *
+ * - Duplicatas detectadas por FITID (por conta) ou, sem FITID, por data + valor + histórico
+ * - saldoApos reconstruído a partir do LEDGERBAL
+ *
+ * @param content - Conteúdo bruto do arquivo OFX
+ * @param contaBancaria - Conta a gravar (padrão: agência/conta do arquivo). Só é
+ *   aplicada quando o arquivo traz uma única conta; com várias, cada extrato
+ *   mantém a conta informada no próprio arquivo.
+ */
+export function importOfxStatement(
+  content: string,
+  contaBancaria?: string
+): { imported: number; skippedDup: number; contas: string[] } {
+  const accounts = parseOfx(content);
+  if (accounts.length === 0) {
+    throw new Error('Nenhum extrato encontrado no arquivo OFX');
+  }
+
+  const statements: Array<Omit<BankStatement, 'id'>> = [];
+  const contas: string[] = [];
+  const contaOverride = accounts.length === 1 ? contaBancaria : undefined;
+
+  for (const account of accounts) {
+    const rows = ofxToBankStatements(account, contaOverride);
+    if (rows.length > 0 && contas.indexOf(rows[0].contaBancaria) < 0) {
+      contas.push(rows[0].contaBancaria);
+    }
+    statements.push(...rows);
+  }
 
-  return statements.length;
+  const result = importBankStatementDetailed(statements);
+  return { ...result, contas };
 }
 
 /**
@@ -141,113 +266,634 @@ export function getBankStatementById(id: string): BankStatement | null {
 }
 
 // ============================================================================
-// CONCILIAÇÃO AUTOMÁTICA
+// MOTOR DE SUGESTÕES
 // ============================================================================
 
 /**
- * Sugestão de match entre extrato e lançamento
+ * Tipo de vínculo sugerido
+ * - 1:1  um extrato, um lançamento
+ * - N:1  vários lançamentos quitados por um extrato (ex.: débito pagando vários boletos,
+ *        depósito de cartão cobrindo várias vendas)
+ * - 1:N  um lançamento quitado por vários extratos (ex.: recebimento em parcelas via PIX)
+ */
+export type MatchKind = '1:1' | 'N:1' | '1:N';
+
+/**
+ * Sugestão de match entre extrato(s) e lançamento(s)
  */
 export interface MatchSuggestion {
-  bankStatementId: string;
-  ledgerEntryId: string;
+  bankStatementId: string; // primeiro extrato do grupo
+  ledgerEntryId: string; // primeiro lançamento do grupo
+  bankStatementIds: string[];
+  ledgerEntryIds: string[];
+  tipo: MatchKind;
   confidence: number; // 0-100
-  reason: string;
+  reason: string; // resumo legível dos motivos
+  reasons: string[];
+  diferenca: Money; // valor do(s) extrato(s) - soma dos lançamentos (em módulo)
 }
 
 /**
- * Sugere matches para um extrato bancário
- *
- * Critérios:
- * - Valor igual (com tolerância)
- * - Data próxima (±7 dias)
- * - Status do lançamento
- *
- * TODO: Implementar algoritmo mais sofisticado (fuzzy matching, ML)
+ * Janela de datas (dias) para combinações N:1 / 1:N
  */
-export function suggestMatches(statementId: string): MatchSuggestion[] {
-  const statement = getBankStatementById(statementId);
-  if (!statement) {
-    return [];
+const MATCH_DATE_WINDOW_DAYS = 5;
+
+/**
+ * Janela de datas (dias) para pares 1:1
+ */
+const MATCH_MAX_DAYS_1_1 = 15;
+
+/**
+ * Limites da busca de subconjuntos (mantém o tempo de execução previsível)
+ */
+const SUBSET_MAX_CANDIDATES = 25;
+const SUBSET_MAX_SIZE = 8;
+const SUBSET_MAX_NODES = 20000;
+const SUBSET_MAX_RESULTS = 3;
+
+/**
+ * Diferença relativa aceita em 1:1 quando há CNPJ/CPF ou documento em comum
+ * (juros, tarifas, descontos de antecipação)
+ */
+const NEAR_VALUE_RATIO = 0.02;
+
+/**
+ * Palavras sem valor para comparação de descrições (prefixos bancários etc.)
+ */
+const STOPWORDS = new Set([
+  'PAG', 'PAGTO', 'PAGAMENTO', 'PGTO', 'PIX', 'TED', 'DOC', 'TEF', 'BOLETO', 'BOLETOS', 'SISPAG',
+  'TIT', 'TITULO', 'TRANSF', 'TRANSFERENCIA', 'ENVIADO', 'RECEBIDO', 'RECEB', 'DEB', 'DEBITO',
+  'CRED', 'CREDITO', 'AUT', 'COBRANCA', 'LIQ', 'LIQUIDACAO', 'FORNEC', 'FORNECEDOR', 'CLIENTE',
+  'LTDA', 'EIRELI', 'EPP', 'ME', 'SA', 'CIA', 'DE', 'DA', 'DO', 'DAS', 'DOS', 'E', 'EM', 'REF',
+  'NF', 'NFE', 'PARCELA',
+]);
+
+interface StatementCandidate {
+  id: string;
+  data: Date | null;
+  valor: Money; // com sinal (negativo = saída)
+  texto: string;
+  razaoSocialItau: string | null;
+  contraparte: CounterpartyMatch | null; // pagador/recebedor PIX identificado
+  documentos: Set<string>; // CPF/CNPJ (dígitos)
+  numeros: Set<string>; // números de documento
+}
+
+interface EntryCandidate {
+  id: string;
+  data: Date | null; // pagamento ou, na falta, vencimento
+  valor: Money; // positivo
+  saida: boolean; // despesa / contas a pagar
+  descricao: string;
+  contraparte: string;
+  documentos: Set<string>;
+  numeros: Set<string>;
+  realizado: boolean;
+}
+
+interface MatchContext {
+  statements: StatementCandidate[];
+  entries: EntryCandidate[];
+  tolerance: Money;
+}
+
+function toDateValue(value: any): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : new Date(value.getFullYear(), value.getMonth(), value.getDate());
   }
+  const str = String(value || '').trim();
+  if (!str) return null;
+  return /^\d{4}-\d{2}-\d{2}/.test(str) ? parseDateISO(str.slice(0, 10)) : parseDate(str);
+}
 
-  // Busca lançamentos não conciliados
-  const allEntries = getSheetValues(Sheets.TB_LANCAMENTOS, { skipHeader: true });
-  const tolerance = ConfigService.getToleranciaConciliacao();
+function normalizeText(value: any): string {
+  return String(value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .trim();
+}
+
+function textTokens(value: any): string[] {
+  return normalizeText(value)
+    .split(' ')
+    .filter((t) => t.length >= 2 && !/^\d+$/.test(t) && !STOPWORDS.has(t));
+}
+
+/**
+ * Similaridade entre descrições (coeficiente de Dice sobre palavras; aceita
+ * palavras truncadas pelo banco como prefixo, com 4+ letras)
+ */
+function textSimilarity(a: string, b: string): number {
+  const ta = Array.from(new Set(textTokens(a)));
+  const tb = Array.from(new Set(textTokens(b)));
+  if (!ta.length || !tb.length) return 0;
+
+  let hits = 0;
+  for (const x of ta) {
+    const found = tb.some(
+      (y) => x === y || (Math.min(x.length, y.length) >= 4 && (x.startsWith(y) || y.startsWith(x)))
+    );
+    if (found) hits++;
+  }
+  return (2 * hits) / (ta.length + tb.length);
+}
+
+/**
+ * CPF/CNPJ presentes no texto (formatados ou só dígitos), como dígitos.
+ * Números sem dígitos verificadores válidos ficam de fora.
+ */
+function extractTaxIds(value: any): Set<string> {
+  const result = new Set<string>();
+  const text = String(value || '');
+  const formatted = text.match(/\d{2}\.\d{3}\.\d{3}\/\d{4}-\d{2}|\d{3}\.\d{3}\.\d{3}-\d{2}/g) || [];
+  const raw = text.match(/\b\d{11}\b|\b\d{14}\b/g) || [];
+  [...formatted, ...raw].forEach((m) => {
+    const digits = normalizeTaxId(m);
+    if (isValidTaxId(digits)) result.add(digits);
+  });
+  return result;
+}
+
+/**
+ * Números de documento (4+ dígitos, sem zeros à esquerda), exceto CPF/CNPJ
+ */
+function extractDocNumbers(value: any, taxIds: Set<string>): Set<string> {
+  const result = new Set<string>();
+  const text = String(value || '').replace(/\d{2}\.\d{3}\.\d{3}\/\d{4}-\d{2}|\d{3}\.\d{3}\.\d{3}-\d{2}/g, ' ');
+  for (const m of text.match(/\d{4,20}/g) || []) {
+    if (taxIds.has(m)) continue;
+    const n = m.replace(/^0+/, '');
+    if (n.length >= 4) result.add(n);
+  }
+  return result;
+}
+
+function intersect(a: Set<string>, b: Set<string>): string[] {
+  return Array.from(a).filter((x) => b.has(x));
+}
+
+function toCents(value: Money): number {
+  return Math.round(Math.abs(value) * 100);
+}
+
+function formatValue(value: Money): string {
+  return Math.abs(value).toFixed(2);
+}
+
+/**
+ * Índice das linhas do extrato Itaú (data|valor) -> razão social e CPF/CNPJ
+ */
+function loadItauIndex(): Map<string, { razaoSocial: string; documentos: Set<string> }> {
+  const index = new Map<string, { razaoSocial: string; documentos: Set<string> }>();
+  for (const row of getSheetValues(Sheets.TB_IMPORT_ITAU, { skipHeader: true })) {
+    const data = toDateValue(row[TB_IMPORT_ITAU_COLS.DATA]);
+    const valor = parseFloat(row[TB_IMPORT_ITAU_COLS.VALOR]);
+    if (!data || isNaN(valor)) continue;
+
+    const razaoSocial = String(row[TB_IMPORT_ITAU_COLS.RAZAO_SOCIAL] || '').trim();
+    const documentos = extractTaxIds(razaoSocial);
+    const cpfCnpj = normalizeTaxId(row[TB_IMPORT_ITAU_COLS.CPF_CNPJ]);
+    if (isValidTaxId(cpfCnpj)) documentos.add(cpfCnpj);
+    if (!razaoSocial && !documentos.size) continue;
+
+    index.set(`${formatDateISO(data)}|${toCents(valor)}`, { razaoSocial, documentos });
+  }
+  return index;
+}
+
+function loadStatementCandidates(): StatementCandidate[] {
+  const itau = loadItauIndex();
+  const result: StatementCandidate[] = [];
+
+  for (const row of getSheetValues(Sheets.TB_EXTRATOS, { skipHeader: true })) {
+    const id = String(row[TB_EXTRATOS_COLS.ID] || '').trim();
+    if (!id) continue;
+    const status = String(row[TB_EXTRATOS_COLS.STATUS_CONCILIACAO] || '').toUpperCase();
+    if (status === 'CONCILIADO') continue;
+    if (status !== 'PARCIAL' && String(row[TB_EXTRATOS_COLS.ID_LANCAMENTO] || '').trim()) continue;
+
+    // Extrato parcialmente conciliado concorre apenas com o residual
+    const bruto = parseFloat(row[TB_EXTRATOS_COLS.VALOR]) || 0;
+    const residual = residualAmount(row[TB_EXTRATOS_COLS.VALOR_CONCILIADO], bruto, false);
+    if (!residual) continue;
+    const valor = bruto < 0 ? -residual : residual;
+    const data = toDateValue(row[TB_EXTRATOS_COLS.DATA]);
+    const texto = `${row[TB_EXTRATOS_COLS.DESCRICAO] || ''} ${row[TB_EXTRATOS_COLS.OBSERVACOES] || ''}`.trim();
+    const documentos = extractTaxIds(texto);
+
+    const itauRow = data ? itau.get(`${formatDateISO(data)}|${toCents(valor)}`) : undefined;
+    if (itauRow) itauRow.documentos.forEach((d) => documentos.add(d));
+
+    result.push({
+      id,
+      data,
+      valor,
+      texto,
+      razaoSocialItau: itauRow?.razaoSocial || null,
+      contraparte: null,
+      documentos,
+      numeros: extractDocNumbers(texto, documentos),
+    });
+  }
+
+  const contrapartes = resolveStatementCounterparties(
+    result.map((st) => ({ data: st.data, valor: st.valor, historico: st.texto }))
+  );
+  result.forEach((st, i) => {
+    st.contraparte = contrapartes[i].contraparte;
+  });
+
+  return result;
+}
+
+function loadEntryCandidates(): EntryCandidate[] {
+  const C = TB_LANCAMENTOS_COLS;
+  const result: EntryCandidate[] = [];
+
+  for (const row of getSheetValues(Sheets.TB_LANCAMENTOS, { skipHeader: true })) {
+    const id = String(row[C.ID] || '').trim();
+    if (!id) continue;
+    const linked = Boolean(String(row[C.ID_EXTRATO_BANCO] || '').trim());
+    const residual = residualAmount(row[C.VALOR_CONCILIADO], parseFloat(row[C.VALOR_LIQUIDO]) || 0, linked);
+    if (!residual) continue;
+
+    const status = String(row[C.STATUS] || '').toUpperCase();
+    if (status.startsWith('CANCELAD')) continue;
+
+    const tipo = String(row[C.TIPO] || '').toUpperCase();
+    const descricao = String(row[C.DESCRICAO] || '');
+    const texto = `${descricao} ${row[C.OBSERVACOES] || ''}`;
+    const documentos = extractTaxIds(texto);
+    const numeros = extractDocNumbers(`${texto} ${row[C.NUMERO_DOCUMENTO] || ''}`, documentos);
+
+    result.push({
+      id,
+      data: toDateValue(row[C.DATA_PAGAMENTO]) || toDateValue(row[C.DATA_VENCIMENTO]),
+      valor: residual,
+      saida: tipo === 'DESPESA' || tipo === 'PAGAR',
+      descricao,
+      contraparte: descricao.split('-')[0].trim(),
+      documentos,
+      numeros,
+      realizado: ['REALIZADO', 'PAGA', 'PAGO', 'RECEBIDA', 'RECEBIDO'].includes(status),
+    });
+  }
+
+  return result;
+}
+
+function loadMatchContext(): MatchContext {
+  return {
+    statements: loadStatementCandidates(),
+    entries: loadEntryCandidates(),
+    tolerance: ConfigService.getToleranciaConciliacao(),
+  };
+}
+
+function sameDirection(statement: StatementCandidate, entry: EntryCandidate): boolean {
+  return statement.valor < 0 ? entry.saida : !entry.saida;
+}
+
+function daysBetween(a: Date | null, b: Date | null): number | null {
+  return a && b ? Math.abs(diffDays(a, b)) : null;
+}
+
+function dateScore(days: number | null): { score: number; reason: string | null } {
+  if (days === null) return { score: 0, reason: null };
+  if (days === 0) return { score: 25, reason: 'Mesma data' };
+  if (days <= 3) return { score: 18, reason: `Data com ${days} dia(s) de diferença` };
+  if (days <= 7) return { score: 8, reason: `Data com ${days} dias de diferença` };
+  return { score: 0, reason: `Data com ${days} dias de diferença` };
+}
+
+/**
+ * Evidências textuais entre o(s) extrato(s) e o(s) lançamento(s)
+ */
+function evidenceScore(
+  statements: StatementCandidate[],
+  entries: EntryCandidate[]
+): { score: number; reasons: string[]; strong: boolean } {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const stmtDocs = new Set<string>();
+  const stmtNums = new Set<string>();
+  statements.forEach((st) => {
+    st.documentos.forEach((d) => stmtDocs.add(d));
+    st.numeros.forEach((n) => stmtNums.add(n));
+  });
+
+  const docHits = Array.from(new Set(entries.flatMap((e) => intersect(e.documentos, stmtDocs))));
+  if (docHits.length) {
+    score += 20;
+    const itau = statements.some((st) => st.razaoSocialItau) ? ' (razão social Itaú)' : '';
+    reasons.push(`CNPJ/CPF ${docHits.map(formatTaxId).join(', ')} no extrato${itau}`);
+  }
+
+  // Pagador/recebedor PIX identificado no cadastro: confere com o documento ou o nome do lançamento
+  const contrapartes = statements
+    .map((st) => st.contraparte)
+    .filter((cp): cp is CounterpartyMatch => !!cp && !docHits.includes(cp.documento));
+  const partyHit = contrapartes.find((cp) =>
+    entries.some((e) => e.documentos.has(cp.documento) || nameSimilarity(cp.nome, e.contraparte || e.descricao) >= 0.5)
+  );
+  if (partyHit) {
+    score += Math.round((20 * partyHit.confianca) / 100);
+    reasons.push(`Contraparte PIX ${partyHit.nome} (${partyHit.documentoFormatado}) no lançamento`);
+  }
+
+  const numHits = Array.from(new Set(entries.flatMap((e) => intersect(e.numeros, stmtNums))));
+  if (numHits.length) {
+    score += 15;
+    reasons.push(`Documento ${numHits.slice(0, 3).join(', ')} no histórico`);
+  }
+
+  const stmtText = statements.map((st) => `${st.texto} ${st.razaoSocialItau || ''}`).join(' ');
+  const similarity =
+    entries.reduce((sum, e) => sum + textSimilarity(stmtText, `${e.contraparte} ${e.descricao}`), 0) /
+    entries.length;
+  if (similarity >= 0.3) {
+    score += Math.round(15 * Math.min(1, similarity));
+    reasons.push(`Descrição semelhante (${Math.round(similarity * 100)}%)`);
+  }
+
+  return {
+    score,
+    reasons,
+    strong: docHits.length > 0 || numHits.length > 0 || (!!partyHit && partyHit.criterio !== 'NOME'),
+  };
+}
+
+function buildSuggestion(
+  tipo: MatchKind,
+  statements: StatementCandidate[],
+  entries: EntryCandidate[],
+  confidence: number,
+  reasons: string[]
+): MatchSuggestion {
+  const totalExtratos = statements.reduce((sum, st) => sum + Math.abs(st.valor), 0);
+  const totalLancamentos = entries.reduce((sum, e) => sum + e.valor, 0);
+  return {
+    bankStatementId: statements[0].id,
+    ledgerEntryId: entries[0].id,
+    bankStatementIds: statements.map((st) => st.id),
+    ledgerEntryIds: entries.map((e) => e.id),
+    tipo,
+    confidence: Math.max(0, Math.min(100, Math.round(confidence))),
+    reason: reasons.join('; '),
+    reasons,
+    diferenca: Math.round((totalExtratos - totalLancamentos) * 100) / 100,
+  };
+}
+
+/**
+ * Pares 1:1: valor igual (tolerância) ou próximo quando há CNPJ/documento em comum
+ */
+function suggestOneToOne(statement: StatementCandidate, ctx: MatchContext): MatchSuggestion[] {
   const suggestions: MatchSuggestion[] = [];
+  const alvo = Math.abs(statement.valor);
 
-  for (const row of allEntries) {
-    if (!row || row.length === 0) continue;
+  for (const entry of ctx.entries) {
+    if (!sameDirection(statement, entry)) continue;
+    const days = daysBetween(statement.data, entry.data);
+    if (days !== null && days > MATCH_MAX_DAYS_1_1) continue;
 
-    const entryId = row[TB_LANCAMENTOS_COLS.ID];
-    const valorLiquido = parseFloat(row[TB_LANCAMENTOS_COLS.VALOR_LIQUIDO]) || 0;
-    const dataPagamento = parseDateISO(row[TB_LANCAMENTOS_COLS.DATA_PAGAMENTO]);
-    const status = row[TB_LANCAMENTOS_COLS.STATUS];
-    const jaTemExtrato = row[TB_LANCAMENTOS_COLS.ID_EXTRATO_BANCO];
+    const diff = Math.abs(alvo - entry.valor);
+    const exact = moneyEquals(alvo, entry.valor, ctx.tolerance);
+    if (!exact && diff > alvo * NEAR_VALUE_RATIO) continue;
 
-    // Ignora se já conciliado
-    if (jaTemExtrato) continue;
+    const evidence = evidenceScore([statement], [entry]);
+    if (!exact && !evidence.strong) continue;
 
-    // Ignora se cancelado
-    if (status === 'CANCELADO') continue;
+    const reasons: string[] = [];
+    let confidence = exact ? 40 : 20;
+    reasons.push(exact ? `Valor igual (${formatValue(alvo)})` : `Valor próximo (diferença ${formatValue(diff)})`);
 
-    // Verifica valor
-    if (!moneyEquals(statement.valor, valorLiquido, tolerance)) {
-      continue;
-    }
+    const date = dateScore(days);
+    confidence += date.score;
+    if (date.reason) reasons.push(date.reason);
 
-    let confidence = 50; // Base: valores iguais
+    confidence += evidence.score;
+    reasons.push(...evidence.reasons);
+    if (entry.realizado) confidence += 5;
 
-    // Verifica data
-    if (dataPagamento) {
-      const daysDiff = Math.abs(diffDays(statement.dataMovimento, dataPagamento));
+    suggestions.push(buildSuggestion('1:1', [statement], [entry], confidence, reasons));
+  }
 
-      if (daysDiff === 0) {
-        confidence += 40; // Data exata
-      } else if (daysDiff <= 3) {
-        confidence += 30; // Até 3 dias
-      } else if (daysDiff <= 7) {
-        confidence += 10; // Até 7 dias
-      }
+  return suggestions;
+}
+
+/**
+ * Busca subconjuntos cuja soma (em centavos) atinge o alvo dentro da tolerância
+ */
+function findSubsets<T>(items: Array<{ item: T; cents: number }>, target: number, tolerance: number): T[][] {
+  const sorted = items.filter((i) => i.cents > 0 && i.cents <= target + tolerance).sort((a, b) => b.cents - a.cents);
+  const suffix: number[] = new Array(sorted.length + 1).fill(0);
+  for (let i = sorted.length - 1; i >= 0; i--) suffix[i] = suffix[i + 1] + sorted[i].cents;
+
+  const results: T[][] = [];
+  const chosen: T[] = [];
+  let nodes = 0;
+
+  const walk = (start: number, sum: number): void => {
+    if (results.length >= SUBSET_MAX_RESULTS || nodes++ > SUBSET_MAX_NODES) return;
+    if (chosen.length >= 2 && Math.abs(sum - target) <= tolerance) {
+      results.push(chosen.slice());
+      return;
     }
+    if (chosen.length >= SUBSET_MAX_SIZE) return;
 
-    // Verifica status
-    if (status === 'REALIZADO') {
-      confidence += 10;
+    for (let i = start; i < sorted.length; i++) {
+      const next = sum + sorted[i].cents;
+      if (next > target + tolerance) continue;
+      if (sum + suffix[i] < target - tolerance) return; // nem somando todos os restantes alcança
+      chosen.push(sorted[i].item);
+      walk(i + 1, next);
+      chosen.pop();
+      if (results.length >= SUBSET_MAX_RESULTS) return;
     }
+  };
 
-    suggestions.push({
-      bankStatementId: statementId,
-      ledgerEntryId: entryId,
-      confidence,
-      reason: `Valor igual, diferença de ${dataPagamento ? diffDays(statement.dataMovimento, dataPagamento) : '?'} dias`,
-    });
+  walk(0, 0);
+  return results;
+}
+
+/**
+ * Ordena candidatos por proximidade de data (e evidência textual) e limita a quantidade
+ */
+function closestCandidates<T extends { data: Date | null }>(
+  items: T[],
+  ref: Date | null,
+  bonus: (item: T) => number
+): T[] {
+  return items
+    .map((item) => ({ item, rank: (daysBetween(ref, item.data) ?? MATCH_DATE_WINDOW_DAYS) - bonus(item) }))
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, SUBSET_MAX_CANDIDATES)
+    .map((x) => x.item);
+}
+
+function groupScore(
+  statements: StatementCandidate[],
+  entries: EntryCandidate[],
+  ref: Date | null,
+  others: Array<{ data: Date | null }>
+): { confidence: number; reasons: string[] } {
+  const evidence = evidenceScore(statements, entries);
+  const avgDays =
+    others.reduce((sum, o) => sum + (daysBetween(ref, o.data) ?? MATCH_DATE_WINDOW_DAYS), 0) / others.length;
+
+  let confidence = 35 + evidence.score;
+  if (avgDays <= 1) confidence += 20;
+  else if (avgDays <= 3) confidence += 12;
+  else confidence += 5;
+  confidence -= 2 * Math.max(0, others.length - 2);
+
+  const contrapartes = new Set(entries.map((e) => normalizeText(e.contraparte)).filter(Boolean));
+  const reasons = [`Datas em até ${MATCH_DATE_WINDOW_DAYS} dias (média ${avgDays.toFixed(1)})`];
+  if (entries.length > 1 && contrapartes.size === 1) {
+    confidence += 10;
+    reasons.push(`Mesmo fornecedor/cliente (${entries[0].contraparte})`);
   }
+  reasons.push(...evidence.reasons);
 
-  // Ordena por confiança decrescente
-  suggestions.sort((a, b) => b.confidence - a.confidence);
+  // Combinações nunca são conciliadas automaticamente
+  return { confidence: Math.min(95, confidence), reasons };
+}
 
-  return suggestions;
+/**
+ * N:1 — vários lançamentos cuja soma é igual ao valor do extrato
+ */
+function suggestManyEntries(statement: StatementCandidate, ctx: MatchContext): MatchSuggestion[] {
+  const target = toCents(statement.valor);
+  const tolerance = Math.round(ctx.tolerance * 100);
+  const pool = ctx.entries.filter((e) => {
+    if (!sameDirection(statement, e)) return false;
+    const days = daysBetween(statement.data, e.data);
+    return days === null || days <= MATCH_DATE_WINDOW_DAYS;
+  });
+  const candidates = closestCandidates(pool, statement.data, (e) =>
+    intersect(e.documentos, statement.documentos).length ? MATCH_DATE_WINDOW_DAYS : 0
+  );
+
+  return findSubsets(
+    candidates.map((e) => ({ item: e, cents: toCents(e.valor) })),
+    target,
+    tolerance
+  ).map((entries) => {
+    const { confidence, reasons } = groupScore([statement], entries, statement.data, entries);
+    return buildSuggestion('N:1', [statement], entries, confidence, [
+      `Soma de ${entries.length} lançamentos = ${formatValue(statement.valor)}`,
+      ...reasons,
+    ]);
+  });
+}
+
+/**
+ * 1:N — vários extratos cuja soma é igual ao valor do lançamento
+ */
+function suggestManyStatements(entry: EntryCandidate, ctx: MatchContext): MatchSuggestion[] {
+  const target = toCents(entry.valor);
+  const tolerance = Math.round(ctx.tolerance * 100);
+  const pool = ctx.statements.filter((st) => {
+    if (!sameDirection(st, entry)) return false;
+    const days = daysBetween(st.data, entry.data);
+    return days === null || days <= MATCH_DATE_WINDOW_DAYS;
+  });
+  const candidates = closestCandidates(pool, entry.data, (st) =>
+    intersect(st.documentos, entry.documentos).length ? MATCH_DATE_WINDOW_DAYS : 0
+  );
+
+  return findSubsets(
+    candidates.map((st) => ({ item: st, cents: toCents(st.valor) })),
+    target,
+    tolerance
+  ).map((statements) => {
+    const { confidence, reasons } = groupScore(statements, [entry], entry.data, statements);
+    return buildSuggestion('1:N', statements, [entry], confidence, [
+      `Soma de ${statements.length} extratos = ${formatValue(entry.valor)}`,
+      ...reasons,
+    ]);
+  });
+}
+
+function sortSuggestions(suggestions: MatchSuggestion[]): MatchSuggestion[] {
+  return suggestions.sort((a, b) => b.confidence - a.confidence || a.ledgerEntryIds.length - b.ledgerEntryIds.length);
+}
+
+// ============================================================================
+// CONCILIAÇÃO AUTOMÁTICA
+// ============================================================================
+
+/**
+ * Sugere matches para um extrato bancário
+ *
+ * Critérios (cada sugestão traz os motivos em `reasons`):
+ * - Valor igual (tolerância TOLERANCIA_CONCILIACAO) ou próximo, se houver CNPJ/documento em comum
+ * - Proximidade de data (pagamento ou vencimento do lançamento)
+ * - CNPJ/CPF do histórico ou da razão social do extrato Itaú
+ * - Contraparte PIX identificada (counterparty-service) igual à do lançamento
+ * - Número de documento presente nos dois lados
+ * - Semelhança entre histórico e descrição/fornecedor
+ * - Combinações N:1 (soma de lançamentos dentro da janela de datas)
+ */
+export function suggestMatches(statementId: string): MatchSuggestion[] {
+  const ctx = loadMatchContext();
+  const statement = ctx.statements.find((st) => st.id === statementId);
+  if (!statement) {
+    return [];
+  }
+
+  return sortSuggestions([...suggestOneToOne(statement, ctx), ...suggestManyEntries(statement, ctx)]);
+}
+
+/**
+ * Sugere extratos para um lançamento (1:1 e 1:N)
+ */
+export function suggestMatchesForEntry(entryId: string): MatchSuggestion[] {
+  const ctx = loadMatchContext();
+  const entry = ctx.entries.find((e) => e.id === entryId);
+  if (!entry) {
+    return [];
+  }
+
+  const oneToOne = ctx.statements
+    .flatMap((st) => suggestOneToOne(st, { ...ctx, entries: [entry] }));
+  return sortSuggestions([...oneToOne, ...suggestManyStatements(entry, ctx)]);
 }
 
 /**
  * Concilia automaticamente todos os extratos não conciliados
  *
+ * Primeiro aplica as regras de conciliação (CFG_REGRAS_CONCILIACAO), que criam o
+ * lançamento dos extratos recorrentes; depois concilia apenas pares 1:1 de valor
+ * exato com lançamentos existentes. Pares de valor aproximado e combinações ficam
+ * como sugestão para a tela de conciliação manual.
+ *
  * @param minConfidence - Confiança mínima para conciliação automática (0-100)
- * @returns Quantidade de conciliações realizadas
+ * @returns Quantidade de conciliações realizadas (incluindo as feitas por regra)
  */
 export function autoReconcile(minConfidence: number = 80): number {
-  const statements = listBankStatements(false); // não conciliados
-  let count = 0;
+  let count = applyReconciliationRules().conciliados;
+  const ctx = loadMatchContext();
+  const usedEntries = new Set<string>();
 
-  for (const stmt of statements) {
-    const suggestions = suggestMatches(stmt.id);
+  for (const stmt of ctx.statements) {
+    const available = { ...ctx, entries: ctx.entries.filter((e) => !usedEntries.has(e.id)) };
+    const suggestions = sortSuggestions(
+      suggestOneToOne(stmt, available).filter((s) => moneyEquals(s.diferenca, 0, ctx.tolerance))
+    );
 
-    // Pega a melhor sugestão se passar do threshold
+    // Pega a melhor sugestão se passar do threshold e não houver empate
     if (suggestions.length > 0 && suggestions[0].confidence >= minConfidence) {
       const best = suggestions[0];
+      if (suggestions.length > 1 && suggestions[1].confidence === best.confidence) continue;
 
       try {
         reconcile(stmt.id, best.ledgerEntryId);
+        usedEntries.add(best.ledgerEntryId);
         count++;
       } catch (error) {
         console.error(`Erro ao conciliar ${stmt.id} com ${best.ledgerEntryId}:`, error);
@@ -259,69 +905,449 @@ export function autoReconcile(minConfidence: number = 80): number {
 }
 
 // ============================================================================
-// CONCILIAÇÃO MANUAL
+// CONCILIAÇÃO PARCIAL E AJUSTES
 // ============================================================================
 
 /**
- * Concilia manualmente um extrato com um lançamento
- *
- * @param statementId - ID do extrato
- * @param entryId - ID do lançamento
+ * Opções de uma conciliação extrato x lançamento
  */
-export function reconcile(statementId: string, entryId: string): void {
-  const statement = getBankStatementById(statementId);
-  const entry = getEntryById(entryId);
+export interface ReconcileOptions {
+  valor?: Money; // parte do extrato a usar (padrão: todo o residual do extrato)
+  ajuste?: {
+    classificacao: AdjustmentKind;
+    contaContabil?: string; // padrão: CFG_CONFIG (CONTA_AJUSTE_*)
+    centroCusto?: string; // padrão: o do lançamento
+  };
+}
 
-  if (!statement) {
-    throw new Error(`Extrato ${statementId} não encontrado`);
-  }
+/**
+ * Resultado de uma conciliação (valores sempre em módulo, exceto diferenca)
+ */
+export interface ReconcileResult {
+  extratoId: string;
+  lancamentoId: string;
+  valorAplicado: Money; // quanto do extrato foi usado
+  diferenca: Money; // valor aplicado - residual do lançamento (> 0 = banco movimentou a mais)
+  ajusteId: string | null;
+  residualExtrato: Money;
+  residualLancamento: Money;
+  statusExtrato: 'CONCILIADO' | 'PARCIAL';
+}
 
-  if (!entry) {
-    throw new Error(`Lançamento ${entryId} não encontrado`);
-  }
+const ORIGEM_AJUSTE = 'AJUSTE';
+/** Origem dos lançamentos criados manualmente a partir de uma linha do extrato */
+export const ORIGEM_EXTRATO = 'EXTRATO';
+// Lançamentos criados a partir do próprio extrato: sem o vínculo, não representam nada
+const ORIGENS_DO_EXTRATO = [ORIGEM_REGRA, ORIGEM_EXTRATO];
 
-  // Atualiza extrato
-  statement.conciliado = true;
-  statement.idLancamento = entryId;
+/**
+ * Valor já conciliado de um extrato/lançamento. Coluna vazia (linhas anteriores à
+ * conciliação parcial) = tudo ou nada, conforme o vínculo.
+ */
+export function conciliatedAmount(cell: any, total: Money, linked: boolean): Money {
+  if (cell === '' || cell === null || cell === undefined) return linked ? total : 0;
+  const num = parseFloat(cell);
+  if (isNaN(num)) return linked ? total : 0;
+  return Math.min(total, Math.max(0, num));
+}
+
+/**
+ * Residual em aberto (total - conciliado), em módulo
+ */
+export function residualAmount(cell: any, total: Money, linked: boolean): Money {
+  const abs = Math.abs(Number(total) || 0);
+  return roundMoney(abs - conciliatedAmount(cell, abs, linked));
+}
 
-  // TODO: Atualizar via updateRow no sheets-client
-  // Por enquanto, vamos usar a lógica básica
+function splitLinkedIds(cell: any): string[] {
+  return String(cell || '')
+    .split(';')
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
 
-  // Atualiza lançamento
-  updateEntry(entryId, {
-    idExtratoBanco: statementId,
-    pagamento: statement.dataMovimento, // Considera data do extrato como pagamento
-  });
+function appendLinkedId(cell: any, id: string): string {
+  const ids = splitLinkedIds(cell);
+  if (!ids.includes(id)) ids.push(id);
+  return ids.join(';');
+}
 
-  console.log(`Conciliado: ${statementId} <-> ${entryId}`);
+function isSaidaTipo(tipo: any): boolean {
+  return ['DESPESA', 'PAGAR', 'AP'].includes(String(tipo || '').toUpperCase());
 }
 
 /**
- * Desconcilia um extrato
+ * Tipo e conta do lançamento AJUSTE para uma diferença
+ *
+ * - Saída paga a mais (juros, multa, tarifa) ou entrada recebida a menos
+ *   (desconto concedido, tarifa) → DESPESA
+ * - Saída paga a menos (desconto obtido) ou entrada recebida a mais (juros, multa) → RECEITA
+ *
+ * @throws Error se a classificação não fizer sentido para o sentido da diferença
  */
-export function unreconcile(statementId: string): void {
-  const statement = getBankStatementById(statementId);
+export function adjustmentFor(
+  classificacao: AdjustmentKind,
+  saida: boolean,
+  diferenca: Money
+): { tipo: 'RECEITA' | 'DESPESA'; contaContabil: string } {
+  const tipo = diferenca > 0 === saida ? 'DESPESA' : 'RECEITA';
 
-  if (!statement) {
-    throw new Error(`Extrato ${statementId} não encontrado`);
+  switch (classificacao) {
+    case AdjustmentKind.JUROS:
+    case AdjustmentKind.MULTA:
+      if (diferenca < 0) {
+        throw new Error(`${classificacao} exige valor no extrato maior que o do lançamento`);
+      }
+      return {
+        tipo,
+        contaContabil:
+          tipo === 'DESPESA'
+            ? ConfigService.getContaAjusteDespesaFinanceira()
+            : ConfigService.getContaAjusteReceitaFinanceira(),
+      };
+    case AdjustmentKind.DESCONTO:
+      if (diferenca > 0) {
+        throw new Error('DESCONTO exige valor no extrato menor que o do lançamento');
+      }
+      return {
+        tipo,
+        contaContabil:
+          tipo === 'RECEITA'
+            ? ConfigService.getContaAjusteDescontoObtido()
+            : ConfigService.getContaAjusteDespesaFinanceira(),
+      };
+    case AdjustmentKind.TARIFA:
+      if (tipo !== 'DESPESA') {
+        throw new Error('TARIFA só se aplica quando o banco debita a mais ou credita a menos');
+      }
+      return { tipo, contaContabil: ConfigService.getContaAjusteTarifa() };
+    default:
+      throw new Error(`Classificação de ajuste inválida: ${classificacao}`);
   }
+}
 
-  if (!statement.conciliado) {
-    return; // Já desconciliado
+/**
+ * Garante que a coluna existe (abas antigas não têm "Valor Conciliado")
+ */
+function ensureColumn(sheet: GoogleAppsScript.Spreadsheet.Sheet, colIndex: number, header: string): void {
+  const maxCols = sheet.getMaxColumns();
+  if (maxCols < colIndex + 1) {
+    sheet.insertColumnsAfter(maxCols, colIndex + 1 - maxCols);
   }
+  const headerCell = sheet.getRange(1, colIndex + 1);
+  if (!String(headerCell.getValue() || '').trim()) headerCell.setValue(header);
+}
 
-  // Limpa lançamento
-  if (statement.idLancamento) {
-    updateEntry(statement.idLancamento, {
-      idExtratoBanco: null,
-    });
+function findRowIndex(values: any[][], idCol: number, id: string): number {
+  return values.findIndex((row) => String(row[idCol] || '').trim() === id);
+}
+
+/**
+ * Conciliação altera status/baixa dos lançamentos: relatórios e listas em cache
+ * ficam desatualizados (vale também para a execução agendada, fora da webapp)
+ */
+function invalidateCaches(): void {
+  cacheRemoveNamespace(CacheNamespace.LANCAMENTOS, CacheScope.SCRIPT);
+  cacheRemoveNamespace(CacheNamespace.EXTRATOS, CacheScope.SCRIPT);
+  cacheRemoveNamespace(CacheNamespace.CONCILIACAO, CacheScope.SCRIPT);
+  cacheRemoveNamespace(CacheNamespace.DRE, CacheScope.SCRIPT);
+  cacheRemoveNamespace(CacheNamespace.DFC, CacheScope.SCRIPT);
+  cacheRemoveNamespace(CacheNamespace.KPI, CacheScope.SCRIPT);
+  cacheRemoveNamespace(CacheNamespace.DASHBOARD, CacheScope.SCRIPT);
+}
+
+/**
+ * Concilia (total ou parcialmente) um extrato com um lançamento
+ *
+ * - Sem ajuste, a diferença fica em aberto: o lado maior guarda o residual e pode
+ *   ser conciliado depois com outro extrato/lançamento (status PARCIAL no extrato)
+ * - Com ajuste, a diferença vira um lançamento AJUSTE (juros, multa, desconto ou
+ *   tarifa) vinculado ao mesmo extrato e o lançamento fica quitado
+ * - Lançamento quitado em aberto passa a PAGA/RECEBIDA na data do extrato (status e
+ *   data anteriores ficam guardados para unreconcile)
+ *
+ * @throws Error se algum lado não existir, já estiver quitado ou tiver sentido oposto
+ */
+export function reconcilePartial(
+  statementId: string,
+  entryId: string,
+  options: ReconcileOptions = {}
+): ReconcileResult {
+  const extratoId = String(statementId || '').trim();
+  const lancamentoId = String(entryId || '').trim();
+  const tolerance = ConfigService.getToleranciaConciliacao();
+  const E = TB_EXTRATOS_COLS;
+  const L = TB_LANCAMENTOS_COLS;
+
+  const lock = LockService.getDocumentLock();
+  lock.waitLock(10000);
+  try {
+    const ss = SpreadsheetApp.getActiveSpreadsheet();
+    const sheetExtratos = ss.getSheetByName(Sheets.TB_EXTRATOS);
+    const sheetLanc = ss.getSheetByName(Sheets.TB_LANCAMENTOS);
+    if (!sheetExtratos) throw new Error(`Aba "${Sheets.TB_EXTRATOS}" não encontrada`);
+    if (!sheetLanc) throw new Error(`Aba "${Sheets.TB_LANCAMENTOS}" não encontrada`);
+
+    const extratos = getSheetValues(Sheets.TB_EXTRATOS, { skipHeader: true });
+    const extratoIdx = findRowIndex(extratos, E.ID, extratoId);
+    if (extratoIdx < 0) throw new Error(`Extrato ${extratoId} não encontrado`);
+    const lancamentos = getSheetValues(Sheets.TB_LANCAMENTOS, { skipHeader: true });
+    const lancIdx = findRowIndex(lancamentos, L.ID, lancamentoId);
+    if (lancIdx < 0) throw new Error(`Lançamento ${lancamentoId} não encontrado`);
+
+    const extrato = extratos[extratoIdx];
+    const lanc = lancamentos[lancIdx];
+
+    const valorExtrato = parseFloat(extrato[E.VALOR]) || 0;
+    const extratoTotal = Math.abs(valorExtrato);
+    const extratoLinked = String(extrato[E.STATUS_CONCILIACAO] || '').toUpperCase() === 'CONCILIADO';
+    const residualExtrato = residualAmount(extrato[E.VALOR_CONCILIADO], extratoTotal, extratoLinked);
+    if (residualExtrato <= tolerance) throw new Error(`Extrato ${extratoId} já está conciliado`);
+
+    const statusLanc = String(lanc[L.STATUS] || '').toUpperCase();
+    if (statusLanc.startsWith('CANCELAD')) throw new Error(`Lançamento ${lancamentoId} está cancelado`);
+    const lancTotal = Math.abs(parseFloat(lanc[L.VALOR_LIQUIDO]) || 0);
+    const lancLinked = Boolean(String(lanc[L.ID_EXTRATO_BANCO] || '').trim());
+    const residualLanc = residualAmount(lanc[L.VALOR_CONCILIADO], lancTotal, lancLinked);
+    if (residualLanc <= tolerance) throw new Error(`Lançamento ${lancamentoId} já está conciliado`);
+
+    const saida = isSaidaTipo(lanc[L.TIPO]);
+    if (valorExtrato < 0 !== saida) {
+      throw new Error('Extrato e lançamento têm sentidos opostos (entrada x saída)');
+    }
+
+    const valorAplicado = roundMoney(
+      options.valor !== undefined && options.valor !== null
+        ? Math.min(Math.abs(Number(options.valor) || 0), residualExtrato)
+        : residualExtrato
+    );
+    if (valorAplicado <= 0) throw new Error('Valor a conciliar deve ser maior que zero');
+
+    let diferenca = roundMoney(valorAplicado - residualLanc);
+    if (Math.abs(diferenca) <= tolerance) diferenca = 0;
+
+    // Quanto cada lado consome nesta conciliação
+    let consumoExtrato = valorAplicado;
+    let consumoLanc = Math.min(valorAplicado, residualLanc);
+    let ajusteId: string | null = null;
+    let ajusteRow: any[] | null = null;
+    const dataExtrato = formatDateISO(toDateValue(extrato[E.DATA]));
+
+    if (diferenca === 0) {
+      consumoLanc = residualLanc;
+    } else if (options.ajuste) {
+      const ajuste = adjustmentFor(options.ajuste.classificacao, saida, diferenca);
+      const valorAjuste = Math.abs(diferenca);
+      consumoLanc = residualLanc;
+      ajusteId = `${lancamentoId}-AJ${String(Date.now()).slice(-6)}`;
+
+      ajusteRow = new Array(L.VALOR_CONCILIADO + 1).fill('');
+      ajusteRow[L.ID] = ajusteId;
+      ajusteRow[L.DATA_COMPETENCIA] = dataExtrato;
+      ajusteRow[L.DATA_VENCIMENTO] = dataExtrato;
+      ajusteRow[L.DATA_PAGAMENTO] = dataExtrato;
+      ajusteRow[L.TIPO] = ajuste.tipo;
+      ajusteRow[L.FILIAL] = lanc[L.FILIAL];
+      ajusteRow[L.CENTRO_CUSTO] = options.ajuste.centroCusto || lanc[L.CENTRO_CUSTO] || '';
+      ajusteRow[L.CONTA_CONTABIL] = options.ajuste.contaContabil || ajuste.contaContabil;
+      ajusteRow[L.CANAL] = lanc[L.CANAL] || '';
+      ajusteRow[L.DESCRICAO] = `Ajuste ${options.ajuste.classificacao.toLowerCase()} - ${lanc[L.DESCRICAO] || lancamentoId}`;
+      ajusteRow[L.VALOR_BRUTO] = valorAjuste;
+      ajusteRow[L.DESCONTO] = 0;
+      ajusteRow[L.JUROS] = 0;
+      ajusteRow[L.MULTA] = 0;
+      ajusteRow[L.VALOR_LIQUIDO] = valorAjuste;
+      ajusteRow[L.STATUS] = ajuste.tipo === 'RECEITA' ? 'RECEBIDA' : 'PAGA';
+      ajusteRow[L.ID_EXTRATO_BANCO] = extratoId;
+      ajusteRow[L.ORIGEM] = ORIGEM_AJUSTE;
+      ajusteRow[L.OBSERVACOES] = `${options.ajuste.classificacao} | Conciliação ${extratoId} x ${lancamentoId}`;
+      ajusteRow[L.VALOR_CONCILIADO] = valorAjuste;
+    } else if (diferenca > 0) {
+      // Extrato maior: usa só o residual do lançamento, o restante do extrato fica em aberto
+      consumoExtrato = residualLanc;
+    }
+
+    const conciliadoExtrato = roundMoney(extratoTotal - residualExtrato + consumoExtrato);
+    const conciliadoLanc = roundMoney(lancTotal - residualLanc + consumoLanc);
+    const novoResidualExtrato = roundMoney(extratoTotal - conciliadoExtrato);
+    const novoResidualLanc = roundMoney(lancTotal - conciliadoLanc);
+    const statusExtrato = novoResidualExtrato <= tolerance ? 'CONCILIADO' : 'PARCIAL';
+
+    // Extrato: status, vínculos e valor conciliado
+    ensureColumn(sheetExtratos, E.VALOR_CONCILIADO, 'Valor Conciliado');
+    let linksExtrato = appendLinkedId(extrato[E.ID_LANCAMENTO], lancamentoId);
+    if (ajusteId) linksExtrato = appendLinkedId(linksExtrato, ajusteId);
+    const extratoRow = extratoIdx + 2;
+    sheetExtratos.getRange(extratoRow, E.STATUS_CONCILIACAO + 1, 1, 2).setValues([[statusExtrato, linksExtrato]]);
+    sheetExtratos.getRange(extratoRow, E.VALOR_CONCILIADO + 1).setValue(conciliadoExtrato);
+
+    // Lançamento: vínculo, valor conciliado e baixa quando quitado
+    ensureColumn(sheetLanc, L.VALOR_CONCILIADO, 'Valor Conciliado');
+    const lancRow = lancIdx + 2;
+    sheetLanc.getRange(lancRow, L.ID_EXTRATO_BANCO + 1).setValue(appendLinkedId(lanc[L.ID_EXTRATO_BANCO], extratoId));
+    sheetLanc.getRange(lancRow, L.VALOR_CONCILIADO + 1).setValue(conciliadoLanc);
+    if (novoResidualLanc <= tolerance && ['PENDENTE', 'VENCIDA', 'PREVISTO'].includes(statusLanc)) {
+      // Guarda status e data de pagamento anteriores para unreconcile restaurar
+      ensureColumn(sheetLanc, L.STATUS_PRE_CONCILIACAO, 'Status Pré-Conciliação');
+      ensureColumn(sheetLanc, L.DATA_PAGAMENTO_PRE_CONCILIACAO, 'Data Pagamento Pré-Conciliação');
+      sheetLanc
+        .getRange(lancRow, L.STATUS_PRE_CONCILIACAO + 1, 1, 2)
+        .setValues([[lanc[L.STATUS], lanc[L.DATA_PAGAMENTO]]]);
+      sheetLanc.getRange(lancRow, L.STATUS + 1).setValue(saida ? 'PAGA' : 'RECEBIDA');
+      if (!String(lanc[L.DATA_PAGAMENTO] || '').trim()) {
+        sheetLanc.getRange(lancRow, L.DATA_PAGAMENTO + 1).setValue(dataExtrato);
+      }
+    }
+
+    if (ajusteRow) appendRows(Sheets.TB_LANCAMENTOS, [ajusteRow]);
+    invalidateCaches();
+
+    return {
+      extratoId,
+      lancamentoId,
+      valorAplicado: consumoExtrato,
+      diferenca,
+      ajusteId,
+      residualExtrato: Math.max(0, novoResidualExtrato),
+      residualLancamento: Math.max(0, novoResidualLanc),
+      statusExtrato,
+    };
+  } finally {
+    try {
+      lock.releaseLock();
+    } catch (_) {}
   }
+}
+
+// ============================================================================
+// CONCILIAÇÃO MANUAL
+// ============================================================================
+
+/**
+ * Concilia manualmente um extrato com um lançamento
+ *
+ * @param statementId - ID do extrato
+ * @param entryId - ID do lançamento
+ * @param options - Valor parcial e/ou classificação da diferença (ver reconcilePartial)
+ */
+export function reconcile(statementId: string, entryId: string, options: ReconcileOptions = {}): ReconcileResult {
+  const result = reconcilePartial(statementId, entryId, options);
+  console.log(`Conciliado: ${statementId} <-> ${entryId} (${result.statusExtrato})`);
+  return result;
+}
+
+/**
+ * Resultado de unreconcile
+ */
+export interface UnreconcileResult {
+  extratoIds: string[];
+  lancamentoIds: string[];
+  ajustesCancelados: string[];
+  lancamentosCancelados: string[]; // criados a partir do extrato (regra ou manual)
+  baixasRevertidas: string[]; // lançamentos que voltaram ao status anterior à conciliação
+}
+
+/**
+ * Desfaz a conciliação entre um extrato e um lançamento
+ *
+ * Conciliação em grupo (N:1 / 1:N) ou parcial é desfeita por inteiro: os vínculos
+ * de todo o grupo são removidos, ajustes gerados são cancelados e lançamentos
+ * baixados pela conciliação voltam ao status e à data de pagamento anteriores.
+ * Lançamentos criados a partir do extrato (regra de conciliação ou "criar a partir
+ * do extrato") também são cancelados; do contrário o extrato volta a pendente e
+ * ganha um segundo lançamento na próxima conciliação.
+ *
+ * @throws Error se algum lado não existir, o extrato não estiver conciliado ou
+ *   estiver vinculado a outro lançamento (e vice-versa)
+ */
+export function unreconcile(statementId: string, entryId: string): UnreconcileResult {
+  const extratoId = String(statementId || '').trim();
+  const lancamentoId = String(entryId || '').trim();
+  const E = TB_EXTRATOS_COLS;
+  const L = TB_LANCAMENTOS_COLS;
+
+  const lock = LockService.getDocumentLock();
+  lock.waitLock(10000);
+  try {
+    const ss = SpreadsheetApp.getActiveSpreadsheet();
+    const sheetExtratos = ss.getSheetByName(Sheets.TB_EXTRATOS);
+    const sheetLanc = ss.getSheetByName(Sheets.TB_LANCAMENTOS);
+    if (!sheetExtratos) throw new Error(`Aba "${Sheets.TB_EXTRATOS}" não encontrada`);
+    if (!sheetLanc) throw new Error(`Aba "${Sheets.TB_LANCAMENTOS}" não encontrada`);
+
+    const extratos = getSheetValues(Sheets.TB_EXTRATOS, { skipHeader: true });
+    const extratoIdx = findRowIndex(extratos, E.ID, extratoId);
+    if (extratoIdx < 0) throw new Error(`Extrato ${extratoId} não encontrado`);
+    const lancamentos = getSheetValues(Sheets.TB_LANCAMENTOS, { skipHeader: true });
+    const lancIdx = findRowIndex(lancamentos, L.ID, lancamentoId);
+    if (lancIdx < 0) throw new Error(`Lançamento ${lancamentoId} não encontrado`);
+
+    const status = String(extratos[extratoIdx][E.STATUS_CONCILIACAO] || '').toUpperCase();
+    if (status !== 'CONCILIADO' && status !== 'PARCIAL') {
+      throw new Error(`Extrato não está conciliado (status: ${status || 'N/A'})`);
+    }
+    const linkedLancIds = splitLinkedIds(extratos[extratoIdx][E.ID_LANCAMENTO]);
+    if (linkedLancIds.length && !linkedLancIds.includes(lancamentoId)) {
+      throw new Error(`Extrato vinculado a outro lançamento: ${linkedLancIds.join(';')}`);
+    }
+    const linkedExtratoIds = splitLinkedIds(lancamentos[lancIdx][L.ID_EXTRATO_BANCO]);
+    if (linkedExtratoIds.length && !linkedExtratoIds.includes(extratoId)) {
+      throw new Error(`Lançamento vinculado a outro extrato: ${linkedExtratoIds.join(';')}`);
+    }
 
-  // Atualiza extrato
-  statement.conciliado = false;
-  statement.idLancamento = null;
+    const result: UnreconcileResult = {
+      extratoIds: Array.from(new Set([extratoId, ...linkedExtratoIds])),
+      lancamentoIds: Array.from(new Set([lancamentoId, ...linkedLancIds])),
+      ajustesCancelados: [],
+      lancamentosCancelados: [],
+      baixasRevertidas: [],
+    };
+
+    const extratoCols = sheetExtratos.getLastColumn();
+    for (const id of result.extratoIds) {
+      const idx = findRowIndex(extratos, E.ID, id);
+      if (idx < 0) continue;
+      sheetExtratos.getRange(idx + 2, E.STATUS_CONCILIACAO + 1, 1, 2).setValues([['PENDENTE', '']]);
+      if (extratoCols > E.VALOR_CONCILIADO) sheetExtratos.getRange(idx + 2, E.VALOR_CONCILIADO + 1).setValue('');
+    }
+
+    const lancCols = sheetLanc.getLastColumn();
+    for (const id of result.lancamentoIds) {
+      const idx = findRowIndex(lancamentos, L.ID, id);
+      if (idx < 0) continue;
+      const lanc = lancamentos[idx];
+      const row = idx + 2;
+      sheetLanc.getRange(row, L.ID_EXTRATO_BANCO + 1).setValue('');
+      if (lancCols > L.VALOR_CONCILIADO) sheetLanc.getRange(row, L.VALOR_CONCILIADO + 1).setValue('');
+
+      // Ajustes de diferença só existem por causa da conciliação
+      const origem = String(lanc[L.ORIGEM] || '').toUpperCase();
+      if (origem === ORIGEM_AJUSTE) {
+        sheetLanc.getRange(row, L.STATUS + 1).setValue('CANCELADA');
+        result.ajustesCancelados.push(id);
+        continue;
+      }
+      if (ORIGENS_DO_EXTRATO.includes(origem)) {
+        sheetLanc.getRange(row, L.STATUS + 1).setValue('CANCELADA');
+        result.lancamentosCancelados.push(id);
+        continue;
+      }
 
-  // TODO: Atualizar via updateRow no sheets-client
+      const statusAnterior = String(lanc[L.STATUS_PRE_CONCILIACAO] || '').trim();
+      if (statusAnterior) {
+        const dataAnterior = lanc[L.DATA_PAGAMENTO_PRE_CONCILIACAO];
+        sheetLanc.getRange(row, L.STATUS + 1).setValue(statusAnterior);
+        sheetLanc.getRange(row, L.DATA_PAGAMENTO + 1).setValue(dataAnterior === undefined ? '' : dataAnterior);
+        sheetLanc.getRange(row, L.STATUS_PRE_CONCILIACAO + 1, 1, 2).setValues([['', '']]);
+        result.baixasRevertidas.push(id);
+      }
+    }
 
-  console.log(`Desconciliado: ${statementId}`);
+    invalidateCaches();
+    return result;
+  } finally {
+    try {
+      lock.releaseLock();
+    } catch (_) {}
+  }
 }
@@ -0,0 +1,609 @@
+/**
+ * recurrence-service.ts
+ *
+ * Modelos de lançamentos recorrentes (aluguel, contabilidade, software, pró-labore...).
+ *
+ * Responsabilidades:
+ * - CRUD dos modelos na aba TB_RECORRENCIAS
+ * - Calcular as datas de ocorrência (mensal, semanal, anual, a cada N dias, N-ésimo dia útil)
+ * - Gerar lançamentos PENDENTE em TB_LANCAMENTOS com antecedência (chamado pelo dailyJob)
+ * - Propagar a edição de um modelo para as ocorrências futuras ainda pendentes
+ *
+ * IMPORTANTE:
+ * - ID da ocorrência é determinístico (<ID modelo>-<yyyyMMdd>), o que torna a
+ *   geração idempotente e permite localizar as ocorrências de um modelo
+ * - Ocorrências já pagas, conciliadas ou vencidas nunca são alteradas
+ */
+
+import {
+  getSheetValues,
+  appendRows,
+  updateRow,
+  deleteRows,
+  createSheetIfNotExists,
+} from '../shared/sheets-client';
+import {
+  SHEET_TB_RECORRENCIAS,
+  SHEET_TB_LANCAMENTOS,
+  TB_RECORRENCIAS_COLS,
+  TB_LANCAMENTOS_COLS,
+} from '../config/sheet-mapping';
+import { RecurrenceTemplate, RecurrenceFrequency, Money } from '../shared/types';
+import { addDays, formatDateISO, getToday, isBusinessDay, BusinessDayOptions } from '../shared/date-utils';
+import { getBusinessDayOptions } from './reference-data-service';
+import { roundMoney } from '../shared/money-utils';
+import { cacheRemoveNamespace, CacheNamespace, CacheScope } from '../shared/cache';
+import {
+  ValidationResult,
+  combineValidations,
+  validateRequired,
+  validateEnum,
+  validateMoney,
+  validateDate,
+  validationError,
+  validationSuccess,
+} from '../shared/validation';
+
+// ============================================================================
+// TIPOS
+// ============================================================================
+
+/**
+ * Ocorrência calculada de um modelo
+ */
+export interface RecurrenceOccurrence {
+  numero: number; // 1-based, a partir da data de início
+  data: Date;
+  valor: Money; // já com reajuste anual
+}
+
+/**
+ * Resultado da geração de lançamentos
+ */
+export interface RecurrenceGenerationResult {
+  modelos: number; // modelos ativos processados
+  gerados: number;
+  ids: string[];
+}
+
+const HEADERS = [
+  'ID', 'Descrição', 'Tipo', 'Filial', 'Centro Custo', 'Conta Gerencial', 'Conta Contábil',
+  'Canal', 'Valor', 'Frequência', 'Intervalo', 'Dia', 'Data Início', 'Data Fim',
+  'Máx Ocorrências', 'Reajuste Anual %', 'Dias Antecedência', 'Ativo', 'Última Geração',
+  'Atualizado Em', 'Observações',
+];
+
+const ORIGEM_RECORRENCIA = 'RECORRENCIA';
+const DEFAULT_DIAS_ANTECEDENCIA = 30;
+const MAX_ITERATIONS = 5000; // proteção contra laços em modelos mal configurados
+const LOCK_TIMEOUT_MS = 5000;
+
+// ============================================================================
+// CONVERSÃO ENTRE SHEET E OBJETO
+// ============================================================================
+
+/**
+ * Converte célula (Date ou yyyy-MM-dd / dd/MM/yyyy) para Date às 00:00
+ */
+function toDate(value: any): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : new Date(value.getFullYear(), value.getMonth(), value.getDate());
+  }
+  const s = String(value || '').trim();
+  let match = /^(\d{4})-(\d{2})-(\d{2})/.exec(s);
+  if (match) return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  match = /^(\d{1,2})\/(\d{1,2})\/(\d{4})/.exec(s);
+  if (match) return new Date(Number(match[3]), Number(match[2]) - 1, Number(match[1]));
+  return null;
+}
+
+function toNumberOrNull(value: any): number | null {
+  if (value === '' || value === null || value === undefined) return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+function toBoolean(value: any): boolean {
+  if (value === true || value === false) return value;
+  return !['FALSE', 'NAO', 'NÃO', '0'].includes(String(value || '').trim().toUpperCase());
+}
+
+function rowToTemplate(row: any[]): RecurrenceTemplate {
+  return {
+    id: String(row[TB_RECORRENCIAS_COLS.ID] || '').trim(),
+    descricao: String(row[TB_RECORRENCIAS_COLS.DESCRICAO] || ''),
+    tipo: String(row[TB_RECORRENCIAS_COLS.TIPO] || '').toUpperCase(),
+    filial: String(row[TB_RECORRENCIAS_COLS.FILIAL] || ''),
+    centroCusto: String(row[TB_RECORRENCIAS_COLS.CENTRO_CUSTO] || '') || null,
+    contaGerencial: String(row[TB_RECORRENCIAS_COLS.CONTA_GERENCIAL] || '') || null,
+    contaContabil: String(row[TB_RECORRENCIAS_COLS.CONTA_CONTABIL] || ''),
+    canal: String(row[TB_RECORRENCIAS_COLS.CANAL] || '') || null,
+    valor: roundMoney(Number(row[TB_RECORRENCIAS_COLS.VALOR]) || 0),
+    frequencia: String(row[TB_RECORRENCIAS_COLS.FREQUENCIA] || '').toUpperCase() as RecurrenceFrequency,
+    intervalo: Math.max(1, Number(row[TB_RECORRENCIAS_COLS.INTERVALO]) || 1),
+    dia: toNumberOrNull(row[TB_RECORRENCIAS_COLS.DIA]),
+    dataInicio: toDate(row[TB_RECORRENCIAS_COLS.DATA_INICIO]) || getToday(),
+    dataFim: toDate(row[TB_RECORRENCIAS_COLS.DATA_FIM]),
+    maxOcorrencias: toNumberOrNull(row[TB_RECORRENCIAS_COLS.MAX_OCORRENCIAS]),
+    reajusteAnual: Number(row[TB_RECORRENCIAS_COLS.REAJUSTE_ANUAL]) || 0,
+    diasAntecedencia:
+      toNumberOrNull(row[TB_RECORRENCIAS_COLS.DIAS_ANTECEDENCIA]) ?? DEFAULT_DIAS_ANTECEDENCIA,
+    ativo: toBoolean(row[TB_RECORRENCIAS_COLS.ATIVO]),
+    ultimaGeracao: toDate(row[TB_RECORRENCIAS_COLS.ULTIMA_GERACAO]),
+    observacoes: String(row[TB_RECORRENCIAS_COLS.OBSERVACOES] || '') || undefined,
+  };
+}
+
+function templateToRow(template: RecurrenceTemplate): any[] {
+  const row = new Array(HEADERS.length).fill('');
+
+  row[TB_RECORRENCIAS_COLS.ID] = template.id;
+  row[TB_RECORRENCIAS_COLS.DESCRICAO] = template.descricao;
+  row[TB_RECORRENCIAS_COLS.TIPO] = template.tipo;
+  row[TB_RECORRENCIAS_COLS.FILIAL] = template.filial;
+  row[TB_RECORRENCIAS_COLS.CENTRO_CUSTO] = template.centroCusto || '';
+  row[TB_RECORRENCIAS_COLS.CONTA_GERENCIAL] = template.contaGerencial || '';
+  row[TB_RECORRENCIAS_COLS.CONTA_CONTABIL] = template.contaContabil;
+  row[TB_RECORRENCIAS_COLS.CANAL] = template.canal || '';
+  row[TB_RECORRENCIAS_COLS.VALOR] = template.valor;
+  row[TB_RECORRENCIAS_COLS.FREQUENCIA] = template.frequencia;
+  row[TB_RECORRENCIAS_COLS.INTERVALO] = template.intervalo;
+  row[TB_RECORRENCIAS_COLS.DIA] = template.dia ?? '';
+  row[TB_RECORRENCIAS_COLS.DATA_INICIO] = formatDateISO(template.dataInicio);
+  row[TB_RECORRENCIAS_COLS.DATA_FIM] = formatDateISO(template.dataFim);
+  row[TB_RECORRENCIAS_COLS.MAX_OCORRENCIAS] = template.maxOcorrencias ?? '';
+  row[TB_RECORRENCIAS_COLS.REAJUSTE_ANUAL] = template.reajusteAnual || 0;
+  row[TB_RECORRENCIAS_COLS.DIAS_ANTECEDENCIA] = template.diasAntecedencia;
+  row[TB_RECORRENCIAS_COLS.ATIVO] = template.ativo ? 'TRUE' : 'FALSE';
+  row[TB_RECORRENCIAS_COLS.ULTIMA_GERACAO] = formatDateISO(template.ultimaGeracao);
+  row[TB_RECORRENCIAS_COLS.ATUALIZADO_EM] = new Date().toISOString();
+  row[TB_RECORRENCIAS_COLS.OBSERVACOES] = template.observacoes || '';
+
+  return row;
+}
+
+/**
+ * Gera ID de modelo (formato: R2025-000001)
+ */
+function generateTemplateId(): string {
+  const year = new Date().getFullYear();
+  const random = Math.floor(Math.random() * 999999)
+    .toString()
+    .padStart(6, '0');
+  return `R${year}-${random}`;
+}
+
+/**
+ * ID do lançamento gerado para uma ocorrência
+ */
+function occurrenceId(templateId: string, date: Date): string {
+  return `${templateId}-${formatDateISO(date).replace(/-/g, '')}`;
+}
+
+// ============================================================================
+// CÁLCULO DE OCORRÊNCIAS
+// ============================================================================
+
+function lastDayOfMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+/**
+ * Data no mês (base 0, pode extrapolar 11) com dia limitado ao fim do mês
+ */
+function dateInMonth(year: number, month: number, day: number): Date {
+  const first = new Date(year, month, 1);
+  const clamped = Math.min(Math.max(1, day), lastDayOfMonth(first.getFullYear(), first.getMonth()));
+  return new Date(first.getFullYear(), first.getMonth(), clamped);
+}
+
+/**
+ * N-ésimo dia útil do mês (ou o último, se o mês tiver menos dias úteis),
+ * considerando feriados nacionais e os locais da filial
+ */
+function nthBusinessDayOfMonth(year: number, month: number, n: number, calendar: BusinessDayOptions): Date {
+  const first = new Date(year, month, 1);
+  const last = lastDayOfMonth(first.getFullYear(), first.getMonth());
+  let count = 0;
+  let found = first;
+  for (let day = 1; day <= last; day++) {
+    const date = new Date(first.getFullYear(), first.getMonth(), day);
+    if (!isBusinessDay(date, calendar)) continue;
+    found = date;
+    count++;
+    if (count >= n) break;
+  }
+  return found;
+}
+
+/**
+ * Data da k-ésima iteração do modelo (k = 0, 1, 2...)
+ */
+function iterationDate(template: RecurrenceTemplate, k: number, calendar: BusinessDayOptions): Date {
+  const start = template.dataInicio;
+  const step = template.intervalo * k;
+
+  switch (template.frequencia) {
+    case RecurrenceFrequency.MENSAL:
+      return dateInMonth(start.getFullYear(), start.getMonth() + step, template.dia || start.getDate());
+    case RecurrenceFrequency.ANUAL:
+      return dateInMonth(start.getFullYear() + step, start.getMonth(), template.dia || start.getDate());
+    case RecurrenceFrequency.SEMANAL: {
+      const weekday = template.dia ?? start.getDay();
+      const offset = (weekday - start.getDay() + 7) % 7;
+      return addDays(start, offset + 7 * step);
+    }
+    case RecurrenceFrequency.DIAS:
+      return addDays(start, step);
+    case RecurrenceFrequency.DIA_UTIL:
+      return nthBusinessDayOfMonth(start.getFullYear(), start.getMonth() + step, template.dia || 1, calendar);
+    default:
+      throw new Error(`Frequência inválida: ${template.frequencia}`);
+  }
+}
+
+/**
+ * Anos completos entre a data de início e a ocorrência
+ */
+function fullYearsBetween(start: Date, date: Date): number {
+  let years = date.getFullYear() - start.getFullYear();
+  if (
+    date.getMonth() < start.getMonth() ||
+    (date.getMonth() === start.getMonth() && date.getDate() < start.getDate())
+  ) {
+    years--;
+  }
+  return Math.max(0, years);
+}
+
+/**
+ * Valor da ocorrência com reajuste anual composto
+ */
+function occurrenceValue(template: RecurrenceTemplate, date: Date): Money {
+  if (!template.reajusteAnual) return template.valor;
+  const years = fullYearsBetween(template.dataInicio, date);
+  return roundMoney(template.valor * Math.pow(1 + template.reajusteAnual / 100, years));
+}
+
+/**
+ * Calcula as ocorrências de um modelo em um intervalo
+ *
+ * @param template - Modelo
+ * @param after - Considera apenas datas posteriores (exclusivo); null = desde o início
+ * @param until - Data limite (inclusiva)
+ */
+export function computeOccurrences(
+  template: RecurrenceTemplate,
+  after: Date | null,
+  until: Date
+): RecurrenceOccurrence[] {
+  const occurrences: RecurrenceOccurrence[] = [];
+  const startTime = template.dataInicio.getTime();
+  const calendar: BusinessDayOptions =
+    template.frequencia === RecurrenceFrequency.DIA_UTIL ? getBusinessDayOptions(template.filial || null) : {};
+  let numero = 0;
+
+  for (let k = 0; k < MAX_ITERATIONS; k++) {
+    const date = iterationDate(template, k, calendar);
+    if (date.getTime() < startTime) continue;
+    if (template.dataFim && date.getTime() > template.dataFim.getTime()) break;
+    if (date.getTime() > until.getTime()) break;
+
+    numero++;
+    if (template.maxOcorrencias && numero > template.maxOcorrencias) break;
+    if (after && date.getTime() <= after.getTime()) continue;
+
+    occurrences.push({ numero, data: date, valor: occurrenceValue(template, date) });
+  }
+
+  return occurrences;
+}
+
+// ============================================================================
+// VALIDAÇÃO
+// ============================================================================
+
+/**
+ * Valida modelo de recorrência
+ */
+export function validateRecurrenceTemplate(template: RecurrenceTemplate): ValidationResult {
+  const schedule: string[] = [];
+  const dia = template.dia;
+
+  if (!Number.isInteger(template.intervalo) || template.intervalo < 1) {
+    schedule.push('Intervalo deve ser um inteiro maior que zero');
+  }
+  if (dia !== null) {
+    if (template.frequencia === RecurrenceFrequency.SEMANAL && (dia < 0 || dia > 6)) {
+      schedule.push('Dia da semana deve estar entre 0 (domingo) e 6 (sábado)');
+    } else if (template.frequencia === RecurrenceFrequency.DIA_UTIL && (dia < 1 || dia > 23)) {
+      schedule.push('Dia útil deve estar entre 1 e 23');
+    } else if (
+      [RecurrenceFrequency.MENSAL, RecurrenceFrequency.ANUAL].includes(template.frequencia) &&
+      (dia < 1 || dia > 31)
+    ) {
+      schedule.push('Dia do mês deve estar entre 1 e 31');
+    }
+  }
+  if (template.dataFim && template.dataFim.getTime() < template.dataInicio.getTime()) {
+    schedule.push('Data fim não pode ser anterior à data início');
+  }
+  if (template.maxOcorrencias !== null && template.maxOcorrencias < 1) {
+    schedule.push('Máx ocorrências deve ser maior que zero');
+  }
+  if (template.diasAntecedencia < 0) {
+    schedule.push('Dias de antecedência não pode ser negativo');
+  }
+
+  return combineValidations(
+    validateRequired(template.descricao, 'Descrição'),
+    validateEnum(template.tipo, ['RECEITA', 'DESPESA'], 'Tipo'),
+    validateRequired(template.filial, 'Filial'),
+    validateRequired(template.contaContabil, 'Conta contábil'),
+    validateMoney(template.valor, 'Valor'),
+    validateEnum(template.frequencia, Object.values(RecurrenceFrequency), 'Frequência'),
+    validateDate(template.dataInicio, 'Data início'),
+    schedule.length ? validationError(schedule) : validationSuccess()
+  );
+}
+
+// ============================================================================
+// GERAÇÃO DE LANÇAMENTOS
+// ============================================================================
+
+/**
+ * Linha de TB_LANCAMENTOS (status PENDENTE) para uma ocorrência
+ */
+function occurrenceToLancamentoRow(template: RecurrenceTemplate, occurrence: RecurrenceOccurrence): any[] {
+  const row = new Array(21).fill('');
+  const data = formatDateISO(occurrence.data);
+  const total = template.maxOcorrencias ? `/${template.maxOcorrencias}` : '';
+
+  row[TB_LANCAMENTOS_COLS.ID] = occurrenceId(template.id, occurrence.data);
+  row[TB_LANCAMENTOS_COLS.DATA_COMPETENCIA] = data;
+  row[TB_LANCAMENTOS_COLS.DATA_VENCIMENTO] = data;
+  row[TB_LANCAMENTOS_COLS.TIPO] = template.tipo;
+  row[TB_LANCAMENTOS_COLS.FILIAL] = template.filial;
+  row[TB_LANCAMENTOS_COLS.CENTRO_CUSTO] = template.centroCusto || '';
+  row[TB_LANCAMENTOS_COLS.CONTA_GERENCIAL] = template.contaGerencial || '';
+  row[TB_LANCAMENTOS_COLS.CONTA_CONTABIL] = template.contaContabil;
+  row[TB_LANCAMENTOS_COLS.CANAL] = template.canal || '';
+  row[TB_LANCAMENTOS_COLS.DESCRICAO] = template.descricao;
+  row[TB_LANCAMENTOS_COLS.VALOR_BRUTO] = occurrence.valor;
+  row[TB_LANCAMENTOS_COLS.DESCONTO] = 0;
+  row[TB_LANCAMENTOS_COLS.JUROS] = 0;
+  row[TB_LANCAMENTOS_COLS.MULTA] = 0;
+  row[TB_LANCAMENTOS_COLS.VALOR_LIQUIDO] = occurrence.valor;
+  row[TB_LANCAMENTOS_COLS.STATUS] = 'PENDENTE';
+  row[TB_LANCAMENTOS_COLS.ORIGEM] = ORIGEM_RECORRENCIA;
+  row[TB_LANCAMENTOS_COLS.OBSERVACOES] = `Recorrência ${template.id} | Ocorrência ${occurrence.numero}${total}`;
+
+  return row;
+}
+
+function invalidateLancamentosCaches(): void {
+  cacheRemoveNamespace(CacheNamespace.LANCAMENTOS, CacheScope.SCRIPT);
+  cacheRemoveNamespace(CacheNamespace.DRE, CacheScope.SCRIPT);
+  cacheRemoveNamespace(CacheNamespace.DFC, CacheScope.SCRIPT);
+  cacheRemoveNamespace(CacheNamespace.KPI, CacheScope.SCRIPT);
+  cacheRemoveNamespace(CacheNamespace.DASHBOARD, CacheScope.SCRIPT);
+}
+
+function writeUltimaGeracao(sheetRow: number, date: Date): void {
+  const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(SHEET_TB_RECORRENCIAS);
+  if (!sheet) throw new Error(`Aba "${SHEET_TB_RECORRENCIAS}" não encontrada`);
+  sheet.getRange(sheetRow, TB_RECORRENCIAS_COLS.ULTIMA_GERACAO + 1).setValue(formatDateISO(date));
+}
+
+function loadLancamentoIds(): Set<string> {
+  const ids = new Set<string>();
+  for (const row of getSheetValues(SHEET_TB_LANCAMENTOS, { skipHeader: true })) {
+    const id = String(row[TB_LANCAMENTOS_COLS.ID] || '').trim();
+    if (id) ids.add(id);
+  }
+  return ids;
+}
+
+/**
+ * Gera os lançamentos pendentes de uma lista de modelos (deve estar com lock)
+ *
+ * @returns Modelos atualizados (última geração) e IDs gerados
+ */
+function generateForTemplates(
+  templates: Array<{ template: RecurrenceTemplate; sheetRow: number }>,
+  today: Date
+): RecurrenceGenerationResult {
+  const existingIds = loadLancamentoIds();
+  const rows: any[][] = [];
+  const ids: string[] = [];
+  let modelos = 0;
+
+  for (const { template, sheetRow } of templates) {
+    if (!template.ativo) continue;
+    modelos++;
+
+    const horizon = addDays(today, template.diasAntecedencia);
+    const occurrences = computeOccurrences(template, template.ultimaGeracao, horizon);
+    if (!occurrences.length) continue;
+
+    for (const occurrence of occurrences) {
+      const id = occurrenceId(template.id, occurrence.data);
+      if (existingIds.has(id)) continue;
+      existingIds.add(id);
+      rows.push(occurrenceToLancamentoRow(template, occurrence));
+      ids.push(id);
+    }
+
+    template.ultimaGeracao = occurrences[occurrences.length - 1].data;
+    writeUltimaGeracao(sheetRow, template.ultimaGeracao);
+  }
+
+  if (rows.length) {
+    appendRows(SHEET_TB_LANCAMENTOS, rows);
+    invalidateLancamentosCaches();
+  }
+
+  return { modelos, gerados: rows.length, ids };
+}
+
+/**
+ * Remove as ocorrências futuras ainda pendentes de um modelo
+ * (vencimento >= hoje, status PENDENTE, sem conciliação). Deve estar com lock.
+ */
+function removeFuturePendingOccurrences(templateId: string, today: Date): number {
+  const prefix = `${templateId}-`;
+  const values = getSheetValues(SHEET_TB_LANCAMENTOS, { skipHeader: true });
+  const sheetRows: number[] = [];
+
+  values.forEach((row, idx) => {
+    const id = String(row[TB_LANCAMENTOS_COLS.ID] || '');
+    if (!id.startsWith(prefix)) return;
+    if (String(row[TB_LANCAMENTOS_COLS.STATUS] || '').toUpperCase() !== 'PENDENTE') return;
+    if (String(row[TB_LANCAMENTOS_COLS.ID_EXTRATO_BANCO] || '').trim()) return;
+    const vencimento = toDate(row[TB_LANCAMENTOS_COLS.DATA_VENCIMENTO]);
+    if (!vencimento || vencimento.getTime() < today.getTime()) return;
+    sheetRows.push(idx + 2);
+  });
+
+  // De baixo para cima para não deslocar as linhas seguintes
+  for (let i = sheetRows.length - 1; i >= 0; i--) {
+    deleteRows(SHEET_TB_LANCAMENTOS, sheetRows[i], 1);
+  }
+  if (sheetRows.length) invalidateLancamentosCaches();
+
+  return sheetRows.length;
+}
+
+function loadTemplates(): Array<{ template: RecurrenceTemplate; sheetRow: number }> {
+  createSheetIfNotExists(SHEET_TB_RECORRENCIAS, HEADERS);
+  const result: Array<{ template: RecurrenceTemplate; sheetRow: number }> = [];
+  getSheetValues(SHEET_TB_RECORRENCIAS, { skipHeader: true }).forEach((row, idx) => {
+    if (!String(row[TB_RECORRENCIAS_COLS.ID] || '').trim()) return;
+    result.push({ template: rowToTemplate(row), sheetRow: idx + 2 });
+  });
+  return result;
+}
+
+function withLock<T>(fn: () => T): T {
+  const lock = LockService.getDocumentLock();
+  lock.waitLock(LOCK_TIMEOUT_MS);
+  try {
+    return fn();
+  } finally {
+    try {
+      lock.releaseLock();
+    } catch (_) {}
+  }
+}
+
+// ============================================================================
+// API PÚBLICA
+// ============================================================================
+
+/**
+ * Lista os modelos de recorrência cadastrados
+ */
+export function listRecurrenceTemplates(): RecurrenceTemplate[] {
+  return loadTemplates().map((item) => item.template);
+}
+
+/**
+ * Converte dados recebidos do front (strings) em modelo
+ *
+ * @throws Error se a data de início for inválida
+ */
+export function parseRecurrenceTemplateInput(input: any): RecurrenceTemplate {
+  if (!toDate(input?.dataInicio)) {
+    throw new Error('Data início inválida');
+  }
+
+  const row = new Array(HEADERS.length).fill('');
+  row[TB_RECORRENCIAS_COLS.ID] = input?.id || '';
+  row[TB_RECORRENCIAS_COLS.DESCRICAO] = input?.descricao || '';
+  row[TB_RECORRENCIAS_COLS.TIPO] = input?.tipo || '';
+  row[TB_RECORRENCIAS_COLS.FILIAL] = input?.filial || '';
+  row[TB_RECORRENCIAS_COLS.CENTRO_CUSTO] = input?.centroCusto || '';
+  row[TB_RECORRENCIAS_COLS.CONTA_GERENCIAL] = input?.contaGerencial || '';
+  row[TB_RECORRENCIAS_COLS.CONTA_CONTABIL] = input?.contaContabil || '';
+  row[TB_RECORRENCIAS_COLS.CANAL] = input?.canal || '';
+  row[TB_RECORRENCIAS_COLS.VALOR] = input?.valor;
+  row[TB_RECORRENCIAS_COLS.FREQUENCIA] = input?.frequencia || '';
+  row[TB_RECORRENCIAS_COLS.INTERVALO] = input?.intervalo;
+  row[TB_RECORRENCIAS_COLS.DIA] = input?.dia ?? '';
+  row[TB_RECORRENCIAS_COLS.DATA_INICIO] = input?.dataInicio || '';
+  row[TB_RECORRENCIAS_COLS.DATA_FIM] = input?.dataFim || '';
+  row[TB_RECORRENCIAS_COLS.MAX_OCORRENCIAS] = input?.maxOcorrencias ?? '';
+  row[TB_RECORRENCIAS_COLS.REAJUSTE_ANUAL] = input?.reajusteAnual ?? '';
+  row[TB_RECORRENCIAS_COLS.DIAS_ANTECEDENCIA] = input?.diasAntecedencia ?? '';
+  row[TB_RECORRENCIAS_COLS.ATIVO] = input?.ativo ?? true;
+  row[TB_RECORRENCIAS_COLS.OBSERVACOES] = input?.observacoes || '';
+
+  return rowToTemplate(row);
+}
+
+/**
+ * Cria ou atualiza um modelo
+ *
+ * Na edição com aplicarFuturos, as ocorrências futuras ainda pendentes são
+ * removidas e geradas novamente com os dados (e a agenda) atuais do modelo.
+ *
+ * @throws Error se o modelo for inválido ou o ID não existir
+ */
+export function saveRecurrenceTemplate(
+  template: RecurrenceTemplate,
+  aplicarFuturos: boolean = false
+): { template: RecurrenceTemplate; criado: boolean; removidos: number; gerados: number } {
+  const validation = validateRecurrenceTemplate(template);
+  if (!validation.valid) {
+    throw new Error(validation.errors.join('; '));
+  }
+
+  return withLock(() => {
+    const today = getToday();
+    const templates = loadTemplates();
+
+    if (!template.id) {
+      const created = { ...template, id: generateTemplateId(), ultimaGeracao: null };
+      appendRows(SHEET_TB_RECORRENCIAS, [templateToRow(created)]);
+      const sheetRow = templates.length + 2;
+      const generated = generateForTemplates([{ template: created, sheetRow }], today);
+      return { template: created, criado: true, removidos: 0, gerados: generated.gerados };
+    }
+
+    const existing = templates.find((item) => item.template.id === template.id);
+    if (!existing) {
+      throw new Error(`Modelo de recorrência não encontrado: ${template.id}`);
+    }
+
+    const updated: RecurrenceTemplate = { ...template, ultimaGeracao: existing.template.ultimaGeracao };
+    let removidos = 0;
+    let gerados = 0;
+
+    if (aplicarFuturos) {
+      removidos = removeFuturePendingOccurrences(updated.id, today);
+      // Reabre a geração a partir de hoje (ocorrências passadas permanecem)
+      const yesterday = addDays(today, -1);
+      if (!updated.ultimaGeracao || updated.ultimaGeracao.getTime() > yesterday.getTime()) {
+        updated.ultimaGeracao = yesterday;
+      }
+    }
+
+    updateRow(SHEET_TB_RECORRENCIAS, existing.sheetRow, templateToRow(updated));
+
+    if (aplicarFuturos) {
+      gerados = generateForTemplates([{ template: updated, sheetRow: existing.sheetRow }], today).gerados;
+    }
+
+    return { template: updated, criado: false, removidos, gerados };
+  });
+}
+
+/**
+ * Gera os lançamentos pendentes de todos os modelos ativos
+ *
+ * Cada modelo gera as ocorrências com vencimento até hoje + dias de antecedência,
+ * a partir da última geração. Chamado diariamente pelo dailyJob.
+ */
+export function generateRecurringEntries(today: Date = getToday()): RecurrenceGenerationResult {
+  return withLock(() => generateForTemplates(loadTemplates(), today));
+}
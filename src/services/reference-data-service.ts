@@ -5,16 +5,24 @@
  * Lê das abas REF_* e mantém cache.
  *
  * Responsabilidades:
- * - Carregar plano de contas, filiais, canais, centros de custo, naturezas
+ * - Carregar plano de contas, filiais, canais, centros de custo, naturezas,
+ *   feriados, contas bancárias e parceiros (fornecedores/clientes)
  * - Fornecer funções de busca por ID/código
  * - Cachear dados de referência (mudam pouco)
  */
 
-import { getSheetValues } from '../shared/sheets-client';
+import { getSheetValues, sheetExists } from '../shared/sheets-client';
 import { cacheGetOrLoad, CacheNamespace, CacheScope } from '../shared/cache';
-import { Sheets, REF_PLANO_CONTAS_COLS } from '../config/sheet-mapping';
+import {
+  Sheets,
+  REF_PLANO_CONTAS_COLS,
+  REF_FERIADOS_COLS,
+  REF_CONTAS_BANCARIAS_COLS,
+  REF_PARCEIROS_COLS,
+} from '../config/sheet-mapping';
 import {
   Account,
+  BankAccount,
   Branch,
   Channel,
   CostCenter,
@@ -28,7 +36,13 @@ import {
   CostClassification,
   CashflowCategory,
   RevenueGroup,
+  Holiday,
+  HolidayScope,
+  Money,
+  Partner,
+  PartnerType,
 } from '../shared/types';
+import { BusinessDayOptions, getNationalHolidays, formatDateISO, parseDate, parseDateISO } from '../shared/date-utils';
 import { BenchmarkConfig, MetricUnit } from '../config/benchmarks';
 
 // ============================================================================
@@ -168,6 +182,311 @@ export function getActiveBranches(): Branch[] {
   return branches.filter((b) => b.ativa);
 }
 
+// ============================================================================
+// FERIADOS
+// ============================================================================
+
+interface LocalHolidayRow {
+  holiday: Holiday;
+  recorrente: boolean;
+}
+
+function dateCellToISO(value: any): string {
+  if (value instanceof Date) return isNaN(value.getTime()) ? '' : formatDateISO(value);
+  const str = String(value || '').trim();
+  const date = /^\d{4}-\d{2}-\d{2}/.test(str) ? parseDateISO(str.slice(0, 10)) : parseDate(str);
+  return date ? formatDateISO(date) : '';
+}
+
+/**
+ * Carrega feriados estaduais/municipais da planilha
+ */
+function loadHolidaysFromSheet(): LocalHolidayRow[] {
+  // Planilhas anteriores ao cadastro de feriados: só os nacionais valem
+  if (!sheetExists(Sheets.REF_FERIADOS)) return [];
+  const values = getSheetValues(Sheets.REF_FERIADOS, { skipHeader: true });
+  const holidays: LocalHolidayRow[] = [];
+
+  for (const row of values) {
+    if (!row || row.length === 0) continue;
+    const ativo = row[REF_FERIADOS_COLS.ATIVO];
+    if (ativo === false || String(ativo).toUpperCase() === 'FALSE') continue;
+
+    const data = dateCellToISO(row[REF_FERIADOS_COLS.DATA]);
+    if (!data) continue;
+
+    const abrangencia = String(row[REF_FERIADOS_COLS.ABRANGENCIA] || '').trim().toUpperCase();
+    const recorrente = row[REF_FERIADOS_COLS.RECORRENTE];
+    holidays.push({
+      holiday: {
+        data,
+        descricao: String(row[REF_FERIADOS_COLS.DESCRICAO] || '').trim(),
+        abrangencia: abrangencia === HolidayScope.ESTADUAL ? HolidayScope.ESTADUAL : HolidayScope.MUNICIPAL,
+        filial: String(row[REF_FERIADOS_COLS.FILIAL] || '').trim() || null,
+      },
+      recorrente: recorrente === true || String(recorrente).toUpperCase() === 'TRUE',
+    });
+  }
+
+  return holidays;
+}
+
+function getLocalHolidayRows(): LocalHolidayRow[] {
+  return cacheGetOrLoad(
+    CacheNamespace.REFERENCE,
+    'holidays',
+    loadHolidaysFromSheet,
+    3600,
+    CacheScope.SCRIPT
+  );
+}
+
+function appliesToBranch(holiday: Holiday, filial?: BranchId | null): boolean {
+  return !holiday.filial || (!!filial && holiday.filial === filial);
+}
+
+/**
+ * Feriados de um ano (nacionais + locais da filial; sem filial, só os que valem para todas)
+ */
+export function getHolidays(year: number, filial?: BranchId | null): Holiday[] {
+  const locais = getLocalHolidayRows()
+    .filter((item) => appliesToBranch(item.holiday, filial))
+    .map((item) => {
+      if (!item.recorrente) return item.holiday;
+      return { ...item.holiday, data: `${year}${item.holiday.data.slice(4)}` };
+    })
+    .filter((h) => h.data.startsWith(`${year}-`));
+
+  return [...getNationalHolidays(year), ...locais].sort((a, b) => a.data.localeCompare(b.data));
+}
+
+/**
+ * Opções de calendário (feriados locais) para as funções de dia útil de date-utils
+ *
+ * Feriados recorrentes entram como dia/mês e valem para qualquer ano consultado.
+ */
+export function getBusinessDayOptions(
+  filial?: BranchId | null,
+  options: { sabadoUtil?: boolean } = {}
+): BusinessDayOptions {
+  const feriados = new Set<string>();
+  const feriadosRecorrentes = new Set<string>();
+
+  for (const item of getLocalHolidayRows()) {
+    if (!appliesToBranch(item.holiday, filial)) continue;
+    if (item.recorrente) {
+      feriadosRecorrentes.add(item.holiday.data.slice(5));
+    } else {
+      feriados.add(item.holiday.data);
+    }
+  }
+
+  return { feriados, feriadosRecorrentes, sabadoUtil: !!options.sabadoUtil };
+}
+
+// ============================================================================
+// CONTAS BANCÁRIAS
+// ============================================================================
+
+function toMoneyOrNull(value: any): Money | null {
+  if (value === '' || value === null || value === undefined) return null;
+  const num = parseFloat(value);
+  return isNaN(num) ? null : num;
+}
+
+/**
+ * Carrega contas bancárias da planilha
+ */
+function loadBankAccountsFromSheet(): BankAccount[] {
+  // Planilhas anteriores ao cadastro de contas bancárias: nenhuma conta cadastrada
+  if (!sheetExists(Sheets.REF_CONTAS_BANCARIAS)) return [];
+  const values = getSheetValues(Sheets.REF_CONTAS_BANCARIAS, { skipHeader: true });
+  const accounts: BankAccount[] = [];
+  const C = REF_CONTAS_BANCARIAS_COLS;
+
+  for (const row of values) {
+    if (!row || row.length === 0) continue;
+
+    const ativa = row[C.ATIVA];
+    const dataSaldo = dateCellToISO(row[C.DATA_SALDO_INICIAL]);
+    const account: BankAccount = {
+      id: String(row[C.ID] || '').trim(),
+      banco: String(row[C.BANCO] || '').trim(),
+      agencia: String(row[C.AGENCIA] || '').trim(),
+      conta: String(row[C.CONTA] || '').trim(),
+      descricao: String(row[C.DESCRICAO] || '').trim(),
+      filial: String(row[C.FILIAL] || '').trim(),
+      saldoInicial: parseFloat(row[C.SALDO_INICIAL]) || 0,
+      dataSaldoInicial: dataSaldo ? parseDateISO(dataSaldo) : null,
+      ativa: ativa !== false && String(ativa).toUpperCase() !== 'FALSE',
+      saldoMinimo: toMoneyOrNull(row[C.SALDO_MINIMO]),
+    };
+
+    if (account.id) {
+      accounts.push(account);
+    }
+  }
+
+  return accounts;
+}
+
+/**
+ * Obtém todas as contas bancárias (com cache)
+ *
+ * Datas não sobrevivem à serialização do cache; são reconstruídas aqui.
+ */
+export function getAllBankAccounts(): BankAccount[] {
+  const accounts = cacheGetOrLoad(
+    CacheNamespace.REFERENCE,
+    'bankAccounts',
+    loadBankAccountsFromSheet,
+    3600,
+    CacheScope.SCRIPT
+  );
+  return accounts.map((a) => ({
+    ...a,
+    dataSaldoInicial: a.dataSaldoInicial ? new Date(a.dataSaldoInicial) : null,
+  }));
+}
+
+/**
+ * Lista apenas contas bancárias ativas
+ */
+export function getActiveBankAccounts(): BankAccount[] {
+  return getAllBankAccounts().filter((a) => a.ativa);
+}
+
+/**
+ * Busca conta bancária por ID
+ */
+export function getBankAccountById(id: string): BankAccount | null {
+  const key = String(id || '').trim().toUpperCase();
+  return getAllBankAccounts().find((a) => a.id.toUpperCase() === key) || null;
+}
+
+function digitsOnly(value: string): string {
+  return String(value || '').replace(/\D/g, '');
+}
+
+/**
+ * Resolve a conta cadastrada a partir do texto livre de um extrato/importação
+ *
+ * Aceita o ID da conta (ex.: "ITAU_MATRIZ") ou agência/conta em qualquer
+ * formatação ("1234/56789-0", "1234 567890", só "56789-0"). Quando o banco
+ * é informado, desempata contas com o mesmo número em bancos diferentes.
+ */
+export function findBankAccount(contaText: string, banco?: string | null): BankAccount | null {
+  const text = String(contaText || '').trim();
+  if (!text) return null;
+
+  const byId = getBankAccountById(text);
+  if (byId) return byId;
+
+  const digits = digitsOnly(text);
+  if (!digits) return null;
+
+  const candidates = getAllBankAccounts().filter((a) => {
+    const conta = digitsOnly(a.conta);
+    if (!conta) return false;
+    return digits === digitsOnly(a.agencia) + conta || digits === conta;
+  });
+  if (candidates.length <= 1) return candidates[0] || null;
+
+  const bancoKey = digitsOnly(banco || '') || String(banco || '').trim().toUpperCase();
+  if (!bancoKey) return null;
+  const sameBank = candidates.filter(
+    (a) => digitsOnly(a.banco) === bancoKey || a.banco.toUpperCase() === bancoKey
+  );
+  return sameBank.length === 1 ? sameBank[0] : null;
+}
+
+// ============================================================================
+// PARCEIROS (FORNECEDORES / CLIENTES)
+// ============================================================================
+
+function parsePartnerType(value: any): PartnerType {
+  const tipo = String(value || '').trim().toUpperCase();
+  if (tipo === PartnerType.CLIENTE) return PartnerType.CLIENTE;
+  if (tipo === PartnerType.AMBOS) return PartnerType.AMBOS;
+  return PartnerType.FORNECEDOR;
+}
+
+/**
+ * Converte uma linha de REF_PARCEIROS (usado também pelo partner-service,
+ * que lê a aba sem cache para gerar IDs)
+ */
+export function rowToPartner(row: any[]): Partner | null {
+  const C = REF_PARCEIROS_COLS;
+  const id = String(row[C.ID] || '').trim();
+  if (!id) return null;
+
+  const ativo = row[C.ATIVO];
+  const prazo = parseInt(String(row[C.PRAZO_PAGAMENTO] ?? ''), 10);
+  return {
+    id,
+    tipo: parsePartnerType(row[C.TIPO]),
+    documento: String(row[C.DOCUMENTO] || '').replace(/\D/g, ''),
+    razaoSocial: String(row[C.RAZAO_SOCIAL] || '').trim(),
+    nomeFantasia: String(row[C.NOME_FANTASIA] || '').trim(),
+    contaContabil: String(row[C.CONTA_CONTABIL] || '').trim() || null,
+    centroCusto: String(row[C.CENTRO_CUSTO] || '').trim() || null,
+    prazoPagamento: Number.isFinite(prazo) && prazo >= 0 ? prazo : null,
+    banco: String(row[C.BANCO] || '').trim(),
+    agencia: String(row[C.AGENCIA] || '').trim(),
+    conta: String(row[C.CONTA] || '').trim(),
+    chavePix: String(row[C.CHAVE_PIX] || '').trim(),
+    ativo: ativo !== false && String(ativo).toUpperCase() !== 'FALSE',
+    origem: String(row[C.ORIGEM] || '').trim(),
+  };
+}
+
+/**
+ * Carrega parceiros da planilha
+ */
+function loadPartnersFromSheet(): Partner[] {
+  // Aba criada na primeira gravação (planilhas anteriores ao cadastro de parceiros)
+  if (!sheetExists(Sheets.REF_PARCEIROS)) return [];
+  const values = getSheetValues(Sheets.REF_PARCEIROS, { skipHeader: true });
+  const partners: Partner[] = [];
+
+  for (const row of values) {
+    if (!row || row.length === 0) continue;
+    const partner = rowToPartner(row);
+    if (partner) partners.push(partner);
+  }
+
+  return partners;
+}
+
+/**
+ * Obtém todos os parceiros (com cache)
+ */
+export function getAllPartners(): Partner[] {
+  return cacheGetOrLoad(
+    CacheNamespace.REFERENCE,
+    'partners',
+    loadPartnersFromSheet,
+    3600,
+    CacheScope.SCRIPT
+  );
+}
+
+/**
+ * Lista apenas parceiros ativos
+ */
+export function getActivePartners(): Partner[] {
+  return getAllPartners().filter((p) => p.ativo);
+}
+
+/**
+ * Busca parceiro por ID
+ */
+export function getPartnerById(id: string): Partner | null {
+  const key = String(id || '').trim().toUpperCase();
+  if (!key) return null;
+  return getAllPartners().find((p) => p.id.toUpperCase() === key) || null;
+}
+
 // ============================================================================
 // CANAIS
 // ============================================================================
@@ -390,4 +709,7 @@ export function reloadReferenceCache(): void {
   loadCostCentersFromSheet();
   loadNaturesFromSheet();
   loadBenchmarksFromSheet();
+  loadHolidaysFromSheet();
+  loadBankAccountsFromSheet();
+  loadPartnersFromSheet();
 }
@@ -15,11 +15,11 @@ import { Sheets } from '../config/sheet-mapping';
 import { Period, BranchId, Money, LedgerEntryStatus, LedgerEntryType } from '../shared/types';
 import { formatMoney, formatPercentage } from '../shared/money-utils';
 import { formatDate } from '../shared/date-utils';
-import { calculateDRE } from './dre-service';
+import { calculateMultiBranchDRE } from './dre-service';
+import { DRELayoutLineValue } from './dre-layout-service';
 import { calculateKPIs } from './kpi-analytics-service';
 import { calculateRealCashflow } from './cashflow-service';
 import { listEntries } from './ledger-service';
-import { getActiveBranches } from './reference-data-service';
 
 // ============================================================================
 // ESTRUTURAS DE RELATÓRIOS
@@ -53,6 +53,7 @@ export interface DREReport {
     lucroLiquido: Money;
     margemLiquida: number;
   };
+  estrutura: DRELayoutLineValue[]; // linhas do consolidado na ordem de CFG_DRE_LAYOUT
   porFilial: Array<{
     filial: BranchId;
     receitaLiquida: Money;
@@ -157,17 +158,13 @@ export function generateFaturamentoReport(period: Period): FaturamentoReport {
  * Gera relatório DRE consolidado
  */
 export function generateDREReport(period: Period): DREReport {
-  const dreConsolidado = calculateDRE(period, null);
-
-  const branches = getActiveBranches();
-  const porFilial = branches.map((branch) => {
-    const dre = calculateDRE(period, branch.id);
-    return {
-      filial: branch.id,
-      receitaLiquida: dre.summary.receitaLiquida,
-      ebitda: dre.summary.ebitda,
-    };
-  });
+  const [dreConsolidado, ...dresFiliais] = calculateMultiBranchDRE(period);
+
+  const porFilial = dresFiliais.map((dre) => ({
+    filial: dre.branchId as BranchId,
+    receitaLiquida: dre.summary.receitaLiquida,
+    ebitda: dre.summary.ebitda,
+  }));
 
   return {
     period,
@@ -180,6 +177,7 @@ export function generateDREReport(period: Period): DREReport {
       lucroLiquido: dreConsolidado.summary.lucroLiquido,
       margemLiquida: dreConsolidado.summary.margemLiquida,
     },
+    estrutura: dreConsolidado.estrutura,
     porFilial,
   };
 }
@@ -331,21 +329,21 @@ export function persistFaturamentoReport(report: FaturamentoReport): void {
 }
 
 /**
- * Persiste relatório DRE em RPT_COMITE_DRE
+ * Persiste relatório DRE em RPT_COMITE_DRE (linhas na ordem de CFG_DRE_LAYOUT)
  */
 export function persistDREReport(report: DREReport): void {
   createSheetIfNotExists(Sheets.RPT_COMITE_DRE, ['Item', 'Valor']);
   const rows: any[][] = [
-    ['Resumo DRE', 'Valor'],
-    ['Receita Bruta', formatMoney(report.resumo.receitaBruta)],
-    ['Receita Liquida', formatMoney(report.resumo.receitaLiquida)],
-    ['Lucro Bruto', formatMoney(report.resumo.lucroBruto)],
-    ['EBITDA', formatMoney(report.resumo.ebitda)],
-    ['EBITDA %', formatPercentage(report.resumo.ebitdaPct)],
-    ['Lucro Liquido', formatMoney(report.resumo.lucroLiquido)],
-    ['Margem Liquida', formatPercentage(report.resumo.margemLiquida)],
-    ['', ''],
-    ['Por Filial', ''],
+    ['Resumo DRE', 'Valor', '% Receita Liquida'],
+    ...report.estrutura.map((linha) => [
+      `${'    '.repeat(linha.nivel)}${linha.descricao}`,
+      formatMoney(linha.valor),
+      linha.percentual === null ? '' : formatPercentage(linha.percentual),
+    ]),
+    ['EBITDA %', formatPercentage(report.resumo.ebitdaPct), ''],
+    ['Margem Liquida', formatPercentage(report.resumo.margemLiquida), ''],
+    ['', '', ''],
+    ['Por Filial', '', ''],
     ['Filial', 'Receita Liquida', 'EBITDA'],
     ...report.porFilial.map((item) => [item.filial, formatMoney(item.receitaLiquida), formatMoney(item.ebitda)]),
   ];
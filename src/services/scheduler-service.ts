@@ -15,13 +15,21 @@ import { getCurrentPeriod, Period } from '../shared/types';
 import { ConfigService } from './config-service';
 import { reloadReferenceCache } from './reference-data-service';
 import { autoReconcile } from './reconciliation-service';
-import { calculateDRE, persistDREMensal, persistDREResumo, validateDREAgainstLedger } from './dre-service';
+import { generateRecurringEntries } from './recurrence-service';
+import { markOverdueEntries } from './aging-service';
+import { checkStatementContinuity } from './bank-balance-service';
+import { getDailyCashPosition } from './cash-position-service';
 import {
-  calculateRealCashflow,
-  persistRealCashflow,
-  calculateForecastCashflow,
-  persistForecastCashflow,
-} from './cashflow-service';
+  calculateMultiBranchDRE,
+  comparePersistedDRE,
+  loadDREEntries,
+  DRERegime,
+  persistDREMensal,
+  persistDREResumo,
+  validateDREAgainstLedger,
+} from './dre-service';
+import { calculateRealCashflow, persistRealCashflow } from './cashflow-service';
+import { runForecastScenarios } from './forecast-service';
 import { calculateKPIs, persistKPIs } from './kpi-analytics-service';
 import {
   generateCommitteeReport,
@@ -104,6 +112,9 @@ export function listActiveTriggers(): Array<{
  * Tarefas:
  * - Recarregar cache de configurações e referências
  * - Conciliação automática de extratos
+ * - Gerar lançamentos recorrentes (TB_RECORRENCIAS)
+ * - Marcar como VENCIDA os lançamentos pendentes vencidos (com carência)
+ * - Apontar dias da posição de caixa abaixo do saldo mínimo
  * - Atualizar KPIs do dia anterior
  * - Verificar limites de quota
  *
@@ -119,7 +130,7 @@ export function dailyJob(): void {
     // ========================================================================
     // 1. Recarregar cache
     // ========================================================================
-    console.log('[1/4] Recarregando cache...');
+    console.log('[1/8] Recarregando cache...');
     ConfigService.reloadCache();
     reloadReferenceCache();
 
@@ -127,21 +138,63 @@ export function dailyJob(): void {
     // 2. Conciliação automática
     // ========================================================================
     if (ConfigService.isAutoReconciliationEnabled()) {
-      console.log('[2/4] Executando conciliação automática...');
+      console.log('[2/8] Executando conciliação automática...');
       const reconciled = autoReconcile(80); // Min 80% de confiança
       console.log(`  → ${reconciled} conciliações realizadas`);
     }
 
     // ========================================================================
-    // 3. Atualizar KPIs do dia anterior (se necessário)
+    // 3. Lançamentos recorrentes
     // ========================================================================
-    console.log('[3/4] Atualizando KPIs...');
+    console.log('[3/8] Gerando lançamentos recorrentes...');
+    const recurring = generateRecurringEntries();
+    console.log(`  → ${recurring.gerados} lançamentos gerados (${recurring.modelos} modelos ativos)`);
+
+    // ========================================================================
+    // 4. Vencidos
+    // ========================================================================
+    console.log('[4/8] Atualizando vencidos...');
+    const overdue = markOverdueEntries();
+    console.log(`  → ${overdue.vencidos} lançamentos marcados como VENCIDA (${overdue.verificados} pendentes)`);
+
+    // ========================================================================
+    // 5. Continuidade dos extratos bancários
+    // ========================================================================
+    console.log('[5/8] Verificando continuidade dos extratos...');
+    const continuity = checkStatementContinuity();
+    console.log(`  → ${continuity.issues.length} quebras de saldo (${continuity.verificados} linhas, ${continuity.naoIdentificados} sem conta cadastrada)`);
+    continuity.issues.forEach((issue) => {
+      console.warn(
+        `  ! ${issue.contaId} ${issue.data} ${issue.extratoId}: esperado ${issue.saldoEsperado}, informado ${issue.saldoInformado} (${issue.provavelCausa})`
+      );
+    });
+
+    // ========================================================================
+    // 6. Posição de caixa diária: dias abaixo do saldo mínimo
+    // ========================================================================
+    console.log('[6/8] Projetando posição de caixa diária...');
+    const position = getDailyCashPosition();
+    const diasAbaixo = position.dias.filter((d) => d.abaixoMinimo).length;
+    console.log(`  → menor saldo ${position.menorSaldo.valor.toFixed(2)} em ${position.menorSaldo.data}; ${diasAbaixo} dia(s) abaixo do mínimo consolidado`);
+    if (position.primeiroDiaAbaixo) {
+      console.warn(`  ! Saldo consolidado abaixo de ${position.saldoMinimo.toFixed(2)} a partir de ${position.primeiroDiaAbaixo}`);
+    }
+    position.contas
+      .filter((c) => c.primeiroDiaAbaixo)
+      .forEach((c) => {
+        console.warn(`  ! ${c.contaId}: ${c.diasAbaixoMinimo} dia(s) abaixo de ${c.saldoMinimo}, a partir de ${c.primeiroDiaAbaixo}`);
+      });
+
+    // ========================================================================
+    // 7. Atualizar KPIs do dia anterior (se necessário)
+    // ========================================================================
+    console.log('[7/8] Atualizando KPIs...');
     // TODO: Implementar atualização incremental de KPIs
 
     // ========================================================================
-    // 4. Verificar limites
+    // 8. Verificar limites
     // ========================================================================
-    console.log('[4/4] Verificando limites...');
+    console.log('[8/8] Verificando limites...');
     checkLimits();
 
     const duration = (new Date().getTime() - startTime) / 1000;
@@ -162,8 +215,8 @@ export function dailyJob(): void {
  * Executa no primeiro dia do mês para processar o mês anterior
  *
  * Tarefas:
- * - Calcular DRE do mês anterior
- * - Calcular DFC do mês anterior
+ * - Calcular DRE do mês anterior (competência e caixa)
+ * - Calcular DFC do mês anterior e a projeção de caixa dos cenários ativos
  * - Calcular KPIs do mês anterior
  * - Gerar relatórios para comitê
  * - Persistir em abas TB_* e RPT_*
@@ -171,6 +224,8 @@ export function dailyJob(): void {
  * IMPORTANTE:
  * - Pode demorar vários minutos
  * - Considerar dividir em sub-jobs se ultrapassar 6min
+ * - Divergência entre TB_DRE_MENSAL e a DRE calculada faz a execução falhar antes
+ *   de gravar DFC, KPIs e relatórios (lançamento não classificado é só aviso)
  */
 export function monthlyClosing(): void {
   const startTime = new Date().getTime();
@@ -190,16 +245,42 @@ export function monthlyClosing(): void {
     // 1. Calcular e persistir DRE
     // ========================================================================
     console.log('[1/5] Calculando DRE...');
-    const dre = calculateDRE(previousPeriod, null);
-    persistDREMensal(dre);
-    persistDREResumo(dre);
-    console.log(`  → DRE calculado: EBITDA = R$ ${dre.summary.ebitda.toFixed(2)}`);
-    const valid = validateDREAgainstLedger(dre);
-    if (!valid) {
-      console.warn('  ⚠️ DRE divergente dos lançamentos (sanity check)');
+    const divergenciasDRE: string[] = [];
+    [DRERegime.COMPETENCIA, DRERegime.CAIXA].forEach((regime) => {
+      const [dre, ...dresFiliais] = calculateMultiBranchDRE(previousPeriod, true, regime);
+      persistDREMensal(dre);
+      persistDREResumo(dre);
+      dresFiliais.forEach((dreFilial) => persistDREMensal(dreFilial));
+      console.log(`  → DRE ${regime} calculado: EBITDA = R$ ${dre.summary.ebitda.toFixed(2)} (${dresFiliais.length} filiais)`);
+      const valid = validateDREAgainstLedger(dre);
+      if (!valid) {
+        // Inclui lançamentos sem conta classificável: aviso, não impede o fechamento
+        console.warn(`  ⚠️ DRE ${regime} divergente dos lançamentos (sanity check)`);
+      }
+
+      // TB_DRE_MENSAL deve mostrar o mesmo que a tela (getDREMensal)
+      const lancamentosDRE = loadDREEntries(previousPeriod, null, regime);
+      [dre, ...dresFiliais].forEach((statement) => {
+        const divergencias = comparePersistedDRE(previousPeriod, statement.branchId, lancamentosDRE, regime);
+        divergencias.forEach((d) => {
+          divergenciasDRE.push(
+            `TB_DRE_MENSAL ${regime} ${statement.branchId || 'consolidado'} ${d.codigo}: ` +
+            `persistido ${d.persistido === null ? '-' : d.persistido.toFixed(2)} x calculado ${d.calculado.toFixed(2)}`
+          );
+        });
+      });
+    });
+    divergenciasDRE.forEach((d) => console.warn(`  ⚠️ ${d}`));
+
+    // DRE gravada diferente da calculada: interrompe antes de DFC, KPIs e
+    // relatórios gravarem sobre um fechamento inconsistente
+    if (divergenciasDRE.length > 0) {
+      throw new Error(
+        `Fechamento ${previousPeriod.year}-${previousPeriod.month} com ${divergenciasDRE.length} divergência(s) em TB_DRE_MENSAL: ` +
+        divergenciasDRE.slice(0, 5).join('; ') +
+        (divergenciasDRE.length > 5 ? '; ...' : '')
+      );
     }
-
-    // TODO: Calcular DRE por filial
     checkExecutionTime(startTime, 'DRE');
 
     // ========================================================================
@@ -211,13 +292,19 @@ export function monthlyClosing(): void {
     console.log(`  → ${cashflow.length} movimentações de caixa`);
 
     if (ConfigService.isDFCProjectionEnabled()) {
-      const forecast = calculateForecastCashflow(previousPeriod, {
-        horizonMonths: 3,
-        includePrevisto: true,
-        saldoInicial: 0,
-      });
-      persistForecastCashflow(forecast);
-      console.log(`  → ${forecast.length} linhas de projeção de caixa`);
+      const lock = LockService.getDocumentLock();
+      lock.waitLock(10000);
+      try {
+        const forecasts = runForecastScenarios({ meses: 12 });
+        forecasts.forEach((f) => {
+          const menor = f.menorSaldo ? `menor saldo ${f.menorSaldo.valor.toFixed(2)} em ${f.menorSaldo.periodo}` : 'sem meses';
+          console.log(`  → Projeção ${f.cenario.id}: ${menor}`);
+        });
+      } finally {
+        try {
+          lock.releaseLock();
+        } catch (_) {}
+      }
     }
 
     checkExecutionTime(startTime, 'DFC');
@@ -250,11 +337,23 @@ export function monthlyClosing(): void {
     console.log('[5/5] Enviando notificações...');
     // TODO: Enviar e-mail ou notificação de conclusão
 
+    // DRE gravada diferente da calculada: os demais passos já rodaram, mas o
+    // fechamento não pode constar como concluído
+    if (divergenciasDRE.length > 0) {
+      throw new Error(
+        `Fechamento ${previousPeriod.year}-${previousPeriod.month} com ${divergenciasDRE.length} divergência(s) na DRE: ` +
+        divergenciasDRE.slice(0, 5).join('; ') +
+        (divergenciasDRE.length > 5 ? '; ...' : '')
+      );
+    }
+
     const duration = (new Date().getTime() - startTime) / 1000;
     console.log(`=== Fechamento mensal concluído em ${duration}s ===`);
   } catch (error) {
     console.error('Erro no fechamento mensal:', error);
-    // TODO: Enviar notificação de erro crítico
+    // Relança para a execução do gatilho constar como falha (o Apps Script
+    // avisa o dono do gatilho por e-mail)
+    throw error;
   }
 }
 
@@ -314,6 +413,7 @@ export function backupJob(): { filesCreated: number; folderUrl: string; stamp: s
     Sheets.TB_DRE_RESUMO,
     Sheets.TB_DFC_REAL,
     Sheets.TB_DFC_PROJ,
+    Sheets.TB_ORCAMENTO,
     Sheets.TB_KPI_RESUMO,
     Sheets.TB_KPI_DETALHE,
     Sheets.RPT_COMITE_FATURAMENTO,
@@ -15,13 +15,16 @@ import {
   CacheNamespace,
   CacheScope,
 } from '../shared/cache';
-import { combineValidations, validateEnum, validateRequired } from '../shared/validation';
+import { combineValidations, validateEnum, validateRequired, validationSuccess } from '../shared/validation';
+import { parseDateISO, formatDateISO, previousBusinessDay } from '../shared/date-utils';
 import {
   SHEET_TB_LANCAMENTOS,
   SHEET_TB_EXTRATOS,
   SHEET_TB_IMPORT_FC,
   SHEET_TB_IMPORT_ITAU,
   SHEET_TB_IMPORT_SIEG,
+  SHEET_TB_IMPORT_CARTAO_VENDAS,
+  SHEET_TB_IMPORT_CARTAO_LIQUIDACOES,
   SHEET_TB_CAIXAS,
   SHEET_TB_CAIXAS_MOV,
   SHEET_REF_CAIXA_TIPOS,
@@ -30,13 +33,127 @@ import {
   SHEET_REF_CCUSTO,
   SHEET_REF_PLANO_CONTAS,
   SHEET_CFG_CONFIG,
+  TB_LANCAMENTOS_COLS,
   TB_IMPORT_FC_COLS,
   TB_IMPORT_ITAU_COLS,
   TB_IMPORT_SIEG_COLS,
+  TB_IMPORT_CARTAO_VENDAS_COLS,
+  TB_IMPORT_CARTAO_LIQUIDACOES_COLS,
   TB_CAIXAS_COLS,
   TB_CAIXAS_MOV_COLS,
   REF_CAIXA_TIPOS_COLS,
 } from '../config/sheet-mapping';
+import { parseCnabRetorno, normalizeCnabId, CnabRetorno, CnabTitulo } from '../shared/cnab-parser';
+import { parseNfeXml, isNfeAutorizada, NfeDocumento } from '../shared/nfe-parser';
+import { formatTaxId, normalizeTaxId } from '../shared/tax-id-utils';
+import { roundMoney } from '../shared/money-utils';
+import { importOfxStatement, suggestMatches, suggestMatchesForEntry, reconcilePartial, residualAmount, unreconcile, ORIGEM_EXTRATO } from './reconciliation-service';
+import { AdjustmentKind, Partner, PartnerType } from '../shared/types';
+import {
+  listRecurrenceTemplates,
+  parseRecurrenceTemplateInput,
+  saveRecurrenceTemplate,
+  generateRecurringEntries,
+} from './recurrence-service';
+import {
+  listReconciliationRules,
+  parseReconciliationRuleInput,
+  saveReconciliationRule,
+  previewReconciliationRules,
+  applyReconciliationRules,
+  suggestRuleFromReconciliation,
+} from './reconciliation-rules-service';
+import { buildAgingReport, markOverdueEntries, AgingEntry, AgingReport } from './aging-service';
+import {
+  getAllBankAccounts,
+  getAllPartners,
+  getBusinessDayOptions,
+  getHolidays,
+  getPartnerById,
+} from './reference-data-service';
+import { checkStatementContinuity, getBankBalances, getDailyBalances } from './bank-balance-service';
+import {
+  parsePixTransaction,
+  resolveStatementCounterparties,
+  resolveStatementCounterparty,
+  taxIdsInText,
+} from './counterparty-service';
+import {
+  buildPartnerSummary,
+  linkPartner,
+  linkPartners,
+  parsePartnerInput,
+  partnerDefaults,
+  partnerNameKey,
+  savePartner,
+  PartnerCandidate,
+  PartnerSummaryLine,
+} from './partner-service';
+import {
+  buildBudgetGrid,
+  buildBudgetVariance,
+  budgetByMonth,
+  dreLineValuesFromMensal,
+  loadBudgetEntries,
+  parseBudgetCsv,
+  parseBudgetInputs,
+  projectBudget,
+  resolveBudgetLine,
+  saveBudgetEntries,
+  BUDGET_LINES,
+  BudgetGridRow,
+  BudgetInput,
+  BudgetOrigin,
+  BudgetSaveResult,
+  BudgetVarianceReport,
+  DreLineValues,
+} from './budget-service';
+import {
+  applyScenario,
+  buildForecastBase,
+  getForecastStartingCash,
+  listScenarioOverrides,
+  listScenarios,
+  parseScenarioInput,
+  persistForecast,
+  saveScenario,
+  FORECAST_GROUP_LABELS,
+  ForecastOverride,
+  ForecastResult,
+  ForecastScenario,
+} from './forecast-service';
+import { getCashMovementsForDay, getDailyCashPosition, CashLadder, CashMovement } from './cash-position-service';
+import { DRE_LINE_CODES, getDRELayout } from './dre-layout-service';
+import {
+  applyExpenseRateio,
+  calculateDRE,
+  calculateDREBridge,
+  compareDREPeriods,
+  drillDownDRELine,
+  parseDREComparisonMode,
+  parseDRERegime,
+} from './dre-service';
+import {
+  buildMdrVariance,
+  cardFcKey,
+  getExpectedCardReceivables,
+  normalizeAcquirer,
+  normalizeBrand,
+  normalizeModality,
+  reconcileCardSales,
+} from './card-acquirer-service';
+import {
+  registerImporter,
+  previewImport,
+  commitImport,
+  revertBatch,
+  listBatches,
+  generateBatchId,
+  loadImporterKeys,
+  ImportResult,
+  ImportOptions,
+  ImportBatchSummary,
+} from './import-service';
 
 // ============================================================================
 // VIEW RENDERING
@@ -1894,8 +2011,10 @@ export function getDashboardData(mes?: number, ano?: number, filial?: string, ca
     );
     const receberAtrasadasSnap = lancamentos.filter(l =>
       l.tipo === 'RECEITA' &&
-      l.status === 'PENDENTE' &&
-      new Date(l.dataVencimento) < ref
+      (
+        String(l.status || '').toUpperCase() === 'VENCIDA' ||
+        (String(l.status || '').toUpperCase() === 'PENDENTE' && new Date(l.dataVencimento) < ref)
+      )
     );
     const extratosPendentesSnap = extratos.filter(e => e.statusConciliacao === 'PENDENTE');
     return {
@@ -1974,8 +2093,10 @@ export function getDashboardData(mes?: number, ano?: number, filial?: string, ca
 
   const receberAtrasadas = lancamentos.filter(l =>
     l.tipo === 'RECEITA' &&
-    l.status === 'PENDENTE' &&
-    new Date(l.dataVencimento) < referencia
+    (
+      String(l.status || '').toUpperCase() === 'VENCIDA' ||
+      (String(l.status || '').toUpperCase() === 'PENDENTE' && new Date(l.dataVencimento) < referencia)
+    )
   );
 
   const receitaMes = lancamentos.filter(l =>
@@ -2201,6 +2322,7 @@ export function getContasPagar() {
       vencer30: { quantidade: vencer30.length, valor: sumValues(vencer30) },
       pagas: { quantidade: pagas.length, valor: sumValues(pagas) },
     },
+    aging: buildAgingFromLancamentos(contasPagar),
     contas: contasPagar.map(l => ({
       id: l.id,
       vencimento: l.dataVencimento,
@@ -2209,10 +2331,260 @@ export function getContasPagar() {
       valor: l.valorLiquido,
       status: l.status,
       filial: l.filial,
+      idParcelamento: l.idParcelamento || '',
+      parcela: l.parcela || '',
     })),
   };
 }
 
+// ============================================================================
+// PARCEIROS (FORNECEDORES / CLIENTES)
+// ============================================================================
+
+/**
+ * Lista os parceiros cadastrados (inativos só quando solicitado)
+ */
+export function getParceiros(incluirInativos: boolean = false): { success: boolean; message?: string; data?: Partner[] } {
+  try {
+    enforcePermission('visualizarRelatorios', 'listar parceiros');
+    const data = getAllPartners()
+      .filter((p) => incluirInativos || p.ativo)
+      .sort((a, b) => a.razaoSocial.localeCompare(b.razaoSocial));
+    return { success: true, data };
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * Cria ou atualiza um parceiro
+ */
+export function salvarParceiro(input: any): { success: boolean; message: string; id?: string } {
+  const denied = input?.id
+    ? requirePermission('gerenciarConfig', 'editar parceiro')
+    : requirePermission('gerenciarConfig', 'cadastrar parceiro');
+  if (denied) return denied;
+
+  try {
+    const result = savePartner(parsePartnerInput(input));
+    appendAuditLog('salvarParceiro', { id: result.partner.id, criado: result.criado }, true);
+    return {
+      success: true,
+      message: result.criado ? `Parceiro ${result.partner.id} cadastrado` : 'Parceiro atualizado',
+      id: result.partner.id,
+    };
+  } catch (error: any) {
+    appendAuditLog('salvarParceiro', { id: input?.id, documento: input?.documento }, false, error?.message);
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * Gasto por fornecedor (DESPESA) ou recebíveis por cliente (RECEITA) no período
+ * de competência; lançamentos sem parceiro são somados à parte
+ */
+export function getResumoParceiros(
+  tipo: string,
+  inicio?: string,
+  fim?: string
+): { success: boolean; message?: string; linhas?: PartnerSummaryLine[]; semParceiro?: { quantidade: number; valor: number } } {
+  try {
+    enforcePermission('visualizarRelatorios', 'ver resumo por parceiro');
+    const tipoNorm = String(tipo || '').trim().toUpperCase();
+    const tipoLancamento = tipoNorm === 'RECEBER' || tipoNorm === 'RECEITA' ? 'RECEITA' : 'DESPESA';
+    const de = normalizeDateInput(inicio);
+    const ate = normalizeDateInput(fim);
+    const hoje = formatDateISO(new Date());
+
+    const lancamentos = getLancamentosFromSheet().filter((l) => {
+      if (l.tipo !== tipoLancamento) return false;
+      const status = String(l.status || '').toUpperCase();
+      if (status === 'CANCELADA' || status === 'CANCELADO') return false;
+      const competencia = normalizeDateInput(l.dataCompetencia);
+      return (!de || competencia >= de) && (!ate || competencia <= ate);
+    });
+
+    const semParceiro = { quantidade: 0, valor: 0 };
+    const items = [] as Array<{ parceiroId: string; valor: number; aberto: boolean; vencido: boolean }>;
+    for (const l of lancamentos) {
+      const valor = Number(l.valorLiquido) || 0;
+      if (!l.parceiroId) {
+        semParceiro.quantidade++;
+        semParceiro.valor = Math.round((semParceiro.valor + Math.abs(valor)) * 100) / 100;
+        continue;
+      }
+      const aberto = isAbertoStatus(l.status);
+      const vencimento = normalizeDateInput(l.dataVencimento);
+      items.push({
+        parceiroId: l.parceiroId,
+        valor,
+        aberto,
+        vencido: aberto && (String(l.status).toUpperCase() === 'VENCIDA' || (!!vencimento && vencimento < hoje)),
+      });
+    }
+
+    return { success: true, linhas: buildPartnerSummary(items, getAllPartners()), semParceiro };
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * Preenche o parceiro dos lançamentos antigos: CPF/CNPJ citado na descrição ou
+ * observações (cadastra o parceiro se preciso) ou nome igual ao de um parceiro
+ * já cadastrado
+ */
+export function vincularParceirosLancamentos(): { success: boolean; message: string; vinculados?: number; criados?: number } {
+  const denied = requirePermission('editarLancamentos', 'vincular parceiros aos lançamentos');
+  if (denied) return denied;
+
+  try {
+    const ss = SpreadsheetApp.getActiveSpreadsheet();
+    const sheet = ss.getSheetByName(SHEET_TB_LANCAMENTOS);
+    if (!sheet) throw new Error('Aba de lançamentos não encontrada');
+
+    const lock = LockService.getDocumentLock();
+    lock.waitLock(10000);
+    try {
+      ensureLancamentosExtraColumns(sheet);
+      const lastRow = sheet.getLastRow();
+      if (lastRow < 2) return { success: true, message: 'Nenhum lançamento para vincular', vinculados: 0, criados: 0 };
+
+      const C = TB_LANCAMENTOS_COLS;
+      const values = sheet.getRange(2, 1, lastRow - 1, C.PARCEIRO_ID + 1).getValues();
+      const porDocumento: Array<{ idx: number; candidate: PartnerCandidate }> = [];
+      const porNome: Array<{ idx: number; candidate: PartnerCandidate }> = [];
+
+      values.forEach((row, idx) => {
+        if (String(row[C.PARCEIRO_ID] || '').trim()) return;
+        if (String(row[C.STATUS] || '').toUpperCase() === 'CANCELADA') return;
+        const descricao = String(row[C.DESCRICAO] || '');
+        const nome = contraparteFromLancamento({ descricao });
+        const tipo = partnerTypeFromLancamentoTipo(row[C.TIPO]);
+        const documento = taxIdsInText(`${descricao} ${row[C.OBSERVACOES] || ''}`)[0];
+        if (documento) {
+          porDocumento.push({ idx, candidate: { documento, nome, tipo, origem: 'LANCAMENTO' } });
+        } else if (partnerNameKey(nome)) {
+          porNome.push({ idx, candidate: { nome, tipo, origem: 'LANCAMENTO' } });
+        }
+      });
+
+      const comDocumento = linkPartners(porDocumento.map((item) => item.candidate), { autoCreate: true });
+      const soNome = linkPartners(porNome.map((item) => item.candidate), { autoCreate: false });
+
+      const column = values.map((row) => [row[C.PARCEIRO_ID]]);
+      let vinculados = 0;
+      const assign = (items: Array<{ idx: number }>, ids: Array<string | null>) => {
+        items.forEach((item, k) => {
+          if (!ids[k]) return;
+          column[item.idx][0] = ids[k];
+          vinculados++;
+        });
+      };
+      assign(porDocumento, comDocumento.ids);
+      assign(porNome, soNome.ids);
+
+      if (vinculados) {
+        sheet.getRange(2, C.PARCEIRO_ID + 1, column.length, 1).setValues(column);
+        clearReportsCache();
+      }
+
+      appendAuditLog('vincularParceirosLancamentos', { vinculados, criados: comDocumento.criados }, true);
+      return {
+        success: true,
+        message: `${vinculados} lançamentos vinculados (${comDocumento.criados} parceiros cadastrados)`,
+        vinculados,
+        criados: comDocumento.criados,
+      };
+    } finally {
+      try {
+        lock.releaseLock();
+      } catch (_) {}
+    }
+  } catch (error: any) {
+    appendAuditLog('vincularParceirosLancamentos', {}, false, error?.message);
+    return { success: false, message: error.message };
+  }
+}
+
+// ============================================================================
+// VENCIMENTOS E AGING
+// ============================================================================
+
+/**
+ * Fornecedor/cliente do lançamento: nome do parceiro vinculado ou, sem
+ * parceiro, prefixo da descrição (como nas listagens)
+ */
+function contraparteFromLancamento(l: any, partners?: Map<string, Partner>): string {
+  const partner = l.parceiroId && partners ? partners.get(l.parceiroId) : undefined;
+  if (partner) return partner.nomeFantasia || partner.razaoSocial;
+  return String(l.descricao || '').split('-')[0].trim();
+}
+
+/**
+ * Aging dos títulos em aberto (PENDENTE/VENCIDA) de uma lista de lançamentos
+ */
+function buildAgingFromLancamentos(lancamentos: any[], filtros?: { filial?: string }): AgingReport {
+  const filial = String(filtros?.filial || '').trim();
+  const partners = new Map(getAllPartners().map((p) => [p.id, p]));
+  const entries: AgingEntry[] = [];
+  for (const l of lancamentos) {
+    if (!isAbertoStatus(l.status)) continue;
+    if (filial && String(l.filial || '') !== filial) continue;
+    const vencimento = parseDateISO(normalizeDateInput(l.dataVencimento));
+    if (!vencimento) continue;
+    entries.push({
+      vencimento,
+      valor: Number(l.valorLiquido) || 0,
+      filial: String(l.filial || ''),
+      contraparte: contraparteFromLancamento(l, partners),
+      contaContabil: String(l.contaContabil || ''),
+    });
+  }
+  return buildAgingReport(entries);
+}
+
+/**
+ * Aging de contas a pagar (DESPESA) ou a receber (RECEITA)
+ */
+export function getAgingReport(tipo: string, filtros?: { filial?: string }): AgingReport {
+  enforcePermission('visualizarRelatorios', 'ver aging');
+  const tipoNorm = String(tipo || '').trim().toUpperCase();
+  const tipoLancamento = tipoNorm === 'RECEBER' || tipoNorm === 'RECEITA' ? 'RECEITA' : 'DESPESA';
+  const lancamentos = getLancamentosFromSheet().filter((l) => l.tipo === tipoLancamento);
+  return buildAgingFromLancamentos(lancamentos, filtros);
+}
+
+/**
+ * Feriados do ano (nacionais + locais da filial) usados no calendário de dias úteis
+ */
+export function getFeriados(ano: number, filial?: string) {
+  enforcePermission('visualizarRelatorios', 'listar feriados');
+  const year = Math.floor(Number(ano)) || new Date().getFullYear();
+  return getHolidays(year, String(filial || '').trim() || null);
+}
+
+/**
+ * Executa manualmente a marcação de vencidos (normalmente feita pelo dailyJob)
+ */
+export function atualizarVencidos(): { success: boolean; message: string; vencidos?: number } {
+  try {
+    const denied = requirePermission('editarLancamentos', 'atualizar vencidos');
+    if (denied) return denied;
+    const result = markOverdueEntries();
+    appendAuditLog('atualizarVencidos', { verificados: result.verificados, vencidos: result.vencidos }, true);
+    if (result.vencidos) clearReportsCache();
+    return {
+      success: true,
+      message: `${result.vencidos} lançamento(s) marcados como vencidos`,
+      vencidos: result.vencidos,
+    };
+  } catch (error: any) {
+    appendAuditLog('atualizarVencidos', {}, false, error?.message);
+    return { success: false, message: error.message };
+  }
+}
+
 export function pagarConta(id: string): { success: boolean; message: string } {
   try {
     const denied = requirePermission('aprovarPagamentos', 'pagar conta');
@@ -2240,7 +2612,7 @@ export function pagarConta(id: string): { success: boolean; message: string } {
       if (!row) throw new Error('Conta não encontrada');
 
       const currentStatus = String(sheet.getRange(row, statusCol + 1).getDisplayValue() || '').toUpperCase();
-      if (currentStatus !== 'PENDENTE') {
+      if (!isAbertoStatus(currentStatus)) {
         return { success: false, message: `Conta não está pendente (status: ${currentStatus})` };
       }
 
@@ -2310,7 +2682,7 @@ export function pagarContasEmLote(ids: string[]): { success: boolean; message: s
         }
 
         const currentStatus = String(sheet.getRange(row, statusCol + 1).getDisplayValue() || '').toUpperCase();
-        if (currentStatus !== 'PENDENTE') {
+        if (!isAbertoStatus(currentStatus)) {
           errors.push(`${wanted}: status ${currentStatus}`);
           continue;
         }
@@ -2488,6 +2860,7 @@ export function getContasReceber() {
       receber30: { quantidade: receber30.length, valor: sumValues(receber30) },
       recebidas: { quantidade: recebidas.length, valor: sumValues(recebidas) },
     },
+    aging: buildAgingFromLancamentos(contasReceber),
     contas: contasReceber.map(l => ({
       id: l.id,
       vencimento: l.dataVencimento,
@@ -2496,6 +2869,8 @@ export function getContasReceber() {
       valor: l.valorLiquido,
       status: l.status,
       canal: l.canal || 'N/A',
+      idParcelamento: l.idParcelamento || '',
+      parcela: l.parcela || '',
     })),
   };
 }
@@ -2527,7 +2902,7 @@ export function receberConta(id: string): { success: boolean; message: string }
       if (!row) throw new Error('Conta não encontrada');
 
       const currentStatus = String(sheet.getRange(row, statusCol + 1).getDisplayValue() || '').toUpperCase();
-      if (currentStatus !== 'PENDENTE') {
+      if (!isAbertoStatus(currentStatus)) {
         return { success: false, message: `Conta não está pendente (status: ${currentStatus})` };
       }
 
@@ -2547,6 +2922,123 @@ export function receberConta(id: string): { success: boolean; message: string }
   }
 }
 
+/**
+ * Recebimento a aplicar em um lançamento (baixa de conta a receber)
+ */
+interface RecebimentoItem {
+  id: string;
+  dataPagamento?: Date;
+  juros?: number;
+  multa?: number;
+  desconto?: number;
+}
+
+/**
+ * Marca lançamentos PENDENTE como RECEBIDA na planilha.
+ * Quando informados, juros/multa/desconto são gravados e o valor líquido recalculado.
+ *
+ * IMPORTANTE: deve ser chamada com o DocumentLock adquirido.
+ */
+function aplicarRecebimentos(
+  sheet: GoogleAppsScript.Spreadsheet.Sheet,
+  items: RecebimentoItem[]
+): { count: number; errors: string[]; recebidos: string[] } {
+  const headers = getHeaderIndexMap(sheet);
+  const idCol = headers['ID'];
+  const statusCol = headers['Status'];
+  const dataPagCol = headers['Data Pagamento'];
+  if (idCol === undefined || statusCol === undefined || dataPagCol === undefined) {
+    throw new Error('Cabeçalhos obrigatórios não encontrados (ID, Status, Data Pagamento)');
+  }
+
+  const lastRow = sheet.getLastRow();
+  const idsColumnValues =
+    lastRow > 1
+      ? sheet.getRange(2, idCol + 1, lastRow - 1, 1).getDisplayValues()
+      : [];
+
+  const idToRow = new Map<string, number>();
+  idsColumnValues.forEach((r, idx) => {
+    const cell = String(r[0] || '').trim();
+    if (!cell) return;
+    idToRow.set(cell, idx + 2);
+  });
+
+  const errors: string[] = [];
+  const recebidos: string[] = [];
+  const statusRanges: string[] = [];
+  const dateRanges = new Map<number, string[]>();
+  const now = new Date();
+
+  for (const item of items) {
+    const wanted = String(item?.id || '').trim();
+    if (!wanted) continue;
+    const row = idToRow.get(wanted);
+    if (!row) {
+      errors.push(`${wanted}: não encontrada`);
+      continue;
+    }
+
+    const currentStatus = String(sheet.getRange(row, statusCol + 1).getDisplayValue() || '').toUpperCase();
+    if (!isAbertoStatus(currentStatus)) {
+      errors.push(`${wanted}: status ${currentStatus}`);
+      continue;
+    }
+
+    statusRanges.push(`${columnToLetter(statusCol + 1)}${row}`);
+    const dataPagamento = item.dataPagamento || now;
+    const dateKey = dataPagamento.getTime();
+    if (!dateRanges.has(dateKey)) dateRanges.set(dateKey, []);
+    dateRanges.get(dateKey)!.push(`${columnToLetter(dataPagCol + 1)}${row}`);
+
+    if (item.juros !== undefined || item.multa !== undefined || item.desconto !== undefined) {
+      aplicarEncargosRecebimento(sheet, headers, row, item);
+    }
+
+    appendAuditLog('receberConta', { id: wanted }, true);
+    recebidos.push(wanted);
+  }
+
+  if (statusRanges.length > 0) {
+    sheet.getRangeList(statusRanges).setValue('RECEBIDA');
+    dateRanges.forEach((ranges, time) => sheet.getRangeList(ranges).setValue(new Date(time)));
+    clearReportsCache();
+  }
+
+  return { count: recebidos.length, errors, recebidos };
+}
+
+/**
+ * Grava juros/multa/desconto do recebimento e recalcula o valor líquido
+ */
+function aplicarEncargosRecebimento(
+  sheet: GoogleAppsScript.Spreadsheet.Sheet,
+  headers: Record<string, number>,
+  row: number,
+  item: RecebimentoItem
+): void {
+  const brutoCol = headers['Valor Bruto'];
+  const descontoCol = headers['Desconto'];
+  const jurosCol = headers['Juros'];
+  const multaCol = headers['Multa'];
+  const liquidoCol = headers['Valor Líquido'];
+  if (brutoCol === undefined || descontoCol === undefined || jurosCol === undefined || multaCol === undefined) {
+    throw new Error('Cabeçalhos obrigatórios não encontrados (Valor Bruto, Desconto, Juros, Multa)');
+  }
+
+  const valorBruto = parseFloat(String(sheet.getRange(row, brutoCol + 1).getValue() || 0)) || 0;
+  const desconto = Math.round(Number(item.desconto || 0) * 100) / 100;
+  const juros = Math.round(Number(item.juros || 0) * 100) / 100;
+  const multa = Math.round(Number(item.multa || 0) * 100) / 100;
+
+  sheet.getRange(row, descontoCol + 1).setValue(desconto);
+  sheet.getRange(row, jurosCol + 1).setValue(juros);
+  sheet.getRange(row, multaCol + 1).setValue(multa);
+  if (liquidoCol !== undefined) {
+    sheet.getRange(row, liquidoCol + 1).setValue(Math.round((valorBruto - desconto + juros + multa) * 100) / 100);
+  }
+}
+
 export function receberContasEmLote(ids: string[]): { success: boolean; message: string } {
   try {
     const denied = requirePermission('aprovarPagamentos', 'receber contas em lote');
@@ -2560,59 +3052,10 @@ export function receberContasEmLote(ids: string[]): { success: boolean; message:
     const lock = LockService.getDocumentLock();
     lock.waitLock(5000);
     try {
-      const headers = getHeaderIndexMap(sheet);
-      const idCol = headers['ID'];
-      const statusCol = headers['Status'];
-      const dataPagCol = headers['Data Pagamento'];
-      if (idCol === undefined || statusCol === undefined || dataPagCol === undefined) {
-        throw new Error('Cabeçalhos obrigatórios não encontrados (ID, Status, Data Pagamento)');
-      }
-
-      const lastRow = sheet.getLastRow();
-      const idsColumnValues =
-        lastRow > 1
-          ? sheet.getRange(2, idCol + 1, lastRow - 1, 1).getDisplayValues()
-          : [];
-
-      const idToRow = new Map<string, number>();
-      idsColumnValues.forEach((r, idx) => {
-        const cell = String(r[0] || '').trim();
-        if (!cell) return;
-        idToRow.set(cell, idx + 2);
-      });
-
-      let count = 0;
-      const errors: string[] = [];
-      const statusRanges: string[] = [];
-      const dateRanges: string[] = [];
-      const now = new Date();
-
-      for (const rawId of ids) {
-        const wanted = String(rawId || '').trim();
-        if (!wanted) continue;
-        const row = idToRow.get(wanted);
-        if (!row) {
-          errors.push(`${wanted}: não encontrada`);
-          continue;
-        }
-
-        const currentStatus = String(sheet.getRange(row, statusCol + 1).getDisplayValue() || '').toUpperCase();
-        if (currentStatus !== 'PENDENTE') {
-          errors.push(`${wanted}: status ${currentStatus}`);
-          continue;
-        }
-
-        statusRanges.push(`${columnToLetter(statusCol + 1)}${row}`);
-        dateRanges.push(`${columnToLetter(dataPagCol + 1)}${row}`);
-        appendAuditLog('receberConta', { id: wanted }, true);
-        count++;
-      }
-
-      if (statusRanges.length > 0) {
-        sheet.getRangeList(statusRanges).setValue('RECEBIDA');
-        sheet.getRangeList(dateRanges).setValue(now);
-        clearReportsCache();
-      }
+      const { count, errors } = aplicarRecebimentos(
+        sheet,
+        ids.map((id) => ({ id: String(id || '') }))
+      );
 
       if (count === 0) {
         appendAuditLog('receberContasEmLote', { ids, count, errorsCount: errors.length }, false, 'Nenhuma recebida');
@@ -2764,6 +3207,8 @@ export function salvarLancamento(lancamento: any): { success: boolean; message:
     const sheet = ss.getSheetByName(SHEET_TB_LANCAMENTOS);
     if (!sheet) throw new Error('Aba de lançamentos não encontrada');
 
+    const parceiroId = resolveParceiroIdInput(lancamento.parceiroId);
+
     const lock = LockService.getDocumentLock();
     lock.waitLock(5000);
     try {
@@ -2838,12 +3283,16 @@ export function salvarLancamento(lancamento: any): { success: boolean; message:
       sanitizeSheetString(lancamento.observacoes || ''),         // Observações
       sanitizeSheetString((lancamento as any).numeroDocumento || ''), // N Documento
     ];
+    if (parceiroId) {
+      ensureLancamentosExtraColumns(sheet);
+      setLancamentoParceiro(row, parceiroId);
+    }
 
       // Adicionar linha à planilha (mais rápido que appendRow)
       const targetRow = sheet.getLastRow() + 1;
       sheet.getRange(targetRow, 1, 1, row.length).setValues([row]);
 
-    appendAuditLog('salvarLancamento', { id: row[0], tipo: row[4], status: row[17] }, true);
+    appendAuditLog('salvarLancamento', { id: row[0], tipo: row[4], status: row[17], parceiroId }, true);
     clearReportsCache();
     return {
       success: true,
@@ -2865,35 +3314,452 @@ export function salvarLancamento(lancamento: any): { success: boolean; message:
 }
 
 // ============================================================================
-// CONCILIAÇÃO
+// LANÇAMENTOS RECORRENTES
 // ============================================================================
 
-export function atualizarLancamento(lancamento: any): { success: boolean; message: string } {
+/**
+ * Lista modelos de lançamentos recorrentes (datas em yyyy-MM-dd)
+ */
+export function getRecorrencias(): { success: boolean; message?: string; data?: any[] } {
   try {
-    const denied = requirePermission('editarLancamentos', 'atualizar lanÇõamento');
-    if (denied) return denied;
-
-    const v = combineValidations(
-      validateRequired(lancamento?.id, 'ID'),
-      validateRequired(lancamento?.dataCompetencia, 'Data competÇ¦ncia'),
-      validateRequired(lancamento?.dataVencimento, 'Data vencimento'),
-      validateEnum(String(lancamento?.tipo || ''), ['RECEITA', 'DESPESA'], 'Tipo'),
-      validateRequired(lancamento?.filial, 'Filial'),
-      validateRequired(lancamento?.contaContabil, 'Conta contÇ­bil'),
-      validateRequired(lancamento?.descricao, 'DescriÇõÇœo')
-    );
-    if (!v.valid) {
-      return { success: false, message: v.errors.join('; ') };
-    }
+    enforcePermission('visualizarRelatorios', 'listar recorrências');
+    const data = listRecurrenceTemplates().map((t) => ({
+      ...t,
+      dataInicio: normalizeDateCell(t.dataInicio),
+      dataFim: normalizeDateCell(t.dataFim),
+      ultimaGeracao: normalizeDateCell(t.ultimaGeracao),
+    }));
+    return { success: true, data };
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
 
-    const ss = SpreadsheetApp.getActiveSpreadsheet();
-    const sheet = ss.getSheetByName(SHEET_TB_LANCAMENTOS);
-    if (!sheet) throw new Error('Aba de lanÇõamentos nÇœo encontrada');
+/**
+ * Cria ou atualiza um modelo de recorrência
+ *
+ * @param aplicarFuturos - Na edição, refaz as ocorrências futuras ainda pendentes
+ */
+export function salvarRecorrencia(
+  input: any,
+  aplicarFuturos: boolean = false
+): { success: boolean; message: string; id?: string; gerados?: number; removidos?: number } {
+  const denied = input?.id
+    ? requirePermission('editarLancamentos', 'editar recorrência')
+    : requirePermission('criarLancamentos', 'criar recorrência');
+  if (denied) return denied;
 
-    const lock = LockService.getDocumentLock();
-    lock.waitLock(5000);
-    try {
-      const headers = getHeaderIndexMap(sheet);
+  try {
+    const result = saveRecurrenceTemplate(parseRecurrenceTemplateInput(input), Boolean(aplicarFuturos));
+    if (result.gerados || result.removidos) clearReportsCache();
+    appendAuditLog(
+      'salvarRecorrencia',
+      { id: result.template.id, criado: result.criado, aplicarFuturos, gerados: result.gerados, removidos: result.removidos },
+      true
+    );
+    const detalhe = result.removidos
+      ? `${result.removidos} ocorrências futuras refeitas, ${result.gerados} geradas`
+      : `${result.gerados} ocorrências geradas`;
+    return {
+      success: true,
+      message: `${result.criado ? 'Recorrência criada' : 'Recorrência atualizada'} (${detalhe})`,
+      id: result.template.id,
+      gerados: result.gerados,
+      removidos: result.removidos,
+    };
+  } catch (error: any) {
+    appendAuditLog('salvarRecorrencia', { id: input?.id || '' }, false, error?.message);
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * Executa a geração de lançamentos recorrentes sem esperar o job diário
+ */
+export function gerarRecorrencias(): { success: boolean; message: string; gerados?: number } {
+  const denied = requirePermission('criarLancamentos', 'gerar recorrências');
+  if (denied) return denied;
+
+  try {
+    const result = generateRecurringEntries();
+    if (result.gerados) clearReportsCache();
+    appendAuditLog('gerarRecorrencias', { modelos: result.modelos, gerados: result.gerados }, true);
+    return {
+      success: true,
+      message: `${result.gerados} lançamentos gerados (${result.modelos} modelos ativos)`,
+      gerados: result.gerados,
+    };
+  } catch (error: any) {
+    appendAuditLog('gerarRecorrencias', {}, false, error?.message);
+    return { success: false, message: error.message };
+  }
+}
+
+// ============================================================================
+// PARCELAMENTOS
+// ============================================================================
+
+/**
+ * Soma meses a uma data yyyy-MM-dd mantendo o dia (limitado ao fim do mês)
+ */
+function addMonthsIso(dateIso: string, months: number): string {
+  const [year, month, day] = dateIso.split('-').map((p) => parseInt(p, 10));
+  const first = new Date(year, month - 1 + months, 1);
+  const lastDay = new Date(first.getFullYear(), first.getMonth() + 1, 0).getDate();
+  const date = new Date(first.getFullYear(), first.getMonth(), Math.min(day, lastDay));
+  return Utilities.formatDate(date, Session.getScriptTimeZone(), 'yyyy-MM-dd');
+}
+
+/**
+ * Vencimentos das parcelas: lista informada ou mensal a partir do primeiro
+ */
+function buildVencimentosParcelas(
+  primeiroVencimento: string,
+  parcelas: number,
+  intervaloMeses: number,
+  vencimentos?: string[]
+): string[] {
+  if (Array.isArray(vencimentos) && vencimentos.length) {
+    if (vencimentos.length !== parcelas) {
+      throw new Error(`Informe ${parcelas} vencimentos (recebidos ${vencimentos.length})`);
+    }
+    return vencimentos.map((v) => {
+      const iso = normalizeDateInput(v);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(iso)) throw new Error(`Vencimento inválido: ${v}`);
+      return iso;
+    });
+  }
+  const first = normalizeDateInput(primeiroVencimento);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(first)) throw new Error('Primeiro vencimento inválido');
+  const step = Math.max(1, Math.floor(Number(intervaloMeses) || 1));
+  return Array.from({ length: parcelas }, (_, i) => addMonthsIso(first, i * step));
+}
+
+function validateQuantidadeParcelas(parcelas: number): number {
+  const n = Math.floor(Number(parcelas));
+  if (!Number.isFinite(n) || n < 2 || n > 120) {
+    throw new Error('Quantidade de parcelas deve estar entre 2 e 120');
+  }
+  return n;
+}
+
+/**
+ * Cria uma obrigação parcelada: N lançamentos ligados pelo ID do parcelamento
+ *
+ * Valores (bruto, desconto, juros, multa) são divididos como no rateio:
+ * a diferença de centavos fica na última parcela.
+ */
+export function criarParcelamento(
+  lancamento: any,
+  config: { parcelas: number; intervaloMeses?: number; vencimentos?: string[] }
+): { success: boolean; message: string; idParcelamento?: string; ids?: string[] } {
+  try {
+    const denied = requirePermission('criarLancamentos', 'criar parcelamento');
+    if (denied) return denied;
+
+    const v = combineValidations(
+      validateRequired(lancamento?.dataCompetencia, 'Data competência'),
+      validateRequired(lancamento?.dataVencimento, 'Data vencimento'),
+      validateEnum(String(lancamento?.tipo || ''), ['RECEITA', 'DESPESA'], 'Tipo'),
+      validateRequired(lancamento?.filial, 'Filial'),
+      validateRequired(lancamento?.contaContabil, 'Conta contábil'),
+      validateRequired(lancamento?.descricao, 'Descrição')
+    );
+    if (!v.valid) {
+      return { success: false, message: v.errors.join('; ') };
+    }
+
+    const parcelas = validateQuantidadeParcelas(config?.parcelas);
+    const valorBruto = Number(lancamento.valorBruto);
+    const desconto = Number(lancamento.desconto || 0);
+    const juros = Number(lancamento.juros || 0);
+    const multa = Number(lancamento.multa || 0);
+    if (!Number.isFinite(valorBruto) || valorBruto <= 0) {
+      return { success: false, message: 'Valor bruto inválido' };
+    }
+    if (![desconto, juros, multa].every(Number.isFinite)) {
+      return { success: false, message: 'Valores numéricos inválidos' };
+    }
+
+    const dataCompetencia = normalizeDateInput(lancamento.dataCompetencia);
+    const vencimentos = buildVencimentosParcelas(
+      lancamento.dataVencimento,
+      parcelas,
+      Number(config?.intervaloMeses || 1),
+      config?.vencimentos
+    );
+    if (dataCompetencia > vencimentos[0]) {
+      return { success: false, message: 'Data competência não pode ser maior que o primeiro vencimento' };
+    }
+
+    const parceiroId = resolveParceiroIdInput(lancamento.parceiroId);
+    const brutos = splitRateio(valorBruto, parcelas);
+    const descontos = splitRateio(desconto, parcelas);
+    const jurosParc = splitRateio(juros, parcelas);
+    const multas = splitRateio(multa, parcelas);
+    const idParcelamento = `PARC-${Utilities.getUuid().slice(0, 8).toUpperCase()}`;
+
+    const rows = vencimentos.map((vencimento, i) => {
+      const numero = i + 1;
+      const liquido = Math.round((brutos[i] - descontos[i] + jurosParc[i] + multas[i]) * 100) / 100;
+      const obs = [String(lancamento.observacoes || '').trim(), `Parcela ${numero}/${parcelas} de ${idParcelamento}`]
+        .filter(Boolean)
+        .join(' | ');
+      const row = [
+        `${idParcelamento}-${String(numero).padStart(2, '0')}`,
+        dataCompetencia,
+        vencimento,
+        '',
+        sanitizeSheetString(lancamento.tipo),
+        sanitizeSheetString(lancamento.filial),
+        sanitizeSheetString(lancamento.centroCusto || ''),
+        sanitizeSheetString(lancamento.contaGerencial || ''),
+        sanitizeSheetString(lancamento.contaContabil),
+        sanitizeSheetString(lancamento.grupoReceita || ''),
+        sanitizeSheetString(lancamento.canal || ''),
+        sanitizeSheetString(lancamento.descricao),
+        brutos[i],
+        descontos[i],
+        jurosParc[i],
+        multas[i],
+        liquido,
+        'PENDENTE',
+        '',
+        sanitizeSheetString(lancamento.origem || 'MANUAL'),
+        sanitizeSheetString(obs),
+        sanitizeSheetString(lancamento.numeroDocumento || ''),
+        '',
+        '',
+        idParcelamento,
+        `${numero}/${parcelas}`,
+      ];
+      setLancamentoParceiro(row, parceiroId);
+      return row;
+    });
+
+    const ss = SpreadsheetApp.getActiveSpreadsheet();
+    const sheet = ss.getSheetByName(SHEET_TB_LANCAMENTOS);
+    if (!sheet) throw new Error('Aba de lançamentos não encontrada');
+
+    const lock = LockService.getDocumentLock();
+    lock.waitLock(5000);
+    try {
+      ensureLancamentosExtraColumns(sheet);
+      sheet.getRange(sheet.getLastRow() + 1, 1, rows.length, rows[0].length).setValues(rows);
+    } finally {
+      try {
+        lock.releaseLock();
+      } catch (_) {}
+    }
+
+    const ids = rows.map((r) => String(r[0]));
+    appendAuditLog('criarParcelamento', { idParcelamento, parcelas, tipo: lancamento.tipo, valorBruto }, true);
+    clearReportsCache();
+    return {
+      success: true,
+      message: `Parcelamento criado em ${parcelas} parcelas`,
+      idParcelamento,
+      ids,
+    };
+  } catch (error: any) {
+    appendAuditLog('criarParcelamento', { descricao: lancamento?.descricao }, false, error?.message);
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * Lista as parcelas de um parcelamento (inclusive canceladas/renegociadas)
+ */
+export function getParcelamento(idParcelamento: string): { success: boolean; message?: string; parcelas?: any[] } {
+  try {
+    enforcePermission('visualizarRelatorios', 'ver parcelamento');
+    const id = String(idParcelamento || '').trim();
+    if (!id) return { success: false, message: 'ID do parcelamento não informado' };
+    const parcelas = getLancamentosFromSheet()
+      .filter((l) => l.idParcelamento === id)
+      .map((l) => ({
+        id: l.id,
+        parcela: l.parcela,
+        vencimento: l.dataVencimento,
+        valor: l.valorLiquido,
+        status: l.status,
+        dataPagamento: l.dataPagamento,
+      }));
+    return { success: true, parcelas };
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * Renegocia as parcelas em aberto (PENDENTE/VENCIDA) de um parcelamento:
+ * cancela as atuais e cria novas parcelas com o saldo (ou o novo valor total
+ * acordado), numeradas após as já quitadas.
+ *
+ * Recusa a renegociação enquanto houver parcela em aberto parcialmente
+ * conciliada: ela não seria cancelada nem entraria na numeração.
+ */
+export function renegociarParcelamento(
+  idParcelamento: string,
+  config: { parcelas: number; primeiroVencimento: string; intervaloMeses?: number; valorTotal?: number }
+): { success: boolean; message: string; ids?: string[] } {
+  const id = String(idParcelamento || '').trim();
+  try {
+    const denied = requirePermission('editarLancamentos', 'renegociar parcelamento');
+    if (denied) return denied;
+    if (!id) return { success: false, message: 'ID do parcelamento não informado' };
+
+    const parcelas = Math.floor(Number(config?.parcelas));
+    if (!Number.isFinite(parcelas) || parcelas < 1 || parcelas > 120) {
+      return { success: false, message: 'Quantidade de parcelas deve estar entre 1 e 120' };
+    }
+    const vencimentos = buildVencimentosParcelas(
+      config?.primeiroVencimento,
+      parcelas,
+      Number(config?.intervaloMeses || 1)
+    );
+
+    const ss = SpreadsheetApp.getActiveSpreadsheet();
+    const sheet = ss.getSheetByName(SHEET_TB_LANCAMENTOS);
+    if (!sheet) throw new Error('Aba de lançamentos não encontrada');
+
+    const lock = LockService.getDocumentLock();
+    lock.waitLock(5000);
+    try {
+      ensureLancamentosExtraColumns(sheet);
+      const lastRow = sheet.getLastRow();
+      const lastCol = sheet.getLastColumn();
+      if (lastRow < 2) return { success: false, message: 'Parcelamento não encontrado' };
+      const values = sheet.getRange(2, 1, lastRow - 1, lastCol).getValues();
+      const C = TB_LANCAMENTOS_COLS;
+
+      const doParcelamento = values
+        .map((row, idx) => ({ row, sheetRow: idx + 2 }))
+        .filter((item) => String(item.row[C.PARCELAMENTO_ID] || '').trim() === id);
+      if (!doParcelamento.length) {
+        return { success: false, message: 'Parcelamento não encontrado' };
+      }
+
+      const statusOf = (row: any[]) => String(row[C.STATUS] || '').toUpperCase();
+      const abertas = doParcelamento.filter((item) => ['PENDENTE', 'VENCIDA'].includes(statusOf(item.row)));
+      if (!abertas.length) {
+        return { success: false, message: 'Nenhuma parcela em aberto para renegociar' };
+      }
+      const parciais = abertas.filter((item) => String(item.row[C.ID_EXTRATO_BANCO] || '').trim());
+      if (parciais.length) {
+        const parcelasParciais = parciais.map((item) => String(item.row[C.PARCELA] || item.row[C.ID])).join(', ');
+        return {
+          success: false,
+          message: `Parcela(s) ${parcelasParciais} parcialmente conciliada(s): conclua ou desfaça a conciliação antes de renegociar`,
+        };
+      }
+      const quitadas = doParcelamento.filter((item) => isPagoStatus(statusOf(item.row))).length;
+
+      const saldo = abertas.reduce((sum, item) => sum + parseMoneyInput(item.row[C.VALOR_LIQUIDO]), 0);
+      const valorTotal = config?.valorTotal !== undefined && config?.valorTotal !== null && String(config.valorTotal) !== ''
+        ? Number(config.valorTotal)
+        : Math.round(saldo * 100) / 100;
+      if (!Number.isFinite(valorTotal) || valorTotal <= 0) {
+        return { success: false, message: 'Valor total inválido' };
+      }
+
+      // Sequência da renegociação (IDs PARC-XXXX-R1-01, PARC-XXXX-R2-01...)
+      const seq = 1 + doParcelamento.reduce((max, item) => {
+        const m = String(item.row[C.ID] || '').match(/-R(\d+)-\d+$/);
+        return m ? Math.max(max, Number(m[1])) : max;
+      }, 0);
+
+      const hoje = Utilities.formatDate(new Date(), Session.getScriptTimeZone(), 'yyyy-MM-dd');
+      const base = abertas[0].row;
+      const totalParcelas = quitadas + parcelas;
+      const valores = splitRateio(valorTotal, parcelas);
+
+      const novas = vencimentos.map((vencimento, i) => {
+        const numero = quitadas + i + 1;
+        const row = base.slice();
+        while (row.length <= C.PARCELA) row.push('');
+        row[C.ID] = `${id}-R${seq}-${String(i + 1).padStart(2, '0')}`;
+        row[C.DATA_COMPETENCIA] = normalizeDateCell(base[C.DATA_COMPETENCIA]);
+        row[C.DATA_VENCIMENTO] = vencimento;
+        row[C.DATA_PAGAMENTO] = '';
+        row[C.VALOR_BRUTO] = valores[i];
+        row[C.DESCONTO] = 0;
+        row[C.JUROS] = 0;
+        row[C.MULTA] = 0;
+        row[C.VALOR_LIQUIDO] = valores[i];
+        row[C.STATUS] = 'PENDENTE';
+        row[C.ID_EXTRATO_BANCO] = '';
+        row[C.OBSERVACOES] = sanitizeSheetString(`Parcela ${numero}/${totalParcelas} de ${id} | Renegociação ${seq} em ${hoje}`);
+        row[C.LOTE_IMPORTACAO] = '';
+        row[C.PARCELA] = `${numero}/${totalParcelas}`;
+        return row.slice(0, lastCol);
+      });
+
+      // Cancela as parcelas renegociadas
+      for (const item of abertas) {
+        const obs = String(item.row[C.OBSERVACOES] || '');
+        sheet.getRange(item.sheetRow, C.STATUS + 1).setValue('CANCELADA');
+        sheet
+          .getRange(item.sheetRow, C.OBSERVACOES + 1)
+          .setValue(sanitizeSheetString([obs, `Renegociada em ${hoje} (R${seq})`].filter(Boolean).join(' | ')));
+      }
+      sheet.getRange(lastRow + 1, 1, novas.length, lastCol).setValues(novas);
+
+      const ids = novas.map((r) => String(r[C.ID]));
+      appendAuditLog(
+        'renegociarParcelamento',
+        { idParcelamento: id, canceladas: abertas.length, novas: ids.length, saldo, valorTotal },
+        true
+      );
+      clearReportsCache();
+      return {
+        success: true,
+        message: `${abertas.length} parcelas renegociadas em ${parcelas} (total ${valorTotal.toFixed(2)})`,
+        ids,
+      };
+    } finally {
+      try {
+        lock.releaseLock();
+      } catch (_) {}
+    }
+  } catch (error: any) {
+    appendAuditLog('renegociarParcelamento', { idParcelamento: id }, false, error?.message);
+    return { success: false, message: error.message };
+  }
+}
+
+// ============================================================================
+// CONCILIAÇÃO
+// ============================================================================
+
+export function atualizarLancamento(lancamento: any): { success: boolean; message: string } {
+  try {
+    const denied = requirePermission('editarLancamentos', 'atualizar lanÇõamento');
+    if (denied) return denied;
+
+    const v = combineValidations(
+      validateRequired(lancamento?.id, 'ID'),
+      validateRequired(lancamento?.dataCompetencia, 'Data competÇ¦ncia'),
+      validateRequired(lancamento?.dataVencimento, 'Data vencimento'),
+      validateEnum(String(lancamento?.tipo || ''), ['RECEITA', 'DESPESA'], 'Tipo'),
+      validateRequired(lancamento?.filial, 'Filial'),
+      validateRequired(lancamento?.contaContabil, 'Conta contÇ­bil'),
+      validateRequired(lancamento?.descricao, 'DescriÇõÇœo')
+    );
+    if (!v.valid) {
+      return { success: false, message: v.errors.join('; ') };
+    }
+
+    const ss = SpreadsheetApp.getActiveSpreadsheet();
+    const sheet = ss.getSheetByName(SHEET_TB_LANCAMENTOS);
+    if (!sheet) throw new Error('Aba de lanÇõamentos nÇœo encontrada');
+
+    const lock = LockService.getDocumentLock();
+    lock.waitLock(5000);
+    try {
+      const parceiroId = lancamento.parceiroId !== undefined ? resolveParceiroIdInput(lancamento.parceiroId) : null;
+      if (parceiroId !== null) ensureLancamentosExtraColumns(sheet);
+      const headers = getHeaderIndexMap(sheet);
       const idCol = headers['ID'];
       const statusCol = headers['Status'];
       const tipoCol = headers['Tipo'];
@@ -2966,6 +3832,7 @@ export function atualizarLancamento(lancamento: any): { success: boolean; messag
       setValue('Valor LÇðquido', valorLiquido);
       setValue('ObservaÇõÇæes', sanitizeSheetString(lancamento.observacoes || ''));
       setValue('N Documento', sanitizeSheetString((lancamento as any).numeroDocumento || ''));
+      if (parceiroId !== null) setValue('Parceiro', parceiroId);
 
       sheet.getRange(row, 1, 1, lastCol).setValues([rowValues]);
 
@@ -2990,14 +3857,23 @@ export function getConciliacaoData() {
   const hoje = new Date();
   const inicioMes = new Date(hoje.getFullYear(), hoje.getMonth(), 1);
 
-    const extratosPendentes = extratos.filter(e => (e.statusConciliacao || 'PENDENTE').toUpperCase() === 'PENDENTE');
-    const lancamentosPendentes = lancamentos.filter(l => !l.idExtratoBanco);
+    // Parcialmente conciliados continuam pendentes pelo residual
+    const extratosPendentes = extratos.filter(e => ['PENDENTE', 'PARCIAL'].includes((e.statusConciliacao || 'PENDENTE').toUpperCase()));
+    const lancamentosPendentes = lancamentos.filter(l =>
+      !String(l.status || '').toUpperCase().startsWith('CANCELAD') &&
+      residualAmount(l.valorConciliado ?? '', l.valorLiquido, Boolean(l.idExtratoBanco)) > 0
+    );
 
   const conciliadosHoje = extratos.filter(e =>
     (e.statusConciliacao || '').toUpperCase() === 'CONCILIADO' &&
     new Date(e.importadoEm).toDateString() === hoje.toDateString()
   );
 
+    // Pagador/recebedor dos PIX pendentes (pré-preenche o lançamento criado do extrato)
+    const contrapartes = resolveStatementCounterparties(
+      extratosPendentes.map(e => ({ data: e.data, valor: Number(e.valor) || 0, historico: String(e.descricao || '') }))
+    );
+
     const totalExtratos = extratos.length;
     const totalConciliados = extratos.filter(e => (e.statusConciliacao || '').toUpperCase() === 'CONCILIADO').length;
   const taxaConciliacao = totalExtratos > 0 ? Math.round((totalConciliados / totalExtratos) * 100) : 0;
@@ -3026,12 +3902,16 @@ export function getConciliacaoData() {
       conciliadosHojeValor: conciliadosHoje.reduce((sum, e) => sum + parseFloat(String(e.valor || 0)), 0),
       taxaConciliacao,
     },
-    extratos: extratosPendentes.map(e => ({
+    extratos: extratosPendentes.map((e, i) => ({
       id: e.id,
       data: e.data,
       descricao: e.descricao,
       valor: e.valor,
       banco: e.banco,
+      status: (e.statusConciliacao || 'PENDENTE').toUpperCase(),
+      residual: residualAmount(e.valorConciliado ?? '', e.valor, false),
+      pix: contrapartes[i].pix,
+      contraparte: contrapartes[i].contraparte,
     })),
     lancamentos: lancamentosPendentes.slice(0, 50).map(l => ({
       id: l.id,
@@ -3039,135 +3919,385 @@ export function getConciliacaoData() {
       descricao: l.descricao,
       valor: l.valorLiquido,
       tipo: l.tipo,
+      residual: residualAmount(l.valorConciliado ?? '', l.valorLiquido, Boolean(l.idExtratoBanco)),
     })),
     historico,
   };
 }
 
-export function conciliarItens(extratoId: string, lancamentoId: string): { success: boolean; message: string } {
+/**
+ * Concilia um extrato com um lançamento, aceitando diferença de valor
+ *
+ * @param opcoes.valor - Parte do extrato a conciliar (padrão: todo o residual)
+ * @param opcoes.classificacao - JUROS | MULTA | DESCONTO | TARIFA: lança a diferença
+ *   como AJUSTE e quita o lançamento; sem classificação a diferença fica como residual
+ */
+export function conciliarItens(
+  extratoId: string,
+  lancamentoId: string,
+  opcoes?: { valor?: number | string; classificacao?: string; contaContabil?: string; centroCusto?: string }
+): { success: boolean; message: string; residualExtrato?: number; residualLancamento?: number; ajusteId?: string | null } {
   try {
     const denied = requirePermission('editarLancamentos', 'conciliar itens');
     if (denied) return denied;
 
+    const classificacao = String(opcoes?.classificacao || '').trim().toUpperCase();
     const v = combineValidations(
       validateRequired(extratoId, 'Extrato ID'),
-      validateRequired(lancamentoId, 'Lançamento ID')
+      validateRequired(lancamentoId, 'Lançamento ID'),
+      classificacao
+        ? validateEnum(classificacao, Object.values(AdjustmentKind) as string[], 'Classificação da diferença')
+        : validationSuccess()
+    );
+    if (!v.valid) return { success: false, message: v.errors.join('; ') };
+
+    const valorInformado = opcoes?.valor !== undefined && opcoes?.valor !== null && String(opcoes.valor).trim() !== ''
+      ? parseMoneyInput(opcoes.valor)
+      : undefined;
+    if (valorInformado !== undefined && !(valorInformado > 0)) {
+      return { success: false, message: 'Valor a conciliar inválido' };
+    }
+
+    const result = reconcilePartial(String(extratoId).trim(), String(lancamentoId).trim(), {
+      valor: valorInformado,
+      ajuste: classificacao
+        ? {
+            classificacao: classificacao as AdjustmentKind,
+            contaContabil: String(opcoes?.contaContabil || '').trim() || undefined,
+            centroCusto: String(opcoes?.centroCusto || '').trim() || undefined,
+          }
+        : undefined,
+    });
+
+    appendAuditLog('conciliarItens', { ...result, classificacao: classificacao || null }, true);
+    clearReportsCache();
+
+    const partes = ['Conciliação realizada com sucesso'];
+    if (result.ajusteId) partes.push(`ajuste ${formatCurrency(Math.abs(result.diferenca))} lançado (${result.ajusteId})`);
+    if (result.residualLancamento > 0) partes.push(`lançamento com residual de ${formatCurrency(result.residualLancamento)}`);
+    if (result.residualExtrato > 0) partes.push(`extrato com residual de ${formatCurrency(result.residualExtrato)}`);
+    return {
+      success: true,
+      message: partes.join('; '),
+      residualExtrato: result.residualExtrato,
+      residualLancamento: result.residualLancamento,
+      ajusteId: result.ajusteId,
+    };
+  } catch (error: any) {
+    appendAuditLog('conciliarItens', { extratoId, lancamentoId, opcoes }, false, error?.message);
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * Cria um lançamento realizado (PAGA/RECEBIDA) a partir de um extrato sem contrapartida
+ * e concilia os dois lados na mesma transação.
+ *
+ * Data, valor, tipo (pelo sinal) e descrição (histórico) vêm do extrato; conta contábil,
+ * filial e centro de custo vêm do usuário. Em PIX, a contraparte identificada entra
+ * na descrição padrão ("NOME - histórico") e o CPF/CNPJ nas observações.
+ */
+export function criarLancamentoDeExtrato(
+  extratoId: string,
+  dados: { contaContabil: string; filial: string; centroCusto?: string; contaGerencial?: string; canal?: string; descricao?: string; observacoes?: string; parceiroId?: string }
+): { success: boolean; message: string; id?: string } {
+  const auditPayload: any = { extratoId, contaContabil: dados?.contaContabil, filial: dados?.filial, centroCusto: dados?.centroCusto };
+  try {
+    const denied = requirePermission('criarLancamentos', 'criar lançamento a partir do extrato');
+    if (denied) return denied;
+
+    const v = combineValidations(
+      validateRequired(extratoId, 'Extrato ID'),
+      validateRequired(dados?.contaContabil, 'Conta contábil'),
+      validateRequired(dados?.filial, 'Filial')
     );
     if (!v.valid) return { success: false, message: v.errors.join('; ') };
 
     const ss = SpreadsheetApp.getActiveSpreadsheet();
+    const sheetExtratos = ss.getSheetByName(SHEET_TB_EXTRATOS);
+    const sheetLanc = ss.getSheetByName(SHEET_TB_LANCAMENTOS);
+    if (!sheetExtratos) throw new Error('Aba de extratos não encontrada');
+    if (!sheetLanc) throw new Error('Aba de lançamentos não encontrada');
+
     const lock = LockService.getDocumentLock();
     lock.waitLock(5000);
     try {
+      const extrHeaders = getHeaderIndexMap(sheetExtratos);
+      const extrIdCol = extrHeaders['ID'];
+      const extrDateCol = extrHeaders['Data'];
+      const extrDescCol = extrHeaders['Descrição'];
+      const extrValueCol = extrHeaders['Valor'];
+      const extrStatusCol = extrHeaders['Status Conciliação'];
+      const extrLancCol = extrHeaders['ID Lançamento'];
+      if (
+        extrIdCol === undefined ||
+        extrDateCol === undefined ||
+        extrDescCol === undefined ||
+        extrValueCol === undefined ||
+        extrStatusCol === undefined ||
+        extrLancCol === undefined
+      ) {
+        throw new Error('Cabeçalhos obrigatórios não encontrados em extratos');
+      }
 
-    // Atualizar extrato
-    const sheetExtratos = ss.getSheetByName(SHEET_TB_EXTRATOS);
-    if (!sheetExtratos) throw new Error('Aba de extratos não encontrada');
-    const extrHeaders = getHeaderIndexMap(sheetExtratos);
-    const extrIdCol = extrHeaders['ID'];
-    const extrStatusCol = extrHeaders['Status Conciliação'];
-    const extrLancCol = extrHeaders['ID Lançamento'];
-    if (extrIdCol === undefined || extrStatusCol === undefined || extrLancCol === undefined) {
-      throw new Error('Cabeçalhos obrigatórios não encontrados em extratos (ID, Status Conciliação, ID Lançamento)');
-    }
+      const extratoRow = findRowByExactValueInColumn(sheetExtratos, extrIdCol, String(extratoId).trim());
+      if (!extratoRow) throw new Error('Extrato não encontrado');
+      const extrato = sheetExtratos.getRange(extratoRow, 1, 1, sheetExtratos.getLastColumn()).getValues()[0];
 
-    const extratoRow = findRowByExactValueInColumn(sheetExtratos, extrIdCol, extratoId);
-    if (!extratoRow) throw new Error('Extrato não encontrado');
-    sheetExtratos.getRange(extratoRow, extrStatusCol + 1).setValue('CONCILIADO');
-    sheetExtratos.getRange(extratoRow, extrLancCol + 1).setValue(lancamentoId);
+      const statusExtrato = String(extrato[extrStatusCol] || 'PENDENTE').toUpperCase();
+      if (statusExtrato !== 'PENDENTE' || String(extrato[extrLancCol] || '').trim()) {
+        return { success: false, message: 'Extrato já está conciliado' };
+      }
 
-    // Atualizar lançamento
-    const sheetLanc = ss.getSheetByName(SHEET_TB_LANCAMENTOS);
-    if (!sheetLanc) throw new Error('Aba de lançamentos não encontrada');
-    const lancHeaders = getHeaderIndexMap(sheetLanc);
-    const lancIdCol = lancHeaders['ID'];
-    const lancExtratoCol = lancHeaders['ID Extrato Banco'];
-    if (lancIdCol === undefined || lancExtratoCol === undefined) {
-      throw new Error('Cabeçalhos obrigatórios não encontrados em lançamentos (ID, ID Extrato Banco)');
-    }
-    const lancRow = findRowByExactValueInColumn(sheetLanc, lancIdCol, lancamentoId);
-    if (!lancRow) throw new Error('Lançamento não encontrado');
-    sheetLanc.getRange(lancRow, lancExtratoCol + 1).setValue(extratoId);
+      const valorExtrato = Number(extrato[extrValueCol]);
+      if (!Number.isFinite(valorExtrato) || valorExtrato === 0) {
+        return { success: false, message: 'Valor do extrato inválido' };
+      }
+      const data = normalizeDateCell(extrato[extrDateCol]);
+      if (!Number.isFinite(Date.parse(data))) {
+        return { success: false, message: 'Data do extrato inválida' };
+      }
 
-    appendAuditLog('conciliarItens', { extratoId, lancamentoId }, true);
-    clearReportsCache();
-    return { success: true, message: 'Conciliação realizada com sucesso' };
+      const tipo = valorExtrato < 0 ? 'DESPESA' : 'RECEITA';
+      const status = tipo === 'DESPESA' ? 'PAGA' : 'RECEBIDA';
+      const valor = Math.round(Math.abs(valorExtrato) * 100) / 100;
+      const historico = String(extrato[extrDescCol] || '').trim();
+      const { pix, contraparte } = resolveStatementCounterparty(data, valorExtrato, historico);
+      const nomeContraparte = contraparte?.nome || pix?.nome || '';
+      const documentoContraparte = contraparte?.documento || pix?.documento || '';
+      const descricao = String(dados.descricao || '').trim() ||
+        (nomeContraparte ? `${nomeContraparte} - ${historico}` : historico);
+      const observacoes = [
+        String(dados.observacoes || '').trim() || `Criado a partir do extrato ${extratoId}`,
+        documentoContraparte ? `Contraparte: ${nomeContraparte} (${formatTaxId(documentoContraparte)})` : '',
+      ].filter(Boolean).join(' | ');
+      const id = `${tipo === 'DESPESA' ? 'CP' : 'CR'}-EXT-${Utilities.getUuid()}`;
+      // Parceiro escolhido na tela ou, no PIX com documento, vinculado/cadastrado pelo CPF/CNPJ
+      const parceiroId =
+        resolveParceiroIdInput(dados.parceiroId) ||
+        (documentoContraparte
+          ? linkPartner({
+              documento: documentoContraparte,
+              nome: nomeContraparte,
+              tipo: partnerTypeFromLancamentoTipo(tipo),
+              origem: 'EXTRATO',
+            })
+          : null);
+      const centroCusto = String(dados.centroCusto || '').trim() ||
+        partnerDefaults(parceiroId ? getPartnerById(parceiroId) : null).centroCusto || '';
+
+      const row = [
+        sanitizeSheetString(id),                                   // ID
+        sanitizeSheetString(data),                                 // Data Competência
+        sanitizeSheetString(data),                                 // Data Vencimento
+        sanitizeSheetString(data),                                 // Data Pagamento
+        tipo,                                                      // Tipo (RECEITA/DESPESA)
+        sanitizeSheetString(dados.filial),                         // Filial
+        sanitizeSheetString(centroCusto),                          // Centro de Custo
+        sanitizeSheetString(dados.contaGerencial || ''),           // Conta Gerencial
+        sanitizeSheetString(dados.contaContabil),                  // Conta Contábil
+        '',                                                        // Grupo Receita
+        sanitizeSheetString(dados.canal || ''),                    // Canal
+        sanitizeSheetString(descricao),                            // Descrição
+        valor,                                                     // Valor Bruto
+        0,                                                         // Desconto
+        0,                                                         // Juros
+        0,                                                         // Multa
+        valor,                                                     // Valor Líquido
+        status,                                                    // Status
+        sanitizeSheetString(String(extratoId).trim()),             // ID Extrato Banco
+        ORIGEM_EXTRATO,                                            // Origem
+        sanitizeSheetString(observacoes),                          // Observações
+      ];
+      if (parceiroId) {
+        ensureLancamentosExtraColumns(sheetLanc);
+        setLancamentoParceiro(row, parceiroId);
+      }
+
+      const targetRow = sheetLanc.getLastRow() + 1;
+      sheetLanc.getRange(targetRow, 1, 1, row.length).setValues([row]);
+      sheetExtratos.getRange(extratoRow, extrStatusCol + 1).setValue('CONCILIADO');
+      sheetExtratos.getRange(extratoRow, extrLancCol + 1).setValue(id);
+
+      auditPayload.id = id;
+      auditPayload.tipo = tipo;
+      auditPayload.valor = valor;
+      auditPayload.contraparte = documentoContraparte || null;
+      auditPayload.parceiroId = parceiroId || null;
+      appendAuditLog('criarLancamentoDeExtrato', auditPayload, true);
+      clearReportsCache();
+      return {
+        success: true,
+        message: `${tipo === 'DESPESA' ? 'Despesa' : 'Receita'} criada e conciliada`,
+        id,
+      };
     } finally {
       try {
         lock.releaseLock();
       } catch (_) {}
     }
   } catch (error: any) {
-    appendAuditLog('conciliarItens', { extratoId, lancamentoId }, false, error?.message);
+    appendAuditLog('criarLancamentoDeExtrato', auditPayload, false, error?.message);
     return { success: false, message: error.message };
   }
 }
 
-export function desfazerConciliacao(extratoId: string, lancamentoId: string): { success: boolean; message: string } {
+/**
+ * IDs vinculados numa célula (conciliação em grupo grava "ID1;ID2;...")
+ */
+function splitLinkedIds(value: string): string[] {
+  return String(value || '')
+    .split(';')
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Sugestões de conciliação para um extrato (1:1 e N:1) ou lançamento (1:1 e 1:N),
+ * com os motivos de cada sugestão
+ */
+export function getSugestoesConciliacao(origem: string, id: string) {
   try {
-    const denied = requirePermission('editarLancamentos', 'desfazer conciliaÇõÇœo');
-    if (denied) return denied;
+    enforcePermission('visualizarRelatorios', 'sugerir conciliação');
+    const alvo = String(id || '').trim();
+    if (!alvo) return { success: false, message: 'ID não informado', sugestoes: [] };
 
-    const v = combineValidations(
-      validateRequired(extratoId, 'Extrato ID'),
-      validateRequired(lancamentoId, 'LanÇõamento ID')
-    );
-    if (!v.valid) return { success: false, message: v.errors.join('; ') };
+    const porLancamento = String(origem || '').toUpperCase() === 'LANCAMENTO';
+    const sugestoes = (porLancamento ? suggestMatchesForEntry(alvo) : suggestMatches(alvo)).slice(0, 20);
+
+    const lancamentos = new Map(getLancamentosFromSheet().map((l) => [String(l.id), l]));
+    const extratos = new Map(getExtratosFromSheet().map((e) => [String(e.id), e]));
+
+    return {
+      success: true,
+      sugestoes: sugestoes.map((sg) => ({
+        ...sg,
+        lancamentos: sg.ledgerEntryIds.map((lid) => {
+          const l = lancamentos.get(lid);
+          return {
+            id: lid,
+            data: l?.dataPagamento || l?.dataVencimento || '',
+            descricao: l?.descricao || '',
+            valor: l?.valorLiquido || 0,
+            status: l?.status || '',
+          };
+        }),
+        extratos: sg.bankStatementIds.map((eid) => {
+          const e = extratos.get(eid);
+          return { id: eid, data: e?.data || '', descricao: e?.descricao || '', valor: e?.valor || 0 };
+        }),
+      })),
+    };
+  } catch (error: any) {
+    return { success: false, message: error.message, sugestoes: [] };
+  }
+}
+
+/**
+ * Concilia um grupo: N lançamentos com 1 extrato ou 1 lançamento com N extratos
+ * (1:1 também é aceito). Cada lado grava os IDs do outro separados por ";".
+ */
+export function conciliarGrupo(extratoIds: string[], lancamentoIds: string[]): { success: boolean; message: string } {
+  const extIds = Array.from(new Set((extratoIds || []).map((id) => String(id || '').trim()).filter(Boolean)));
+  const lancIds = Array.from(new Set((lancamentoIds || []).map((id) => String(id || '').trim()).filter(Boolean)));
+  try {
+    const denied = requirePermission('editarLancamentos', 'conciliar grupo');
+    if (denied) return denied;
+    if (!extIds.length || !lancIds.length) {
+      return { success: false, message: 'Informe ao menos um extrato e um lançamento' };
+    }
+    if (extIds.length > 1 && lancIds.length > 1) {
+      return { success: false, message: 'Conciliação N:N não é suportada' };
+    }
 
     const ss = SpreadsheetApp.getActiveSpreadsheet();
     const lock = LockService.getDocumentLock();
     lock.waitLock(5000);
     try {
       const sheetExtratos = ss.getSheetByName(SHEET_TB_EXTRATOS);
-      if (!sheetExtratos) throw new Error('Aba de extratos nÇœo encontrada');
+      if (!sheetExtratos) throw new Error('Aba de extratos não encontrada');
       const extrHeaders = getHeaderIndexMap(sheetExtratos);
       const extrIdCol = extrHeaders['ID'];
-      const extrStatusCol = extrHeaders['Status ConciliaÇõÇœo'];
-      const extrLancCol = extrHeaders['ID LanÇõamento'];
+      const extrStatusCol = extrHeaders['Status Conciliação'];
+      const extrLancCol = extrHeaders['ID Lançamento'];
       if (extrIdCol === undefined || extrStatusCol === undefined || extrLancCol === undefined) {
-        throw new Error('CabeÇõalhos obrigatÇürios nÇœo encontrados em extratos (ID, Status ConciliaÇõÇœo, ID LanÇõamento)');
-      }
-
-      const extratoRow = findRowByExactValueInColumn(sheetExtratos, extrIdCol, extratoId);
-      if (!extratoRow) throw new Error('Extrato nÇœo encontrado');
-      const status = String(sheetExtratos.getRange(extratoRow, extrStatusCol + 1).getDisplayValue() || '').toUpperCase();
-      if (status !== 'CONCILIADO') {
-        return { success: false, message: `Extrato nÇœo estÇ­ conciliado (status: ${status || 'N/A'})` };
-      }
-
-      const currentLancId = String(sheetExtratos.getRange(extratoRow, extrLancCol + 1).getDisplayValue() || '').trim();
-      if (currentLancId && currentLancId !== String(lancamentoId || '').trim()) {
-        return { success: false, message: `Extrato vinculado a outro lanÇõamento: ${currentLancId}` };
+        throw new Error('Cabeçalhos obrigatórios não encontrados em extratos (ID, Status Conciliação, ID Lançamento)');
       }
 
       const sheetLanc = ss.getSheetByName(SHEET_TB_LANCAMENTOS);
-      if (!sheetLanc) throw new Error('Aba de lanÇõamentos nÇœo encontrada');
+      if (!sheetLanc) throw new Error('Aba de lançamentos não encontrada');
       const lancHeaders = getHeaderIndexMap(sheetLanc);
       const lancIdCol = lancHeaders['ID'];
       const lancExtratoCol = lancHeaders['ID Extrato Banco'];
       if (lancIdCol === undefined || lancExtratoCol === undefined) {
-        throw new Error('CabeÇõalhos obrigatÇürios nÇœo encontrados em lanÇõamentos (ID, ID Extrato Banco)');
+        throw new Error('Cabeçalhos obrigatórios não encontrados em lançamentos (ID, ID Extrato Banco)');
       }
 
-      const lancRow = findRowByExactValueInColumn(sheetLanc, lancIdCol, lancamentoId);
-      if (!lancRow) throw new Error('LanÇõamento nÇœo encontrado');
-      const currentExtratoId = String(sheetLanc.getRange(lancRow, lancExtratoCol + 1).getDisplayValue() || '').trim();
-      if (currentExtratoId && currentExtratoId !== String(extratoId || '').trim()) {
-        return { success: false, message: `LanÇõamento vinculado a outro extrato: ${currentExtratoId}` };
+      // Valida tudo antes de gravar
+      const extratoRows: number[] = [];
+      for (const id of extIds) {
+        const row = findRowByExactValueInColumn(sheetExtratos, extrIdCol, id);
+        if (!row) throw new Error(`Extrato não encontrado: ${id}`);
+        const status = String(sheetExtratos.getRange(row, extrStatusCol + 1).getDisplayValue() || '').toUpperCase();
+        const linked = String(sheetExtratos.getRange(row, extrLancCol + 1).getDisplayValue() || '').trim();
+        if (status === 'CONCILIADO' || linked) {
+          return { success: false, message: `Extrato ${id} já conciliado` };
+        }
+        extratoRows.push(row);
+      }
+      const lancRows: number[] = [];
+      for (const id of lancIds) {
+        const row = findRowByExactValueInColumn(sheetLanc, lancIdCol, id);
+        if (!row) throw new Error(`Lançamento não encontrado: ${id}`);
+        const linked = String(sheetLanc.getRange(row, lancExtratoCol + 1).getDisplayValue() || '').trim();
+        if (linked) {
+          return { success: false, message: `Lançamento ${id} já conciliado com ${linked}` };
+        }
+        lancRows.push(row);
       }
 
-      sheetExtratos.getRange(extratoRow, extrStatusCol + 1).setValue('PENDENTE');
-      sheetExtratos.getRange(extratoRow, extrLancCol + 1).setValue('');
-      sheetLanc.getRange(lancRow, lancExtratoCol + 1).setValue('');
+      extratoRows.forEach((row) => {
+        sheetExtratos.getRange(row, extrStatusCol + 1).setValue('CONCILIADO');
+        sheetExtratos.getRange(row, extrLancCol + 1).setValue(lancIds.join(';'));
+      });
+      lancRows.forEach((row) => {
+        sheetLanc.getRange(row, lancExtratoCol + 1).setValue(extIds.join(';'));
+      });
 
-      appendAuditLog('desfazerConciliacao', { extratoId, lancamentoId }, true);
+      appendAuditLog('conciliarGrupo', { extratoIds: extIds, lancamentoIds: lancIds }, true);
       clearReportsCache();
-      return { success: true, message: 'ConciliaÇõÇœo desfeita com sucesso' };
+      return {
+        success: true,
+        message: `Conciliados ${extIds.length} extrato(s) com ${lancIds.length} lançamento(s)`,
+      };
     } finally {
       try {
         lock.releaseLock();
       } catch (_) {}
     }
+  } catch (error: any) {
+    appendAuditLog('conciliarGrupo', { extratoIds: extIds, lancamentoIds: lancIds }, false, error?.message);
+    return { success: false, message: error.message };
+  }
+}
+
+export function desfazerConciliacao(extratoId: string, lancamentoId: string): { success: boolean; message: string } {
+  try {
+    const denied = requirePermission('editarLancamentos', 'desfazer conciliação');
+    if (denied) return denied;
+
+    const v = combineValidations(
+      validateRequired(extratoId, 'Extrato ID'),
+      validateRequired(lancamentoId, 'Lançamento ID')
+    );
+    if (!v.valid) return { success: false, message: v.errors.join('; ') };
+
+    // Conciliação em grupo (N:1 / 1:N) ou parcial: desfaz todos os vínculos do grupo
+    const result = unreconcile(extratoId, lancamentoId);
+
+    appendAuditLog('desfazerConciliacao', { extratoId, lancamentoId, ...result }, true);
+    clearReportsCache();
+    return { success: true, message: 'Conciliação desfeita com sucesso' };
   } catch (error: any) {
     appendAuditLog('desfazerConciliacao', { extratoId, lancamentoId }, false, error?.message);
     return { success: false, message: error.message };
@@ -3179,6 +4309,10 @@ export function conciliarAutomatico(): { success: boolean; conciliados: number;
     const denied = requirePermission('editarLancamentos', 'conciliar automaticamente');
     if (denied) return { success: false, conciliados: 0, message: denied.message };
 
+    // Regras de conciliação primeiro: tarifas, IOF etc. viram lançamentos já conciliados
+    const porRegra = applyReconciliationRules().conciliados;
+    if (porRegra) clearReportsCache();
+
     const ss = SpreadsheetApp.getActiveSpreadsheet();
     const sheetExtratos = ss.getSheetByName(SHEET_TB_EXTRATOS);
     const sheetLanc = ss.getSheetByName(SHEET_TB_LANCAMENTOS);
@@ -3221,7 +4355,7 @@ export function conciliarAutomatico(): { success: boolean; conciliados: number;
       const extrLastRow = sheetExtratos.getLastRow();
       const lancLastRow = sheetLanc.getLastRow();
       if (extrLastRow <= 1 || lancLastRow <= 1) {
-        return { success: true, conciliados: 0, message: '0 itens conciliados' };
+        return { success: true, conciliados: porRegra, message: `${porRegra} itens conciliados (${porRegra} por regra)` };
       }
 
       const extrValues = sheetExtratos
@@ -3307,17 +4441,184 @@ export function conciliarAutomatico(): { success: boolean; conciliados: number;
         conciliados++;
       }
 
-      appendAuditLog('conciliarAutomatico', { conciliados }, true);
+      appendAuditLog('conciliarAutomatico', { conciliados, porRegra }, true);
       clearReportsCache();
-      return { success: true, conciliados, message: `${conciliados} itens conciliados` };
+      const total = conciliados + porRegra;
+      return { success: true, conciliados: total, message: `${total} itens conciliados (${porRegra} por regra)` };
     } finally {
       try {
         lock.releaseLock();
       } catch (_) {}
     }
   } catch (error: any) {
-    appendAuditLog('conciliarAutomatico', {}, false, error?.message);
-    return { success: false, conciliados: 0, message: error.message };
+    appendAuditLog('conciliarAutomatico', {}, false, error?.message);
+    return { success: false, conciliados: 0, message: error.message };
+  }
+}
+
+// ============================================================================
+// REGRAS DE CONCILIAÇÃO
+// ============================================================================
+
+/**
+ * Lista as regras de conciliação na ordem de avaliação (prioridade)
+ */
+export function getRegrasConciliacao(): { success: boolean; message?: string; data?: any[] } {
+  try {
+    enforcePermission('visualizarRelatorios', 'listar regras de conciliação');
+    const data = listReconciliationRules().map((r) => ({
+      ...r,
+      ultimoAcerto: normalizeDateCell(r.ultimoAcerto),
+    }));
+    return { success: true, data };
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * Cria ou atualiza uma regra de conciliação
+ */
+export function salvarRegraConciliacao(input: any): { success: boolean; message: string; id?: string } {
+  const denied = requirePermission('editarLancamentos', 'salvar regra de conciliação');
+  if (denied) return denied;
+
+  try {
+    const result = saveReconciliationRule(parseReconciliationRuleInput(input));
+    appendAuditLog(
+      'salvarRegraConciliacao',
+      { id: result.rule.id, criada: result.criada, origem: result.rule.origem },
+      true
+    );
+    return {
+      success: true,
+      message: result.criada ? 'Regra criada' : 'Regra atualizada',
+      id: result.rule.id,
+    };
+  } catch (error: any) {
+    appendAuditLog('salvarRegraConciliacao', { id: input?.id || '' }, false, error?.message);
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * Dry-run das regras sobre os extratos pendentes (nada é gravado)
+ *
+ * @param input - Regra avulsa (ex.: rascunho ainda não salvo); vazio = todas as regras ativas
+ */
+export function simularRegrasConciliacao(input?: any) {
+  try {
+    enforcePermission('visualizarRelatorios', 'simular regras de conciliação');
+    const rule = input ? parseReconciliationRuleInput(input) : undefined;
+    const result = previewReconciliationRules(rule);
+    return { success: true, ...result, hits: result.hits.slice(0, 200) };
+  } catch (error: any) {
+    return { success: false, message: error.message, avaliados: 0, conciliados: 0, hits: [] };
+  }
+}
+
+/**
+ * Aplica somente as regras de conciliação (sem o match por valor/data)
+ */
+export function aplicarRegrasConciliacao(): { success: boolean; message: string; conciliados?: number } {
+  const denied = requirePermission('editarLancamentos', 'aplicar regras de conciliação');
+  if (denied) return denied;
+
+  try {
+    const result = applyReconciliationRules();
+    if (result.conciliados) clearReportsCache();
+    appendAuditLog(
+      'aplicarRegrasConciliacao',
+      { avaliados: result.avaliados, conciliados: result.conciliados },
+      true
+    );
+    return {
+      success: true,
+      message: `${result.conciliados} extratos conciliados por regra (${result.avaliados} pendentes avaliados)`,
+      conciliados: result.conciliados,
+    };
+  } catch (error: any) {
+    appendAuditLog('aplicarRegrasConciliacao', {}, false, error?.message);
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * Rascunho de regra a partir de uma conciliação manual (não grava)
+ */
+export function sugerirRegraConciliacao(extratoId: string, lancamentoId: string) {
+  try {
+    enforcePermission('visualizarRelatorios', 'sugerir regra de conciliação');
+    const extrato = String(extratoId || '').trim();
+    const lancamento = splitLinkedIds(lancamentoId)[0] || '';
+    if (!extrato || !lancamento) {
+      return { success: false, message: 'Extrato e lançamento são obrigatórios' };
+    }
+    const regra = suggestRuleFromReconciliation(extrato, lancamento);
+    const simulacao = regra.padrao ? previewReconciliationRules(regra) : null;
+    return {
+      success: true,
+      regra,
+      // Quantos extratos pendentes a regra pegaria hoje
+      acertosPrevistos: simulacao ? simulacao.conciliados : 0,
+    };
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
+
+// ============================================================================
+// CONTAS BANCÁRIAS E SALDOS
+// ============================================================================
+
+/**
+ * Contas bancárias cadastradas com o saldo na data-base (padrão: hoje)
+ */
+export function getSaldosBancarios(dataBase?: string, filial?: string) {
+  try {
+    enforcePermission('visualizarRelatorios', 'ver saldos bancários');
+    const data = dataBase ? parseDateISO(normalizeDateInput(dataBase)) : null;
+    const filialNorm = String(filial || '').trim() || null;
+    const saldos = getBankBalances(data || undefined, filialNorm);
+    const contas = getAllBankAccounts()
+      .filter((c) => !filialNorm || c.filial === filialNorm)
+      .map((c) => ({ ...c, dataSaldoInicial: formatDateISO(c.dataSaldoInicial) }));
+    const total = saldos.reduce((sum, s) => sum + s.saldo, 0);
+    return { success: true, contas, saldos, total: Math.round(total * 100) / 100 };
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * Saldo diário de uma conta a partir dos extratos
+ */
+export function getSaldoDiarioConta(contaId: string, inicio?: string, fim?: string) {
+  try {
+    enforcePermission('visualizarRelatorios', 'ver saldo diário');
+    const conta = String(contaId || '').trim();
+    if (!conta) return { success: false, message: 'Conta bancária é obrigatória' };
+    const dataInicio = inicio ? parseDateISO(normalizeDateInput(inicio)) : null;
+    const dataFim = fim ? parseDateISO(normalizeDateInput(fim)) : null;
+    return { success: true, data: getDailyBalances(conta, dataInicio, dataFim) };
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * Verifica a continuidade de saldoApos nos extratos (importações faltando ou duplicadas)
+ */
+export function verificarContinuidadeExtratos(contaId?: string) {
+  try {
+    enforcePermission('visualizarRelatorios', 'verificar continuidade de extratos');
+    const report = checkStatementContinuity(String(contaId || '').trim() || null);
+    const message = report.issues.length
+      ? `${report.issues.length} quebra(s) de saldo em ${report.verificados} linha(s) conferida(s)`
+      : `Saldos contínuos em ${report.verificados} linha(s) conferida(s)`;
+    return { success: true, message, ...report };
+  } catch (error: any) {
+    return { success: false, message: error.message };
   }
 }
 
@@ -3467,8 +4768,10 @@ function computeCaixaResumo(movimentos: CaixaMovRow[]) {
 
 function seedReforcoMovimento(caixaId: string, canal: string, dataFechamento: string): void {
   if (!caixaId || !canal || !dataFechamento) return;
-  const prevDate = getPreviousBusinessDate(dataFechamento);
-  if (!prevDate || prevDate === dataFechamento) return;
+  // Caixas de loja abrem aos sábados: o dia anterior pula domingos e feriados
+  const base = parseDateISO(dataFechamento);
+  if (!base) return;
+  const prevDate = formatDateISO(previousBusinessDay(base, getBusinessDayOptions(null, { sabadoUtil: true })));
 
   const caixas = getCaixasRows();
   const prev = caixas.find((c) => String(c.canal) === String(canal) && String(c.dataFechamento) === prevDate);
@@ -3928,17 +5231,6 @@ function normalizeDateInput(value: unknown): string {
   return s;
 }
 
-function getPreviousBusinessDate(dateStr: string): string {
-  if (!dateStr) return '';
-  const base = new Date(`${dateStr}T00:00:00`);
-  if (Number.isNaN(base.getTime())) return dateStr;
-  base.setDate(base.getDate() - 1);
-  if (base.getDay() === 0) {
-    base.setDate(base.getDate() - 1);
-  }
-  return Utilities.formatDate(base, Session.getScriptTimeZone(), 'yyyy-MM-dd');
-}
-
 function parseMoneyInput(value: unknown): number {
   if (typeof value === 'number') return value;
   if (value === null || value === undefined) return 0;
@@ -3998,6 +5290,7 @@ function getImportFcRows(tipo?: string): any[] {
   createSheetIfNotExists(SHEET_TB_IMPORT_FC, [
     'Data Emissao', 'Num Documento', 'Cod Conta', 'Filial FC', 'Historico', 'Fornecedor',
     'Valor', 'Descricao', 'Data Baixa', 'Flag Baixa', 'Data Vencimento', 'Tipo', 'Importado Em',
+    'Lote Importação',
   ]);
   const values = getSheetValues(SHEET_TB_IMPORT_FC, { skipHeader: true });
   return values
@@ -4022,7 +5315,7 @@ function getImportFcRows(tipo?: string): any[] {
 function getImportItauRows(): any[] {
   createSheetIfNotExists(SHEET_TB_IMPORT_ITAU, [
     'Data', 'Lancamento', 'Agencia/Origem', 'Razao Social', 'CPF/CNPJ', 'Valor',
-    'Saldo', 'Conta', 'Filial FC', 'Modelo', 'Importado Em',
+    'Saldo', 'Conta', 'Filial FC', 'Modelo', 'Importado Em', 'Lote Importação',
   ]);
   const values = getSheetValues(SHEET_TB_IMPORT_ITAU, { skipHeader: true });
   return values
@@ -4046,7 +5339,7 @@ function getImportSiegRows(): any[] {
     'Num NFe', 'Valor', 'Data Emissao', 'CNPJ Emit', 'Nome Fant Emit', 'Razao Soc Emit',
     'CNPJ Dest', 'Nome Fant Dest', 'Razao Soc Dest', 'Data Envio Cofre', 'Chave NFe',
     'Tags', 'Codigo Evento', 'Tipo Evento', 'Status', 'Danfe', 'Xml', 'Codigo Filial',
-    'Filial FC', 'Importado Em',
+    'Filial FC', 'Importado Em', 'Lote Importação',
   ]);
   const values = getSheetValues(SHEET_TB_IMPORT_SIEG, { skipHeader: true });
   return values
@@ -4074,10 +5367,97 @@ function getImportSiegRows(): any[] {
     }));
 }
 
+/**
+ * Importador do relatório FC (contas a pagar/receber do ERP)
+ */
+registerImporter({
+  id: 'FC',
+  label: 'FC',
+  sheetName: SHEET_TB_IMPORT_FC,
+  headers: [
+    'Data Emissao', 'Num Documento', 'Cod Conta', 'Filial FC', 'Historico', 'Fornecedor',
+    'Valor', 'Descricao', 'Data Baixa', 'Flag Baixa', 'Data Vencimento', 'Tipo', 'Importado Em',
+    'Lote Importação',
+  ],
+  batchColumn: TB_IMPORT_FC_COLS.LOTE_IMPORTACAO,
+  periodDateColumn: TB_IMPORT_FC_COLS.DATA_EMISSAO,
+  cacheNamespaces: [CacheNamespace.CONCILIACAO],
+  parse: (rows: Array<any>) => (Array.isArray(rows) ? rows : []),
+  map: (r: any, ctx) => {
+    if (!r) return 'Linha vazia';
+    return [
+      normalizeDateInput(r.dataEmissao),
+      sanitizeSheetString(r.numDocumento || ''),
+      sanitizeSheetString(r.codConta || ''),
+      sanitizeSheetString(r.filialFc || ctx.meta.filialFc || ''),
+      sanitizeSheetString(r.historico || ''),
+      sanitizeSheetString(r.fornecedor || ''),
+      parseMoneyInput(r.valor),
+      sanitizeSheetString(r.descricao || ''),
+      normalizeDateInput(r.dataBaixa),
+      sanitizeSheetString(r.flagBaixa || ''),
+      normalizeDateInput(r.dataVencimento),
+      String(ctx.meta.tipo || ''),
+      ctx.importedAt,
+    ];
+  },
+  rowKey: (row) => buildImportKey([
+    normalizeDateInput(row[TB_IMPORT_FC_COLS.DATA_EMISSAO]),
+    parseMoneyInput(row[TB_IMPORT_FC_COLS.VALOR]),
+    String(row[TB_IMPORT_FC_COLS.NUM_DOCUMENTO] || ''),
+    String(row[TB_IMPORT_FC_COLS.FILIAL_FC] || ''),
+    String(row[TB_IMPORT_FC_COLS.TIPO] || '').toUpperCase(),
+  ]),
+  // Fornecedor/cliente do relatório vira parceiro (FC não traz CPF/CNPJ: vínculo por nome)
+  beforeCommit: (_ctx, rows) => {
+    linkPartners(
+      rows
+        .filter((row) => String(row[TB_IMPORT_FC_COLS.FORNECEDOR] || '').trim())
+        .map((row) => ({
+          nome: String(row[TB_IMPORT_FC_COLS.FORNECEDOR]),
+          tipo: partnerTypeFromLancamentoTipo(row[TB_IMPORT_FC_COLS.TIPO]),
+          origem: 'FC',
+        }))
+    );
+  },
+});
+
+type ImportEndpointResult = Partial<ImportResult> & { success: boolean; message: string };
+
+/**
+ * Executa uma etapa do framework de importação com auditoria padronizada
+ */
+function runImportEndpoint(
+  action: string,
+  auditPayload: Record<string, any>,
+  run: () => ImportResult
+): ImportEndpointResult {
+  try {
+    const result = run();
+    appendAuditLog(
+      action,
+      {
+        ...auditPayload,
+        batchId: result.batchId,
+        imported: result.imported,
+        skippedDup: result.skippedDup,
+        rejected: result.rejected.length,
+        reverted: result.reverted,
+      },
+      result.success,
+      result.success ? undefined : result.message
+    );
+    return result;
+  } catch (error: any) {
+    appendAuditLog(action, auditPayload, false, error?.message);
+    return { success: false, message: error.message };
+  }
+}
+
 export function importarFc(
   rows: Array<any>,
   meta?: { tipo?: string; filialFc?: string }
-): { success: boolean; message: string; imported?: number } {
+): ImportEndpointResult {
   const denied = requirePermission('importarArquivos', 'importar FC');
   if (denied) return denied;
 
@@ -4086,69 +5466,57 @@ export function importarFc(
     return { success: false, message: 'Tipo invalido para importacao FC' };
   }
 
-  const now = new Date().toISOString();
-  const payload = Array.isArray(rows) ? rows : [];
-  const existing = getImportFcRows(tipo);
-  const existingKeys = new Set(
-    existing.map((r) => buildImportKey([r.dataEmissao, r.valor, r.numDocumento, r.filialFc, r.tipo]))
+  return runImportEndpoint('importarFc', { tipo }, () =>
+    commitImport('FC', rows, { tipo, filialFc: meta?.filialFc || '' })
   );
+}
 
-  const values = payload
-    .filter((r) => r)
-    .map((r) => ({
-      dataEmissao: normalizeDateInput(r.dataEmissao),
-      numDocumento: sanitizeSheetString(r.numDocumento || ''),
-      codConta: sanitizeSheetString(r.codConta || ''),
-      filialFc: sanitizeSheetString(r.filialFc || meta?.filialFc || ''),
-      historico: sanitizeSheetString(r.historico || ''),
-      fornecedor: sanitizeSheetString(r.fornecedor || ''),
-      valor: parseMoneyInput(r.valor),
-      descricao: sanitizeSheetString(r.descricao || ''),
-      dataBaixa: normalizeDateInput(r.dataBaixa),
-      flagBaixa: sanitizeSheetString(r.flagBaixa || ''),
-      dataVencimento: normalizeDateInput(r.dataVencimento),
-      tipo: tipo,
-    }))
-    .filter((r) => {
-      const key = buildImportKey([r.dataEmissao, r.valor, r.numDocumento, r.filialFc, r.tipo]);
-      if (!key || existingKeys.has(key)) return false;
-      existingKeys.add(key);
-      return true;
-    })
-    .map((r) => ([
-      r.dataEmissao,
-      r.numDocumento,
-      r.codConta,
-      r.filialFc,
-      r.historico,
-      r.fornecedor,
-      r.valor,
-      r.descricao,
-      r.dataBaixa,
-      r.flagBaixa,
-      r.dataVencimento,
-      r.tipo,
-      now,
-    ]));
+/**
+ * Pré-visualiza qualquer importação registrada (nada é gravado)
+ */
+export function previewImportacao(
+  importerId: string,
+  input: any,
+  meta?: Record<string, any>
+): ImportEndpointResult {
+  const denied = requirePermission('importarArquivos', 'pré-visualizar importação');
+  if (denied) return denied;
 
-  const imported = values.length;
-  const total = payload.length;
-  const skipped = Math.max(0, total - imported);
-  if (!values.length) {
-    if (payload.length > 0) {
-      return { success: false, message: 'Nenhuma linha importada (todas duplicadas ou invalidas)' };
-    }
-    return { success: false, message: 'Nenhuma linha valida para importar' };
+  try {
+    return previewImport(importerId, input, meta || {});
+  } catch (error: any) {
+    return { success: false, message: error.message };
   }
+}
 
-  appendRows(SHEET_TB_IMPORT_FC, values);
-  appendAuditLog('importarFc', { tipo, imported, skipped }, true);
-  cacheRemoveNamespace(CacheNamespace.CONCILIACAO, CacheScope.SCRIPT);
-  return {
-    success: true,
-    message: `Importado ${imported} linhas FC${skipped ? ` (ignoradas ${skipped} duplicadas)` : ''}`,
-    imported,
-  };
+/**
+ * Lista os lotes gravados por um importador (mais recentes primeiro)
+ */
+export function getLotesImportacao(
+  importerId: string
+): { success: boolean; message?: string; lotes?: ImportBatchSummary[] } {
+  const denied = requirePermission('importarArquivos', 'consultar lotes de importação');
+  if (denied) return denied;
+
+  try {
+    return { success: true, lotes: listBatches(importerId) };
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * Reverte um lote de importação (remove ou cancela exatamente as linhas dele)
+ *
+ * Recusado se alguma linha já foi conciliada ou está em período fechado.
+ */
+export function reverterLoteImportacao(importerId: string, batchId: string): ImportEndpointResult {
+  const denied = requirePermission('importarArquivos', 'reverter lote de importação');
+  if (denied) return denied;
+
+  return runImportEndpoint('reverterLoteImportacao', { importerId, batchId }, () =>
+    revertBatch(importerId, batchId)
+  );
 }
 
 export function getSheetData(
@@ -4642,63 +6010,147 @@ function ensureLancamentosNumeroDocumentoColumn(sheet: GoogleAppsScript.Spreadsh
   return lastCol;
 }
 
-function isPagoStatus(status: string): boolean {
-  return ['PAGO', 'PAGA', 'RECEBIDO', 'RECEBIDA'].includes((status || '').toUpperCase());
+/**
+ * Colunas de TB_LANCAMENTOS criadas sob demanda, na ordem em que
+ * aparecem após "Observações" (ver TB_LANCAMENTOS_COLS)
+ */
+const LANCAMENTOS_EXTRA_COLUMNS: Array<{ header: string; aliases: string[] }> = [
+  { header: 'N Documento', aliases: ['n documento', 'ndocumento', 'numero documento', 'num documento', 'documento'] },
+  { header: 'Chave NFe', aliases: ['chave nfe', 'chave nf-e'] },
+  { header: 'Lote Importação', aliases: ['lote importacao', 'lote'] },
+  { header: 'ID Parcelamento', aliases: ['id parcelamento', 'parcelamento'] },
+  { header: 'Parcela', aliases: ['parcela'] },
+  { header: 'Valor Conciliado', aliases: ['valor conciliado'] },
+  { header: 'Parceiro', aliases: ['parceiro', 'id parceiro'] },
+  { header: 'Status Pré-Conciliação', aliases: ['status pre-conciliacao', 'status pre conciliacao'] },
+  { header: 'Data Pagamento Pré-Conciliação', aliases: ['data pagamento pre-conciliacao', 'data pagamento pre conciliacao'] },
+];
+
+function ensureLancamentosExtraColumns(sheet: GoogleAppsScript.Spreadsheet.Sheet): void {
+  let lastCol = sheet.getLastColumn();
+  if (lastCol < 1) return;
+  const headers = sheet.getRange(1, 1, 1, lastCol).getDisplayValues()[0] || [];
+  for (const extra of LANCAMENTOS_EXTRA_COLUMNS) {
+    if (findHeaderIndexByAliases(headers, extra.aliases) !== -1) continue;
+    sheet.insertColumnsAfter(lastCol, 1);
+    sheet.getRange(1, lastCol + 1).setValue(extra.header);
+    headers.push(extra.header);
+    lastCol++;
+  }
+}
+
+/**
+ * ID de parceiro informado pelo front (vazio = sem parceiro)
+ *
+ * @throws Error se o parceiro não existir
+ */
+function resolveParceiroIdInput(value: any): string {
+  const id = String(value || '').trim();
+  if (!id) return '';
+  const partner = getPartnerById(id);
+  if (!partner) throw new Error(`Parceiro não encontrado: ${id}`);
+  return partner.id;
+}
+
+/**
+ * Grava o parceiro na linha de TB_LANCAMENTOS, completando as colunas anteriores
+ */
+function setLancamentoParceiro(row: any[], parceiroId: string | null): void {
+  if (!parceiroId) return;
+  for (let i = row.length; i < TB_LANCAMENTOS_COLS.PARCEIRO_ID; i++) row[i] = '';
+  row[TB_LANCAMENTOS_COLS.PARCEIRO_ID] = parceiroId;
+}
+
+function partnerTypeFromLancamentoTipo(tipo: any): PartnerType {
+  const t = String(tipo || '').trim().toUpperCase();
+  return t === 'RECEITA' || t === 'RECEBER' ? PartnerType.CLIENTE : PartnerType.FORNECEDOR;
 }
 
-function buildRateioPercentuais(lancamentosMes: any[]): Array<{ filial: string; percentual: number }> {
-  const receitasRecebidas = lancamentosMes.filter(l => l.tipo === 'RECEITA' && isPagoStatus(l.status) && !isRateioFilial(l.filial));
-  const porFilial: Record<string, number> = {};
-  receitasRecebidas.forEach(r => {
-    const filial = String(r.filial || '').trim();
-    if (!filial) return;
-    porFilial[filial] = (porFilial[filial] || 0) + Number(r.valorLiquido || r.valor || 0);
+/**
+ * Vincula (e com autoCreate cadastra) os parceiros das linhas novas de
+ * TB_LANCAMENTOS e completa conta contábil/centro de custo vazios com os
+ * padrões do parceiro. Com usarPrazo, o vencimento passa a ser a competência
+ * + prazo de pagamento do parceiro. Deve ser chamado com lock e com as
+ * colunas extras garantidas.
+ */
+function linkLancamentoRowsToPartners(
+  rows: any[][],
+  candidateOf: (row: any[], index: number) => PartnerCandidate | null,
+  options: { autoCreate: boolean; usarPrazo?: (row: any[], index: number) => boolean }
+): void {
+  const C = TB_LANCAMENTOS_COLS;
+  const indexes: number[] = [];
+  const candidates: PartnerCandidate[] = [];
+  rows.forEach((row, i) => {
+    const candidate = candidateOf(row, i);
+    if (!candidate) return;
+    indexes.push(i);
+    candidates.push(candidate);
   });
-  let total = Object.values(porFilial).reduce((sum, v) => sum + v, 0);
-
-  const filiaisBase = Object.keys(porFilial);
-  if (total <= 0) {
-    const fallback = Array.from(new Set(lancamentosMes.map(l => String(l.filial || '').trim())))
-      .filter(f => f && !isRateioFilial(f));
-    const baseFiliais = fallback.length ? fallback : filiaisBase;
-    if (!baseFiliais.length) return [];
-    const pct = 1 / baseFiliais.length;
-    return baseFiliais.map(f => ({ filial: f, percentual: pct }));
-  }
-
-  return filiaisBase.map(f => ({ filial: f, percentual: porFilial[f] / total }));
-}
-
-function aplicarRateioDespesas(lancamentosMes: any[]): any[] {
-  const rateioDespesas = lancamentosMes.filter(l => l.tipo === 'DESPESA' && isRateioFilial(l.filial));
-  if (!rateioDespesas.length) return lancamentosMes;
-
-  const percentuais = buildRateioPercentuais(lancamentosMes);
-  if (!percentuais.length) return lancamentosMes;
-
-  const semRateio = lancamentosMes.filter(l => !(l.tipo === 'DESPESA' && isRateioFilial(l.filial)));
-  const alocados: any[] = [];
-
-  rateioDespesas.forEach((d) => {
-    const total = Number(d.valorLiquido || d.valor || 0);
-    if (!Number.isFinite(total) || total === 0) return;
-    const valores = percentuais.map(p => total * p.percentual);
-    const valoresAjustados = splitRateio(total, percentuais.length);
-    percentuais.forEach((p, idx) => {
-      const valor = valoresAjustados[idx] ?? valores[idx] ?? 0;
-      alocados.push({
-        ...d,
-        filial: p.filial,
-        valorLiquido: valor,
-        valorBruto: valor,
-        valor: valor,
-        descricao: `${d.descricao || ''} | Rateio ${Math.round(p.percentual * 100)}%`,
-        observacoes: `${d.observacoes || ''} Rateio origem: ${d.filial || ''}`.trim(),
-      });
-    });
+
+  // Linhas com o mesmo número de colunas (setValues exige retângulo)
+  rows.forEach((row) => {
+    for (let i = row.length; i <= C.PARCEIRO_ID; i++) row[i] = '';
+  });
+  if (!candidates.length) return;
+
+  const ids = linkPartners(candidates, { autoCreate: options.autoCreate }).ids;
+  const partners = new Map(getAllPartners().map((p) => [p.id, p]));
+  indexes.forEach((rowIndex, k) => {
+    const partner = ids[k] ? partners.get(ids[k] as string) : undefined;
+    if (!partner) return;
+    const row = rows[rowIndex];
+    row[C.PARCEIRO_ID] = partner.id;
+
+    const usarPrazo = options.usarPrazo ? options.usarPrazo(row, rowIndex) : false;
+    const defaults = partnerDefaults(partner, usarPrazo ? normalizeDateInput(row[C.DATA_COMPETENCIA]) : null);
+    if (!String(row[C.CONTA_CONTABIL] || '').trim() && defaults.contaContabil) {
+      row[C.CONTA_CONTABIL] = defaults.contaContabil;
+    }
+    if (!String(row[C.CENTRO_CUSTO] || '').trim() && defaults.centroCusto) {
+      row[C.CENTRO_CUSTO] = defaults.centroCusto;
+    }
+    if (defaults.dataVencimento) row[C.DATA_VENCIMENTO] = defaults.dataVencimento;
   });
+}
+
+/**
+ * Parceiro de uma NF-e: o emitente é fornecedor; quando o emitente é uma
+ * filial própria (saída), o destinatário é cliente
+ */
+function nfePartnerCandidate(
+  emitente: { documento: any; razaoSocial: any; nomeFantasia: any },
+  destinatario: { documento: any; razaoSocial: any; nomeFantasia: any },
+  ownCnpjs: Set<string>,
+  origem: string
+): PartnerCandidate | null {
+  const emitDoc = normalizeTaxId(emitente.documento);
+  const destDoc = normalizeTaxId(destinatario.documento);
+  const saida = ownCnpjs.has(emitDoc);
+  if (saida && ownCnpjs.has(destDoc)) return null; // transferência entre filiais
+  const parte = saida ? destinatario : emitente;
+  const nome = String(parte.razaoSocial || parte.nomeFantasia || '').trim();
+  const documento = saida ? destDoc : emitDoc;
+  if (!nome && !documento) return null;
+  return {
+    documento,
+    nome,
+    nomeFantasia: String(parte.nomeFantasia || '').trim(),
+    tipo: saida ? PartnerType.CLIENTE : PartnerType.FORNECEDOR,
+    origem,
+  };
+}
+
+function ownCnpjSet(): Set<string> {
+  return new Set(Array.from(getFiliaisByCnpj().keys()).map((cnpj) => normalizeTaxId(cnpj)));
+}
+
+function isPagoStatus(status: string): boolean {
+  return ['PAGO', 'PAGA', 'RECEBIDO', 'RECEBIDA'].includes((status || '').toUpperCase());
+}
 
-  return semRateio.concat(alocados);
+function isAbertoStatus(status: string): boolean {
+  return ['PENDENTE', 'VENCIDA'].includes((status || '').toUpperCase());
 }
 
 function getLancamentosMesRateados(
@@ -4708,14 +6160,14 @@ function getLancamentosMesRateados(
   canal?: string
 ): any[] {
   const base = lancamentos.filter(l => {
-    const data = new Date(l.dataCompetencia);
-    const mesLanc = data.getMonth() + 1;
-    const anoLanc = data.getFullYear();
-    const matchPeriodo = mesLanc === mes && anoLanc === ano;
+    // yyyy-MM-dd no fuso local (new Date(iso) seria UTC e jogaria o dia 1 no mês anterior)
+    const data = parseDateISO(String(l.dataCompetencia || '').slice(0, 10));
+    if (!data) return false;
+    const matchPeriodo = data.getMonth() + 1 === mes && data.getFullYear() === ano;
     const matchCanal = !canal || l.canal === canal;
     return matchPeriodo && matchCanal;
   });
-  return aplicarRateioDespesas(base);
+  return applyExpenseRateio(base);
 }
 
 export function previewContasPagasTxt(content: string): {
@@ -4769,6 +6221,82 @@ function computeContentHash(content: string): string {
   return bytes.map(b => (`0${((b + 256) % 256).toString(16)}`).slice(-2)).join('');
 }
 
+/**
+ * Importador do TXT de contas pagas do ERP (grava direto em TB_LANCAMENTOS)
+ * A entrada são os itens já fatiados por parseContasPagasTxtSlice.
+ */
+registerImporter({
+  id: 'CONTAS_PAGAS_TXT',
+  label: 'contas pagas',
+  sheetName: SHEET_TB_LANCAMENTOS,
+  batchColumn: TB_LANCAMENTOS_COLS.LOTE_IMPORTACAO,
+  periodDateColumn: TB_LANCAMENTOS_COLS.DATA_COMPETENCIA,
+  // Lançamentos não são apagados: o lote revertido fica CANCELADA
+  cancel: { column: TB_LANCAMENTOS_COLS.STATUS, value: 'CANCELADA' },
+  isReconciled: (row) => Boolean(String(row[TB_LANCAMENTOS_COLS.ID_EXTRATO_BANCO] || '').trim()),
+  parse: (items: ParsedContaPaga[]) => (Array.isArray(items) ? items : []),
+  map: (item: ParsedContaPaga, ctx) => {
+    if (item.tipo !== 'DESPESA') return 'Apenas despesas são importadas';
+    const fileName = ctx.meta.fileName || 'TXT';
+    const obs = item.rateio
+      ? `Importado de ${fileName} | Filial origem: ${item.filialOriginal} | Rateio`
+      : `Importado de ${fileName} | Filial origem: ${item.filialOriginal}`;
+
+    return [
+      sanitizeSheetString(`CP-ERP-${Utilities.getUuid()}`),
+      sanitizeSheetString(item.dataCompetencia),
+      sanitizeSheetString(item.dataVencimento),
+      sanitizeSheetString(item.dataPagamento),
+      sanitizeSheetString(item.tipo),
+      sanitizeSheetString(item.filialMapeada),
+      '',
+      '',
+      sanitizeSheetString(item.contaContabil),
+      '',
+      '',
+      sanitizeSheetString(item.descricao),
+      item.valor,
+      0,
+      0,
+      0,
+      item.valor,
+      'PAGA',
+      '',
+      'ERP_TXT',
+      sanitizeSheetString(obs),
+      sanitizeSheetString(item.numeroDocumento || ''),
+    ];
+  },
+  rowKey: (row) => {
+    // Lançamento cancelado (ex.: lote revertido) não bloqueia nova importação
+    if (String(row[TB_LANCAMENTOS_COLS.STATUS] || '').toUpperCase() === 'CANCELADA') return '';
+    return buildImportKey([
+      normalizeDateInput(row[TB_LANCAMENTOS_COLS.DATA_PAGAMENTO]),
+      String(row[TB_LANCAMENTOS_COLS.CONTA_CONTABIL] || ''),
+      parseMoneyInput(row[TB_LANCAMENTOS_COLS.VALOR_LIQUIDO]).toFixed(2),
+      String(row[TB_LANCAMENTOS_COLS.FILIAL] || ''),
+      String(row[TB_LANCAMENTOS_COLS.DESCRICAO] || ''),
+      String(row[TB_LANCAMENTOS_COLS.TIPO] || ''),
+    ]);
+  },
+  beforeCommit: (_ctx, rows) => {
+    const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(SHEET_TB_LANCAMENTOS);
+    if (!sheet) throw new Error('Aba de lançamentos não encontrada');
+    ensureLancamentosExtraColumns(sheet);
+    // Histórico do ERP é texto livre: só vincula parceiros já cadastrados
+    linkLancamentoRowsToPartners(
+      rows,
+      (row) => ({
+        nome: contraparteFromLancamento({ descricao: row[TB_LANCAMENTOS_COLS.DESCRICAO] }),
+        tipo: PartnerType.FORNECEDOR,
+        origem: 'ERP_TXT',
+      }),
+      { autoCreate: false }
+    );
+  },
+  invalidate: () => invalidateLancamentosCache(),
+});
+
 export function importarContasPagasTxt(
   content: string,
   fileName?: string,
@@ -4782,6 +6310,7 @@ export function importarContasPagasTxt(
   message: string;
   imported?: number;
   skipped?: number;
+  batchId?: string | null;
   nextOffset?: number | null;
   total?: number;
 } {
@@ -4813,348 +6342,938 @@ export function importarContasPagasTxt(
     const nextOffsetRaw = sliceResult.nextOffset;
     const totalCount = Number(total || sliceResult.total || 0);
 
-    const ss = SpreadsheetApp.getActiveSpreadsheet();
-    const sheet = ss.getSheetByName(SHEET_TB_LANCAMENTOS);
-    if (!sheet) throw new Error('Aba de lan?amentos n?o encontrada');
-
-    ensureLancamentosNumeroDocumentoColumn(sheet);
-    const headerRow = sheet.getRange(1, 1, 1, sheet.getLastColumn()).getDisplayValues()[0] || [];
-    const idCol = findHeaderIndexByAliases(headerRow, ['id', 'codigo']);
-    const dataPagCol = findHeaderIndexByAliases(headerRow, [
-      'data pagamento',
-      'dt pagamento',
-      'data pgto',
-      'dt pgto',
-      'data baixa',
-      'dt baixa',
-      'baixa'
-    ]);
-    const contaCol = findHeaderIndexByAliases(headerRow, ['conta contabil', 'conta']);
-    const valorCol = findHeaderIndexByAliases(headerRow, ['valor liquido', 'valor']);
-    const filialCol = findHeaderIndexByAliases(headerRow, ['filial']);
-    const descCol = findHeaderIndexByAliases(headerRow, ['descricao', 'historico']);
-    const tipoCol = findHeaderIndexByAliases(headerRow, ['tipo']);
+    const cache = CacheService.getScriptCache();
+    const cacheKey = sessionId ? `import_cp_keys_${sessionId}` : '';
+    const batchKey = sessionId ? `import_cp_batch_${sessionId}` : '';
+    const options: ImportOptions = { skipDedup };
+    if (batchKey) {
+      // Todas as fatias da mesma sessão gravam no mesmo lote
+      const props = PropertiesService.getScriptProperties();
+      options.batchId = props.getProperty(batchKey) || generateBatchId();
+      props.setProperty(batchKey, options.batchId);
+    }
+    if (!skipDedup) {
+      let cachedKeys: string[] | null = null;
+      if (cacheKey) {
+        const cached = cache.get(cacheKey);
+        if (cached) {
+          try {
+            cachedKeys = JSON.parse(cached);
+          } catch (_) {}
+        }
+      }
+      options.knownKeys = Array.isArray(cachedKeys)
+        ? new Set<string>(cachedKeys)
+        : loadImporterKeys('CONTAS_PAGAS_TXT');
+    }
+
+    const result = commitImport('CONTAS_PAGAS_TXT', parsed, { fileName: fileName || '' }, options);
+
+    if (cacheKey && options.knownKeys) {
+      const serialized = JSON.stringify(Array.from(options.knownKeys));
+      if (serialized.length < 90000) {
+        cache.put(cacheKey, serialized, 600);
+      }
+    }
+    appendAuditLog(
+      'importarContasPagasTxt',
+      { batchId: result.batchId, imported: result.imported, skipped: result.skippedDup, rejected: result.rejected.length, start, nextOffsetRaw },
+      true
+    );
+    const nextOffset = totalCount > 0 ? (nextOffsetRaw < totalCount ? nextOffsetRaw : null) : nextOffsetRaw;
+    if (sessionId && nextOffset === null) {
+      const props = PropertiesService.getScriptProperties();
+      props.deleteProperty(`import_cp_file_${sessionId}`);
+      props.deleteProperty(batchKey);
+    }
+    // Importação em fatias: fatia sem linhas novas não interrompe o processo
+    return {
+      ...result,
+      success: true,
+      message: result.imported
+        ? `${result.imported} contas pagas importadas (${result.skippedDup} duplicadas)`
+        : 'Nenhuma linha nova para importar',
+      skipped: result.skippedDup,
+      batchId: options.batchId || result.batchId,
+      nextOffset,
+      total: totalCount || undefined,
+    };
+  } catch (error: any) {
+    appendAuditLog('importarContasPagasTxt', { fileName }, false, error?.message);
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * Importador do extrato Itaú (linhas pré-processadas no browser)
+ */
+registerImporter({
+  id: 'ITAU',
+  label: 'Itau',
+  sheetName: SHEET_TB_IMPORT_ITAU,
+  headers: [
+    'Data', 'Lancamento', 'Agencia/Origem', 'Razao Social', 'CPF/CNPJ', 'Valor',
+    'Saldo', 'Conta', 'Filial FC', 'Modelo', 'Importado Em', 'Lote Importação',
+  ],
+  batchColumn: TB_IMPORT_ITAU_COLS.LOTE_IMPORTACAO,
+  periodDateColumn: TB_IMPORT_ITAU_COLS.DATA,
+  cacheNamespaces: [CacheNamespace.CONCILIACAO],
+  parse: (rows: Array<any>) => (Array.isArray(rows) ? rows : []),
+  map: (r: any, ctx) => {
+    if (!r) return 'Linha vazia';
+    const lancamento = sanitizeSheetString(r.lancamento || '');
+    if (!isItauMovement(lancamento)) return 'Linha de saldo';
+    // PIX: pagador/recebedor do próprio lançamento (modelo A) e documento validado
+    const pix = parsePixTransaction(lancamento, r.razaoSocial, r.cpfCnpj);
+    const cpfCnpj = pix?.documento ? formatTaxId(pix.documento) : String(r.cpfCnpj || '');
+    return [
+      normalizeDateInput(r.data),
+      lancamento,
+      sanitizeSheetString(r.agenciaOrigem || ''),
+      sanitizeSheetString(r.razaoSocial || pix?.nome || ''),
+      sanitizeSheetString(cpfCnpj),
+      parseMoneyInput(r.valor),
+      parseMoneyInput(r.saldo),
+      sanitizeSheetString(r.conta || ctx.meta.conta || ''),
+      sanitizeSheetString(r.filialFc || ctx.meta.filialFc || ''),
+      sanitizeSheetString(r.modelo || ctx.meta.modelo || ''),
+      ctx.importedAt,
+    ];
+  },
+  rowKey: (row) => buildImportKey([
+    normalizeDateInput(row[TB_IMPORT_ITAU_COLS.DATA]),
+    parseMoneyInput(row[TB_IMPORT_ITAU_COLS.VALOR]),
+    String(row[TB_IMPORT_ITAU_COLS.LANCAMENTO] || ''),
+    String(row[TB_IMPORT_ITAU_COLS.CONTA] || ''),
+    String(row[TB_IMPORT_ITAU_COLS.CPF_CNPJ] || ''),
+  ]),
+  // PIX com CPF/CNPJ válido: pagador vira cliente, recebedor vira fornecedor
+  beforeCommit: (_ctx, rows) => {
+    const candidates: PartnerCandidate[] = [];
+    for (const row of rows) {
+      const pix = parsePixTransaction(
+        row[TB_IMPORT_ITAU_COLS.LANCAMENTO],
+        row[TB_IMPORT_ITAU_COLS.RAZAO_SOCIAL],
+        row[TB_IMPORT_ITAU_COLS.CPF_CNPJ]
+      );
+      if (!pix?.documento) continue;
+      candidates.push({
+        documento: pix.documento,
+        nome: pix.nome,
+        tipo: parseMoneyInput(row[TB_IMPORT_ITAU_COLS.VALOR]) < 0 ? PartnerType.FORNECEDOR : PartnerType.CLIENTE,
+        origem: 'PIX',
+      });
+    }
+    linkPartners(candidates);
+  },
+});
+
+export function importarItau(
+  rows: Array<any>,
+  meta?: { modelo?: string; filialFc?: string; conta?: string }
+): ImportEndpointResult {
+  const denied = requirePermission('importarArquivos', 'importar Itau');
+  if (denied) return denied;
+
+  return runImportEndpoint('importarItau', { modelo: meta?.modelo || '' }, () =>
+    commitImport('ITAU', rows, meta || {})
+  );
+}
+
+// ============================================================================
+// CARTÕES (ADQUIRENTES)
+// ============================================================================
+
+const CARTAO_VENDAS_HEADERS = [
+  'Data Venda', 'Adquirente', 'Bandeira', 'Modalidade', 'Parcelas', 'NSU', 'Autorizacao',
+  'Valor Bruto', 'Valor Liquido', 'Filial FC', 'Estabelecimento', 'Importado Em', 'Lote Importação',
+];
+
+const CARTAO_LIQUIDACOES_HEADERS = [
+  'Data Pagamento', 'Adquirente', 'Bandeira', 'NSU', 'Parcela', 'Total Parcelas', 'Valor Bruto',
+  'Taxa', 'Valor Liquido', 'Data Venda', 'Estabelecimento', 'Importado Em', 'Lote Importação',
+];
+
+/**
+ * Importador de vendas exportadas pela adquirente (Cielo, Rede, Stone, Getnet)
+ */
+registerImporter({
+  id: 'CARTAO_VENDAS',
+  label: 'vendas cartão',
+  sheetName: SHEET_TB_IMPORT_CARTAO_VENDAS,
+  headers: CARTAO_VENDAS_HEADERS,
+  batchColumn: TB_IMPORT_CARTAO_VENDAS_COLS.LOTE_IMPORTACAO,
+  periodDateColumn: TB_IMPORT_CARTAO_VENDAS_COLS.DATA_VENDA,
+  cacheNamespaces: [CacheNamespace.CONCILIACAO],
+  parse: (rows: Array<any>) => (Array.isArray(rows) ? rows : []),
+  map: (r: any, ctx) => {
+    if (!r) return 'Linha vazia';
+    const adquirente = normalizeAcquirer(r.adquirente || ctx.meta.adquirente);
+    if (!adquirente) return 'Adquirente não identificada';
+    const dataVenda = normalizeDateInput(r.dataVenda);
+    if (!dataVenda) return 'Data da venda inválida';
+    const valorBruto = parseMoneyInput(r.valorBruto);
+    if (!valorBruto) return 'Valor bruto inválido';
+    const parcelas = Math.max(1, parseInt(String(r.parcelas || '1'), 10) || 1);
+    const liquido = String(r.valorLiquido ?? '').trim() ? parseMoneyInput(r.valorLiquido) : '';
+    return [
+      dataVenda,
+      adquirente,
+      normalizeBrand(r.bandeira),
+      normalizeModality(r.modalidade, parcelas),
+      parcelas,
+      sanitizeSheetString(r.nsu || ''),
+      sanitizeSheetString(r.autorizacao || ''),
+      valorBruto,
+      liquido,
+      sanitizeSheetString(r.filialFc || ctx.meta.filialFc || ''),
+      sanitizeSheetString(r.estabelecimento || ''),
+      ctx.importedAt,
+    ];
+  },
+  rowKey: (row) => buildImportKey([
+    String(row[TB_IMPORT_CARTAO_VENDAS_COLS.ADQUIRENTE] || ''),
+    String(row[TB_IMPORT_CARTAO_VENDAS_COLS.NSU] || ''),
+    normalizeDateInput(row[TB_IMPORT_CARTAO_VENDAS_COLS.DATA_VENDA]),
+    parseMoneyInput(row[TB_IMPORT_CARTAO_VENDAS_COLS.VALOR_BRUTO]),
+  ]),
+});
+
+/**
+ * Importador da agenda de pagamentos liquidados pela adquirente (uma linha por parcela)
+ */
+registerImporter({
+  id: 'CARTAO_LIQUIDACOES',
+  label: 'liquidações cartão',
+  sheetName: SHEET_TB_IMPORT_CARTAO_LIQUIDACOES,
+  headers: CARTAO_LIQUIDACOES_HEADERS,
+  batchColumn: TB_IMPORT_CARTAO_LIQUIDACOES_COLS.LOTE_IMPORTACAO,
+  periodDateColumn: TB_IMPORT_CARTAO_LIQUIDACOES_COLS.DATA_PAGAMENTO,
+  cacheNamespaces: [CacheNamespace.CONCILIACAO],
+  parse: (rows: Array<any>) => (Array.isArray(rows) ? rows : []),
+  map: (r: any, ctx) => {
+    if (!r) return 'Linha vazia';
+    const adquirente = normalizeAcquirer(r.adquirente || ctx.meta.adquirente);
+    if (!adquirente) return 'Adquirente não identificada';
+    const dataPagamento = normalizeDateInput(r.dataPagamento);
+    if (!dataPagamento) return 'Data de pagamento inválida';
+    const valorLiquido = parseMoneyInput(r.valorLiquido);
+    if (!valorLiquido) return 'Valor líquido inválido';
+    const parcela = String(r.parcela || '').match(/(\d+)\s*(?:\/|de)\s*(\d+)/i);
+    const valorBruto = String(r.valorBruto ?? '').trim() ? parseMoneyInput(r.valorBruto) : '';
+    const taxa = String(r.taxa ?? '').trim() ? Math.abs(parseMoneyInput(r.taxa)) : '';
+    return [
+      dataPagamento,
+      adquirente,
+      normalizeBrand(r.bandeira),
+      sanitizeSheetString(r.nsu || ''),
+      parcela ? Number(parcela[1]) : Math.max(1, parseInt(String(r.parcela || '1'), 10) || 1),
+      parcela ? Number(parcela[2]) : Math.max(1, parseInt(String(r.totalParcelas || '1'), 10) || 1),
+      valorBruto,
+      taxa,
+      valorLiquido,
+      normalizeDateInput(r.dataVenda),
+      sanitizeSheetString(r.estabelecimento || ''),
+      ctx.importedAt,
+    ];
+  },
+  rowKey: (row) => buildImportKey([
+    String(row[TB_IMPORT_CARTAO_LIQUIDACOES_COLS.ADQUIRENTE] || ''),
+    String(row[TB_IMPORT_CARTAO_LIQUIDACOES_COLS.NSU] || ''),
+    String(row[TB_IMPORT_CARTAO_LIQUIDACOES_COLS.PARCELA] || ''),
+    normalizeDateInput(row[TB_IMPORT_CARTAO_LIQUIDACOES_COLS.DATA_PAGAMENTO]),
+    parseMoneyInput(row[TB_IMPORT_CARTAO_LIQUIDACOES_COLS.VALOR_LIQUIDO]),
+  ]),
+});
+
+export function importarCartaoVendas(
+  rows: Array<any>,
+  meta?: { adquirente?: string; filialFc?: string }
+): ImportEndpointResult {
+  const denied = requirePermission('importarArquivos', 'importar vendas de cartão');
+  if (denied) return denied;
+
+  return runImportEndpoint('importarCartaoVendas', { adquirente: meta?.adquirente || '' }, () =>
+    commitImport('CARTAO_VENDAS', rows, meta || {})
+  );
+}
+
+export function importarCartaoLiquidacoes(
+  rows: Array<any>,
+  meta?: { adquirente?: string }
+): ImportEndpointResult {
+  const denied = requirePermission('importarArquivos', 'importar liquidações de cartão');
+  if (denied) return denied;
+
+  return runImportEndpoint('importarCartaoLiquidacoes', { adquirente: meta?.adquirente || '' }, () =>
+    commitImport('CARTAO_LIQUIDACOES', rows, meta || {})
+  );
+}
+
+/**
+ * Agenda de recebíveis de cartão com previsão entre inicio e fim (padrão: próximos 30 dias)
+ */
+export function getRecebiveisCartao(inicio?: string, fim?: string) {
+  try {
+    enforcePermission('visualizarRelatorios', 'ver recebíveis de cartão');
+    const hoje = new Date();
+    const dataInicio = parseDateISO(normalizeDateInput(inicio)) || new Date(hoje.getFullYear(), hoje.getMonth(), hoje.getDate());
+    const dataFim = parseDateISO(normalizeDateInput(fim)) || new Date(dataInicio.getFullYear(), dataInicio.getMonth(), dataInicio.getDate() + 30);
+    return { success: true, ...getExpectedCardReceivables(dataInicio, dataFim) };
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * Conciliação em três pontas (FC ↔ adquirente ↔ Itaú) e diferença de MDR do mês
+ */
+export function getConciliacaoCartoes(params?: { year?: number; month?: number }) {
+  try {
+    enforcePermission('visualizarRelatorios', 'ver conciliação de cartões');
+    const now = new Date();
+    const year = Number(params?.year) || now.getFullYear();
+    const month = Number(params?.month) || now.getMonth() + 1;
+    const cacheKey = `cartoes:${year}-${String(month).padStart(2, '0')}`;
+    const cached = cacheGet<any>(CacheNamespace.CONCILIACAO, cacheKey, CacheScope.SCRIPT);
+    if (cached) return cached;
+
+    const conciliacao = reconcileCardSales({ year, month });
+    const mdr = buildMdrVariance(new Date(year, month - 1, 1), new Date(year, month, 0));
+    const result = { success: true, ...conciliacao, mdr };
+    cacheSet(CacheNamespace.CONCILIACAO, cacheKey, result, COMPARATIVO_CACHE_TTL_SECONDS, CacheScope.SCRIPT);
+    return result;
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
+
+export function importarOfx(
+  content: string,
+  meta?: { conta?: string; fileName?: string }
+): { success: boolean; message: string; imported?: number; skippedDup?: number } {
+  const denied = requirePermission('importarArquivos', 'importar OFX');
+  if (denied) return denied;
+
+  const fileName = sanitizeSheetString(meta?.fileName || '');
+
+  try {
+    if (!content || !String(content).trim()) {
+      return { success: false, message: 'Arquivo OFX vazio' };
+    }
+
+    const conta = sanitizeSheetString(meta?.conta || '');
+    const result = importOfxStatement(String(content), conta || undefined);
+
+    appendAuditLog('importarOfx', { fileName, contas: result.contas, imported: result.imported, skippedDup: result.skippedDup }, true);
+
+    if (!result.imported) {
+      return {
+        success: false,
+        message: result.skippedDup
+          ? `Nenhuma linha importada (${result.skippedDup} duplicadas)`
+          : 'Nenhuma transação encontrada no arquivo OFX',
+        imported: 0,
+        skippedDup: result.skippedDup,
+      };
+    }
+
+    invalidateExtratosCache();
+    cacheRemoveNamespace(CacheNamespace.CONCILIACAO, CacheScope.SCRIPT);
+
+    const suffix = result.skippedDup ? ` (ignoradas ${result.skippedDup} duplicadas)` : '';
+    return {
+      success: true,
+      message: `Importado ${result.imported} movimentos OFX${suffix}`,
+      imported: result.imported,
+      skippedDup: result.skippedDup,
+    };
+  } catch (error: any) {
+    appendAuditLog('importarOfx', { fileName }, false, error.message);
+    return { success: false, message: error.message };
+  }
+}
+
+// ============================================================================
+// RETORNO CNAB (BOLETOS)
+// ============================================================================
+
+/**
+ * Cruza títulos liquidados do retorno com RECEITAS pendentes
+ * por nosso número / número do documento / uso da empresa
+ */
+function matchRetornoCnab(retorno: CnabRetorno): {
+  matched: Array<{ titulo: CnabTitulo; lancamento: any }>;
+  unmatched: Array<{ titulo: CnabTitulo; motivo: string }>;
+  naoLiquidados: number;
+} {
+  const receitas = getLancamentosFromSheet().filter((l) => l.tipo === 'RECEITA');
+  const abertas = new Map<string, any[]>();
+  const fechadas = new Set<string>();
+
+  const addKey = (key: string, l: any) => {
+    if (!key) return;
+    if (!isAbertoStatus(l.status)) {
+      fechadas.add(key);
+      return;
+    }
+    if (!abertas.has(key)) abertas.set(key, []);
+    abertas.get(key)!.push(l);
+  };
+
+  for (const l of receitas) {
+    addKey(normalizeCnabId(l.numeroDocumento), l);
+    addKey(normalizeCnabId(l.id), l);
+  }
+
+  const matched: Array<{ titulo: CnabTitulo; lancamento: any }> = [];
+  const unmatched: Array<{ titulo: CnabTitulo; motivo: string }> = [];
+  const usados = new Set<string>();
+  let naoLiquidados = 0;
 
-    if ([idCol, dataPagCol, contaCol, valorCol, filialCol, descCol, tipoCol].some(v => v == -1)) {
-      throw new Error(`Cabecalhos obrigatorios nao encontrados em lancamentos: ${headerRow.join(' | ')}`);
+  for (const titulo of retorno.titulos) {
+    if (!titulo.liquidado) {
+      naoLiquidados++;
+      continue;
     }
 
-    const cache = CacheService.getScriptCache();
-    const cacheKey = sessionId ? `import_cp_keys_${sessionId}` : '';
-    let existingKeys = new Set<string>();
-    let cachedKeys: string[] | null = null;
-    if (!skipDedup) {
-      if (cacheKey) {
-        const cached = cache.get(cacheKey);
-        if (cached) {
-          try {
-            cachedKeys = JSON.parse(cached);
-            if (Array.isArray(cachedKeys)) {
-              existingKeys = new Set<string>(cachedKeys);
-            }
-          } catch (_) {}
-        }
-      }
+    const keys = [titulo.nossoNumero, titulo.numeroDocumento, titulo.usoEmpresa]
+      .map(normalizeCnabId)
+      .filter((k) => k);
 
-      if (!cachedKeys) {
-        const lastRow = sheet.getLastRow();
-        const numRows = lastRow > 1 ? lastRow - 1 : 0;
-        const existingValues = numRows > 0
-          ? sheet.getRange(2, 1, numRows, sheet.getLastColumn()).getDisplayValues()
-          : [];
-        existingValues.forEach(row => {
-          const key = buildImportKey([
-            row[dataPagCol ?? 0],
-            row[contaCol ?? 0],
-            row[valorCol ?? 0],
-            row[filialCol ?? 0],
-            row[descCol ?? 0],
-            row[tipoCol ?? 0],
-          ]);
-          if (key) existingKeys.add(key);
-        });
+    let motivo = 'Nenhuma receita pendente com este nosso número/documento';
+    let found: any = null;
+
+    for (const key of keys) {
+      const candidatos = (abertas.get(key) || []).filter((l) => !usados.has(l.id));
+      if (candidatos.length === 1) {
+        found = candidatos[0];
+        break;
+      }
+      if (candidatos.length > 1) {
+        motivo = `Mais de uma receita pendente com documento ${key}`;
+        break;
+      }
+      if (fechadas.has(key)) {
+        motivo = `Receita com documento ${key} não está pendente`;
       }
     }
 
-    const rowsToAppend: any[][] = [];
-    let skipped = 0;
-
-    parsed.forEach((item) => {
-      if (item.tipo !== 'DESPESA') return;
-      const status = item.tipo === 'DESPESA' ? 'PAGA' : 'RECEBIDA';
-      const key = buildImportKey([
-        item.dataPagamento,
-        item.contaContabil,
-        Number(item.valor).toFixed(2),
-        item.filialMapeada,
-        item.descricao,
-        item.tipo,
-      ]);
-      if (!skipDedup) {
-        if (existingKeys.has(key)) {
-          skipped++;
-          return;
-        }
-        existingKeys.add(key);
-      }
+    if (found) {
+      usados.add(found.id);
+      matched.push({ titulo, lancamento: found });
+    } else {
+      unmatched.push({ titulo, motivo });
+    }
+  }
 
-      const id = `CP-ERP-${Utilities.getUuid()}`;
-      const obs = item.rateio
-        ? `Importado de ${fileName || 'TXT'} | Filial origem: ${item.filialOriginal} | Rateio`
-        : `Importado de ${fileName || 'TXT'} | Filial origem: ${item.filialOriginal}`;
+  return { matched, unmatched, naoLiquidados };
+}
 
-      const row = [
-        sanitizeSheetString(id),
-        sanitizeSheetString(item.dataCompetencia),
-        sanitizeSheetString(item.dataVencimento),
-        sanitizeSheetString(item.dataPagamento),
-        sanitizeSheetString(item.tipo),
-        sanitizeSheetString(item.filialMapeada),
-        '',
-        '',
-        sanitizeSheetString(item.contaContabil),
-        '',
-        '',
-        sanitizeSheetString(item.descricao),
-        item.valor,
-        0,
-        0,
-        0,
-        item.valor,
-        sanitizeSheetString(status),
-        '',
-        sanitizeSheetString('ERP_TXT'),
-        sanitizeSheetString(obs),
-        sanitizeSheetString(item.numeroDocumento || ''),
-      ];
+function cnabTituloToView(titulo: CnabTitulo): Record<string, any> {
+  return {
+    linha: titulo.linha,
+    nossoNumero: titulo.nossoNumero,
+    numeroDocumento: titulo.numeroDocumento,
+    ocorrencia: titulo.ocorrencia,
+    dataCredito: titulo.dataCredito ? normalizeDateCell(titulo.dataCredito) : '',
+    valorTitulo: titulo.valorTitulo,
+    valorPago: titulo.valorPago,
+    juros: titulo.juros,
+    multa: titulo.multa,
+    desconto: titulo.desconto,
+    tarifa: titulo.tarifa,
+  };
+}
 
-      rowsToAppend.push(row);
-    });
+/**
+ * Pré-visualização do retorno CNAB (nada é gravado)
+ */
+export function previewRetornoCnab(content: string): {
+  success: boolean;
+  message: string;
+  layout?: string;
+  banco?: string;
+  matched?: any[];
+  unmatched?: any[];
+  naoLiquidados?: number;
+} {
+  const denied = requirePermission('importarArquivos', 'pré-visualizar retorno CNAB');
+  if (denied) return denied;
 
-    if (!rowsToAppend.length) {
-      const nextOffset = totalCount > 0 ? (nextOffsetRaw < totalCount ? nextOffsetRaw : null) : nextOffsetRaw;
-      if (cacheKey && !skipDedup) {
-        const keysArr = Array.from(existingKeys);
-        const serialized = JSON.stringify(keysArr);
-        if (serialized.length < 90000) {
-          cache.put(cacheKey, serialized, 600);
-        }
-      }
-      if (sessionId && nextOffset === null) {
-        PropertiesService.getScriptProperties().deleteProperty(`import_cp_file_${sessionId}`);
-      }
-      return { success: true, message: 'Nenhuma linha nova para importar', imported: 0, skipped, nextOffset, total: totalCount || undefined };
+  try {
+    const retorno = parseCnabRetorno(String(content || ''));
+    const { matched, unmatched, naoLiquidados } = matchRetornoCnab(retorno);
+
+    return {
+      success: true,
+      message: `${matched.length} títulos conciliados; ${unmatched.length} sem correspondência`,
+      layout: retorno.layout,
+      banco: retorno.banco,
+      matched: matched.map((m) => ({
+        ...cnabTituloToView(m.titulo),
+        idLancamento: m.lancamento.id,
+        descricao: m.lancamento.descricao,
+        valorLancamento: m.lancamento.valorLiquido,
+      })),
+      unmatched: unmatched.map((u) => ({ ...cnabTituloToView(u.titulo), motivo: u.motivo })),
+      naoLiquidados,
+    };
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * Importa retorno CNAB 240/400: baixa as receitas correspondentes como RECEBIDA
+ * (mesmo fluxo de receberContasEmLote) preenchendo juros, multa e desconto
+ */
+export function importarRetornoCnab(
+  content: string,
+  meta?: { fileName?: string }
+): { success: boolean; message: string; imported?: number; unmatched?: number } {
+  const denied =
+    requirePermission('importarArquivos', 'importar retorno CNAB') ||
+    requirePermission('aprovarPagamentos', 'receber contas via retorno CNAB');
+  if (denied) return denied;
+
+  const fileName = sanitizeSheetString(meta?.fileName || '');
+
+  try {
+    const retorno = parseCnabRetorno(String(content || ''));
+    const { matched, unmatched } = matchRetornoCnab(retorno);
+
+    if (!matched.length) {
+      appendAuditLog('importarRetornoCnab', { fileName, layout: retorno.layout, unmatched: unmatched.length }, false, 'Nenhum título conciliado');
+      return { success: false, message: 'Nenhum título liquidado corresponde a receitas pendentes', imported: 0, unmatched: unmatched.length };
     }
 
-    const startRow = sheet.getLastRow() + 1;
-    sheet.getRange(startRow, 1, rowsToAppend.length, rowsToAppend[0].length).setValues(rowsToAppend);
+    const ss = SpreadsheetApp.getActiveSpreadsheet();
+    const sheet = ss.getSheetByName(SHEET_TB_LANCAMENTOS);
+    if (!sheet) throw new Error('Aba de lançamentos não encontrada');
+
+    const lock = LockService.getDocumentLock();
+    lock.waitLock(5000);
+    try {
+      const { count, errors } = aplicarRecebimentos(
+        sheet,
+        matched.map(({ titulo, lancamento }) => ({
+          id: lancamento.id,
+          dataPagamento: titulo.dataCredito || titulo.dataOcorrencia || undefined,
+          juros: titulo.juros,
+          multa: titulo.multa,
+          desconto: titulo.desconto,
+        }))
+      );
 
-    invalidateLancamentosCache();
-    if (cacheKey && !skipDedup) {
-      const keysArr = Array.from(existingKeys);
-      const serialized = JSON.stringify(keysArr);
-      if (serialized.length < 90000) {
-        cache.put(cacheKey, serialized, 600);
+      appendAuditLog(
+        'importarRetornoCnab',
+        { fileName, layout: retorno.layout, banco: retorno.banco, count, errorsCount: errors.length, unmatched: unmatched.length },
+        count > 0,
+        errors.length ? 'Parcial' : undefined
+      );
+
+      if (count === 0) {
+        return { success: false, message: errors.length ? errors[0] : 'Nenhuma conta recebida', imported: 0, unmatched: unmatched.length };
       }
+
+      const notes = [] as string[];
+      if (unmatched.length) notes.push(`${unmatched.length} sem correspondência`);
+      if (errors.length) notes.push(`${errors.length} falharam`);
+      const suffix = notes.length ? ` (${notes.join(', ')})` : '';
+
+      return {
+        success: true,
+        message: `${count} contas recebidas via retorno CNAB ${retorno.layout}${suffix}`,
+        imported: count,
+        unmatched: unmatched.length,
+      };
+    } finally {
+      try {
+        lock.releaseLock();
+      } catch (_) {}
     }
-    appendAuditLog('importarContasPagasTxt', { imported: rowsToAppend.length, skipped, start, nextOffsetRaw }, true);
-    const nextOffset = totalCount > 0 ? (nextOffsetRaw < totalCount ? nextOffsetRaw : null) : nextOffsetRaw;
-    if (sessionId && nextOffset === null) {
-      PropertiesService.getScriptProperties().deleteProperty(`import_cp_file_${sessionId}`);
-    }
-    return {
-      success: true,
-      message: `${rowsToAppend.length} contas pagas importadas (${skipped} duplicadas)`,
-      imported: rowsToAppend.length,
-      skipped,
-      nextOffset,
-      total: totalCount || undefined
-    };
   } catch (error: any) {
-    appendAuditLog('importarContasPagasTxt', { fileName }, false, error?.message);
+    appendAuditLog('importarRetornoCnab', { fileName }, false, error?.message);
     return { success: false, message: error.message };
   }
 }
 
-export function importarItau(
+/**
+ * Importador do relatório SIEG (NF-e recebidas)
+ */
+registerImporter({
+  id: 'SIEG',
+  label: 'SIEG',
+  sheetName: SHEET_TB_IMPORT_SIEG,
+  headers: [
+    'Num NFe', 'Valor', 'Data Emissao', 'CNPJ Emit', 'Nome Fant Emit', 'Razao Soc Emit',
+    'CNPJ Dest', 'Nome Fant Dest', 'Razao Soc Dest', 'Data Envio Cofre', 'Chave NFe',
+    'Tags', 'Codigo Evento', 'Tipo Evento', 'Status', 'Danfe', 'Xml', 'Codigo Filial',
+    'Filial FC', 'Importado Em', 'Lote Importação',
+  ],
+  batchColumn: TB_IMPORT_SIEG_COLS.LOTE_IMPORTACAO,
+  periodDateColumn: TB_IMPORT_SIEG_COLS.DATA_EMISSAO,
+  cacheNamespaces: [CacheNamespace.CONCILIACAO],
+  parse: (rows: Array<any>, ctx) => {
+    createSheetIfNotExists(SHEET_REF_FILIAIS, [
+      'Código', 'Nome', 'CNPJ', 'Ativo', 'Filial SIEG Relatorio', 'Filial SIEG Contabilidade',
+    ]);
+    const relations = getSheetValues(SHEET_REF_FILIAIS, { skipHeader: true })
+      .map((r) => ({
+        filialFc: String(r[0] || ''),
+        filialSiegRelatorio: String(r[4] || ''),
+        filialSiegContabil: String(r[5] || ''),
+        ativa: r[3] !== false && String(r[3] || '').toUpperCase() !== 'FALSE',
+      }));
+
+    return (Array.isArray(rows) ? rows : []).map((r) => {
+      if (!r) return null;
+      const codigoFilial = String(r.codigoFilial || r.codigo_filial || '');
+      return {
+        ...r,
+        codigoFilial,
+        filialFc: resolveFilialFcFromRelations(codigoFilial, r.filialFc || ctx.meta.filialFc || '', relations),
+      };
+    });
+  },
+  map: (r: any, ctx) => {
+    if (!r) return 'Linha vazia';
+    return [
+      sanitizeSheetString(r.numNfe || r.num_nfe || ''),
+      parseMoneyInput(r.valor),
+      normalizeDateInput(r.dataEmissao),
+      sanitizeSheetString(r.cnpjEmit || ''),
+      sanitizeSheetString(r.nomeFantEmit || ''),
+      sanitizeSheetString(r.razaoEmit || ''),
+      sanitizeSheetString(r.cnpjDest || ''),
+      sanitizeSheetString(r.nomeFantDest || ''),
+      sanitizeSheetString(r.razaoDest || ''),
+      normalizeDateInput(r.dataEnvioCofre),
+      sanitizeSheetString(r.chaveNfe || ''),
+      sanitizeSheetString(r.tags || ''),
+      sanitizeSheetString(r.codigoEvento || ''),
+      sanitizeSheetString(r.tipoEvento || ''),
+      sanitizeSheetString(r.status || ''),
+      sanitizeSheetString(r.danfe || ''),
+      sanitizeSheetString(r.xml || ''),
+      sanitizeSheetString(r.codigoFilial),
+      sanitizeSheetString(r.filialFc),
+      ctx.importedAt,
+    ];
+  },
+  rowKey: (row) => buildImportKey([
+    String(row[TB_IMPORT_SIEG_COLS.CHAVE_NFE] || row[TB_IMPORT_SIEG_COLS.NUM_NFE] || ''),
+    parseMoneyInput(row[TB_IMPORT_SIEG_COLS.VALOR]),
+    normalizeDateInput(row[TB_IMPORT_SIEG_COLS.DATA_EMISSAO]),
+    String(row[TB_IMPORT_SIEG_COLS.CNPJ_EMIT] || ''),
+  ]),
+  beforeCommit: (_ctx, rows) => {
+    const S = TB_IMPORT_SIEG_COLS;
+    const ownCnpjs = ownCnpjSet();
+    const candidates = rows
+      .map((row) =>
+        nfePartnerCandidate(
+          { documento: row[S.CNPJ_EMIT], razaoSocial: row[S.RAZAO_EMIT], nomeFantasia: row[S.NOME_FANT_EMIT] },
+          { documento: row[S.CNPJ_DEST], razaoSocial: row[S.RAZAO_DEST], nomeFantasia: row[S.NOME_FANT_DEST] },
+          ownCnpjs,
+          'SIEG'
+        )
+      )
+      .filter((c): c is PartnerCandidate => c !== null);
+    linkPartners(candidates);
+  },
+});
+
+export function importarSieg(
   rows: Array<any>,
-  meta?: { modelo?: string; filialFc?: string; conta?: string }
-): { success: boolean; message: string; imported?: number } {
-  const denied = requirePermission('importarArquivos', 'importar Itau');
+  meta?: { filialFc?: string }
+): ImportEndpointResult {
+  const denied = requirePermission('importarArquivos', 'importar SIEG');
   if (denied) return denied;
 
-  const now = new Date().toISOString();
-  const payload = Array.isArray(rows) ? rows : [];
-  const existing = getImportItauRows();
-  const existingKeys = new Set(
-    existing.map((r) => buildImportKey([r.data, r.valor, r.lancamento, r.conta, r.cpfCnpj]))
+  return runImportEndpoint('importarSieg', {}, () =>
+    commitImport('SIEG', rows, { filialFc: meta?.filialFc || '' })
   );
+}
 
-  const mapped = payload
-    .filter((r) => r)
-    .map((r) => ({
-      data: normalizeDateInput(r.data),
-      lancamento: sanitizeSheetString(r.lancamento || ''),
-      agenciaOrigem: sanitizeSheetString(r.agenciaOrigem || ''),
-      razaoSocial: sanitizeSheetString(r.razaoSocial || ''),
-      cpfCnpj: sanitizeSheetString(r.cpfCnpj || ''),
-      valor: parseMoneyInput(r.valor),
-      saldo: parseMoneyInput(r.saldo),
-      conta: sanitizeSheetString(r.conta || meta?.conta || ''),
-      filialFc: sanitizeSheetString(r.filialFc || meta?.filialFc || ''),
-      modelo: sanitizeSheetString(r.modelo || meta?.modelo || ''),
-    }));
+// ============================================================================
+// IMPORTAÇÃO XML NF-e
+// ============================================================================
 
-  const movimentos = mapped.filter((r) => isItauMovement(r.lancamento));
-  const skippedNoMov = Math.max(0, mapped.length - movimentos.length);
-
-  const values = movimentos
-    .filter((r) => {
-      const key = buildImportKey([r.data, r.valor, r.lancamento, r.conta, r.cpfCnpj]);
-      if (!key || existingKeys.has(key)) return false;
-      existingKeys.add(key);
-      return true;
-    })
-    .map((r) => ([
-      r.data,
-      r.lancamento,
-      r.agenciaOrigem,
-      r.razaoSocial,
-      r.cpfCnpj,
-      r.valor,
-      r.saldo,
-      r.conta,
-      r.filialFc,
-      r.modelo,
-      now,
-    ]));
+/**
+ * Expande arquivos enviados (XML ou ZIP em base64) em XMLs individuais
+ */
+function extractNfeXmlFiles(
+  files: Array<{ name?: string; base64?: string; content?: string }>
+): Array<{ name: string; xml: string }> {
+  const result: Array<{ name: string; xml: string }> = [];
 
-  const imported = values.length;
-  const total = payload.length;
-  const skippedDup = Math.max(0, movimentos.length - imported);
+  for (const file of files) {
+    if (!file) continue;
+    const name = String(file.name || 'arquivo.xml');
+
+    if (file.content) {
+      result.push({ name, xml: String(file.content) });
+      continue;
+    }
+    if (!file.base64) continue;
 
-  if (!values.length) {
-    if (payload.length > 0) {
-      return { success: false, message: 'Nenhuma linha importada (todas duplicadas, saldo ou invalidas)' };
+    const isZip = /\.zip$/i.test(name);
+    const blob = Utilities.newBlob(
+      Utilities.base64Decode(String(file.base64)),
+      isZip ? 'application/zip' : 'application/xml',
+      name
+    );
+    if (isZip) {
+      for (const entry of Utilities.unzip(blob)) {
+        const entryName = entry.getName() || '';
+        if (!/\.xml$/i.test(entryName)) continue;
+        result.push({ name: `${name}/${entryName}`, xml: entry.getDataAsString('UTF-8') });
+      }
+    } else {
+      result.push({ name, xml: blob.getDataAsString('UTF-8') });
     }
-    return { success: false, message: 'Nenhuma linha valida para importar' };
   }
 
-  appendRows(SHEET_TB_IMPORT_ITAU, values);
-  appendAuditLog('importarItau', { imported, skippedDup, skippedNoMov }, true);
-  cacheRemoveNamespace(CacheNamespace.CONCILIACAO, CacheScope.SCRIPT);
+  return result;
+}
 
-  const notes = [] as string[];
-  if (skippedDup) notes.push(`ignoradas ${skippedDup} duplicadas`);
-  if (skippedNoMov) notes.push(`ignoradas ${skippedNoMov} de saldo`);
-  const suffix = notes.length ? ` (${notes.join(', ')})` : '';
+/**
+ * Mapa CNPJ (apenas dígitos) -> código da filial em REF_FILIAIS
+ */
+function getFiliaisByCnpj(): Map<string, string> {
+  const map = new Map<string, string>();
+  const ss = SpreadsheetApp.getActiveSpreadsheet();
+  const sheet = ss.getSheetByName(SHEET_REF_FILIAIS);
+  if (!sheet) return map;
+  const data = sheet.getDataRange().getValues().slice(1);
+  for (const row of data) {
+    const cnpj = String(row[2] || '').replace(/\D/g, '');
+    if (row[0] && cnpj) map.set(cnpj, String(row[0]));
+  }
+  return map;
+}
 
-  return {
-    success: true,
-    message: `Importado ${imported} linhas Itau${suffix}`,
-    imported,
-  };
+/**
+ * Chaves de NF-e já vinculadas a lançamentos, lidas direto da aba (sem cache)
+ */
+function readLancamentoChavesNfe(): Set<string> {
+  const chaves = new Set<string>();
+  const ss = SpreadsheetApp.getActiveSpreadsheet();
+  const sheet = ss.getSheetByName(SHEET_TB_LANCAMENTOS);
+  if (!sheet) return chaves;
+  const lastRow = sheet.getLastRow();
+  if (lastRow < 2 || sheet.getLastColumn() <= TB_LANCAMENTOS_COLS.CHAVE_NFE) return chaves;
+  const values = sheet.getRange(2, TB_LANCAMENTOS_COLS.CHAVE_NFE + 1, lastRow - 1, 1).getValues();
+  for (const [chave] of values) {
+    const value = String(chave || '').trim();
+    if (value) chaves.add(value);
+  }
+  return chaves;
 }
 
-export function importarSieg(
-  rows: Array<any>,
+/**
+ * Importa XML de NF-e (arquivo único ou ZIP):
+ * - cabeçalho da nota em TB_IMPORT_SIEG (dedupe por chave)
+ * - cada duplicata vira DESPESA PENDENTE em TB_LANCAMENTOS vinculada à chave
+ *
+ * Notas emitidas por uma filial própria (saída) não geram contas a pagar.
+ * Notas sem <cobr> geram uma única parcela com vencimento na emissão.
+ */
+export function importarNfeXml(
+  files: Array<{ name?: string; base64?: string; content?: string }>,
   meta?: { filialFc?: string }
-): { success: boolean; message: string; imported?: number } {
-  const denied = requirePermission('importarArquivos', 'importar SIEG');
+): {
+  success: boolean;
+  message: string;
+  imported?: number;
+  lancamentos?: number;
+  skippedDup?: number;
+  rejected?: Array<{ arquivo: string; motivo: string }>;
+} {
+  const denied =
+    requirePermission('importarArquivos', 'importar XML NF-e') ||
+    requirePermission('criarLancamentos', 'criar contas a pagar de NF-e');
   if (denied) return denied;
 
-  const now = new Date().toISOString();
-  createSheetIfNotExists(SHEET_REF_FILIAIS, [
-    'Código', 'Nome', 'CNPJ', 'Ativo', 'Filial SIEG Relatorio', 'Filial SIEG Contabilidade',
-  ]);
-  const relations = getSheetValues(SHEET_REF_FILIAIS, { skipHeader: true })
-    .map((r) => ({
-      filialFc: String(r[0] || ''),
-      filialSiegRelatorio: String(r[4] || ''),
-      filialSiegContabil: String(r[5] || ''),
-      ativa: r[3] !== false && String(r[3] || '').toUpperCase() !== 'FALSE',
-    }));
+  try {
+    const payload = Array.isArray(files) ? files : [];
+    const xmls = extractNfeXmlFiles(payload);
+    if (!xmls.length) {
+      return { success: false, message: 'Nenhum arquivo XML encontrado' };
+    }
 
-  const payload = Array.isArray(rows) ? rows : [];
-  const existing = getImportSiegRows();
-  const existingKeys = new Set(
-    existing.map((r) => buildImportKey([r.chaveNfe || r.numNfe, r.valor, r.dataEmissao, r.cnpjEmit]))
-  );
+    const now = new Date().toISOString();
+    const filiaisByCnpj = getFiliaisByCnpj();
 
-  const values = payload
-    .filter((r) => r)
-    .map((r) => {
-      const codigoFilial = String(r.codigoFilial || r.codigo_filial || '');
-      const filialFc = resolveFilialFcFromRelations(codigoFilial, r.filialFc || meta?.filialFc || '', relations);
-      return {
-        numNfe: sanitizeSheetString(r.numNfe || r.num_nfe || ''),
-        valor: parseMoneyInput(r.valor),
-        dataEmissao: normalizeDateInput(r.dataEmissao),
-        cnpjEmit: sanitizeSheetString(r.cnpjEmit || ''),
-        nomeFantEmit: sanitizeSheetString(r.nomeFantEmit || ''),
-        razaoEmit: sanitizeSheetString(r.razaoEmit || ''),
-        cnpjDest: sanitizeSheetString(r.cnpjDest || ''),
-        nomeFantDest: sanitizeSheetString(r.nomeFantDest || ''),
-        razaoDest: sanitizeSheetString(r.razaoDest || ''),
-        dataEnvioCofre: normalizeDateInput(r.dataEnvioCofre),
-        chaveNfe: sanitizeSheetString(r.chaveNfe || ''),
-        tags: sanitizeSheetString(r.tags || ''),
-        codigoEvento: sanitizeSheetString(r.codigoEvento || ''),
-        tipoEvento: sanitizeSheetString(r.tipoEvento || ''),
-        status: sanitizeSheetString(r.status || ''),
-        danfe: sanitizeSheetString(r.danfe || ''),
-        xml: sanitizeSheetString(r.xml || ''),
-        codigoFilial: sanitizeSheetString(codigoFilial),
-        filialFc: sanitizeSheetString(filialFc),
-      };
-    })
-    .filter((r) => {
-      const key = buildImportKey([r.chaveNfe || r.numNfe, r.valor, r.dataEmissao, r.cnpjEmit]);
-      if (!key || existingKeys.has(key)) return false;
-      existingKeys.add(key);
-      return true;
-    })
-    .map((r) => ([
-      r.numNfe,
-      r.valor,
-      r.dataEmissao,
-      r.cnpjEmit,
-      r.nomeFantEmit,
-      r.razaoEmit,
-      r.cnpjDest,
-      r.nomeFantDest,
-      r.razaoDest,
-      r.dataEnvioCofre,
-      r.chaveNfe,
-      r.tags,
-      r.codigoEvento,
-      r.tipoEvento,
-      r.status,
-      r.danfe,
-      r.xml,
-      r.codigoFilial,
-      r.filialFc,
-      now,
-    ]));
+    const siegValues: any[][] = [];
+    const lancamentoValues: any[][] = [];
+    const rejected: Array<{ arquivo: string; motivo: string }> = [];
+    const ownCnpjs = new Set(Array.from(filiaisByCnpj.keys()).map((cnpj) => normalizeTaxId(cnpj)));
+    const notaPartners: PartnerCandidate[] = [];
+    const lancamentoPartners: Array<PartnerCandidate | null> = [];
+    const semCobranca = new Set<number>(); // linhas sem <dup>: vencimento pelo prazo do parceiro
+    let skippedDup = 0;
+
+    const lock = LockService.getDocumentLock();
+    lock.waitLock(5000);
+    try {
+      // Chaves lidas das abas dentro do lock: cache ou importação concorrente duplicariam contas a pagar
+      const siegChaves = new Set(getImportSiegRows().map((r) => r.chaveNfe).filter((c) => c));
+      const lancamentoChaves = readLancamentoChavesNfe();
+
+      for (const file of xmls) {
+        let nota: NfeDocumento;
+        try {
+          nota = parseNfeXml(file.xml);
+        } catch (e: any) {
+          rejected.push({ arquivo: file.name, motivo: e.message });
+          continue;
+        }
+        if (!nota.chave) {
+          rejected.push({ arquivo: file.name, motivo: 'Chave da NF-e não encontrada' });
+          continue;
+        }
+        if (nota.statusProtocolo && !isNfeAutorizada(nota)) {
+          rejected.push({ arquivo: file.name, motivo: `NF-e não autorizada (cStat ${nota.statusProtocolo})` });
+          continue;
+        }
+
+        const filialFc = sanitizeSheetString(
+          filiaisByCnpj.get(nota.destinatario.documento) || meta?.filialFc || ''
+        );
+        const isSaida = filiaisByCnpj.has(nota.emitente.documento);
+        const parceiro = nfePartnerCandidate(nota.emitente, nota.destinatario, ownCnpjs, 'NFE_XML');
+        if (parceiro) notaPartners.push(parceiro);
+
+        if (siegChaves.has(nota.chave)) {
+          skippedDup++;
+        } else {
+          siegChaves.add(nota.chave);
+          siegValues.push([
+            sanitizeSheetString(nota.numero),
+            nota.valorTotal,
+            sanitizeSheetString(nota.dataEmissao),
+            sanitizeSheetString(nota.emitente.documento),
+            sanitizeSheetString(nota.emitente.nomeFantasia),
+            sanitizeSheetString(nota.emitente.razaoSocial),
+            sanitizeSheetString(nota.destinatario.documento),
+            sanitizeSheetString(nota.destinatario.nomeFantasia),
+            sanitizeSheetString(nota.destinatario.razaoSocial),
+            '',
+            sanitizeSheetString(nota.chave),
+            'XML',
+            '',
+            '',
+            isNfeAutorizada(nota) ? 'AUTORIZADA' : '',
+            '',
+            sanitizeSheetString(file.name),
+            '',
+            filialFc,
+            now,
+          ]);
+        }
+
+        if (isSaida || lancamentoChaves.has(nota.chave)) continue;
+        lancamentoChaves.add(nota.chave);
+
+        const duplicatas = nota.duplicatas.length
+          ? nota.duplicatas
+          : [{ numero: '001', vencimento: nota.dataEmissao, valor: nota.valorTotal }];
+        const fornecedor = nota.emitente.razaoSocial || nota.emitente.nomeFantasia || nota.emitente.documento;
+        const resumoItens = nota.itens.slice(0, 3).map((i) => i.descricao).join('; ');
+
+        duplicatas.forEach((dup, idx) => {
+          if (!(dup.valor > 0)) return;
+          if (!nota.duplicatas.length) semCobranca.add(lancamentoValues.length);
+          lancamentoPartners.push(parceiro);
+          lancamentoValues.push([
+            `CP-NFE-${Utilities.getUuid()}`,
+            sanitizeSheetString(nota.dataEmissao),
+            sanitizeSheetString(dup.vencimento || nota.dataEmissao),
+            '',
+            'DESPESA',
+            filialFc,
+            '',
+            '',
+            '',
+            '',
+            '',
+            sanitizeSheetString(`${fornecedor} - NF-e ${nota.numero} parcela ${idx + 1}/${duplicatas.length}`),
+            dup.valor,
+            0,
+            0,
+            0,
+            dup.valor,
+            'PENDENTE',
+            '',
+            'NFE_XML',
+            sanitizeSheetString(`CNPJ emitente: ${nota.emitente.documento}${resumoItens ? ` | Itens: ${resumoItens}` : ''}`),
+            sanitizeSheetString(`${nota.numero}/${dup.numero}`),
+            sanitizeSheetString(nota.chave),
+          ]);
+        });
+      }
+
+      if (!siegValues.length && !lancamentoValues.length) {
+        appendAuditLog('importarNfeXml', { arquivos: xmls.length, skippedDup, rejected: rejected.length }, false, 'Nada importado');
+        return {
+          success: false,
+          message: skippedDup ? `Nenhuma NF-e nova (${skippedDup} duplicadas)` : 'Nenhuma NF-e válida para importar',
+          imported: 0,
+          lancamentos: 0,
+          skippedDup,
+          rejected,
+        };
+      }
 
-  const imported = values.length;
-  const total = payload.length;
-  const skipped = Math.max(0, total - imported);
-  if (!values.length) {
-    if (payload.length > 0) {
-      return { success: false, message: 'Nenhuma linha importada (todas duplicadas ou invalidas)' };
+      if (siegValues.length) {
+        appendRows(SHEET_TB_IMPORT_SIEG, siegValues);
+      }
+      linkPartners(notaPartners);
+      if (lancamentoValues.length) {
+        const ss = SpreadsheetApp.getActiveSpreadsheet();
+        const sheet = ss.getSheetByName(SHEET_TB_LANCAMENTOS);
+        if (!sheet) throw new Error('Aba de lançamentos não encontrada');
+        ensureLancamentosExtraColumns(sheet);
+        linkLancamentoRowsToPartners(lancamentoValues, (_row, i) => lancamentoPartners[i], {
+          autoCreate: true,
+          usarPrazo: (_row, i) => semCobranca.has(i),
+        });
+        const startRow = sheet.getLastRow() + 1;
+        sheet.getRange(startRow, 1, lancamentoValues.length, lancamentoValues[0].length).setValues(lancamentoValues);
+      }
+    } finally {
+      try {
+        lock.releaseLock();
+      } catch (_) {}
     }
-    return { success: false, message: 'Nenhuma linha valida para importar' };
-  }
 
-  appendRows(SHEET_TB_IMPORT_SIEG, values);
-  appendAuditLog('importarSieg', { imported, skipped }, true);
-  cacheRemoveNamespace(CacheNamespace.CONCILIACAO, CacheScope.SCRIPT);
-  return {
-    success: true,
-    message: `Importado ${imported} linhas SIEG${skipped ? ` (ignoradas ${skipped} duplicadas)` : ''}`,
-    imported,
-  };
+    appendAuditLog(
+      'importarNfeXml',
+      { arquivos: xmls.length, imported: siegValues.length, lancamentos: lancamentoValues.length, skippedDup, rejected: rejected.length },
+      true
+    );
+    clearReportsCache();
+
+    const notes = [] as string[];
+    if (skippedDup) notes.push(`ignoradas ${skippedDup} duplicadas`);
+    if (rejected.length) notes.push(`${rejected.length} rejeitadas`);
+    const suffix = notes.length ? ` (${notes.join(', ')})` : '';
+
+    return {
+      success: true,
+      message: `Importadas ${siegValues.length} NF-e e ${lancamentoValues.length} contas a pagar${suffix}`,
+      imported: siegValues.length,
+      lancamentos: lancamentoValues.length,
+      skippedDup,
+      rejected,
+    };
+  } catch (error: any) {
+    appendAuditLog('importarNfeXml', { arquivos: Array.isArray(files) ? files.length : 0 }, false, error?.message);
+    return { success: false, message: error.message };
+  }
 }
 
 const COMPARATIVO_CACHE_TTL_SECONDS = 60;
@@ -5234,6 +7353,22 @@ export function getComparativoData(
     const itauMap = mapByKey(itauRows, (r) => buildMatchKey(r.data, r.valor));
     const siegMap = mapByKey(siegRows, (r) => buildMatchKey(r.dataEmissao, r.valor));
 
+    // Vendas no cartão caem no banco pelo líquido, em lote: o match vem da conciliação de cartões
+    const cartaoMap = new Map<string, any>();
+    if (normalizedTipo === 'RECEBER') {
+      reconcileCardSales({ year, month }).items.forEach((item) => {
+        if (!item.fc) return;
+        cartaoMap.set(cardFcKey(item.fc.dataEmissao, item.fc.valor, item.fc.numDocumento, item.fc.filialFc), {
+          status: item.status,
+          adquirente: item.venda.adquirente,
+          bandeira: item.venda.bandeira,
+          nsu: item.venda.nsu,
+          parcelas: item.venda.parcelas,
+          parcelasDepositadas: item.parcelasDepositadas,
+        });
+      });
+    }
+
     const items: any[] = [];
     let auto = 0;
     let pendente = 0;
@@ -5250,9 +7385,12 @@ export function getComparativoData(
 
       const banco = bancoCandidates.length === 1 ? bancoCandidates[0] : null;
       const nfe = nfeCandidates.length === 1 ? nfeCandidates[0] : null;
+      const cartao = cartaoMap.get(cardFcKey(normalizeDateInput(fc.dataEmissao), fc.valor, fc.numDocumento, fc.filialFc)) || null;
 
       let status = 'PENDENTE';
-      if (!key || (bancoCandidates.length === 0 && nfeCandidates.length === 0)) {
+      if (cartao && bancoCandidates.length === 0) {
+        status = cartao.status === 'COMPLETO' ? 'AUTO' : 'PENDENTE';
+      } else if (!key || (bancoCandidates.length === 0 && nfeCandidates.length === 0)) {
         status = 'SEM_MATCH';
       } else if (bancoCandidates.length > 1 || nfeCandidates.length > 1) {
         status = 'DUPLICADO';
@@ -5274,6 +7412,7 @@ export function getComparativoData(
           fc,
           nfe,
           banco,
+          cartao,
           nfeMatches: nfeCandidates.length,
           bancoMatches: bancoCandidates.length,
           nfeCandidates: nfeCandidates.length > 1 ? nfeCandidates.slice(0, 5) : [],
@@ -5372,13 +7511,19 @@ function getLancamentosFromSheet(): any[] {
     'ID Extrato Banco',
     'Origem',
     'Observações',
-    'N Documento'
+    'N Documento',
+    'Chave NFe',
+    'Lote Importação',
+    'ID Parcelamento',
+    'Parcela',
+    'Valor Conciliado',
+    'Parceiro'
   ]);
 
   const ss = SpreadsheetApp.getActiveSpreadsheet();
   const sheet = ss.getSheetByName(SHEET_TB_LANCAMENTOS);
   if (sheet) {
-    ensureLancamentosNumeroDocumentoColumn(sheet);
+    ensureLancamentosExtraColumns(sheet);
   }
 
 
@@ -5414,6 +7559,12 @@ function getLancamentosFromSheet(): any[] {
     origem: String(row[19] || ''),
     observacoes: String(row[20] || ''),
     numeroDocumento: String(row[21] || ''),
+    chaveNfe: String(row[22] || ''),
+    loteImportacao: String(row[23] || ''),
+    idParcelamento: String(row[24] || ''),
+    parcela: String(row[25] || ''),
+    valorConciliado: row[26] === '' || row[26] === undefined || row[26] === null ? null : parseFloat(String(row[26])),
+    parceiroId: String(row[27] || ''),
   })).map(l => {
     const tipoNorm = String(l.tipo || '').toUpperCase();
     if (tipoNorm === 'AP') l.tipo = 'DESPESA';
@@ -5439,6 +7590,9 @@ function getExtratosFromSheet(): any[] {
     'ID Lançamento',
     'Observações',
     'Importado Em',
+    'FITID',
+    'Saldo Após',
+    'Valor Conciliado',
   ]);
 
   const cached = cacheGet<any[]>(CacheNamespace.EXTRATOS, EXTRATOS_CACHE_KEY, CacheScope.SCRIPT);
@@ -5477,6 +7631,9 @@ function getExtratosFromSheet(): any[] {
     idLancamento: row[8],
     observacoes: row[9],
     importadoEm: normalizeDateCell(row[10]),
+    fitId: String(row[11] || ''),
+    saldoApos: row[12] === '' || row[12] === undefined || row[12] === null ? null : parseFloat(String(row[12])),
+    valorConciliado: row[13] === '' || row[13] === undefined || row[13] === null ? null : parseFloat(String(row[13])),
   }));
   cacheSet(CacheNamespace.EXTRATOS, EXTRATOS_CACHE_KEY, parsed, DATA_CACHE_TTL_SECONDS, CacheScope.SCRIPT);
   return parsed;
@@ -5490,115 +7647,36 @@ function formatCurrency(value: number): string {
   return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
 }
 
-// ============================================================================
-// DRE (Demonstração do Resultado do Exercício)
-// ============================================================================
-
-function getPlanoContasMap(): Record<string, any> {
-  try {
-    const ss = SpreadsheetApp.getActiveSpreadsheet();
-    const sheet = ss.getSheetByName(SHEET_REF_PLANO_CONTAS);
-    if (!sheet) return {};
-
-    const lastRow = sheet.getLastRow();
-    if (lastRow <= 1) return {};
-
-    const lastCol = Math.max(8, sheet.getLastColumn());
-    const rows = sheet.getRange(2, 1, lastRow - 1, lastCol).getDisplayValues();
-    const map: Record<string, any> = {};
-
-    for (const r of rows) {
-      const codigo = String(r[0] || '').trim();
-      if (!codigo) continue;
-      map[codigo] = {
-        tipo: String(r[2] || '').trim(),
-        grupoDRE: String(r[3] || '').trim(),
-        subgrupoDRE: String(r[4] || '').trim(),
-        grupoDFC: String(r[5] || '').trim(),
-        variavelFixa: String(r[6] || '').trim(),
-        cmaCmv: String(r[7] || '').trim(),
-      };
-    }
-
-    return map;
-  } catch (_e) {
-    return {};
-  }
-}
-
-export function getDREMensal(mes: number, ano: number, filial?: string, canal?: string): any {
-  enforcePermission('visualizarRelatorios', 'carregar DRE');
-  const cacheKey = `mensal:${ano}-${mes}:${filial || 'all'}:${canal || 'all'}`;
-  return cacheGetOrLoad(CacheNamespace.DRE, cacheKey, () => {
-  try {
-    const lancamentos = getLancamentosFromSheet();
-    const planoMap = getPlanoContasMap();
-
-    // Filtrar por per?odo e filial
-    const lancamentosMesBase = getLancamentosMesRateados(lancamentos, mes, ano, canal);
-    const lancamentosMes = lancamentosMesBase.filter(l => !filial || l.filial === filial);
-
-
-    // Separar receitas e despesas
-    const receitas = lancamentosMes.filter(l => l.tipo === 'RECEITA');
-    const despesas = lancamentosMes.filter(l => l.tipo === 'DESPESA');
-
-    // Calcular valores
-    const receitaBruta = sumValues(receitas.map(r => ({ valorLiquido: r.valorBruto })));
-    const deducoes = sumValues(receitas.map(r => ({ valorLiquido: r.desconto })));
-    const receitaLiquida = receitaBruta - deducoes;
-
-    // Separar custos e despesas operacionais (baseado na conta contábil)
-    const isCusto = (d: any) => {
-      const codigo = String(d.contaContabil || '').trim();
-      const meta = codigo ? planoMap[codigo] : null;
-      const cmaCmv = String(meta?.cmaCmv || '').toUpperCase();
-      const tipo = String(meta?.tipo || '').toUpperCase();
-      const grupoDRE = String(meta?.grupoDRE || '').toUpperCase();
-      return (
-        cmaCmv === 'CMA' ||
-        cmaCmv === 'CMV' ||
-        tipo === 'CUSTO' ||
-        grupoDRE.includes('CMV') ||
-        grupoDRE.includes('CUSTO')
-      );
-    };
+// ============================================================================
+// DRE (Demonstração do Resultado do Exercício)
+// ============================================================================
 
-    const isFinanceiro = (d: any) => {
-      const codigo = String(d.contaContabil || '').trim();
-      const meta = codigo ? planoMap[codigo] : null;
-      const grupoDRE = String(meta?.grupoDRE || '').toUpperCase();
-      return grupoDRE.includes('FINANCEIRO') || grupoDRE.includes('RESULTADO FINANCEIRO');
-    };
+/**
+ * DRE do mês
+ *
+ * @param regime - COMPETENCIA (padrão) ou CAIXA
+ */
+export function getDREMensal(mes: number, ano: number, filial?: string, canal?: string, regime?: string): any {
+  enforcePermission('visualizarRelatorios', 'carregar DRE');
+  const regimeDRE = parseDRERegime(regime);
+  const cacheKey = `mensal:${ano}-${mes}:${filial || 'all'}:${canal || 'all'}:${regimeDRE}`;
+  return cacheGetOrLoad(CacheNamespace.DRE, cacheKey, () => {
+  try {
+    // Mesmo motor do fechamento mensal (TB_DRE_MENSAL): dre-service
+    const dre = calculateDRE({ year: ano, month: mes }, filial || null, {
+      canal: canal || null,
+      regime: regimeDRE,
+    });
+    const valor = (codigo: string) => dre.valores[codigo] || 0;
 
-    const custos = despesas.filter((d) => isCusto(d));
-    const despesasFinanceiras = despesas.filter((d) => !isCusto(d) && isFinanceiro(d));
-    const despesasOp = despesas.filter((d) => !isCusto(d) && !isFinanceiro(d));
+    const receitaBruta = valor(DRE_LINE_CODES.RECEITA_BRUTA);
+    const receitaLiquida = valor(DRE_LINE_CODES.RECEITA_LIQUIDA);
+    const margemBruta = valor(DRE_LINE_CODES.MARGEM_BRUTA);
+    const ebitda = valor(DRE_LINE_CODES.EBITDA);
+    const lucroLiquido = valor(DRE_LINE_CODES.LUCRO_LIQUIDO);
 
-    const totalCustos = sumValues(custos);
-    const margemBruta = receitaLiquida - totalCustos;
     const percMargemBruta = receitaLiquida > 0 ? (margemBruta / receitaLiquida) * 100 : 0;
-
-    // Despesas operacionais por categoria (baseado em centro de custo)
-    const despPessoal = despesasOp.filter(d => d.centroCusto === 'ADM' || d.centroCusto === 'OPS');
-    const despMarketing = despesasOp.filter(d => d.centroCusto === 'MKT' || d.centroCusto === 'COM');
-    const despAdministrativas = despesasOp.filter(d => d.centroCusto === 'FIN' || d.centroCusto === 'TI');
-
-    const totalDespOp = sumValues(despesasOp);
-    const ebitda = margemBruta - totalDespOp;
     const percEbitda = receitaLiquida > 0 ? (ebitda / receitaLiquida) * 100 : 0;
-
-    // Resultado Financeiro
-    const receitasFinanceiras = receitas.filter((r) => {
-      const codigo = String(r.contaContabil || '').trim();
-      const meta = codigo ? planoMap[codigo] : null;
-      const grupoDRE = String(meta?.grupoDRE || '').toUpperCase();
-      return grupoDRE.includes('FINANCEIRO') || grupoDRE.includes('RESULTADO FINANCEIRO');
-    });
-    const totalResultadoFinanceiro =
-      sumValues(receitasFinanceiras) - sumValues(despesasFinanceiras);
-
-    const lucroLiquido = ebitda + totalResultadoFinanceiro;
     const percLucroLiquido = receitaLiquida > 0 ? (lucroLiquido / receitaLiquida) * 100 : 0;
 
     return {
@@ -5607,24 +7685,27 @@ export function getDREMensal(mes: number, ano: number, filial?: string, canal?:
         ano,
         mesNome: getMesNome(mes),
         filial: filial || 'Consolidado',
-        canal: canal || 'Todos'
+        canal: canal || 'Todos',
+        regime: regimeDRE
       },
       valores: {
         receitaBruta,
-        deducoes,
+        deducoes: valor(DRE_LINE_CODES.DEDUCOES),
         receitaLiquida,
-        custos: totalCustos,
+        custos: valor(DRE_LINE_CODES.CUSTOS),
         margemBruta,
         despesasOperacionais: {
-          pessoal: sumValues(despPessoal),
-          marketing: sumValues(despMarketing),
-          administrativas: sumValues(despAdministrativas),
-          total: totalDespOp
+          pessoal: valor(DRE_LINE_CODES.DESP_PESSOAL),
+          marketing: valor(DRE_LINE_CODES.DESP_MARKETING),
+          administrativas: valor(DRE_LINE_CODES.DESP_ADMINISTRATIVAS),
+          total: valor(DRE_LINE_CODES.DESPESAS_OPERACIONAIS)
         },
         ebitda,
-        resultadoFinanceiro: totalResultadoFinanceiro,
+        resultadoFinanceiro: valor(DRE_LINE_CODES.RESULTADO_FINANCEIRO),
         lucroLiquido
       },
+      linhas: dre.estrutura,
+      naoClassificado: dre.naoClassificado,
       percentuais: {
         margemBruta: percMargemBruta,
         ebitda: percEbitda,
@@ -5636,8 +7717,8 @@ export function getDREMensal(mes: number, ano: number, filial?: string, canal?:
         lucroLiquido: classificarIndicador(percLucroLiquido, 'lucro_liquido')
       },
       transacoes: {
-        totalReceitas: receitas.length,
-        totalDespesas: despesas.length
+        totalReceitas: dre.lancamentos.receitas,
+        totalDespesas: dre.lancamentos.despesas
       }
     };
   } catch (error: any) {
@@ -5647,10 +7728,10 @@ export function getDREMensal(mes: number, ano: number, filial?: string, canal?:
   }, 120, CacheScope.SCRIPT);
 }
 
-export function getDREComparativo(meses: Array<{ mes: number; ano: number }>, filial?: string): any {
+export function getDREComparativo(meses: Array<{ mes: number; ano: number }>, filial?: string, regime?: string): any {
   enforcePermission('visualizarRelatorios', 'carregar DRE comparativo');
   try {
-    const dres = meses.map(periodo => getDREMensal(periodo.mes, periodo.ano, filial));
+    const dres = meses.map(periodo => getDREMensal(periodo.mes, periodo.ano, filial, undefined, regime));
 
     return {
       periodos: dres.map(d => d.periodo),
@@ -5668,7 +7749,7 @@ export function getDREComparativo(meses: Array<{ mes: number; ano: number }>, fi
   }
 }
 
-export function getDREPorFilial(mes: number, ano: number): any {
+export function getDREPorFilial(mes: number, ano: number, regime?: string): any {
   enforcePermission('visualizarRelatorios', 'carregar DRE por filial');
   try {
     const lancamentos = getLancamentosFromSheet();
@@ -5679,11 +7760,11 @@ export function getDREPorFilial(mes: number, ano: number): any {
     // Calcular DRE para cada filial
     const dresPorFilial = filiais.map(filial => ({
       filial,
-      dre: getDREMensal(mes, ano, filial)
+      dre: getDREMensal(mes, ano, filial, undefined, regime)
     }));
 
     // DRE consolidado
-    const dreConsolidado = getDREMensal(mes, ano);
+    const dreConsolidado = getDREMensal(mes, ano, undefined, undefined, regime);
 
     return {
       consolidado: dreConsolidado,
@@ -5696,6 +7777,155 @@ export function getDREPorFilial(mes: number, ano: number): any {
   }
 }
 
+/**
+ * Comparativo padrão da DRE (mês x ano anterior, YTD, últimos 12 meses, trimestre)
+ *
+ * Cacheado por 30 min no namespace DRE (limpo a cada gravação de lançamentos),
+ * para o comitê não recalcular 24 meses a cada abertura.
+ *
+ * @param modo - MES_ANO_ANTERIOR (padrão), YTD, TTM ou QTD
+ */
+export function getDREComparativoPadrao(
+  mes: number,
+  ano: number,
+  modo?: string,
+  filial?: string,
+  canal?: string,
+  regime?: string
+): any {
+  enforcePermission('visualizarRelatorios', 'carregar DRE comparativo');
+  const modoDRE = parseDREComparisonMode(modo);
+  const regimeDRE = parseDRERegime(regime);
+  const cacheKey = `comparativo:${modoDRE}:${ano}-${mes}:${filial || 'all'}:${canal || 'all'}:${regimeDRE}`;
+  return cacheGetOrLoad(CacheNamespace.DRE, cacheKey, () => {
+    try {
+      const comparativo = compareDREPeriods(modoDRE, { year: ano, month: mes }, filial || null, {
+        canal: canal || null,
+        regime: regimeDRE,
+      });
+      const rotulo = (r: { inicio: { year: number; month: number }; fim: { year: number; month: number }; meses: number }) => {
+        const fmt = (p: { year: number; month: number }) => `${String(p.month).padStart(2, '0')}/${p.year}`;
+        return r.meses === 1 ? fmt(r.fim) : `${fmt(r.inicio)} a ${fmt(r.fim)}`;
+      };
+      return {
+        modo: comparativo.modo,
+        periodo: {
+          mes,
+          ano,
+          filial: filial || 'Consolidado',
+          canal: canal || 'Todos',
+          regime: regimeDRE
+        },
+        atual: { ...comparativo.atual, rotulo: rotulo(comparativo.atual) },
+        anterior: { ...comparativo.anterior, rotulo: rotulo(comparativo.anterior) },
+        linhas: comparativo.linhas
+      };
+    } catch (error: any) {
+      Logger.log(`Erro ao calcular DRE comparativo: ${error.message}`);
+      throw new Error(`Erro ao calcular DRE comparativo: ${error.message}`);
+    }
+  }, 1800, CacheScope.SCRIPT);
+}
+
+/**
+ * Ponte entre o lucro líquido por competência e o de caixa no mês
+ */
+export function getDREPonteRegimes(mes: number, ano: number, filial?: string, canal?: string): any {
+  enforcePermission('visualizarRelatorios', 'carregar ponte competência x caixa');
+  const cacheKey = `ponte:${ano}-${mes}:${filial || 'all'}:${canal || 'all'}`;
+  return cacheGetOrLoad(CacheNamespace.DRE, cacheKey, () => {
+    try {
+      const ponte = calculateDREBridge({ year: ano, month: mes }, filial || null, canal || null);
+      return {
+        periodo: {
+          mes,
+          ano,
+          mesNome: getMesNome(mes),
+          filial: filial || 'Consolidado',
+          canal: canal || 'Todos'
+        },
+        resultadoCompetencia: ponte.resultadoCompetencia,
+        resultadoCaixa: ponte.resultadoCaixa,
+        diferenca: ponte.diferenca,
+        itens: ponte.itens
+      };
+    } catch (error: any) {
+      Logger.log(`Erro ao calcular ponte competência x caixa: ${error.message}`);
+      throw new Error(`Erro ao calcular ponte competência x caixa: ${error.message}`);
+    }
+  }, 120, CacheScope.SCRIPT);
+}
+
+/**
+ * Lançamentos que compõem uma linha da DRE (drill-down)
+ *
+ * Mesmos filtros da tela (filial, canal, regime). Partes de rateio trazem a
+ * filial de origem e o percentual. `exportar` devolve todas as parcelas.
+ */
+export function getDREDetalheLinha(params: {
+  mes: number;
+  ano: number;
+  linha: string;
+  filial?: string;
+  canal?: string;
+  regime?: string;
+  page?: number;
+  pageSize?: number;
+  exportar?: boolean;
+}): any {
+  enforcePermission('visualizarRelatorios', 'detalhar linha da DRE');
+  try {
+    const mes = Number(params?.mes);
+    const ano = Number(params?.ano);
+    if (!mes || !ano || !params?.linha) {
+      throw new Error('Informe mês, ano e linha da DRE');
+    }
+
+    const detalhe = drillDownDRELine({ year: ano, month: mes }, params.filial || null, params.linha, {
+      canal: params.canal || null,
+      regime: parseDRERegime(params.regime),
+      page: params.page,
+      pageSize: params.exportar ? 0 : params.pageSize,
+    });
+
+    return {
+      periodo: {
+        mes,
+        ano,
+        mesNome: getMesNome(mes),
+        filial: params.filial || 'Consolidado',
+        canal: params.canal || 'Todos',
+        regime: detalhe.regime
+      },
+      linha: detalhe.codigo,
+      descricao: detalhe.descricao,
+      valor: detalhe.valor,
+      items: detalhe.items.map((item) => ({
+        id: item.id,
+        competencia: formatDateISO(item.competencia),
+        pagamento: item.pagamento ? formatDateISO(item.pagamento) : '',
+        tipo: item.tipo,
+        filial: item.filial,
+        canal: item.canal || '',
+        centroCusto: item.centroCusto || '',
+        contaContabil: item.contaContabil || '',
+        descricao: item.descricao,
+        status: item.status,
+        linha: item.linha,
+        parcela: item.parcela,
+        valor: item.valor,
+        rateio: item.rateio
+      })),
+      total: detalhe.total,
+      page: detalhe.page,
+      pageSize: detalhe.pageSize
+    };
+  } catch (error: any) {
+    Logger.log(`Erro ao detalhar linha da DRE: ${error.message}`);
+    throw new Error(`Erro ao detalhar linha da DRE: ${error.message}`);
+  }
+}
+
 // Helper functions
 function getMesNome(mes: number): string {
   const meses = ['Janeiro', 'Fevereiro', 'Março', 'Abril', 'Maio', 'Junho',
@@ -5734,6 +7964,245 @@ function calcularEvolucao(valores: number[]): any {
   return { percentual, tendencia };
 }
 
+// ============================================================================
+// ORÇAMENTO (ORÇADO x REALIZADO)
+// ============================================================================
+
+function parseAnoOrcamento(ano: any): number {
+  const n = Math.floor(Number(ano));
+  if (!Number.isFinite(n) || n < 2000 || n > 2100) throw new Error('Ano do orçamento inválido');
+  return n;
+}
+
+/**
+ * Grava no orçamento sob lock e invalida os relatórios
+ */
+function persistBudget(
+  inputs: BudgetInput[],
+  origem: BudgetOrigin,
+  options: { substituirAno?: number; filial?: string } = {}
+): BudgetSaveResult {
+  const lock = LockService.getDocumentLock();
+  lock.waitLock(10000);
+  try {
+    const result = saveBudgetEntries(inputs, origem, getRequestingUserEmail(), options);
+    clearReportsCache();
+    return result;
+  } finally {
+    try {
+      lock.releaseLock();
+    } catch (_) {}
+  }
+}
+
+/**
+ * Realizado do ano por mês × filial × conta, no formato do orçamento
+ * (receita pelo valor bruto, descontos na linha DEDUCOES, despesas pelo líquido)
+ */
+function realizadoComoOrcamento(ano: number): BudgetInput[] {
+  const lancamentos = getLancamentosFromSheet();
+  const layout = getDRELayout();
+  const acumulado = new Map<string, BudgetInput>();
+  const add = (periodo: string, filial: string, chave: string, valor: number) => {
+    if (!Number.isFinite(valor) || valor === 0) return;
+    const key = `${periodo}|${filial}|${chave}`;
+    const atual = acumulado.get(key);
+    if (atual) atual.valor += valor;
+    else acumulado.set(key, { periodo, filial, chave, valor });
+  };
+
+  for (let mes = 1; mes <= 12; mes++) {
+    const periodo = `${ano}-${String(mes).padStart(2, '0')}`;
+    getLancamentosMesRateados(lancamentos, mes, ano).forEach((l) => {
+      const status = String(l.status || '').toUpperCase();
+      if (status === 'CANCELADA' || status === 'CANCELADO') return;
+      const filial = String(l.filial || '').trim();
+      const conta = String(l.contaContabil || '').trim();
+      if (l.tipo === 'RECEITA') {
+        add(periodo, filial, conta && resolveBudgetLine(conta, layout) ? conta : 'RECEITA_BRUTA', Number(l.valorBruto) || 0);
+        add(periodo, filial, 'DEDUCOES', Number(l.desconto) || 0);
+      } else if (l.tipo === 'DESPESA') {
+        add(periodo, filial, conta && resolveBudgetLine(conta, layout) ? conta : 'DESPESAS_OPERACIONAIS', Number(l.valorLiquido || l.valor) || 0);
+      }
+    });
+  }
+
+  return Array.from(acumulado.values()).map((item) => ({ ...item, valor: roundMoney(item.valor) }));
+}
+
+/**
+ * Orçamento do ano em grade (uma linha por filial × conta/linha DRE)
+ */
+export function getOrcamento(
+  ano: number,
+  filial?: string
+): { success: boolean; message?: string; data?: BudgetGridRow[]; linhasDre?: readonly string[] } {
+  try {
+    enforcePermission('visualizarRelatorios', 'ver orçamento');
+    const anoRef = parseAnoOrcamento(ano);
+    return {
+      success: true,
+      data: buildBudgetGrid(loadBudgetEntries(), anoRef, filial || null),
+      linhasDre: BUDGET_LINES,
+    };
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * Grava valores do orçamento (upsert; valor 0 apaga o mês)
+ *
+ * @param linhas - [{ filial, chave, descricao?, valores: [jan..dez] }]
+ */
+export function salvarOrcamento(
+  ano: number,
+  linhas: Array<{ filial?: string; chave: string; descricao?: string; valores: any[] }>
+): { success: boolean; message: string; gravados?: number; removidos?: number } {
+  const denied = requirePermission('gerenciarConfig', 'salvar orçamento');
+  if (denied) return denied;
+
+  try {
+    const anoRef = parseAnoOrcamento(ano);
+    const raw: any[] = [];
+    (linhas || []).forEach((linha) => {
+      (linha?.valores || []).slice(0, 12).forEach((valor, idx) => {
+        raw.push({
+          periodo: `${anoRef}-${String(idx + 1).padStart(2, '0')}`,
+          filial: linha.filial,
+          chave: linha.chave,
+          descricao: linha.descricao,
+          valor,
+        });
+      });
+    });
+    const parsed = parseBudgetInputs(raw);
+    if (parsed.erros.length) throw new Error(parsed.erros.slice(0, 5).join('; '));
+    if (!parsed.linhas.length) throw new Error('Nenhum valor de orçamento informado');
+
+    const result = persistBudget(parsed.linhas, 'MANUAL');
+    appendAuditLog('salvarOrcamento', { ano: anoRef, ...result }, true);
+    return { success: true, message: `Orçamento ${anoRef} salvo`, ...result };
+  } catch (error: any) {
+    appendAuditLog('salvarOrcamento', { ano }, false, error?.message);
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * Importa o orçamento anual de um CSV (ver parseBudgetCsv)
+ *
+ * @param substituir - apaga antes o orçamento do ano (da filial, se informada)
+ */
+export function importarOrcamento(
+  conteudo: string,
+  ano: number,
+  filial?: string,
+  substituir?: boolean
+): { success: boolean; message: string; gravados?: number; removidos?: number; erros?: string[] } {
+  const denied = requirePermission('gerenciarConfig', 'importar orçamento');
+  if (denied) return denied;
+
+  try {
+    const anoRef = parseAnoOrcamento(ano);
+    const parsed = parseBudgetCsv(conteudo, anoRef, String(filial || '').trim());
+    if (parsed.erros.length) {
+      return { success: false, message: `Arquivo com ${parsed.erros.length} erro(s); nada foi gravado`, erros: parsed.erros.slice(0, 50) };
+    }
+    if (!parsed.linhas.length) throw new Error('Nenhum valor de orçamento no arquivo');
+
+    const result = persistBudget(
+      parsed.linhas,
+      'IMPORTACAO',
+      substituir ? { substituirAno: anoRef, filial: filial ? String(filial).trim() : undefined } : {}
+    );
+    appendAuditLog('importarOrcamento', { ano: anoRef, filial, substituir: Boolean(substituir), ...result }, true);
+    return { success: true, message: `${result.gravados} valores importados para ${anoRef}`, ...result };
+  } catch (error: any) {
+    appendAuditLog('importarOrcamento', { ano, filial }, false, error?.message);
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * Gera o orçamento de anoDestino a partir do ano anterior + percentual
+ *
+ * @param fonte - ORCADO (orçamento do ano anterior) ou REALIZADO (lançamentos)
+ * @param substituir - apaga antes o orçamento de anoDestino
+ */
+export function copiarOrcamentoAnoAnterior(
+  anoDestino: number,
+  percentual: number,
+  fonte?: string,
+  substituir?: boolean
+): { success: boolean; message: string; gravados?: number; removidos?: number } {
+  const denied = requirePermission('gerenciarConfig', 'copiar orçamento');
+  if (denied) return denied;
+
+  try {
+    const anoRef = parseAnoOrcamento(anoDestino);
+    const anoOrigem = anoRef - 1;
+    const pct = Number(percentual) || 0;
+    const realizado = String(fonte || '').trim().toUpperCase() === 'REALIZADO';
+
+    const origem: BudgetInput[] = realizado
+      ? realizadoComoOrcamento(anoOrigem)
+      : loadBudgetEntries()
+          .filter((e) => e.periodo.startsWith(`${anoOrigem}-`))
+          .map((e) => ({ periodo: e.periodo, filial: e.filial, chave: e.chave, descricao: e.descricao, valor: e.valor }));
+    if (!origem.length) {
+      throw new Error(realizado ? `Sem lançamentos em ${anoOrigem}` : `Sem orçamento em ${anoOrigem}`);
+    }
+
+    const result = persistBudget(
+      projectBudget(origem, anoRef, pct),
+      realizado ? 'COPIA_REALIZADO' : 'COPIA_ORCADO',
+      substituir ? { substituirAno: anoRef } : {}
+    );
+    appendAuditLog('copiarOrcamentoAnoAnterior', { anoDestino: anoRef, percentual: pct, fonte: realizado ? 'REALIZADO' : 'ORCADO', ...result }, true);
+    return {
+      success: true,
+      message: `Orçamento ${anoRef} gerado a partir do ${realizado ? 'realizado' : 'orçado'} de ${anoOrigem} ${pct >= 0 ? '+' : ''}${pct}%`,
+      ...result,
+    };
+  } catch (error: any) {
+    appendAuditLog('copiarOrcamentoAnoAnterior', { anoDestino, percentual, fonte }, false, error?.message);
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * DRE orçado x realizado: mês de referência, acumulado do ano e projeção
+ * do ano (realizado até o mês + orçamento dos meses seguintes)
+ */
+export function getDREOrcadoRealizado(
+  ano: number,
+  mes: number,
+  filial?: string
+): ({ success: true; filial: string; naoClassificados: string[] } & BudgetVarianceReport) | { success: false; message: string } {
+  try {
+    enforcePermission('visualizarRelatorios', 'carregar DRE orçado x realizado');
+    const anoRef = parseAnoOrcamento(ano);
+    const mesRef = Math.min(Math.max(Math.floor(Number(mes) || 12), 1), 12);
+    const cacheKey = `orcado:${anoRef}-${mesRef}:${filial || 'all'}`;
+    return cacheGetOrLoad(CacheNamespace.DRE, cacheKey, () => {
+      const orcado = budgetByMonth(loadBudgetEntries(), anoRef, filial || null);
+      const realizado: DreLineValues[] = [];
+      for (let m = 1; m <= mesRef; m++) {
+        realizado.push(dreLineValuesFromMensal(getDREMensal(m, anoRef, filial || undefined)));
+      }
+      return {
+        success: true as const,
+        filial: filial || 'Consolidado',
+        naoClassificados: orcado.naoClassificados,
+        ...buildBudgetVariance(anoRef, mesRef, orcado.valores, realizado),
+      };
+    }, 120, CacheScope.SCRIPT);
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
+
 // ============================================================================
 // FLUXO DE CAIXA (DFC)
 // ============================================================================
@@ -5805,35 +8274,198 @@ export function getFluxoCaixaMensal(mes: number, ano: number, filial?: string, c
   }, 120, CacheScope.SCRIPT);
 }
 
-export function getFluxoCaixaProjecao(meses: number, filial?: string): any {
+/**
+ * Projeção de caixa mês a mês no cenário informado (forecast-service)
+ *
+ * Mantém o formato anterior (periodos, fluxos, evolucao) e inclui a projeção
+ * detalhada por grupo e origem em `projecao`.
+ *
+ * @param cenario - ID do cenário (padrão: BASE)
+ * @param saldoInicial - Saldo de partida (padrão: saldo das contas bancárias)
+ */
+export function getFluxoCaixaProjecao(meses: number, filial?: string, cenario?: string, saldoInicial?: number | string): any {
   enforcePermission('visualizarRelatorios', 'carregar projeção de fluxo de caixa');
+  const cenarioId = String(cenario || 'BASE').trim().toUpperCase();
+  const saldoInformado = saldoInicial === undefined || saldoInicial === null || saldoInicial === '' ? null : Number(saldoInicial);
+  const cacheKey = `projecao:${meses}:${filial || 'all'}:${cenarioId}:${saldoInformado ?? 'contas'}`;
+  return cacheGetOrLoad(CacheNamespace.DFC, cacheKey, () => {
   try {
-    const hoje = new Date();
-    const periodos = [];
+    const scenario = listScenarios().find(s => s.id === cenarioId);
+    if (!scenario) throw new Error(`Cenário não cadastrado: ${cenarioId}`);
 
-    for (let i = 0; i < meses; i++) {
-      const data = new Date(hoje.getFullYear(), hoje.getMonth() + i, 1);
-      periodos.push({
-        mes: data.getMonth() + 1,
-        ano: data.getFullYear()
-      });
-    }
+    const base = buildForecastBase({ meses, filial: filial || null });
+    const saldo = saldoInformado !== null && Number.isFinite(saldoInformado)
+      ? saldoInformado
+      : getForecastStartingCash(undefined, filial || null);
+    const projecao = applyScenario(base, scenario, listScenarioOverrides(cenarioId), saldo);
 
-    const fluxos = periodos.map(p => getFluxoCaixaMensal(p.mes, p.ano, filial));
+    const fluxos = projecao.periodos.map(p => {
+      const [ano, mes] = p.periodo.split('-').map(Number);
+      return {
+        periodo: {
+          mes,
+          ano,
+          mesNome: getMesNome(mes),
+          filial: filial || 'Consolidado',
+          canal: 'Todos'
+        },
+        valores: {
+          saldoInicial: p.saldoInicial,
+          totalEntradas: p.entradas,
+          totalSaidas: p.saidas,
+          saldoFinal: p.saldoFinal,
+          variacao: p.liquido
+        }
+      };
+    });
 
     return {
+      cenario: scenario,
       periodos: fluxos.map(f => f.periodo),
       fluxos,
       evolucao: {
         entradas: calcularEvolucao(fluxos.map(f => f.valores.totalEntradas)),
         saidas: calcularEvolucao(fluxos.map(f => f.valores.totalSaidas)),
         saldo: calcularEvolucao(fluxos.map(f => f.valores.saldoFinal))
-      }
+      },
+      projecao,
+      historico: base.historico,
+      grupos: FORECAST_GROUP_LABELS
     };
   } catch (error: any) {
     Logger.log(`Erro ao calcular projeção de Fluxo de Caixa: ${error.message}`);
     throw new Error(`Erro ao calcular projeção de Fluxo de Caixa: ${error.message}`);
   }
+  }, 120, CacheScope.SCRIPT);
+}
+
+// ============================================================================
+// POSIÇÃO DE CAIXA DIÁRIA
+// ============================================================================
+
+/**
+ * Saldo projetado dia a dia (padrão: 90 dias) com os dias abaixo do saldo mínimo
+ *
+ * @param saldoMinimo - Mínimo consolidado (padrão: CFG_CONFIG SALDO_MINIMO_CONSOLIDADO)
+ */
+export function getPosicaoCaixaDiaria(
+  dias?: number,
+  filial?: string,
+  saldoMinimo?: number | string
+): { success: boolean; message?: string; data?: CashLadder } {
+  try {
+    enforcePermission('visualizarRelatorios', 'ver posição de caixa diária');
+    const minimo = saldoMinimo === undefined || saldoMinimo === null || saldoMinimo === '' ? null : Number(saldoMinimo);
+    const cacheKey = `posicao:${Number(dias) || 'cfg'}:${filial || 'all'}:${minimo ?? 'cfg'}`;
+    const data = cacheGetOrLoad(
+      CacheNamespace.DFC,
+      cacheKey,
+      () => getDailyCashPosition({ dias: Number(dias) || undefined, filial: filial || null, saldoMinimo: minimo }),
+      120,
+      CacheScope.SCRIPT
+    );
+    return { success: true, data };
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * Movimentos projetados de um dia da posição de caixa
+ */
+export function getMovimentosCaixaDia(
+  data: string,
+  filial?: string
+): { success: boolean; message?: string; data?: CashMovement[] } {
+  try {
+    enforcePermission('visualizarRelatorios', 'ver movimentos da posição de caixa');
+    const dia = normalizeDateInput(data);
+    if (!dia) return { success: false, message: 'Data é obrigatória' };
+    return { success: true, data: getCashMovementsForDay(dia, { filial: filial || null }) };
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
+
+// ============================================================================
+// CENÁRIOS DA PROJEÇÃO DE CAIXA
+// ============================================================================
+
+/**
+ * Cenários cadastrados e seus ajustes manuais
+ */
+export function getCenariosFluxo(): { success: boolean; message?: string; cenarios?: ForecastScenario[]; ajustes?: ForecastOverride[] } {
+  try {
+    enforcePermission('visualizarRelatorios', 'ver cenários de fluxo de caixa');
+    return { success: true, cenarios: listScenarios(), ajustes: listScenarioOverrides() };
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * Cria/atualiza um cenário e substitui seus ajustes manuais
+ *
+ * @param ajustes - [{ periodo: 'aaaa-mm', grupo, modo: SUBSTITUIR|SOMAR, valor, descricao? }]
+ */
+export function salvarCenarioFluxo(cenario: any, ajustes?: any[]): { success: boolean; message: string } {
+  const denied = requirePermission('gerenciarConfig', 'salvar cenário de fluxo de caixa');
+  if (denied) return denied;
+
+  const lock = LockService.getDocumentLock();
+  try {
+    const parsed = parseScenarioInput(cenario, ajustes || []);
+    lock.waitLock(10000);
+    saveScenario(parsed.cenario, parsed.ajustes);
+    clearReportsCache();
+    appendAuditLog('salvarCenarioFluxo', { id: parsed.cenario.id, ajustes: parsed.ajustes.length }, true);
+    return { success: true, message: `Cenário ${parsed.cenario.nome} salvo` };
+  } catch (error: any) {
+    appendAuditLog('salvarCenarioFluxo', { id: cenario?.id }, false, error?.message);
+    return { success: false, message: error.message };
+  } finally {
+    try {
+      lock.releaseLock();
+    } catch (_) {}
+  }
+}
+
+/**
+ * Recalcula e grava em TB_DFC_PROJ a projeção de um cenário (ou de todos os ativos)
+ */
+export function gravarProjecaoCenarios(
+  meses?: number,
+  filial?: string,
+  cenario?: string
+): { success: boolean; message: string; cenarios?: Array<{ id: string; linhas: number; menorSaldo: ForecastResult['menorSaldo'] }> } {
+  const denied = requirePermission('gerenciarConfig', 'gravar projeção de fluxo de caixa');
+  if (denied) return denied;
+
+  const lock = LockService.getDocumentLock();
+  try {
+    const id = cenario ? String(cenario).trim().toUpperCase() : null;
+    const scenarios = listScenarios().filter(s => (id ? s.id === id : s.ativo));
+    if (!scenarios.length) throw new Error(id ? `Cenário não cadastrado: ${id}` : 'Nenhum cenário ativo');
+
+    lock.waitLock(30000);
+    const base = buildForecastBase({ meses, filial: filial || null });
+    const saldo = getForecastStartingCash(undefined, filial || null);
+    const overrides = listScenarioOverrides();
+    const gravados = scenarios.map(s => {
+      const result = applyScenario(base, s, overrides, saldo);
+      return { id: s.id, linhas: persistForecast(result), menorSaldo: result.menorSaldo };
+    });
+
+    appendAuditLog('gravarProjecaoCenarios', { meses, filial, cenarios: gravados.map(g => g.id) }, true);
+    return { success: true, message: `Projeção gravada para ${gravados.length} cenário(s)`, cenarios: gravados };
+  } catch (error: any) {
+    appendAuditLog('gravarProjecaoCenarios', { meses, filial, cenario }, false, error?.message);
+    return { success: false, message: error.message };
+  } finally {
+    try {
+      lock.releaseLock();
+    } catch (_) {}
+  }
 }
 
 // Helper function para agrupar por categoria
@@ -5920,10 +8552,10 @@ export function getKPIsMensal(mes: number, ano: number, filial?: string, canal?:
       : 0;
 
     // KPIs de Liquidez
-    const contasReceber = lancamentosMes.filter(l => l.tipo === 'RECEITA' && l.status === 'PENDENTE');
-    const contasPagar = lancamentosMes.filter(l => l.tipo === 'DESPESA' && l.status === 'PENDENTE');
-    const contasReceberPrev = lancamentosMesAnterior.filter(l => l.tipo === 'RECEITA' && l.status === 'PENDENTE');
-    const contasPagarPrev = lancamentosMesAnterior.filter(l => l.tipo === 'DESPESA' && l.status === 'PENDENTE');
+    const contasReceber = lancamentosMes.filter(l => l.tipo === 'RECEITA' && isAbertoStatus(l.status));
+    const contasPagar = lancamentosMes.filter(l => l.tipo === 'DESPESA' && isAbertoStatus(l.status));
+    const contasReceberPrev = lancamentosMesAnterior.filter(l => l.tipo === 'RECEITA' && isAbertoStatus(l.status));
+    const contasPagarPrev = lancamentosMesAnterior.filter(l => l.tipo === 'DESPESA' && isAbertoStatus(l.status));
     const ativoCirculante = sumValues(contasReceber) + fcAtual.valores.saldoFinal;
     const passivoCirculante = sumValues(contasPagar);
     const liquidezCorrente = passivoCirculante > 0 ? ativoCirculante / passivoCirculante : 0;
@@ -5955,12 +8587,12 @@ export function getKPIsMensal(mes: number, ano: number, filial?: string, canal?:
     const referenciaAnterior = new Date(anoAnterior, mesAnterior - 1, 1);
 
     const receitasVencidas = lancamentosMes.filter(l => {
-      if (l.tipo !== 'RECEITA' || l.status !== 'PENDENTE') return false;
+      if (l.tipo !== 'RECEITA' || !isAbertoStatus(l.status)) return false;
       const vencimento = new Date(l.dataVencimento);
       return vencimento < new Date();
     });
     const receitasVencidasPrev = lancamentosMesAnterior.filter(l => {
-      if (l.tipo !== 'RECEITA' || l.status !== 'PENDENTE') return false;
+      if (l.tipo !== 'RECEITA' || !isAbertoStatus(l.status)) return false;
       const vencimento = new Date(l.dataVencimento);
       return vencimento < referenciaAnterior;
     });
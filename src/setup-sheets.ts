@@ -11,6 +11,11 @@ import {
   SHEET_CFG_THEME,
   SHEET_CFG_DFC,
   SHEET_CFG_VALIDATION,
+  SHEET_CFG_REGRAS_CONCILIACAO,
+  SHEET_CFG_MDR,
+  SHEET_CFG_CENARIOS,
+  SHEET_CFG_CENARIOS_AJUSTES,
+  SHEET_CFG_DRE_LAYOUT,
   SHEET_REF_PLANO_CONTAS,
   SHEET_REF_FILIAIS,
   SHEET_REF_CANAIS,
@@ -20,14 +25,21 @@ import {
   SHEET_TB_EXTRATOS,
   SHEET_TB_IMPORT_FC,
   SHEET_TB_IMPORT_ITAU,
+  SHEET_TB_IMPORT_CARTAO_VENDAS,
+  SHEET_TB_IMPORT_CARTAO_LIQUIDACOES,
   SHEET_TB_IMPORT_SIEG,
   SHEET_TB_CAIXAS,
   SHEET_TB_CAIXAS_MOV,
+  SHEET_TB_RECORRENCIAS,
   SHEET_REF_CAIXA_TIPOS,
+  SHEET_REF_FERIADOS,
+  SHEET_REF_CONTAS_BANCARIAS,
+  SHEET_REF_PARCEIROS,
   SHEET_TB_DRE_MENSAL,
   SHEET_TB_DRE_RESUMO,
   SHEET_TB_DFC_REAL,
   SHEET_TB_DFC_PROJ,
+  SHEET_TB_ORCAMENTO,
   SHEET_TB_KPI_RESUMO,
   SHEET_TB_KPI_DETALHE,
   SHEET_RPT_COMITE_FATURAMENTO,
@@ -50,6 +62,11 @@ function setupAllSheets(): void {
     SHEET_CFG_THEME,
     SHEET_CFG_DFC,
     SHEET_CFG_VALIDATION,
+    SHEET_CFG_REGRAS_CONCILIACAO,
+    SHEET_CFG_MDR,
+    SHEET_CFG_CENARIOS,
+    SHEET_CFG_CENARIOS_AJUSTES,
+    SHEET_CFG_DRE_LAYOUT,
 
     // Referência
     SHEET_REF_PLANO_CONTAS,
@@ -63,14 +80,21 @@ function setupAllSheets(): void {
     SHEET_TB_EXTRATOS,
     SHEET_TB_IMPORT_FC,
     SHEET_TB_IMPORT_ITAU,
+    SHEET_TB_IMPORT_CARTAO_VENDAS,
+    SHEET_TB_IMPORT_CARTAO_LIQUIDACOES,
     SHEET_TB_IMPORT_SIEG,
     SHEET_TB_CAIXAS,
     SHEET_TB_CAIXAS_MOV,
+    SHEET_TB_RECORRENCIAS,
     SHEET_REF_CAIXA_TIPOS,
+    SHEET_REF_FERIADOS,
+    SHEET_REF_CONTAS_BANCARIAS,
+    SHEET_REF_PARCEIROS,
     SHEET_TB_DRE_MENSAL,
     SHEET_TB_DRE_RESUMO,
     SHEET_TB_DFC_REAL,
     SHEET_TB_DFC_PROJ,
+    SHEET_TB_ORCAMENTO,
     SHEET_TB_KPI_RESUMO,
     SHEET_TB_KPI_DETALHE,
 
@@ -115,7 +139,7 @@ function setupInitialData(): void {
       'Chave', 'Valor', 'Tipo', 'Descrição', 'Ativo'
     ]]).setFontWeight('bold').setBackground('#4285F4').setFontColor('#FFFFFF');
 
-    cfgConfig.getRange('A2:E11').setValues([
+    cfgConfig.getRange('A2:E19').setValues([
       ['EMPRESA_NOME', 'Neoformula', 'TEXT', 'Nome da empresa', 'TRUE'],
       ['MOEDA_PADRAO', 'BRL', 'TEXT', 'Moeda padrão', 'TRUE'],
       ['TIMEZONE', 'America/Sao_Paulo', 'TEXT', 'Fuso horário', 'TRUE'],
@@ -126,6 +150,14 @@ function setupInitialData(): void {
       ['EMAIL_NOTIFICACOES', 'financeiro@neoformula.com', 'TEXT', 'Email para notificações', 'TRUE'],
       ['APROVACAO_NECESSARIA', 'TRUE', 'BOOLEAN', 'Lançamentos precisam aprovação', 'TRUE'],
       ['CAIXAS_PASTA_ID', '', 'TEXT', 'Pasta raiz para uploads de caixas', 'TRUE'],
+      ['DIAS_CARENCIA_VENCIMENTO', '0', 'NUMBER', 'Dias de carência antes de marcar como VENCIDA', 'TRUE'],
+      ['CARENCIA_DIAS_UTEIS', 'TRUE', 'BOOLEAN', 'Carência contada em dias úteis', 'TRUE'],
+      ['SALDO_MINIMO_CONSOLIDADO', '0', 'NUMBER', 'Saldo mínimo consolidado da posição de caixa diária', 'TRUE'],
+      ['HORIZONTE_POSICAO_CAIXA_DIAS', '90', 'NUMBER', 'Dias projetados na posição de caixa diária', 'TRUE'],
+      ['CONTA_AJUSTE_DESPESA_FINANCEIRA', '4.01.001', 'TEXT', 'Conta do ajuste de juros/multa pagos e desconto concedido', 'TRUE'],
+      ['CONTA_AJUSTE_RECEITA_FINANCEIRA', '4.02.001', 'TEXT', 'Conta do ajuste de juros/multa recebidos', 'TRUE'],
+      ['CONTA_AJUSTE_DESCONTO_OBTIDO', '4.02.002', 'TEXT', 'Conta do ajuste de desconto obtido', 'TRUE'],
+      ['CONTA_AJUSTE_TARIFA', '4.01.002', 'TEXT', 'Conta do ajuste de tarifa bancária', 'TRUE'],
     ]);
 
     cfgConfig.autoResizeColumns(1, 5);
@@ -254,46 +286,70 @@ function setupInitialData(): void {
   const tbExtratos = ss.getSheetByName(SHEET_TB_EXTRATOS);
   if (tbExtratos) {
     tbExtratos.clear();
-    tbExtratos.getRange('A1:K1').setValues([[
+    tbExtratos.getRange('A1:N1').setValues([[
       'ID', 'Data', 'Descrição', 'Valor', 'Tipo', 'Banco',
-      'Conta', 'Status Conciliação', 'ID Lançamento', 'Observações', 'Importado Em'
+      'Conta', 'Status Conciliação', 'ID Lançamento', 'Observações', 'Importado Em',
+      'FITID', 'Saldo Após', 'Valor Conciliado'
     ]]).setFontWeight('bold').setBackground('#4285F4').setFontColor('#FFFFFF');
-    tbExtratos.autoResizeColumns(1, 11);
+    tbExtratos.autoResizeColumns(1, 14);
   }
 
   // TB_IMPORT_FC - Importacao contas FC
   const tbImportFc = ss.getSheetByName(SHEET_TB_IMPORT_FC);
   if (tbImportFc) {
     tbImportFc.clear();
-    tbImportFc.getRange('A1:M1').setValues([[
+    tbImportFc.getRange('A1:N1').setValues([[
       'Data Emissao', 'Num Documento', 'Cod Conta', 'Filial FC', 'Historico', 'Fornecedor',
-      'Valor', 'Descricao', 'Data Baixa', 'Flag Baixa', 'Data Vencimento', 'Tipo', 'Importado Em'
+      'Valor', 'Descricao', 'Data Baixa', 'Flag Baixa', 'Data Vencimento', 'Tipo', 'Importado Em',
+      'Lote Importação'
     ]]).setFontWeight('bold').setBackground('#4285F4').setFontColor('#FFFFFF');
-    tbImportFc.autoResizeColumns(1, 13);
+    tbImportFc.autoResizeColumns(1, 14);
   }
 
   // TB_IMPORT_ITAU - Importacao extrato Itau
   const tbImportItau = ss.getSheetByName(SHEET_TB_IMPORT_ITAU);
   if (tbImportItau) {
     tbImportItau.clear();
-    tbImportItau.getRange('A1:K1').setValues([[
+    tbImportItau.getRange('A1:L1').setValues([[
       'Data', 'Lancamento', 'Agencia/Origem', 'Razao Social', 'CPF/CNPJ', 'Valor',
-      'Saldo', 'Conta', 'Filial FC', 'Modelo', 'Importado Em'
+      'Saldo', 'Conta', 'Filial FC', 'Modelo', 'Importado Em', 'Lote Importação'
     ]]).setFontWeight('bold').setBackground('#4285F4').setFontColor('#FFFFFF');
-    tbImportItau.autoResizeColumns(1, 11);
+    tbImportItau.autoResizeColumns(1, 12);
+  }
+
+  // TB_IMPORT_CARTAO_VENDAS - Vendas exportadas pelas adquirentes
+  const tbCartaoVendas = ss.getSheetByName(SHEET_TB_IMPORT_CARTAO_VENDAS);
+  if (tbCartaoVendas) {
+    tbCartaoVendas.clear();
+    tbCartaoVendas.getRange('A1:M1').setValues([[
+      'Data Venda', 'Adquirente', 'Bandeira', 'Modalidade', 'Parcelas', 'NSU', 'Autorizacao',
+      'Valor Bruto', 'Valor Liquido', 'Filial FC', 'Estabelecimento', 'Importado Em', 'Lote Importação'
+    ]]).setFontWeight('bold').setBackground('#4285F4').setFontColor('#FFFFFF');
+    tbCartaoVendas.autoResizeColumns(1, 13);
+  }
+
+  // TB_IMPORT_CARTAO_LIQUIDACOES - Pagamentos das adquirentes (por parcela)
+  const tbCartaoLiquidacoes = ss.getSheetByName(SHEET_TB_IMPORT_CARTAO_LIQUIDACOES);
+  if (tbCartaoLiquidacoes) {
+    tbCartaoLiquidacoes.clear();
+    tbCartaoLiquidacoes.getRange('A1:M1').setValues([[
+      'Data Pagamento', 'Adquirente', 'Bandeira', 'NSU', 'Parcela', 'Total Parcelas', 'Valor Bruto',
+      'Taxa', 'Valor Liquido', 'Data Venda', 'Estabelecimento', 'Importado Em', 'Lote Importação'
+    ]]).setFontWeight('bold').setBackground('#4285F4').setFontColor('#FFFFFF');
+    tbCartaoLiquidacoes.autoResizeColumns(1, 13);
   }
 
   // TB_IMPORT_SIEG - Importacao extrato SIEG (NF-e)
   const tbImportSieg = ss.getSheetByName(SHEET_TB_IMPORT_SIEG);
   if (tbImportSieg) {
     tbImportSieg.clear();
-    tbImportSieg.getRange('A1:T1').setValues([[
+    tbImportSieg.getRange('A1:U1').setValues([[
       'Num NFe', 'Valor', 'Data Emissao', 'CNPJ Emit', 'Nome Fant Emit', 'Razao Soc Emit',
       'CNPJ Dest', 'Nome Fant Dest', 'Razao Soc Dest', 'Data Envio Cofre', 'Chave NFe',
       'Tags', 'Codigo Evento', 'Tipo Evento', 'Status', 'Danfe', 'Xml', 'Codigo Filial',
-      'Filial FC', 'Importado Em'
+      'Filial FC', 'Importado Em', 'Lote Importação'
     ]]).setFontWeight('bold').setBackground('#4285F4').setFontColor('#FFFFFF');
-    tbImportSieg.autoResizeColumns(1, 20);
+    tbImportSieg.autoResizeColumns(1, 21);
   }
 
   // TB_CAIXAS - Fechamentos de caixa
@@ -319,6 +375,19 @@ function setupInitialData(): void {
     tbCaixasMov.autoResizeColumns(1, 11);
   }
 
+  // TB_RECORRENCIAS - Modelos de lançamentos recorrentes
+  const tbRecorrencias = ss.getSheetByName(SHEET_TB_RECORRENCIAS);
+  if (tbRecorrencias) {
+    tbRecorrencias.clear();
+    tbRecorrencias.getRange('A1:U1').setValues([[
+      'ID', 'Descrição', 'Tipo', 'Filial', 'Centro Custo', 'Conta Gerencial', 'Conta Contábil',
+      'Canal', 'Valor', 'Frequência', 'Intervalo', 'Dia', 'Data Início', 'Data Fim',
+      'Máx Ocorrências', 'Reajuste Anual %', 'Dias Antecedência', 'Ativo', 'Última Geração',
+      'Atualizado Em', 'Observações'
+    ]]).setFontWeight('bold').setBackground('#4285F4').setFontColor('#FFFFFF');
+    tbRecorrencias.autoResizeColumns(1, 21);
+  }
+
   // REF_CAIXA_TIPOS - Tipos de movimentacao do caixa
   const refCaixaTipos = ss.getSheetByName(SHEET_REF_CAIXA_TIPOS);
   if (refCaixaTipos) {
@@ -343,24 +412,74 @@ function setupInitialData(): void {
     refCaixaTipos.autoResizeColumns(1, 6);
   }
 
+  // REF_FERIADOS - Feriados estaduais/municipais (nacionais são calculados)
+  const refFeriados = ss.getSheetByName(SHEET_REF_FERIADOS);
+  if (refFeriados) {
+    refFeriados.clear();
+    refFeriados.getRange('A1:F1').setValues([[
+      'Data', 'Descrição', 'Abrangência', 'Filial', 'Recorrente', 'Ativo'
+    ]]).setFontWeight('bold').setBackground('#4285F4').setFontColor('#FFFFFF');
+
+    refFeriados.getRange('A2:F3').setValues([
+      ['2025-01-25', 'Aniversário de São Paulo', 'MUNICIPAL', '', 'TRUE', 'TRUE'],
+      ['2025-07-09', 'Revolução Constitucionalista', 'ESTADUAL', '', 'TRUE', 'TRUE'],
+    ]);
+
+    refFeriados.autoResizeColumns(1, 6);
+  }
+
+  // REF_CONTAS_BANCARIAS - Contas correntes (saldo inicial para o saldo diário)
+  const refContasBancarias = ss.getSheetByName(SHEET_REF_CONTAS_BANCARIAS);
+  if (refContasBancarias) {
+    refContasBancarias.clear();
+    refContasBancarias.getRange('A1:J1').setValues([[
+      'ID', 'Banco', 'Agência', 'Conta', 'Descrição', 'Filial', 'Saldo Inicial', 'Data Saldo Inicial', 'Ativa',
+      'Saldo Mínimo'
+    ]]).setFontWeight('bold').setBackground('#4285F4').setFontColor('#FFFFFF');
+
+    // Agência/conta como texto, preservando zeros à esquerda
+    refContasBancarias.getRange('B:D').setNumberFormat('@');
+    refContasBancarias.getRange('A2:J3').setValues([
+      ['CC_MATRIZ', '341', '0001', '12345-6', 'Itaú - Conta movimento Matriz', 'MATRIZ', 0, '', 'TRUE', ''],
+      ['CC_FILIAL_RJ', '001', '1234-5', '98765-4', 'Banco do Brasil - Filial RJ', 'FILIAL_RJ', 0, '', 'TRUE', ''],
+    ]);
+
+    refContasBancarias.autoResizeColumns(1, 10);
+  }
+
+  // REF_PARCEIROS - Fornecedores e clientes (preenchido também pelas importações)
+  const refParceiros = ss.getSheetByName(SHEET_REF_PARCEIROS);
+  if (refParceiros) {
+    refParceiros.clear();
+    refParceiros.getRange('A1:O1').setValues([[
+      'ID', 'Tipo', 'CPF/CNPJ', 'Razão Social', 'Nome Fantasia', 'Conta Contábil', 'Centro Custo',
+      'Prazo Pagamento (dias)', 'Banco', 'Agência', 'Conta', 'Chave PIX', 'Ativo', 'Origem', 'Criado Em'
+    ]]).setFontWeight('bold').setBackground('#4285F4').setFontColor('#FFFFFF');
+
+    // Documento e dados bancários como texto, preservando zeros à esquerda
+    refParceiros.getRange('C:C').setNumberFormat('@');
+    refParceiros.getRange('I:L').setNumberFormat('@');
+    refParceiros.autoResizeColumns(1, 15);
+  }
+
   // TB_DRE_MENSAL - DRE mensal
   const tbDreMensal = ss.getSheetByName(SHEET_TB_DRE_MENSAL);
   if (tbDreMensal) {
     tbDreMensal.clear();
-    tbDreMensal.getRange('A1:H1').setValues([[
-      'Mês/Ano', 'Grupo DRE', 'Subgrupo', 'Conta', 'Filial', 'Centro Custo', 'Valor', 'Atualizado Em'
+    tbDreMensal.getRange('A1:G1').setValues([[
+      'Ano', 'Mes', 'Filial', 'Grupo', 'Subgrupo', 'Valor', 'Regime'
     ]]).setFontWeight('bold').setBackground('#4285F4').setFontColor('#FFFFFF');
-    tbDreMensal.autoResizeColumns(1, 8);
+    tbDreMensal.autoResizeColumns(1, 7);
   }
 
   // TB_DRE_RESUMO - DRE resumo
   const tbDreResumo = ss.getSheetByName(SHEET_TB_DRE_RESUMO);
   if (tbDreResumo) {
     tbDreResumo.clear();
-    tbDreResumo.getRange('A1:F1').setValues([[
-      'Mês/Ano', 'Grupo DRE', 'Valor Real', 'Valor Orçado', 'Variação', 'Variação %'
+    tbDreResumo.getRange('A1:E1').setValues([[
+      'Ano', 'Mes', 'Indicador', 'Valor', 'Regime'
     ]]).setFontWeight('bold').setBackground('#4285F4').setFontColor('#FFFFFF');
-    tbDreResumo.autoResizeColumns(1, 6);
+    tbDreResumo.autoResizeColumns(1, 5);
   }
 
   // TB_DFC_REAL - DFC realizado
@@ -373,14 +492,28 @@ function setupInitialData(): void {
     tbDfcReal.autoResizeColumns(1, 7);
   }
 
-  // TB_DFC_PROJ - DFC projetado
+  // TB_DFC_PROJ - Projeção de caixa por cenário (forecast-service)
   const tbDfcProj = ss.getSheetByName(SHEET_TB_DFC_PROJ);
   if (tbDfcProj) {
     tbDfcProj.clear();
-    tbDfcProj.getRange('A1:G1').setValues([[
-      'Data Prevista', 'Grupo DFC', 'Descrição', 'Valor Previsto', 'Saldo Projetado', 'Filial', 'Status'
+    tbDfcProj.getRange('A1:H1').setValues([[
+      'Cenário', 'Período', 'Grupo', 'Origem', 'Valor', 'Saldo Projetado', 'Filial', 'Gerado Em'
     ]]).setFontWeight('bold').setBackground('#4285F4').setFontColor('#FFFFFF');
-    tbDfcProj.autoResizeColumns(1, 7);
+    tbDfcProj.getRange('B:B').setNumberFormat('@');
+    tbDfcProj.autoResizeColumns(1, 8);
+  }
+
+  // TB_ORCAMENTO - Orçamento anual por mês × filial × conta/linha DRE
+  const tbOrcamento = ss.getSheetByName(SHEET_TB_ORCAMENTO);
+  if (tbOrcamento) {
+    tbOrcamento.clear();
+    tbOrcamento.getRange('A1:H1').setValues([[
+      'Período', 'Filial', 'Conta/Linha DRE', 'Descrição', 'Valor', 'Origem', 'Atualizado Em', 'Atualizado Por'
+    ]]).setFontWeight('bold').setBackground('#4285F4').setFontColor('#FFFFFF');
+
+    // Período e conta como texto ("2025-01" e "1.01.001" não viram data/número)
+    tbOrcamento.getRange('A:C').setNumberFormat('@');
+    tbOrcamento.autoResizeColumns(1, 8);
   }
 
   // TB_KPI_RESUMO - KPIs resumo
@@ -453,6 +586,102 @@ function setupInitialData(): void {
     cfgValidation.autoResizeColumns(1, 5);
   }
 
+  // CFG_REGRAS_CONCILIACAO - Regras de classificação automática de extratos
+  const cfgRegrasConciliacao = ss.getSheetByName(SHEET_CFG_REGRAS_CONCILIACAO);
+  if (cfgRegrasConciliacao) {
+    cfgRegrasConciliacao.clear();
+    cfgRegrasConciliacao.getRange('A1:S1').setValues([[
+      'ID', 'Nome', 'Prioridade', 'Operador', 'Padrão', 'Sentido', 'Valor Mín', 'Valor Máx',
+      'Banco', 'Tipo Lançamento', 'Conta Contábil', 'Filial', 'Centro Custo', 'Descrição',
+      'Origem', 'Ativo', 'Acertos', 'Último Acerto', 'Atualizado Em'
+    ]]).setFontWeight('bold').setBackground('#4285F4').setFontColor('#FFFFFF');
+
+    cfgRegrasConciliacao.getRange('A2:S3').setValues([
+      ['RC-0001', 'Tarifa pacote de serviços', 10, 'CONTEM', 'TAR PACOTE', 'DEBITO', '', '', '',
+        'DESPESA', '4.01.002', '', 'FIN', '', 'MANUAL', 'FALSE', 0, '', ''],
+      ['RC-0002', 'IOF', 20, 'COMECA_COM', 'IOF', 'DEBITO', '', '', '',
+        'DESPESA', '4.01.002', '', 'FIN', '', 'MANUAL', 'FALSE', 0, '', ''],
+    ]);
+
+    cfgRegrasConciliacao.autoResizeColumns(1, 19);
+  }
+
+  // CFG_MDR - Taxas contratadas com as adquirentes (bandeira vazia = todas)
+  const cfgMdr = ss.getSheetByName(SHEET_CFG_MDR);
+  if (cfgMdr) {
+    cfgMdr.clear();
+    cfgMdr.getRange('A1:H1').setValues([[
+      'Adquirente', 'Bandeira', 'Modalidade', 'Parcelas Mín', 'Parcelas Máx', 'Taxa %', 'Prazo Dias', 'Ativo'
+    ]]).setFontWeight('bold').setBackground('#4285F4').setFontColor('#FFFFFF');
+
+    cfgMdr.getRange('A2:H4').setValues([
+      ['CIELO', '', 'DEBITO', 1, 1, 0.99, 1, 'TRUE'],
+      ['CIELO', '', 'CREDITO', 1, 1, 2.49, 30, 'TRUE'],
+      ['CIELO', '', 'PARCELADO', 2, 12, 2.99, 30, 'TRUE'],
+    ]);
+
+    cfgMdr.autoResizeColumns(1, 8);
+  }
+
+  // CFG_CENARIOS - Cenários da projeção de caixa (choques % sobre recorrências e histórico)
+  const cfgCenarios = ss.getSheetByName(SHEET_CFG_CENARIOS);
+  if (cfgCenarios) {
+    cfgCenarios.clear();
+    cfgCenarios.getRange('A1:H1').setValues([[
+      'ID', 'Nome', 'Descrição', 'Choque Receita %', 'Choque Custo Variável %', 'Choque Despesa Fixa %',
+      'Ativo', 'Atualizado Em'
+    ]]).setFontWeight('bold').setBackground('#4285F4').setFontColor('#FFFFFF');
+
+    cfgCenarios.getRange('A2:H4').setValues([
+      ['BASE', 'Base', 'Histórico e compromissos sem choques', 0, 0, 0, 'TRUE', ''],
+      ['OTIMISTA', 'Otimista', 'Receita +10%, custos variáveis acompanhando', 10, 5, 0, 'TRUE', ''],
+      ['PESSIMISTA', 'Pessimista', 'Receita -15%, despesas fixas +5%', -15, -10, 5, 'TRUE', ''],
+    ]);
+
+    cfgCenarios.autoResizeColumns(1, 8);
+  }
+
+  // CFG_CENARIOS_AJUSTES - Ajustes manuais por cenário × mês × grupo
+  const cfgCenariosAjustes = ss.getSheetByName(SHEET_CFG_CENARIOS_AJUSTES);
+  if (cfgCenariosAjustes) {
+    cfgCenariosAjustes.clear();
+    cfgCenariosAjustes.getRange('A1:F1').setValues([[
+      'Cenário', 'Período', 'Grupo', 'Modo', 'Valor', 'Descrição'
+    ]]).setFontWeight('bold').setBackground('#4285F4').setFontColor('#FFFFFF');
+    cfgCenariosAjustes.getRange('B:B').setNumberFormat('@');
+    cfgCenariosAjustes.autoResizeColumns(1, 6);
+  }
+
+  // CFG_DRE_LAYOUT - Estrutura da DRE (linhas, fontes e fórmulas dos subtotais)
+  const cfgDreLayout = ss.getSheetByName(SHEET_CFG_DRE_LAYOUT);
+  if (cfgDreLayout) {
+    cfgDreLayout.clear();
+    cfgDreLayout.getRange('A1:N1').setValues([[
+      'Ordem', 'Código', 'Descrição', 'Tipo', 'Sinal', 'Base', 'Tipo Lançamento', 'Grupos DRE',
+      'Subgrupos DRE', 'Classes Conta', 'Contas', 'Centros Custo', 'Fórmula', 'Nível'
+    ]]).setFontWeight('bold').setBackground('#4285F4').setFontColor('#FFFFFF');
+    cfgDreLayout.getRange('C:E').setNumberFormat('@');
+
+    cfgDreLayout.getRange('A2:N15').setValues([
+      [10, 'RECEITA_BRUTA', 'Receita Bruta', 'VALOR', '+', 'BRUTO', 'RECEITA', '', '', '', '', '', '', 0],
+      [20, 'DEDUCOES', '(-) Deduções', 'VALOR', '-', 'DESCONTO', 'RECEITA', '', '', '', '', '', '', 1],
+      [20, 'DEDUCOES', '(-) Deduções', 'VALOR', '-', 'LIQUIDO', '', '*DEDU*', '', '', '', '', '', 1],
+      [30, 'RECEITA_LIQUIDA', '(=) Receita Líquida', 'SUBTOTAL', '+', '', '', '', '', '', '', '', 'RECEITA_BRUTA - DEDUCOES', 0],
+      [40, 'CUSTOS', '(-) Custo das Mercadorias/Serviços', 'VALOR', '-', 'LIQUIDO', 'DESPESA', '*CMV*;*CUSTO*;*CSP*', '', '', '', '', '', 0],
+      [40, 'CUSTOS', '(-) Custo das Mercadorias/Serviços', 'VALOR', '-', 'LIQUIDO', 'DESPESA', '', '', 'CUSTO;CMA;CMV', '', '', '', 0],
+      [50, 'MARGEM_BRUTA', '(=) Margem Bruta', 'SUBTOTAL', '+', '', '', '', '', '', '', '', 'RECEITA_LIQUIDA - CUSTOS', 0],
+      [60, 'DESPESAS_OPERACIONAIS', '(-) Despesas Operacionais', 'SUBTOTAL', '-', '', '', '', '', '', '', '', 'DESP_PESSOAL + DESP_MARKETING + DESP_ADMINISTRATIVAS', 0],
+      [61, 'DESP_PESSOAL', 'Pessoal', 'VALOR', '-', 'LIQUIDO', 'DESPESA', '', 'Pessoal', '', '', '', '', 1],
+      [62, 'DESP_MARKETING', 'Marketing e Comercial', 'VALOR', '-', 'LIQUIDO', 'DESPESA', '', 'Marketing;Comercial', '', '', '', '', 1],
+      [63, 'DESP_ADMINISTRATIVAS', 'Administrativas e demais', 'VALOR', '-', 'LIQUIDO', 'DESPESA', '', '', '', '', '', '', 1],
+      [70, 'EBITDA', '(=) EBITDA', 'SUBTOTAL', '+', '', '', '', '', '', '', '', 'MARGEM_BRUTA - DESPESAS_OPERACIONAIS', 0],
+      [80, 'RESULTADO_FINANCEIRO', '(+/-) Resultado Financeiro', 'VALOR', '+', 'LIQUIDO', '', '*FINANCEIRO*', '', '', '', '', '', 0],
+      [90, 'LUCRO_LIQUIDO', '(=) Lucro Líquido', 'SUBTOTAL', '+', '', '', '', '', '', '', '', 'EBITDA + RESULTADO_FINANCEIRO', 0],
+    ]);
+
+    cfgDreLayout.autoResizeColumns(1, 14);
+  }
+
   // REF_NATUREZAS - Naturezas financeiras
   const refNaturezas = ss.getSheetByName(SHEET_REF_NATUREZAS);
   if (refNaturezas) {
@@ -0,0 +1,243 @@
+/**
+ * cnab-parser.ts
+ *
+ * Parser de arquivos de retorno de cobrança (boletos) nos layouts
+ * CNAB 240 (FEBRABAN, segmentos T/U) e CNAB 400.
+ *
+ * IMPORTANTE:
+ * - Não depende de APIs do Apps Script (parsing puro de string)
+ * - Posições seguem a documentação dos bancos (1-based, inclusivas)
+ * - Valores monetários vêm sem separador, com 2 casas decimais implícitas
+ * - CNAB 400 varia por banco: posição do nosso número tratada para Itaú (341)
+ *   e padrão Bradesco (237) para os demais
+ */
+
+import { Money } from './types';
+import { roundMoney } from './money-utils';
+
+// ============================================================================
+// TIPOS
+// ============================================================================
+
+export type CnabLayout = '240' | '400';
+
+/**
+ * Título informado no retorno
+ */
+export interface CnabTitulo {
+  linha: number; // linha do arquivo (1-based) do registro principal
+  nossoNumero: string;
+  numeroDocumento: string; // "seu número" / número do documento
+  usoEmpresa: string; // identificação do título na empresa
+  ocorrencia: string; // código de movimento/ocorrência
+  liquidado: boolean;
+  dataOcorrencia: Date | null;
+  dataCredito: Date | null;
+  vencimento: Date | null;
+  valorTitulo: Money;
+  valorPago: Money;
+  juros: Money; // juros/encargos (CNAB 240 informa juros + multa somados)
+  multa: Money;
+  desconto: Money; // desconto + abatimento
+  tarifa: Money;
+}
+
+/**
+ * Resultado do parsing de um arquivo de retorno
+ */
+export interface CnabRetorno {
+  layout: CnabLayout;
+  banco: string;
+  titulos: CnabTitulo[];
+  ignorados: number; // registros de detalhe não reconhecidos
+}
+
+/**
+ * Ocorrências de liquidação (título pago)
+ * 06: liquidação normal | 15: liquidação em cartório
+ * 16: pago em cheque   | 17: liquidação após baixa
+ */
+const OCORRENCIAS_LIQUIDACAO = new Set(['06', '15', '16', '17']);
+
+// ============================================================================
+// HELPERS DE PARSING
+// ============================================================================
+
+/**
+ * Extrai campo por posição (1-based, inclusiva)
+ */
+function field(line: string, start: number, end: number): string {
+  return line.substring(start - 1, end);
+}
+
+function fieldText(line: string, start: number, end: number): string {
+  return field(line, start, end).trim();
+}
+
+/**
+ * Valor numérico com 2 casas decimais implícitas
+ */
+function fieldMoney(line: string, start: number, end: number): Money {
+  const digits = field(line, start, end).replace(/\D/g, '');
+  if (!digits) return 0;
+  return roundMoney(parseInt(digits, 10) / 100);
+}
+
+/**
+ * Data DDMMAAAA (CNAB 240) ou DDMMAA (CNAB 400)
+ */
+function fieldDate(line: string, start: number, end: number): Date | null {
+  const raw = field(line, start, end).trim();
+  if (!/^\d+$/.test(raw) || /^0+$/.test(raw)) return null;
+
+  const day = parseInt(raw.slice(0, 2), 10);
+  const month = parseInt(raw.slice(2, 4), 10) - 1;
+  let year = parseInt(raw.slice(4), 10);
+  if (raw.length === 6) year += year < 70 ? 2000 : 1900;
+
+  const date = new Date(year, month, day);
+  if (isNaN(date.getTime()) || date.getMonth() !== month) return null;
+  return date;
+}
+
+/**
+ * Identifica o layout pelo tamanho das linhas
+ */
+export function detectCnabLayout(lines: string[]): CnabLayout {
+  const sample = lines.find((l) => l.length > 0) || '';
+  if (sample.length >= 390) return '400';
+  if (sample.length >= 230) return '240';
+  throw new Error(`Layout CNAB não reconhecido (linha com ${sample.length} posições)`);
+}
+
+// ============================================================================
+// CNAB 240
+// ============================================================================
+
+function parseCnab240(lines: string[]): CnabRetorno {
+  const banco = fieldText(lines[0], 1, 3);
+  const titulos: CnabTitulo[] = [];
+  let ignorados = 0;
+  let atual: CnabTitulo | null = null;
+
+  lines.forEach((line, idx) => {
+    if (field(line, 8, 8) !== '3') return; // apenas registros de detalhe
+
+    const segmento = field(line, 14, 14).toUpperCase();
+
+    if (segmento === 'T') {
+      const ocorrencia = fieldText(line, 16, 17);
+      atual = {
+        linha: idx + 1,
+        nossoNumero: fieldText(line, 38, 57),
+        numeroDocumento: fieldText(line, 59, 73),
+        usoEmpresa: fieldText(line, 106, 130),
+        ocorrencia,
+        liquidado: OCORRENCIAS_LIQUIDACAO.has(ocorrencia),
+        dataOcorrencia: null,
+        dataCredito: null,
+        vencimento: fieldDate(line, 74, 81),
+        valorTitulo: fieldMoney(line, 82, 96),
+        valorPago: 0,
+        juros: 0,
+        multa: 0,
+        desconto: 0,
+        tarifa: fieldMoney(line, 199, 213),
+      };
+      titulos.push(atual);
+      return;
+    }
+
+    if (segmento === 'U' && atual) {
+      atual.juros = fieldMoney(line, 18, 32);
+      atual.desconto = roundMoney(fieldMoney(line, 33, 47) + fieldMoney(line, 48, 62));
+      atual.valorPago = fieldMoney(line, 78, 92);
+      atual.dataOcorrencia = fieldDate(line, 138, 145);
+      atual.dataCredito = fieldDate(line, 146, 153);
+      atual = null;
+      return;
+    }
+
+    ignorados++;
+  });
+
+  return { layout: '240', banco, titulos, ignorados };
+}
+
+// ============================================================================
+// CNAB 400
+// ============================================================================
+
+function parseCnab400(lines: string[]): CnabRetorno {
+  const header = lines[0] || '';
+  const banco = fieldText(header, 77, 79);
+  const titulos: CnabTitulo[] = [];
+  let ignorados = 0;
+
+  lines.forEach((line, idx) => {
+    const tipo = field(line, 1, 1);
+    if (tipo === '0' || tipo === '9') return; // header / trailer
+    if (tipo !== '1') {
+      ignorados++;
+      return;
+    }
+
+    const ocorrencia = fieldText(line, 109, 110);
+    const nossoNumero = banco === '341' ? fieldText(line, 63, 70) : fieldText(line, 71, 82);
+
+    titulos.push({
+      linha: idx + 1,
+      nossoNumero,
+      numeroDocumento: fieldText(line, 117, 126),
+      usoEmpresa: fieldText(line, 38, 62),
+      ocorrencia,
+      liquidado: OCORRENCIAS_LIQUIDACAO.has(ocorrencia),
+      dataOcorrencia: fieldDate(line, 111, 116),
+      dataCredito: fieldDate(line, 296, 301),
+      vencimento: fieldDate(line, 147, 152),
+      valorTitulo: fieldMoney(line, 153, 165),
+      valorPago: fieldMoney(line, 254, 266),
+      juros: fieldMoney(line, 267, 279),
+      multa: 0,
+      desconto: roundMoney(fieldMoney(line, 241, 253) + fieldMoney(line, 228, 240)),
+      tarifa: fieldMoney(line, 176, 188),
+    });
+  });
+
+  return { layout: '400', banco, titulos, ignorados };
+}
+
+// ============================================================================
+// API PÚBLICA
+// ============================================================================
+
+/**
+ * Faz o parsing de um arquivo de retorno CNAB 240 ou 400
+ *
+ * @param content - Conteúdo bruto do arquivo
+ * @returns Layout, banco e títulos do retorno
+ */
+export function parseCnabRetorno(content: string): CnabRetorno {
+  const lines = String(content || '')
+    .split(/\r?\n/)
+    .map((l) => l.replace(/\r$/, ''))
+    .filter((l) => l.trim().length > 0);
+
+  if (lines.length === 0) {
+    throw new Error('Arquivo de retorno vazio');
+  }
+
+  const layout = detectCnabLayout(lines);
+  return layout === '240' ? parseCnab240(lines) : parseCnab400(lines);
+}
+
+/**
+ * Normaliza identificador (nosso número / documento) para comparação:
+ * remove caracteres não alfanuméricos e zeros à esquerda
+ */
+export function normalizeCnabId(value: string): string {
+  return String(value || '')
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, '')
+    .replace(/^0+/, '');
+}
@@ -5,7 +5,7 @@
  * Considera timezone configurado (padrão: America/Sao_Paulo).
  */
 
-import { Period } from './types';
+import { Period, Holiday, HolidayScope } from './types';
 
 /**
  * Timezone padrão da aplicação
@@ -209,3 +209,146 @@ export function generatePeriodRange(start: Period, end: Period): Period[] {
 
   return periods;
 }
+
+// ============================================================================
+// DIAS ÚTEIS E FERIADOS
+// ============================================================================
+
+/**
+ * Opções do calendário de dias úteis
+ */
+export interface BusinessDayOptions {
+  feriados?: Set<string>; // feriados locais adicionais (yyyy-MM-dd)
+  feriadosRecorrentes?: Set<string>; // feriados locais que se repetem todo ano (MM-dd)
+  sabadoUtil?: boolean; // comércio: sábado conta como dia útil
+}
+
+function toISOKey(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+/**
+ * Domingo de Páscoa (algoritmo de Meeus/Jones/Butcher)
+ */
+export function getEasterDate(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+const nationalHolidaysByYear = new Map<number, Holiday[]>();
+
+/**
+ * Feriados nacionais do ano, incluindo os móveis (Carnaval, Sexta-feira Santa,
+ * Corpus Christi), que não têm expediente bancário
+ */
+export function getNationalHolidays(year: number): Holiday[] {
+  const cached = nationalHolidaysByYear.get(year);
+  if (cached) return cached;
+
+  const fixed: Array<[number, number, string]> = [
+    [1, 1, 'Confraternização Universal'],
+    [4, 21, 'Tiradentes'],
+    [5, 1, 'Dia do Trabalho'],
+    [9, 7, 'Independência do Brasil'],
+    [10, 12, 'Nossa Senhora Aparecida'],
+    [11, 2, 'Finados'],
+    [11, 15, 'Proclamação da República'],
+    [12, 25, 'Natal'],
+  ];
+  // Lei 14.759/2023
+  if (year >= 2024) fixed.push([11, 20, 'Dia Nacional de Zumbi e da Consciência Negra']);
+
+  const easter = getEasterDate(year);
+  const movable: Array<[Date, string]> = [
+    [addDays(easter, -48), 'Carnaval (segunda-feira)'],
+    [addDays(easter, -47), 'Carnaval (terça-feira)'],
+    [addDays(easter, -2), 'Sexta-feira Santa'],
+    [addDays(easter, 60), 'Corpus Christi'],
+  ];
+
+  const holidays: Holiday[] = [
+    ...fixed.map(([month, day, descricao]) => ({
+      data: toISOKey(new Date(year, month - 1, day)),
+      descricao,
+      abrangencia: HolidayScope.NACIONAL,
+      filial: null,
+    })),
+    ...movable.map(([date, descricao]) => ({
+      data: toISOKey(date),
+      descricao,
+      abrangencia: HolidayScope.NACIONAL,
+      filial: null,
+    })),
+  ].sort((x, y) => x.data.localeCompare(y.data));
+
+  nationalHolidaysByYear.set(year, holidays);
+  return holidays;
+}
+
+/**
+ * Verifica se a data é feriado (nacional ou local informado nas opções)
+ */
+export function isHoliday(date: Date, options: BusinessDayOptions = {}): boolean {
+  const key = toISOKey(date);
+  if (options.feriados && options.feriados.has(key)) return true;
+  if (options.feriadosRecorrentes && options.feriadosRecorrentes.has(key.slice(5))) return true;
+  return getNationalHolidays(date.getFullYear()).some((h) => h.data === key);
+}
+
+/**
+ * Verifica se a data é dia útil (não é fim de semana nem feriado)
+ */
+export function isBusinessDay(date: Date, options: BusinessDayOptions = {}): boolean {
+  const day = date.getDay();
+  if (day === 0) return false;
+  if (day === 6 && !options.sabadoUtil) return false;
+  return !isHoliday(date, options);
+}
+
+/**
+ * Próximo dia útil (a própria data, se já for dia útil)
+ */
+export function nextBusinessDay(date: Date, options: BusinessDayOptions = {}): Date {
+  let result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  while (!isBusinessDay(result, options)) result = addDays(result, 1);
+  return result;
+}
+
+/**
+ * Dia útil imediatamente anterior à data
+ */
+export function previousBusinessDay(date: Date, options: BusinessDayOptions = {}): Date {
+  let result = addDays(new Date(date.getFullYear(), date.getMonth(), date.getDate()), -1);
+  while (!isBusinessDay(result, options)) result = addDays(result, -1);
+  return result;
+}
+
+/**
+ * Soma (ou subtrai, se negativo) dias úteis a uma data
+ */
+export function addBusinessDays(date: Date, days: number, options: BusinessDayOptions = {}): Date {
+  let result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const step = days < 0 ? -1 : 1;
+  let remaining = Math.abs(Math.trunc(days));
+  while (remaining > 0) {
+    result = addDays(result, step);
+    if (isBusinessDay(result, options)) remaining--;
+  }
+  return result;
+}
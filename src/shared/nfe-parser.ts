@@ -0,0 +1,213 @@
+/**
+ * nfe-parser.ts
+ *
+ * Parser de XML de NF-e (nfeProc / NFe, layouts 3.10 e 4.00).
+ * Extrai cabeçalho, duplicatas (<cobr><dup>) e itens (<det>).
+ *
+ * IMPORTANTE:
+ * - Não depende de APIs do Apps Script (parsing puro de string)
+ * - Prefixos de namespace (ex.: <nfe:NFe>) são ignorados
+ * - Datas retornadas no formato yyyy-MM-dd (sem horário/fuso)
+ */
+
+import { Money } from './types';
+import { roundMoney } from './money-utils';
+
+// ============================================================================
+// TIPOS
+// ============================================================================
+
+/**
+ * Participante da nota (emitente ou destinatário)
+ */
+export interface NfeParticipante {
+  documento: string; // CNPJ ou CPF (apenas dígitos)
+  razaoSocial: string;
+  nomeFantasia: string;
+}
+
+/**
+ * Duplicata (parcela) da fatura
+ */
+export interface NfeDuplicata {
+  numero: string;
+  vencimento: string; // yyyy-MM-dd
+  valor: Money;
+}
+
+/**
+ * Item (produto/serviço) da nota
+ */
+export interface NfeItem {
+  numero: number;
+  codigo: string;
+  descricao: string;
+  ncm: string;
+  cfop: string;
+  unidade: string;
+  quantidade: number;
+  valorUnitario: Money;
+  valorTotal: Money;
+}
+
+/**
+ * NF-e extraída do XML
+ */
+export interface NfeDocumento {
+  chave: string;
+  numero: string;
+  serie: string;
+  dataEmissao: string; // yyyy-MM-dd
+  emitente: NfeParticipante;
+  destinatario: NfeParticipante;
+  valorTotal: Money; // ICMSTot/vNF
+  duplicatas: NfeDuplicata[];
+  itens: NfeItem[];
+  statusProtocolo: string; // cStat do protNFe (100/150 = autorizada), vazio se ausente
+}
+
+// ============================================================================
+// HELPERS DE PARSING
+// ============================================================================
+
+const NS = '(?:[\\w-]+:)?';
+
+// 100 = autorizado o uso; 150 = autorizado o uso, fora de prazo
+const CSTAT_AUTORIZADA = new Set(['100', '150']);
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Conteúdo interno de todas as ocorrências de um elemento
+ */
+function readBlocks(xml: string, tag: string): string[] {
+  const regex = new RegExp(`<${NS}${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${NS}${tag}>`, 'g');
+  const blocks: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(xml)) !== null) {
+    blocks.push(match[1]);
+  }
+  return blocks;
+}
+
+function readBlock(xml: string, tag: string): string {
+  return readBlocks(xml, tag)[0] || '';
+}
+
+/**
+ * Texto de um elemento folha (primeira ocorrência)
+ */
+function readText(xml: string, tag: string): string {
+  const match = new RegExp(`<${NS}${tag}(?:\\s[^>]*)?>([^<]*)</${NS}${tag}>`).exec(xml);
+  return match ? decodeEntities(match[1].trim()) : '';
+}
+
+function readNumber(xml: string, tag: string): number {
+  const num = parseFloat(readText(xml, tag));
+  return isNaN(num) ? 0 : num;
+}
+
+function readMoney(xml: string, tag: string): Money {
+  return roundMoney(readNumber(xml, tag));
+}
+
+/**
+ * Extrai yyyy-MM-dd de dhEmi (ISO com fuso) ou dEmi
+ */
+function readDate(xml: string, ...tags: string[]): string {
+  for (const tag of tags) {
+    const match = /^(\d{4}-\d{2}-\d{2})/.exec(readText(xml, tag));
+    if (match) return match[1];
+  }
+  return '';
+}
+
+function parseParticipante(block: string): NfeParticipante {
+  return {
+    documento: (readText(block, 'CNPJ') || readText(block, 'CPF')).replace(/\D/g, ''),
+    razaoSocial: readText(block, 'xNome'),
+    nomeFantasia: readText(block, 'xFant'),
+  };
+}
+
+function parseItens(infNFe: string): NfeItem[] {
+  return readBlocks(infNFe, 'det').map((det, idx) => {
+    const prod = readBlock(det, 'prod');
+    return {
+      numero: idx + 1,
+      codigo: readText(prod, 'cProd'),
+      descricao: readText(prod, 'xProd'),
+      ncm: readText(prod, 'NCM'),
+      cfop: readText(prod, 'CFOP'),
+      unidade: readText(prod, 'uCom'),
+      quantidade: readNumber(prod, 'qCom'),
+      valorUnitario: readMoney(prod, 'vUnCom'),
+      valorTotal: readMoney(prod, 'vProd'),
+    };
+  });
+}
+
+function parseDuplicatas(infNFe: string): NfeDuplicata[] {
+  const cobr = readBlock(infNFe, 'cobr');
+  if (!cobr) return [];
+
+  return readBlocks(cobr, 'dup').map((dup, idx) => ({
+    numero: readText(dup, 'nDup') || String(idx + 1).padStart(3, '0'),
+    vencimento: readDate(dup, 'dVenc'),
+    valor: readMoney(dup, 'vDup'),
+  }));
+}
+
+// ============================================================================
+// API PÚBLICA
+// ============================================================================
+
+/**
+ * Faz o parsing de um XML de NF-e (procNFe ou NFe isolada)
+ *
+ * @param xml - Conteúdo do arquivo XML
+ * @throws Error se o XML não contiver <infNFe>
+ */
+export function parseNfeXml(xml: string): NfeDocumento {
+  const content = String(xml || '');
+  const infMatch = new RegExp(`<${NS}infNFe(\\s[^>]*)?>([\\s\\S]*?)</${NS}infNFe>`).exec(content);
+  if (!infMatch) {
+    throw new Error('XML não é uma NF-e (tag <infNFe> não encontrada)');
+  }
+
+  const attrs = infMatch[1] || '';
+  const infNFe = infMatch[2];
+  const idAttr = /Id\s*=\s*"(?:NFe)?(\d{44})"/.exec(attrs);
+  const protocolo = readBlock(content, 'infProt');
+  const chave = idAttr ? idAttr[1] : readText(protocolo, 'chNFe');
+
+  const ide = readBlock(infNFe, 'ide');
+  const icmsTot = readBlock(infNFe, 'ICMSTot');
+
+  return {
+    chave,
+    numero: readText(ide, 'nNF'),
+    serie: readText(ide, 'serie'),
+    dataEmissao: readDate(ide, 'dhEmi', 'dEmi'),
+    emitente: parseParticipante(readBlock(infNFe, 'emit')),
+    destinatario: parseParticipante(readBlock(infNFe, 'dest')),
+    valorTotal: readMoney(icmsTot, 'vNF'),
+    duplicatas: parseDuplicatas(infNFe),
+    itens: parseItens(infNFe),
+    statusProtocolo: readText(protocolo, 'cStat'),
+  };
+}
+
+/**
+ * Indica se o protocolo da nota é de autorização de uso (cStat 100 ou 150)
+ */
+export function isNfeAutorizada(nota: Pick<NfeDocumento, 'statusProtocolo'>): boolean {
+  return CSTAT_AUTORIZADA.has(String(nota.statusProtocolo || '').trim());
+}
@@ -0,0 +1,232 @@
+/**
+ * ofx-parser.ts
+ *
+ * Parser de extratos bancários no formato OFX.
+ * Suporta OFX 1.x (SGML, tags sem fechamento) e OFX 2.x (XML).
+ *
+ * IMPORTANTE:
+ * - Não depende de APIs do Apps Script (parsing puro de string)
+ * - Valores monetários aceitam ponto ou vírgula como separador decimal
+ * - FITID é o identificador único da transação dentro da conta
+ */
+
+import { BankStatement, Money } from './types';
+import { parseMoney, roundMoney } from './money-utils';
+
+// ============================================================================
+// TIPOS
+// ============================================================================
+
+/**
+ * Transação de um extrato OFX (<STMTTRN>)
+ */
+export interface OfxTransaction {
+  fitId: string;
+  tipo: string; // TRNTYPE: CREDIT, DEBIT, PAYMENT, XFER...
+  data: Date;
+  valor: Money;
+  memo: string;
+  documento: string | null; // CHECKNUM ou REFNUM
+}
+
+/**
+ * Extrato de uma conta contido no arquivo OFX (<STMTRS> ou <CCSTMTRS>)
+ */
+export interface OfxAccountStatement {
+  bankId: string;
+  branchId: string;
+  accountId: string;
+  currency: string;
+  ledgerBalance: Money | null; // LEDGERBAL/BALAMT
+  ledgerBalanceDate: Date | null; // LEDGERBAL/DTASOF
+  transactions: OfxTransaction[];
+}
+
+// ============================================================================
+// HELPERS DE PARSING
+// ============================================================================
+
+/**
+ * Remove cabeçalho OFX (SGML ou XML) e retorna apenas o corpo a partir de <OFX>
+ */
+function stripHeader(content: string): string {
+  const idx = content.search(/<OFX>/i);
+  return idx >= 0 ? content.slice(idx) : content;
+}
+
+/**
+ * Decodifica entidades XML básicas
+ */
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Lê o valor de uma tag folha.
+ * Funciona para SGML (<TAG>valor) e XML (<TAG>valor</TAG>): o valor termina
+ * no próximo "<" ou quebra de linha.
+ */
+function readTag(block: string, tag: string): string {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+  return match ? decodeEntities(match[1].trim()) : '';
+}
+
+/**
+ * Extrai todos os blocos de um agregado (<TAG>...</TAG>).
+ * Agregados são fechados tanto no OFX 1.x quanto no 2.x.
+ */
+function readBlocks(content: string, tag: string): string[] {
+  const regex = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+  const blocks: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(content)) !== null) {
+    blocks.push(match[1]);
+  }
+  return blocks;
+}
+
+/**
+ * Converte data OFX (YYYYMMDD[HHMMSS[.XXX]][[gmt:tz]]) para Date.
+ * Considera apenas a parte de data (sem horário) para evitar deslocamento de fuso.
+ */
+export function parseOfxDate(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(String(value || '').trim());
+  if (!match) return null;
+
+  const year = parseInt(match[1], 10);
+  const month = parseInt(match[2], 10) - 1;
+  const day = parseInt(match[3], 10);
+  const date = new Date(year, month, day);
+
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Converte TRNAMT/BALAMT para número.
+ * Alguns bancos brasileiros exportam com vírgula decimal (ex.: -150,00).
+ */
+function parseOfxAmount(value: string): Money {
+  const raw = String(value || '').trim();
+  if (!raw) return 0;
+  if (/^[+-]?\d+(\.\d+)?$/.test(raw)) return roundMoney(parseFloat(raw));
+  return parseMoney(raw);
+}
+
+function parseTransaction(block: string): OfxTransaction | null {
+  const data = parseOfxDate(readTag(block, 'DTPOSTED'));
+  if (!data) return null;
+
+  const memo = readTag(block, 'MEMO') || readTag(block, 'NAME');
+  const documento = readTag(block, 'CHECKNUM') || readTag(block, 'REFNUM');
+
+  return {
+    fitId: readTag(block, 'FITID'),
+    tipo: readTag(block, 'TRNTYPE').toUpperCase(),
+    data,
+    valor: parseOfxAmount(readTag(block, 'TRNAMT')),
+    memo,
+    documento: documento || null,
+  };
+}
+
+function parseAccountStatement(block: string): OfxAccountStatement {
+  const accountBlock =
+    readBlocks(block, 'BANKACCTFROM')[0] || readBlocks(block, 'CCACCTFROM')[0] || '';
+  const ledgerBlock = readBlocks(block, 'LEDGERBAL')[0] || '';
+
+  const transactions: OfxTransaction[] = [];
+  for (const trnBlock of readBlocks(block, 'STMTTRN')) {
+    const trn = parseTransaction(trnBlock);
+    if (trn) transactions.push(trn);
+  }
+
+  const balAmt = readTag(ledgerBlock, 'BALAMT');
+
+  return {
+    bankId: readTag(accountBlock, 'BANKID'),
+    branchId: readTag(accountBlock, 'BRANCHID'),
+    accountId: readTag(accountBlock, 'ACCTID'),
+    currency: readTag(block, 'CURDEF') || 'BRL',
+    ledgerBalance: balAmt ? parseOfxAmount(balAmt) : null,
+    ledgerBalanceDate: parseOfxDate(readTag(ledgerBlock, 'DTASOF')),
+    transactions,
+  };
+}
+
+// ============================================================================
+// API PÚBLICA
+// ============================================================================
+
+/**
+ * Faz o parsing de um arquivo OFX (1.x SGML ou 2.x XML)
+ *
+ * @param content - Conteúdo bruto do arquivo
+ * @returns Extratos por conta encontrados no arquivo
+ */
+export function parseOfx(content: string): OfxAccountStatement[] {
+  const body = stripHeader(String(content || ''));
+  if (!/<OFX>/i.test(body)) {
+    throw new Error('Arquivo OFX inválido: tag <OFX> não encontrada');
+  }
+
+  const statementBlocks = readBlocks(body, 'STMTRS').concat(readBlocks(body, 'CCSTMTRS'));
+  return statementBlocks.map(parseAccountStatement);
+}
+
+/**
+ * Identificação da conta no formato usado em TB_EXTRATOS (agência/conta)
+ */
+export function formatOfxAccount(statement: OfxAccountStatement): string {
+  const parts = [statement.branchId, statement.accountId].filter((p) => p);
+  return parts.join('/');
+}
+
+/**
+ * Converte extrato OFX em linhas de BankStatement (sem ID)
+ *
+ * O saldo após cada lançamento é reconstruído a partir do LEDGERBAL:
+ * o último movimento (em data <= DTASOF) recebe o saldo final e os
+ * anteriores são obtidos subtraindo os valores em ordem reversa.
+ *
+ * @param statement - Extrato OFX de uma conta
+ * @param contaBancaria - Conta a gravar (padrão: agência/conta do arquivo)
+ */
+export function ofxToBankStatements(
+  statement: OfxAccountStatement,
+  contaBancaria?: string
+): Array<Omit<BankStatement, 'id'>> {
+  const conta = contaBancaria || formatOfxAccount(statement);
+
+  const ordered = statement.transactions
+    .map((trn, index) => ({ trn, index }))
+    .sort((a, b) => a.trn.data.getTime() - b.trn.data.getTime() || a.index - b.index)
+    .map((item) => item.trn);
+
+  const saldos: Array<Money | null> = ordered.map(() => null);
+  if (statement.ledgerBalance !== null) {
+    const asOf = statement.ledgerBalanceDate ? statement.ledgerBalanceDate.getTime() : Infinity;
+    let saldo = statement.ledgerBalance;
+    for (let i = ordered.length - 1; i >= 0; i--) {
+      if (ordered[i].data.getTime() > asOf) continue;
+      saldos[i] = roundMoney(saldo);
+      saldo -= ordered[i].valor;
+    }
+  }
+
+  return ordered.map((trn, i) => ({
+    dataMovimento: trn.data,
+    contaBancaria: conta,
+    historico: trn.memo || trn.tipo,
+    documento: trn.documento,
+    valor: trn.valor,
+    saldoApos: saldos[i],
+    conciliado: false,
+    idLancamento: null,
+    fitId: trn.fitId || null,
+  }));
+}
@@ -0,0 +1,94 @@
+/**
+ * tax-id-utils.ts
+ *
+ * Utilitários para CPF e CNPJ: normalização, dígitos verificadores e formatação.
+ * Sempre trabalha com os dígitos (sem pontuação).
+ */
+
+export type TaxIdKind = 'CPF' | 'CNPJ';
+
+/**
+ * Mantém apenas os dígitos e recompõe zeros à esquerda perdidos quando a
+ * planilha converteu o documento em número (10 -> CPF, 12/13 -> CNPJ)
+ */
+export function normalizeTaxId(value: any): string {
+  const digits = String(value ?? '').replace(/\D/g, '');
+  if (!digits) return '';
+  if (digits.length === 10) return digits.padStart(11, '0');
+  if (digits.length === 12 || digits.length === 13) return digits.padStart(14, '0');
+  return digits;
+}
+
+function allSameDigit(digits: string): boolean {
+  return /^(\d)\1+$/.test(digits);
+}
+
+/**
+ * Dígito verificador (módulo 11) para os pesos informados
+ */
+function checkDigit(digits: string, weights: number[]): number {
+  const sum = weights.reduce((acc, weight, i) => acc + Number(digits[i]) * weight, 0);
+  const rest = sum % 11;
+  return rest < 2 ? 0 : 11 - rest;
+}
+
+/**
+ * Valida CPF (11 dígitos, com dígitos verificadores)
+ */
+export function isValidCpf(value: any): boolean {
+  const cpf = normalizeTaxId(value);
+  if (cpf.length !== 11 || allSameDigit(cpf)) return false;
+
+  const d1 = checkDigit(cpf, [10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const d2 = checkDigit(cpf, [11, 10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  return d1 === Number(cpf[9]) && d2 === Number(cpf[10]);
+}
+
+/**
+ * Valida CNPJ (14 dígitos, com dígitos verificadores)
+ */
+export function isValidCnpj(value: any): boolean {
+  const cnpj = normalizeTaxId(value);
+  if (cnpj.length !== 14 || allSameDigit(cnpj)) return false;
+
+  const d1 = checkDigit(cnpj, [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const d2 = checkDigit(cnpj, [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  return d1 === Number(cnpj[12]) && d2 === Number(cnpj[13]);
+}
+
+/**
+ * Tipo do documento quando válido (null = vazio ou dígitos verificadores errados)
+ */
+export function taxIdKind(value: any): TaxIdKind | null {
+  const digits = normalizeTaxId(value);
+  if (digits.length === 11) return isValidCpf(digits) ? 'CPF' : null;
+  if (digits.length === 14) return isValidCnpj(digits) ? 'CNPJ' : null;
+  return null;
+}
+
+export function isValidTaxId(value: any): boolean {
+  return taxIdKind(value) !== null;
+}
+
+/**
+ * Raiz do CNPJ (8 primeiros dígitos: mesma empresa, qualquer estabelecimento)
+ */
+export function cnpjRoot(value: any): string {
+  const cnpj = normalizeTaxId(value);
+  return cnpj.length === 14 ? cnpj.slice(0, 8) : '';
+}
+
+/**
+ * Formata CPF (000.000.000-00) ou CNPJ (00.000.000/0000-00); outros valores
+ * retornam só os dígitos
+ */
+export function formatTaxId(value: any): string {
+  const digits = normalizeTaxId(value);
+  if (digits.length === 14) {
+    return digits.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, '$1.$2.$3/$4-$5');
+  }
+  if (digits.length === 11) {
+    return digits.replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, '$1.$2.$3-$4');
+  }
+  return digits;
+}
@@ -114,6 +114,74 @@ export enum CashflowType {
   SAIDA = 'SAIDA',
 }
 
+/**
+ * Frequência de um modelo de lançamento recorrente
+ */
+export enum RecurrenceFrequency {
+  MENSAL = 'MENSAL', // dia fixo do mês
+  SEMANAL = 'SEMANAL', // dia da semana
+  ANUAL = 'ANUAL', // mesmo dia/mês da data de início
+  DIAS = 'DIAS', // a cada N dias
+  DIA_UTIL = 'DIA_UTIL', // N-ésimo dia útil do mês
+}
+
+/**
+ * Abrangência de um feriado
+ */
+export enum HolidayScope {
+  NACIONAL = 'NACIONAL',
+  ESTADUAL = 'ESTADUAL',
+  MUNICIPAL = 'MUNICIPAL',
+}
+
+/**
+ * Classificação da diferença de valor numa conciliação parcial (vira lançamento AJUSTE)
+ */
+export enum AdjustmentKind {
+  JUROS = 'JUROS',
+  MULTA = 'MULTA',
+  DESCONTO = 'DESCONTO',
+  TARIFA = 'TARIFA',
+}
+
+/**
+ * Operador de comparação de uma regra de conciliação (sobre o histórico do extrato)
+ */
+export enum RuleOperator {
+  CONTEM = 'CONTEM',
+  COMECA_COM = 'COMECA_COM',
+  IGUAL = 'IGUAL',
+  REGEX = 'REGEX',
+}
+
+/**
+ * Sentido do movimento bancário a que a regra se aplica
+ */
+export enum RuleDirection {
+  DEBITO = 'DEBITO',
+  CREDITO = 'CREDITO',
+  AMBOS = 'AMBOS',
+}
+
+/**
+ * Adquirentes de cartão suportadas na importação de vendas/liquidações
+ */
+export enum CardAcquirer {
+  CIELO = 'CIELO',
+  REDE = 'REDE',
+  STONE = 'STONE',
+  GETNET = 'GETNET',
+}
+
+/**
+ * Modalidade da venda no cartão (define prazo de recebimento e MDR)
+ */
+export enum CardModality {
+  DEBITO = 'DEBITO',
+  CREDITO = 'CREDITO', // à vista
+  PARCELADO = 'PARCELADO',
+}
+
 // ============================================================================
 // INTERFACES DE ENTIDADES
 // ============================================================================
@@ -143,6 +211,8 @@ export interface LedgerEntry {
   idExtratoBanco: string | null;
   origem: LedgerEntryOrigin;
   observacoes?: string;
+  parceiroId?: string | null; // REF_PARCEIROS
+  valorConciliado?: Money | null; // null = tudo ou nada (idExtratoBanco)
 }
 
 /**
@@ -158,6 +228,58 @@ export interface BankStatement {
   saldoApos: Money | null;
   conciliado: boolean;
   idLancamento: string | null;
+  fitId?: string | null; // Extensão: FITID do OFX, usado para deduplicação
+}
+
+/**
+ * Modelo de lançamento recorrente (aluguel, folha, assinaturas...)
+ */
+export interface RecurrenceTemplate {
+  id: string;
+  descricao: string;
+  tipo: string; // RECEITA | DESPESA (vocabulário de TB_LANCAMENTOS)
+  filial: BranchId;
+  centroCusto: CostCenterId | null;
+  contaGerencial: AccountCode | null;
+  contaContabil: AccountCode;
+  canal: ChannelId | null;
+  valor: Money;
+  frequencia: RecurrenceFrequency;
+  intervalo: number; // a cada N meses/semanas/anos/dias
+  dia: number | null; // dia do mês, dia da semana (0=domingo) ou N-ésimo dia útil
+  dataInicio: Date;
+  dataFim: Date | null;
+  maxOcorrencias: number | null;
+  reajusteAnual: number; // % aplicado a cada aniversário da data de início
+  diasAntecedencia: number; // gera ocorrências com vencimento até hoje + N dias
+  ativo: boolean;
+  ultimaGeracao: Date | null; // vencimento da última ocorrência gerada
+  observacoes?: string;
+}
+
+/**
+ * Regra de conciliação: classifica um extrato recorrente (tarifas, IOF, taxas PIX...)
+ * criando o lançamento correspondente já conciliado
+ */
+export interface ReconciliationRule {
+  id: string;
+  nome: string;
+  prioridade: number; // menor = avaliada primeiro
+  operador: RuleOperator;
+  padrao: string;
+  sentido: RuleDirection;
+  valorMin: Money | null; // em módulo
+  valorMax: Money | null;
+  banco: string | null;
+  tipoLancamento: string; // RECEITA | DESPESA (vocabulário de TB_LANCAMENTOS)
+  contaContabil: AccountCode;
+  filial: BranchId;
+  centroCusto: CostCenterId | null;
+  descricao: string | null; // vazio = histórico do extrato
+  origem: 'MANUAL' | 'APRENDIDA';
+  ativo: boolean;
+  acertos: number;
+  ultimoAcerto: Date | null;
 }
 
 /**
@@ -245,6 +367,108 @@ export interface Nature {
   grupoDRE: string;
 }
 
+/**
+ * Feriado (nacionais são calculados; estaduais/municipais vêm de REF_FERIADOS)
+ */
+export interface Holiday {
+  data: string; // yyyy-MM-dd
+  descricao: string;
+  abrangencia: HolidayScope;
+  filial: BranchId | null; // null = vale para todas as filiais
+}
+
+/**
+ * Conta bancária cadastrada (REF_CONTAS_BANCARIAS)
+ */
+export interface BankAccount {
+  id: string; // apelido gravado na coluna Conta de TB_EXTRATOS
+  banco: string; // código COMPE
+  agencia: string;
+  conta: string;
+  descricao: string;
+  filial: BranchId;
+  saldoInicial: Money;
+  dataSaldoInicial: Date | null; // null = saldo inicial antes de qualquer extrato
+  ativa: boolean;
+  saldoMinimo: Money | null; // alerta da posição diária; null = sem mínimo
+}
+
+/**
+ * Papel do parceiro nos lançamentos
+ */
+export enum PartnerType {
+  FORNECEDOR = 'FORNECEDOR',
+  CLIENTE = 'CLIENTE',
+  AMBOS = 'AMBOS',
+}
+
+/**
+ * Fornecedor/cliente cadastrado (REF_PARCEIROS)
+ */
+export interface Partner {
+  id: string;
+  tipo: PartnerType;
+  documento: string; // CPF/CNPJ (dígitos); vazio = cadastrado só pelo nome
+  razaoSocial: string;
+  nomeFantasia: string;
+  contaContabil: AccountCode | null;
+  centroCusto: CostCenterId | null;
+  prazoPagamento: number | null; // dias após a emissão
+  banco: string;
+  agencia: string;
+  conta: string;
+  chavePix: string;
+  ativo: boolean;
+  origem: string;
+}
+
+/**
+ * Venda no cartão exportada pela adquirente
+ */
+export interface CardSale {
+  dataVenda: Date;
+  adquirente: CardAcquirer;
+  bandeira: string;
+  modalidade: CardModality;
+  parcelas: number;
+  nsu: string;
+  autorizacao: string;
+  valorBruto: Money;
+  valorLiquido: Money | null;
+  filialFc: string;
+  estabelecimento: string;
+}
+
+/**
+ * Pagamento (parcela) liquidado pela adquirente
+ */
+export interface CardSettlement {
+  dataPagamento: Date;
+  adquirente: CardAcquirer;
+  bandeira: string;
+  nsu: string;
+  parcela: number;
+  totalParcelas: number;
+  valorBruto: Money;
+  taxa: Money;
+  valorLiquido: Money;
+  dataVenda: Date | null;
+  estabelecimento: string;
+}
+
+/**
+ * Taxa contratada (CFG_MDR)
+ */
+export interface MdrContract {
+  adquirente: CardAcquirer;
+  bandeira: string | null; // null = todas
+  modalidade: CardModality;
+  parcelasMin: number;
+  parcelasMax: number;
+  taxaPct: number;
+  prazoDias: number;
+}
+
 // ============================================================================
 // DTOs (Data Transfer Objects) para comunicação com frontend
 // ============================================================================
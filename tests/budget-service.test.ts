@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { FakeSpreadsheet, installGasFake } from './helpers/gas-fake';
+import { Sheets } from '../src/config/sheet-mapping';
+import { DEFAULT_DRE_LAYOUT_ROWS, DRE_LAYOUT_HEADERS } from '../src/services/dre-layout-service';
+import { buildBudgetVariance, emptyDreLineValues, resolveBudgetLine } from '../src/services/budget-service';
+
+const PLANO_CONTAS = [
+  ['Código', 'Descrição', 'Tipo', 'Grupo DRE', 'Subgrupo DRE', 'Grupo DFC', 'Variável/Fixa', 'CMA/CMV'],
+  ['3.01.001', 'Venda de produtos', 'RECEITA', 'Receita Bruta', '', 'OPERACIONAL', '', ''],
+  ['3.02.001', 'Impostos sobre vendas', 'DESPESA', 'Deduções', '', 'OPERACIONAL', 'VARIAVEL', ''],
+  ['4.01.001', 'Custo das mercadorias', 'DESPESA', 'CMV', '', 'OPERACIONAL', 'VARIAVEL', 'CMV'],
+  ['5.01.001', 'Salários', 'DESPESA', 'Despesas Operacionais', 'Pessoal', 'OPERACIONAL', 'FIXA', ''],
+  ['6.01.001', 'Juros bancários', 'DESPESA', 'Resultado Financeiro', '', 'FINANCIAMENTO', '', ''],
+  ['6.02.001', 'Rendimento de aplicação', 'RECEITA', 'Resultado Financeiro', '', 'FINANCIAMENTO', '', ''],
+];
+
+/**
+ * Estrutura sem resultado financeiro: juros viram despesa operacional
+ * e o lucro é o próprio EBITDA
+ */
+function layoutSemFinanceiro(): any[][] {
+  const rows = DEFAULT_DRE_LAYOUT_ROWS.filter((row) => row[1] !== 'RESULTADO_FINANCEIRO').map((row) => {
+    const copia = [...row];
+    if (copia[1] === 'DESPESAS_OPERACIONAIS') copia[12] = 'DESP_PESSOAL + DESP_FINANCEIRAS + DESP_ADMINISTRATIVAS';
+    if (copia[1] === 'LUCRO_LIQUIDO') copia[12] = 'EBITDA';
+    if (copia[1] === 'RECEITA_BRUTA') copia[2] = 'Receita Operacional Bruta';
+    return copia;
+  });
+  rows.push([62, 'DESP_FINANCEIRAS', 'Financeiras', 'VALOR', '-', 'LIQUIDO', 'DESPESA', '*FINANCEIRO*', '', '', '', '', '', 1]);
+  return rows;
+}
+
+describe('resolveBudgetLine', () => {
+  let ss: FakeSpreadsheet;
+
+  beforeEach(() => {
+    ss = installGasFake();
+    ss.addSheet(Sheets.REF_PLANO_CONTAS, PLANO_CONTAS);
+  });
+
+  it('segue a classificação da estrutura padrão da DRE', () => {
+    expect(resolveBudgetLine('3.01.001')).toEqual({ linha: 'RECEITA_BRUTA', sinal: 1 });
+    expect(resolveBudgetLine('3.02.001')).toEqual({ linha: 'DEDUCOES', sinal: 1 });
+    expect(resolveBudgetLine('4.01.001')).toEqual({ linha: 'CUSTOS', sinal: 1 });
+    expect(resolveBudgetLine('5.01.001')).toEqual({ linha: 'DESPESAS_OPERACIONAIS', sinal: 1 });
+    expect(resolveBudgetLine('6.01.001')).toEqual({ linha: 'RESULTADO_FINANCEIRO', sinal: -1 });
+    expect(resolveBudgetLine('6.02.001')).toEqual({ linha: 'RESULTADO_FINANCEIRO', sinal: 1 });
+    expect(resolveBudgetLine('cmv')).toEqual({ linha: 'CUSTOS', sinal: 1 });
+    expect(resolveBudgetLine('9.99.999')).toBeNull();
+  });
+
+  it('acompanha a estrutura configurada em CFG_DRE_LAYOUT', () => {
+    ss.addSheet(Sheets.CFG_DRE_LAYOUT, [DRE_LAYOUT_HEADERS, ...layoutSemFinanceiro()]);
+    expect(resolveBudgetLine('6.01.001')).toEqual({ linha: 'DESPESAS_OPERACIONAIS', sinal: 1 });
+    // Sem linha própria, a receita financeira cai na receita bruta, como na DRE
+    expect(resolveBudgetLine('6.02.001')).toEqual({ linha: 'RECEITA_BRUTA', sinal: 1 });
+  });
+});
+
+describe('buildBudgetVariance', () => {
+  beforeEach(() => {
+    const ss = installGasFake();
+    ss.addSheet(Sheets.CFG_DRE_LAYOUT, [DRE_LAYOUT_HEADERS, ...layoutSemFinanceiro()]);
+  });
+
+  it('usa linhas, descrições e fórmulas da estrutura da DRE', () => {
+    const orcado = Array.from({ length: 12 }, () => ({
+      ...emptyDreLineValues(),
+      RECEITA_BRUTA: 1000,
+      DESPESAS_OPERACIONAIS: 300,
+    }));
+    const realizado = [{ ...emptyDreLineValues(), RECEITA_BRUTA: 1200, DESPESAS_OPERACIONAIS: 400 }];
+
+    const report = buildBudgetVariance(2026, 1, orcado, realizado);
+    expect(report.linhas.map((l) => l.linha)).toEqual([
+      'RECEITA_BRUTA', 'DEDUCOES', 'RECEITA_LIQUIDA', 'CUSTOS', 'MARGEM_BRUTA',
+      'DESPESAS_OPERACIONAIS', 'EBITDA', 'LUCRO_LIQUIDO',
+    ]);
+
+    const porLinha = new Map(report.linhas.map((l) => [l.linha, l]));
+    expect(porLinha.get('RECEITA_BRUTA')?.descricao).toBe('Receita Operacional Bruta');
+    expect(porLinha.get('DESPESAS_OPERACIONAIS')).toMatchObject({
+      calculada: false,
+      mes: { orcado: 300, realizado: 400, variacao: 100, favoravel: false },
+    });
+    expect(porLinha.get('LUCRO_LIQUIDO')).toMatchObject({
+      calculada: true,
+      mes: { orcado: 700, realizado: 800, variacao: 100, favoravel: true },
+      ano: { orcado: 8400, projecao: 8500 },
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { FakeSheet, installGasFake } from './helpers/gas-fake';
+import { Sheets, TB_LANCAMENTOS_COLS } from '../src/config/sheet-mapping';
+import { Period } from '../src/shared/types';
+import { calculateDRE, comparePersistedDRE, DRERegime, persistDREMensal } from '../src/services/dre-service';
+import { getDREMensal } from '../src/services/webapp-service';
+
+/**
+ * Regressão do fechamento: o que o fechamento grava em TB_DRE_MENSAL e o que a
+ * tela (getDREMensal) mostra devem bater com os valores esperados do livro
+ * abaixo, calculados à mão. Cobre os dois vocabulários de tipo/status
+ * (RECEITA/DESPESA e RECEBER/PAGAR; PAGA/RECEBIDA e PREVISTO/REALIZADO), o
+ * rateio de despesas da filial RATEIO e lançamentos no dia 1 do mês.
+ */
+
+const PERIODO: Period = { year: 2026, month: 9 };
+
+const PLANO_CONTAS = [
+  ['Código', 'Descrição', 'Tipo', 'Grupo DRE', 'Subgrupo DRE', 'Grupo DFC', 'Variável/Fixa', 'CMA/CMV'],
+  ['3.01.001', 'Venda de produtos', 'RECEITA', 'Receita Bruta', '', 'OPERACIONAL', '', ''],
+  ['3.02.001', 'Impostos sobre vendas', 'DESPESA', 'Deduções', '', 'OPERACIONAL', 'VARIAVEL', ''],
+  ['4.01.001', 'Custo das mercadorias', 'DESPESA', 'CMV', '', 'OPERACIONAL', 'VARIAVEL', 'CMV'],
+  ['5.01.001', 'Salários', 'DESPESA', 'Despesas Operacionais', 'Pessoal', 'OPERACIONAL', 'FIXA', ''],
+  ['5.02.001', 'Anúncios', 'DESPESA', 'Despesas Operacionais', 'Marketing', 'OPERACIONAL', 'VARIAVEL', ''],
+  ['5.03.001', 'Aluguel', 'DESPESA', 'Despesas Operacionais', 'Administrativas', 'OPERACIONAL', 'FIXA', ''],
+  ['6.01.001', 'Juros bancários', 'DESPESA', 'Resultado Financeiro', '', 'FINANCIAMENTO', '', ''],
+];
+
+const LANCAMENTOS_HEADER = [
+  'ID', 'Data Competência', 'Data Vencimento', 'Data Pagamento',
+  'Tipo', 'Filial', 'Centro Custo', 'Conta Gerencial', 'Conta Contábil',
+  'Grupo Receita', 'Canal', 'Descrição', 'Valor Bruto', 'Desconto',
+  'Juros', 'Multa', 'Valor Líquido', 'Status', 'ID Extrato Banco',
+  'Origem', 'Observações',
+];
+
+const QUITADOS = ['PAGA', 'RECEBIDA', 'REALIZADO'];
+
+function lancamento(
+  id: string,
+  competencia: string | Date,
+  tipo: 'RECEITA' | 'DESPESA' | 'RECEBER' | 'PAGAR',
+  filial: string,
+  conta: string,
+  bruto: number,
+  desconto: number,
+  status: string
+): any[] {
+  const row = new Array(LANCAMENTOS_HEADER.length).fill('');
+  row[TB_LANCAMENTOS_COLS.ID] = id;
+  row[TB_LANCAMENTOS_COLS.DATA_COMPETENCIA] = competencia;
+  row[TB_LANCAMENTOS_COLS.DATA_VENCIMENTO] = competencia;
+  row[TB_LANCAMENTOS_COLS.DATA_PAGAMENTO] = QUITADOS.includes(status) ? competencia : '';
+  row[TB_LANCAMENTOS_COLS.TIPO] = tipo;
+  row[TB_LANCAMENTOS_COLS.FILIAL] = filial;
+  row[TB_LANCAMENTOS_COLS.CONTA_CONTABIL] = conta;
+  row[TB_LANCAMENTOS_COLS.DESCRICAO] = `Lançamento ${id}`;
+  row[TB_LANCAMENTOS_COLS.VALOR_BRUTO] = bruto;
+  row[TB_LANCAMENTOS_COLS.DESCONTO] = desconto;
+  row[TB_LANCAMENTOS_COLS.JUROS] = 0;
+  row[TB_LANCAMENTOS_COLS.MULTA] = 0;
+  row[TB_LANCAMENTOS_COLS.VALOR_LIQUIDO] = bruto - desconto;
+  row[TB_LANCAMENTOS_COLS.STATUS] = status;
+  row[TB_LANCAMENTOS_COLS.ORIGEM] = 'MANUAL';
+  return row;
+}
+
+function livro(): any[][] {
+  return [
+    LANCAMENTOS_HEADER,
+    lancamento('R1', '2026-09-03', 'RECEITA', 'F01', '3.01.001', 10000, 500, 'RECEBIDA'),
+    lancamento('R2', '2026-09-15', 'RECEITA', 'F02', '3.01.001', 6000, 0, 'PENDENTE'),
+    // Vocabulário RECEBER/PAGAR + PREVISTO/REALIZADO, no dia 1 (texto e célula de data)
+    lancamento('R3', '2026-09-01', 'RECEBER', 'F02', '3.01.001', 2000, 0, 'REALIZADO'),
+    lancamento('P1', new Date(2026, 8, 1), 'PAGAR', 'F01', '5.03.001', 400, 0, 'PREVISTO'),
+    lancamento('D1', '2026-09-10', 'DESPESA', 'F01', '3.02.001', 900, 0, 'PAGA'),
+    lancamento('D2', '2026-09-05', 'DESPESA', 'F01', '4.01.001', 4000, 0, 'PAGA'),
+    lancamento('D3', '2026-09-08', 'DESPESA', 'F02', '4.01.001', 2500, 0, 'PENDENTE'),
+    lancamento('D4', '2026-09-30', 'DESPESA', 'F01', '5.01.001', 3000, 0, 'PAGA'),
+    lancamento('D5', '2026-09-12', 'DESPESA', 'F02', '5.02.001', 700, 0, 'VENCIDA'),
+    lancamento('D6', '2026-09-01', 'DESPESA', 'F01', '5.03.001', 1200, 0, 'PAGA'),
+    lancamento('D7', '2026-09-20', 'DESPESA', 'F01', '6.01.001', 150, 0, 'PAGA'),
+    // Rateio pela receita quitada do mês: F01 9.500 / F02 2.000
+    lancamento('RT1', '2026-09-15', 'DESPESA', 'RATEIO', '5.03.001', 1000, 0, 'PAGA'),
+    lancamento('C1', '2026-09-02', 'DESPESA', 'F01', '5.03.001', 999, 0, 'CANCELADA'),
+    lancamento('A1', '2026-08-28', 'RECEITA', 'F01', '3.01.001', 5000, 0, 'RECEBIDA'),
+    lancamento('A2', new Date(2026, 7, 31), 'PAGAR', 'F01', '5.03.001', 300, 0, 'REALIZADO'),
+  ];
+}
+
+/** Valores esperados por linha da DRE (competência), calculados à mão */
+const ESPERADO: Record<string, Record<string, number>> = {
+  consolidado: {
+    RECEITA_BRUTA: 18000,
+    DEDUCOES: 1400,
+    RECEITA_LIQUIDA: 16600,
+    CUSTOS: 6500,
+    MARGEM_BRUTA: 10100,
+    DESPESAS_OPERACIONAIS: 6300,
+    DESP_PESSOAL: 3000,
+    DESP_MARKETING: 700,
+    DESP_ADMINISTRATIVAS: 2600,
+    EBITDA: 3800,
+    RESULTADO_FINANCEIRO: -150,
+    LUCRO_LIQUIDO: 3650,
+  },
+  F01: {
+    RECEITA_BRUTA: 10000,
+    DEDUCOES: 1400,
+    RECEITA_LIQUIDA: 8600,
+    CUSTOS: 4000,
+    MARGEM_BRUTA: 4600,
+    DESPESAS_OPERACIONAIS: 5426.09,
+    DESP_PESSOAL: 3000,
+    DESP_MARKETING: 0,
+    DESP_ADMINISTRATIVAS: 2426.09,
+    EBITDA: -826.09,
+    RESULTADO_FINANCEIRO: -150,
+    LUCRO_LIQUIDO: -976.09,
+  },
+  F02: {
+    RECEITA_BRUTA: 8000,
+    DEDUCOES: 0,
+    RECEITA_LIQUIDA: 8000,
+    CUSTOS: 2500,
+    MARGEM_BRUTA: 5500,
+    DESPESAS_OPERACIONAIS: 873.91,
+    DESP_PESSOAL: 0,
+    DESP_MARKETING: 700,
+    DESP_ADMINISTRATIVAS: 173.91,
+    EBITDA: 4626.09,
+    RESULTADO_FINANCEIRO: 0,
+    LUCRO_LIQUIDO: 4626.09,
+  },
+};
+
+function persistedLines(sheet: FakeSheet, filial: string | null): Record<string, number> {
+  const out: Record<string, number> = {};
+  sheet
+    .rows()
+    .slice(1)
+    .filter((r) => r[0] === PERIODO.year && r[1] === PERIODO.month && String(r[2] || '') === String(filial || ''))
+    .filter((r) => r[6] === DRERegime.COMPETENCIA)
+    .forEach((r) => {
+      out[r[3]] = r[5];
+    });
+  return out;
+}
+
+function rounded(values: Record<string, number>): Record<string, number> {
+  const out: Record<string, number> = {};
+  Object.keys(values).forEach((k) => {
+    out[k] = Math.round(values[k] * 100) / 100;
+  });
+  return out;
+}
+
+describe('DRE: livro de referência x TB_DRE_MENSAL x tela', () => {
+  beforeAll(() => {
+    // Fuso da planilha: datas ISO lidas como UTC caíam no mês anterior (dia 1)
+    process.env.TZ = 'America/Sao_Paulo';
+    expect(new Date('2026-09-01').getMonth()).toBe(7);
+  });
+
+  beforeEach(() => {
+    const ss = installGasFake();
+    ss.addSheet(Sheets.CFG_CONFIG, [['Chave', 'Valor', 'Tipo', 'Descrição', 'Ativo']]);
+    ss.addSheet(Sheets.REF_PLANO_CONTAS, PLANO_CONTAS);
+    ss.addSheet(Sheets.TB_LANCAMENTOS, livro());
+  });
+
+  it.each([
+    ['consolidado', null],
+    ['F01', 'F01'],
+    ['F02', 'F02'],
+  ])('fechamento e tela mostram os valores esperados (%s)', (chave, filial) => {
+    persistDREMensal(calculateDRE(PERIODO, filial));
+    expect(comparePersistedDRE(PERIODO, filial)).toEqual([]);
+
+    const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(Sheets.TB_DRE_MENSAL) as unknown as FakeSheet;
+    expect(rounded(persistedLines(sheet, filial))).toEqual(ESPERADO[chave]);
+
+    const tela = getDREMensal(PERIODO.month, PERIODO.year, filial || undefined);
+    const linhasTela: Record<string, number> = {};
+    tela.linhas.forEach((l: { codigo: string; valor: number }) => {
+      linhasTela[l.codigo] = l.valor;
+    });
+    expect(rounded(linhasTela)).toEqual(ESPERADO[chave]);
+    expect(tela.valores.receitaBruta).toBe(ESPERADO[chave].RECEITA_BRUTA);
+    expect(tela.valores.lucroLiquido).toBeCloseTo(ESPERADO[chave].LUCRO_LIQUIDO, 2);
+    expect(tela.naoClassificado.lancamentos).toBe(0);
+  });
+
+  it('rateio: consolidado igual à soma das filiais em todas as linhas', () => {
+    const consolidado = calculateDRE(PERIODO, null).valores;
+    const f01 = calculateDRE(PERIODO, 'F01').valores;
+    const f02 = calculateDRE(PERIODO, 'F02').valores;
+
+    Object.keys(ESPERADO.consolidado).forEach((codigo) => {
+      expect(f01[codigo] + f02[codigo]).toBeCloseTo(consolidado[codigo], 2);
+    });
+    expect(calculateDRE(PERIODO, 'RATEIO').valores.DESP_ADMINISTRATIVAS).toBe(0);
+  });
+
+  it('lançamentos do dia 1 ficam no próprio mês, não no anterior', () => {
+    const agosto = calculateDRE({ year: 2026, month: 8 }, null);
+    expect(agosto.valores.RECEITA_BRUTA).toBe(5000);
+    expect(agosto.valores.DESP_ADMINISTRATIVAS).toBe(300);
+    expect(agosto.lancamentos).toEqual({ receitas: 1, despesas: 1 });
+  });
+
+  it('regime de caixa reconhece REALIZADO e ignora PREVISTO', () => {
+    const caixa = calculateDRE(PERIODO, null, { regime: DRERegime.CAIXA });
+    // R1 (RECEBIDA) + R3 (RECEBER/REALIZADO); R2 pendente fica fora
+    expect(caixa.valores.RECEITA_BRUTA).toBe(12000);
+    // D6 + parte do RT1; P1 (PAGAR/PREVISTO) fica fora
+    expect(caixa.valores.DESP_ADMINISTRATIVAS).toBe(2200);
+  });
+
+  it('aponta a linha quando TB_DRE_MENSAL diverge do livro', () => {
+    persistDREMensal(calculateDRE(PERIODO, null));
+
+    // Lançamento entra depois do fechamento: persistido fica defasado
+    const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(Sheets.TB_LANCAMENTOS) as unknown as FakeSheet;
+    sheet.appendRow(lancamento('D8', '2026-09-25', 'DESPESA', 'F01', '5.01.001', 500, 0, 'PAGA'));
+
+    const codigos = comparePersistedDRE(PERIODO, null).map((d) => d.codigo);
+    expect(codigos).toEqual(
+      expect.arrayContaining(['DESP_PESSOAL', 'DESPESAS_OPERACIONAIS', 'EBITDA', 'LUCRO_LIQUIDO'])
+    );
+    expect(codigos).not.toContain('RECEITA_BRUTA');
+  });
+});
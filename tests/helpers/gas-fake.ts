@@ -0,0 +1,349 @@
+/**
+ * gas-fake.ts
+ *
+ * Ambiente mínimo do Google Apps Script (planilha em memória, cache, lock,
+ * propriedades) para testar os services fora do Apps Script.
+ *
+ * Cobre apenas as chamadas usadas pelos services testados; formatação
+ * (negrito, cores, largura) é aceita e ignorada.
+ */
+
+type Cell = any;
+
+function columnToIndex(letters: string): number {
+  let col = 0;
+  for (const ch of letters.toUpperCase()) col = col * 26 + (ch.charCodeAt(0) - 64);
+  return col;
+}
+
+function isEmpty(value: Cell): boolean {
+  return value === '' || value === null || value === undefined;
+}
+
+function displayValue(value: Cell): string {
+  if (isEmpty(value)) return '';
+  if (value instanceof Date) {
+    const m = String(value.getMonth() + 1).padStart(2, '0');
+    const d = String(value.getDate()).padStart(2, '0');
+    return `${value.getFullYear()}-${m}-${d}`;
+  }
+  return String(value);
+}
+
+export class FakeRange {
+  constructor(
+    private readonly sheet: FakeSheet,
+    private readonly row: number,
+    private readonly col: number,
+    private readonly numRows: number,
+    private readonly numCols: number
+  ) {
+    // Métodos de formatação: aceitos e ignorados (encadeáveis)
+    return new Proxy(this, {
+      get(target, prop, receiver) {
+        if (prop in target) return Reflect.get(target, prop, receiver);
+        return () => receiver;
+      },
+    });
+  }
+
+  getRow(): number {
+    return this.row;
+  }
+
+  getColumn(): number {
+    return this.col;
+  }
+
+  getNumRows(): number {
+    return this.numRows;
+  }
+
+  getNumColumns(): number {
+    return this.numCols;
+  }
+
+  getValues(): Cell[][] {
+    const out: Cell[][] = [];
+    for (let r = 0; r < this.numRows; r++) {
+      const row: Cell[] = [];
+      for (let c = 0; c < this.numCols; c++) row.push(this.sheet.cell(this.row + r, this.col + c));
+      out.push(row);
+    }
+    return out;
+  }
+
+  getDisplayValues(): string[][] {
+    return this.getValues().map((row) => row.map(displayValue));
+  }
+
+  getValue(): Cell {
+    return this.sheet.cell(this.row, this.col);
+  }
+
+  getDisplayValue(): string {
+    return displayValue(this.getValue());
+  }
+
+  setValues(values: Cell[][]): FakeRange {
+    if (values.length !== this.numRows || values.some((row) => row.length !== this.numCols)) {
+      throw new Error(
+        `The number of rows/columns in the data does not match the range (${values.length}x${values[0]?.length} vs ${this.numRows}x${this.numCols})`
+      );
+    }
+    values.forEach((row, r) => row.forEach((value, c) => this.sheet.setCell(this.row + r, this.col + c, value)));
+    return this;
+  }
+
+  setValue(value: Cell): FakeRange {
+    for (let r = 0; r < this.numRows; r++) {
+      for (let c = 0; c < this.numCols; c++) this.sheet.setCell(this.row + r, this.col + c, value);
+    }
+    return this;
+  }
+
+  clearContent(): FakeRange {
+    return this.setValue('');
+  }
+
+  clear(): FakeRange {
+    return this.setValue('');
+  }
+}
+
+export class FakeSheet {
+  private data: Cell[][] = [];
+  private maxColumns: number;
+
+  constructor(private readonly name: string, rows: Cell[][] = []) {
+    rows.forEach((row, r) => row.forEach((value, c) => this.setCell(r + 1, c + 1, value)));
+    this.maxColumns = Math.max(26, ...rows.map((row) => row.length));
+  }
+
+  cell(row: number, col: number): Cell {
+    const value = this.data[row - 1]?.[col - 1];
+    return value === undefined || value === null ? '' : value;
+  }
+
+  setCell(row: number, col: number, value: Cell): void {
+    while (this.data.length < row) this.data.push([]);
+    const target = this.data[row - 1];
+    while (target.length < col) target.push('');
+    target[col - 1] = value === undefined || value === null ? '' : value;
+    if (col > this.maxColumns) this.maxColumns = col;
+  }
+
+  /** Conteúdo atual como matriz (linhas até getLastRow, colunas até getLastColumn) */
+  rows(): Cell[][] {
+    const lastCol = this.getLastColumn();
+    return this.data.slice(0, this.getLastRow()).map((row) => {
+      const out = row.slice(0, lastCol);
+      while (out.length < lastCol) out.push('');
+      return out;
+    });
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  getLastRow(): number {
+    for (let r = this.data.length; r > 0; r--) {
+      if (this.data[r - 1].some((v) => !isEmpty(v))) return r;
+    }
+    return 0;
+  }
+
+  getLastColumn(): number {
+    let last = 0;
+    for (const row of this.data) {
+      for (let c = row.length; c > last; c--) {
+        if (!isEmpty(row[c - 1])) {
+          last = c;
+          break;
+        }
+      }
+    }
+    return last;
+  }
+
+  getMaxColumns(): number {
+    return this.maxColumns;
+  }
+
+  getMaxRows(): number {
+    return Math.max(1000, this.data.length);
+  }
+
+  getRange(a1OrRow: string | number, col?: number, numRows?: number, numCols?: number): FakeRange {
+    if (typeof a1OrRow === 'number') {
+      return new FakeRange(this, a1OrRow, col || 1, numRows || 1, numCols || 1);
+    }
+    const match = /^([A-Z]+)(\d*)(?::([A-Z]+)(\d*))?$/i.exec(a1OrRow.trim());
+    if (!match) throw new Error(`Range inválido: ${a1OrRow}`);
+    const startCol = columnToIndex(match[1]);
+    const startRow = match[2] ? parseInt(match[2], 10) : 1;
+    const endCol = match[3] ? columnToIndex(match[3]) : startCol;
+    const endRow = match[4] ? parseInt(match[4], 10) : match[3] || !match[2] ? Math.max(startRow, this.getLastRow()) : startRow;
+    return new FakeRange(this, startRow, startCol, endRow - startRow + 1, endCol - startCol + 1);
+  }
+
+  getDataRange(): FakeRange {
+    return this.getRange(1, 1, Math.max(1, this.getLastRow()), Math.max(1, this.getLastColumn()));
+  }
+
+  appendRow(values: Cell[]): FakeSheet {
+    const row = this.getLastRow() + 1;
+    values.forEach((value, c) => this.setCell(row, c + 1, value));
+    return this;
+  }
+
+  insertColumnsAfter(afterPosition: number, howMany: number): FakeSheet {
+    for (const row of this.data) {
+      if (row.length > afterPosition) row.splice(afterPosition, 0, ...new Array(howMany).fill(''));
+    }
+    this.maxColumns += howMany;
+    return this;
+  }
+
+  insertColumnAfter(afterPosition: number): FakeSheet {
+    return this.insertColumnsAfter(afterPosition, 1);
+  }
+
+  deleteRows(rowPosition: number, howMany: number): void {
+    this.data.splice(rowPosition - 1, howMany);
+  }
+
+  deleteRow(rowPosition: number): void {
+    this.deleteRows(rowPosition, 1);
+  }
+
+  clear(): FakeSheet {
+    this.data = [];
+    return this;
+  }
+
+  clearContents(): FakeSheet {
+    return this.clear();
+  }
+
+  setFrozenRows(): void {}
+
+  autoResizeColumns(): FakeSheet {
+    return this;
+  }
+}
+
+export class FakeSpreadsheet {
+  private readonly sheets = new Map<string, FakeSheet>();
+
+  addSheet(name: string, rows: Cell[][] = []): FakeSheet {
+    const sheet = new FakeSheet(name, rows);
+    this.sheets.set(name, sheet);
+    return sheet;
+  }
+
+  getSheetByName(name: string): FakeSheet | null {
+    return this.sheets.get(name) || null;
+  }
+
+  insertSheet(name: string): FakeSheet {
+    if (this.sheets.has(name)) throw new Error(`A sheet with the name "${name}" already exists`);
+    return this.addSheet(name);
+  }
+
+  getSheets(): FakeSheet[] {
+    return Array.from(this.sheets.values());
+  }
+
+  getSpreadsheetTimeZone(): string {
+    return 'America/Sao_Paulo';
+  }
+}
+
+function fakeCache() {
+  const store = new Map<string, string>();
+  return {
+    get: (key: string) => (store.has(key) ? (store.get(key) as string) : null),
+    getAll: (keys: string[]) => {
+      const out: Record<string, string> = {};
+      for (const key of keys) if (store.has(key)) out[key] = store.get(key) as string;
+      return out;
+    },
+    put: (key: string, value: string) => void store.set(key, value),
+    putAll: (values: Record<string, string>) => Object.keys(values).forEach((k) => store.set(k, values[k])),
+    remove: (key: string) => void store.delete(key),
+    removeAll: (keys: string[]) => keys.forEach((k) => store.delete(k)),
+  };
+}
+
+function fakeProperties() {
+  const store = new Map<string, string>();
+  return {
+    getProperty: (key: string) => (store.has(key) ? (store.get(key) as string) : null),
+    setProperty: (key: string, value: string) => {
+      store.set(key, String(value));
+    },
+    deleteProperty: (key: string) => {
+      store.delete(key);
+    },
+    getProperties: () => Object.fromEntries(store),
+    setProperties: (values: Record<string, string>) => Object.keys(values).forEach((k) => store.set(k, values[k])),
+    getKeys: () => Array.from(store.keys()),
+  };
+}
+
+/**
+ * Instala os globais do Apps Script com uma planilha vazia e devolve a planilha
+ */
+export function installGasFake(userEmail = 'admin@example.com'): FakeSpreadsheet {
+  const ss = new FakeSpreadsheet();
+  const scriptCache = fakeCache();
+  const userCache = fakeCache();
+  const documentCache = fakeCache();
+  const scriptProps = fakeProperties();
+  const userProps = fakeProperties();
+  const lock = { waitLock: () => undefined, tryLock: () => true, releaseLock: () => undefined, hasLock: () => true };
+  let uuid = 0;
+
+  const globals: Record<string, any> = {
+    SpreadsheetApp: { getActiveSpreadsheet: () => ss, flush: () => undefined },
+    CacheService: {
+      getScriptCache: () => scriptCache,
+      getUserCache: () => userCache,
+      getDocumentCache: () => documentCache,
+    },
+    PropertiesService: {
+      getScriptProperties: () => scriptProps,
+      getUserProperties: () => userProps,
+      getDocumentProperties: () => scriptProps,
+    },
+    LockService: {
+      getDocumentLock: () => lock,
+      getScriptLock: () => lock,
+      getUserLock: () => lock,
+    },
+    Session: {
+      getActiveUser: () => ({ getEmail: () => userEmail }),
+      getEffectiveUser: () => ({ getEmail: () => userEmail }),
+      getScriptTimeZone: () => 'America/Sao_Paulo',
+    },
+    Utilities: {
+      getUuid: () => `00000000-0000-4000-8000-${String(++uuid).padStart(12, '0')}`,
+      formatDate: (date: Date, _tz: string, pattern: string) => {
+        const pad = (n: number) => String(n).padStart(2, '0');
+        return pattern
+          .replace('yyyy', String(date.getFullYear()))
+          .replace('MM', pad(date.getMonth() + 1))
+          .replace('dd', pad(date.getDate()))
+          .replace('HH', pad(date.getHours()))
+          .replace('mm', pad(date.getMinutes()))
+          .replace('ss', pad(date.getSeconds()));
+      },
+    },
+    Logger: { log: () => undefined },
+  };
+
+  Object.assign(globalThis, globals);
+  return ss;
+}
@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { FakeSheet, FakeSpreadsheet, installGasFake } from './helpers/gas-fake';
+import { Sheets, TB_EXTRATOS_COLS, TB_LANCAMENTOS_COLS } from '../src/config/sheet-mapping';
+import { AdjustmentKind } from '../src/shared/types';
+import { reconcilePartial, unreconcile } from '../src/services/reconciliation-service';
+
+const LANCAMENTOS_HEADER = [
+  'ID', 'Data Competência', 'Data Vencimento', 'Data Pagamento',
+  'Tipo', 'Filial', 'Centro Custo', 'Conta Gerencial', 'Conta Contábil',
+  'Grupo Receita', 'Canal', 'Descrição', 'Valor Bruto', 'Desconto',
+  'Juros', 'Multa', 'Valor Líquido', 'Status', 'ID Extrato Banco',
+  'Origem', 'Observações',
+];
+
+const EXTRATOS_HEADER = [
+  'ID', 'Data', 'Descrição', 'Valor', 'Tipo', 'Banco',
+  'Conta', 'Status Conciliação', 'ID Lançamento', 'Observações', 'Importado Em',
+  'FITID', 'Saldo Após', 'Valor Conciliado',
+];
+
+function lancamento(id: string, valor: number, status: string, dataPagamento = ''): any[] {
+  const row = new Array(LANCAMENTOS_HEADER.length).fill('');
+  row[TB_LANCAMENTOS_COLS.ID] = id;
+  row[TB_LANCAMENTOS_COLS.DATA_COMPETENCIA] = '2026-09-01';
+  row[TB_LANCAMENTOS_COLS.DATA_VENCIMENTO] = '2026-09-10';
+  row[TB_LANCAMENTOS_COLS.DATA_PAGAMENTO] = dataPagamento;
+  row[TB_LANCAMENTOS_COLS.TIPO] = 'DESPESA';
+  row[TB_LANCAMENTOS_COLS.FILIAL] = 'F01';
+  row[TB_LANCAMENTOS_COLS.CONTA_CONTABIL] = '3.01.001';
+  row[TB_LANCAMENTOS_COLS.DESCRICAO] = `Fornecedor ${id}`;
+  row[TB_LANCAMENTOS_COLS.VALOR_BRUTO] = valor;
+  row[TB_LANCAMENTOS_COLS.VALOR_LIQUIDO] = valor;
+  row[TB_LANCAMENTOS_COLS.STATUS] = status;
+  row[TB_LANCAMENTOS_COLS.ORIGEM] = 'MANUAL';
+  return row;
+}
+
+function extrato(id: string, valor: number): any[] {
+  const row = new Array(EXTRATOS_HEADER.length).fill('');
+  row[TB_EXTRATOS_COLS.ID] = id;
+  row[TB_EXTRATOS_COLS.DATA] = '2026-09-12';
+  row[TB_EXTRATOS_COLS.DESCRICAO] = 'PAG FORNECEDOR';
+  row[TB_EXTRATOS_COLS.VALOR] = valor;
+  row[TB_EXTRATOS_COLS.TIPO] = valor < 0 ? 'SAIDA' : 'ENTRADA';
+  row[TB_EXTRATOS_COLS.CONTA] = '0001/12345';
+  row[TB_EXTRATOS_COLS.STATUS_CONCILIACAO] = 'PENDENTE';
+  return row;
+}
+
+function lancRow(sheet: FakeSheet, id: string): any[] {
+  const row = sheet.rows().find((r) => r[TB_LANCAMENTOS_COLS.ID] === id);
+  if (!row) throw new Error(`Lançamento ${id} não encontrado na aba`);
+  return row;
+}
+
+describe('reconcilePartial + unreconcile', () => {
+  let ss: FakeSpreadsheet;
+  let lancamentos: FakeSheet;
+  let extratos: FakeSheet;
+
+  beforeEach(() => {
+    ss = installGasFake();
+    ss.addSheet(Sheets.CFG_CONFIG, [['Chave', 'Valor', 'Tipo', 'Descrição', 'Ativo']]);
+    lancamentos = ss.addSheet(Sheets.TB_LANCAMENTOS, [
+      LANCAMENTOS_HEADER,
+      lancamento('L1', 150, 'VENCIDA'),
+      lancamento('L2', 200, 'PENDENTE', '2026-09-05'),
+    ]);
+    extratos = ss.addSheet(Sheets.TB_EXTRATOS, [EXTRATOS_HEADER, extrato('EB1', -150), extrato('EB2', -205)]);
+  });
+
+  it('restaura status e data de pagamento ao desfazer a baixa', () => {
+    const result = reconcilePartial('EB1', 'L1');
+    expect(result.statusExtrato).toBe('CONCILIADO');
+
+    const baixado = lancRow(lancamentos, 'L1');
+    expect(baixado[TB_LANCAMENTOS_COLS.STATUS]).toBe('PAGA');
+    expect(baixado[TB_LANCAMENTOS_COLS.DATA_PAGAMENTO]).toBe('2026-09-12');
+    expect(baixado[TB_LANCAMENTOS_COLS.ID_EXTRATO_BANCO]).toBe('EB1');
+
+    const undo = unreconcile('EB1', 'L1');
+    expect(undo.baixasRevertidas).toEqual(['L1']);
+
+    const restaurado = lancRow(lancamentos, 'L1');
+    expect(restaurado[TB_LANCAMENTOS_COLS.STATUS]).toBe('VENCIDA');
+    expect(restaurado[TB_LANCAMENTOS_COLS.DATA_PAGAMENTO]).toBe('');
+    expect(restaurado[TB_LANCAMENTOS_COLS.ID_EXTRATO_BANCO]).toBe('');
+    expect(restaurado[TB_LANCAMENTOS_COLS.VALOR_CONCILIADO]).toBe('');
+    expect(restaurado[TB_LANCAMENTOS_COLS.STATUS_PRE_CONCILIACAO]).toBe('');
+    expect(restaurado[TB_LANCAMENTOS_COLS.DATA_PAGAMENTO_PRE_CONCILIACAO]).toBe('');
+
+    const extratoRow = extratos.rows()[1];
+    expect(extratoRow[TB_EXTRATOS_COLS.STATUS_CONCILIACAO]).toBe('PENDENTE');
+    expect(extratoRow[TB_EXTRATOS_COLS.ID_LANCAMENTO]).toBe('');
+    expect(extratoRow[TB_EXTRATOS_COLS.VALOR_CONCILIADO]).toBe('');
+  });
+
+  it('cancela o ajuste e mantém a data de pagamento já informada', () => {
+    const result = reconcilePartial('EB2', 'L2', { ajuste: { classificacao: AdjustmentKind.JUROS } });
+    expect(result.ajusteId).toBeTruthy();
+    expect(lancRow(lancamentos, 'L2')[TB_LANCAMENTOS_COLS.STATUS]).toBe('PAGA');
+
+    const undo = unreconcile('EB2', 'L2');
+    expect(undo.ajustesCancelados).toEqual([result.ajusteId]);
+
+    const restaurado = lancRow(lancamentos, 'L2');
+    expect(restaurado[TB_LANCAMENTOS_COLS.STATUS]).toBe('PENDENTE');
+    expect(restaurado[TB_LANCAMENTOS_COLS.DATA_PAGAMENTO]).toBe('2026-09-05');
+    expect(lancRow(lancamentos, result.ajusteId as string)[TB_LANCAMENTOS_COLS.STATUS]).toBe('CANCELADA');
+  });
+
+  it.each([
+    ['regra de conciliação', 'REGRA_CONCILIACAO'],
+    ['criação a partir do extrato', 'EXTRATO'],
+  ])('cancela o lançamento criado por %s', (_, origem) => {
+    const criado = lancamento('CP-EXT', 12.5, 'PAGA', '2026-09-12');
+    criado[TB_LANCAMENTOS_COLS.ID_EXTRATO_BANCO] = 'EB3';
+    criado[TB_LANCAMENTOS_COLS.ORIGEM] = origem;
+    lancamentos.appendRow(criado);
+    const tarifa = extrato('EB3', -12.5);
+    tarifa[TB_EXTRATOS_COLS.STATUS_CONCILIACAO] = 'CONCILIADO';
+    tarifa[TB_EXTRATOS_COLS.ID_LANCAMENTO] = 'CP-EXT';
+    extratos.appendRow(tarifa);
+
+    const undo = unreconcile('EB3', 'CP-EXT');
+    expect(undo.lancamentosCancelados).toEqual(['CP-EXT']);
+    expect(undo.baixasRevertidas).toEqual([]);
+    expect(lancRow(lancamentos, 'CP-EXT')[TB_LANCAMENTOS_COLS.STATUS]).toBe('CANCELADA');
+    expect(extratos.rows()[3][TB_EXTRATOS_COLS.STATUS_CONCILIACAO]).toBe('PENDENTE');
+  });
+
+  it('recusa desfazer par que não está vinculado', () => {
+    reconcilePartial('EB1', 'L1');
+    expect(() => unreconcile('EB1', 'L2')).toThrow(/vinculado a outro lançamento/);
+    expect(() => unreconcile('EB2', 'L2')).toThrow(/não está conciliado/);
+  });
+});
@@ -0,0 +1,38 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { FakeSpreadsheet, installGasFake } from './helpers/gas-fake';
+import { Sheets } from '../src/config/sheet-mapping';
+import { isBusinessDay } from '../src/shared/date-utils';
+import { getAllBankAccounts, getBusinessDayOptions } from '../src/services/reference-data-service';
+
+describe('getBusinessDayOptions', () => {
+  let ss: FakeSpreadsheet;
+
+  beforeEach(() => {
+    ss = installGasFake();
+  });
+
+  it('sem REF_FERIADOS usa só os feriados nacionais', () => {
+    const options = getBusinessDayOptions('F01');
+    expect(options.feriados?.size).toBe(0);
+    expect(isBusinessDay(new Date(2026, 8, 8), options)).toBe(true);
+    expect(isBusinessDay(new Date(2026, 8, 7), options)).toBe(false); // Independência
+  });
+
+  it('feriado recorrente vale para qualquer ano', () => {
+    ss.addSheet(Sheets.REF_FERIADOS, [
+      ['Data', 'Descrição', 'Abrangência', 'Filial', 'Recorrente', 'Ativo'],
+      ['2024-01-25', 'Aniversário de São Paulo', 'MUNICIPAL', 'F01', 'TRUE', 'TRUE'],
+    ]);
+    const options = getBusinessDayOptions('F01');
+    expect(isBusinessDay(new Date(2035, 0, 25), options)).toBe(false);
+    expect(isBusinessDay(new Date(2010, 0, 25), options)).toBe(false);
+    expect(isBusinessDay(new Date(2035, 0, 25), getBusinessDayOptions('F02'))).toBe(true);
+  });
+});
+
+describe('getAllBankAccounts', () => {
+  it('sem REF_CONTAS_BANCARIAS devolve lista vazia', () => {
+    installGasFake();
+    expect(getAllBankAccounts()).toEqual([]);
+  });
+});
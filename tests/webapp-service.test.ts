@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { FakeSheet, installGasFake } from './helpers/gas-fake';
+import { Sheets, TB_LANCAMENTOS_COLS } from '../src/config/sheet-mapping';
+import { renegociarParcelamento } from '../src/services/webapp-service';
+
+const LANCAMENTOS_HEADER = [
+  'ID', 'Data Competência', 'Data Vencimento', 'Data Pagamento',
+  'Tipo', 'Filial', 'Centro Custo', 'Conta Gerencial', 'Conta Contábil',
+  'Grupo Receita', 'Canal', 'Descrição', 'Valor Bruto', 'Desconto',
+  'Juros', 'Multa', 'Valor Líquido', 'Status', 'ID Extrato Banco',
+  'Origem', 'Observações', 'N Documento', 'Chave NFe', 'Lote Importação',
+  'ID Parcelamento', 'Parcela', 'Valor Conciliado', 'Parceiro',
+];
+
+function parcela(numero: number, status: string, idExtrato = ''): any[] {
+  const row = new Array(LANCAMENTOS_HEADER.length).fill('');
+  row[TB_LANCAMENTOS_COLS.ID] = `PARC-0001-${String(numero).padStart(2, '0')}`;
+  row[TB_LANCAMENTOS_COLS.DATA_COMPETENCIA] = '2026-07-01';
+  row[TB_LANCAMENTOS_COLS.DATA_VENCIMENTO] = `2026-0${6 + numero}-10`;
+  row[TB_LANCAMENTOS_COLS.TIPO] = 'DESPESA';
+  row[TB_LANCAMENTOS_COLS.FILIAL] = 'F01';
+  row[TB_LANCAMENTOS_COLS.CONTA_CONTABIL] = '5.03.001';
+  row[TB_LANCAMENTOS_COLS.DESCRICAO] = 'Equipamento';
+  row[TB_LANCAMENTOS_COLS.VALOR_BRUTO] = 300;
+  row[TB_LANCAMENTOS_COLS.VALOR_LIQUIDO] = 300;
+  row[TB_LANCAMENTOS_COLS.STATUS] = status;
+  row[TB_LANCAMENTOS_COLS.ID_EXTRATO_BANCO] = idExtrato;
+  row[TB_LANCAMENTOS_COLS.PARCELAMENTO_ID] = 'PARC-0001';
+  row[TB_LANCAMENTOS_COLS.PARCELA] = `${numero}/3`;
+  return row;
+}
+
+describe('renegociarParcelamento', () => {
+  let lancamentos: FakeSheet;
+
+  beforeEach(() => {
+    const ss = installGasFake();
+    lancamentos = ss.addSheet(Sheets.TB_LANCAMENTOS, [
+      LANCAMENTOS_HEADER,
+      parcela(1, 'PAGA', 'EB1'),
+      parcela(2, 'PENDENTE'),
+      parcela(3, 'PENDENTE'),
+    ]);
+  });
+
+  it('renumera as novas parcelas após as quitadas', () => {
+    const result = renegociarParcelamento('PARC-0001', { parcelas: 3, primeiroVencimento: '2026-10-10' });
+    expect(result.success).toBe(true);
+    expect(result.ids).toHaveLength(3);
+
+    const novas = lancamentos.rows().filter((r) => (result.ids || []).includes(r[TB_LANCAMENTOS_COLS.ID]));
+    expect(novas.map((r) => r[TB_LANCAMENTOS_COLS.PARCELA])).toEqual(['2/4', '3/4', '4/4']);
+    expect(novas.map((r) => r[TB_LANCAMENTOS_COLS.VALOR_LIQUIDO])).toEqual([200, 200, 200]);
+  });
+
+  it('recusa renegociar com parcela em aberto parcialmente conciliada', () => {
+    lancamentos.setCell(3, TB_LANCAMENTOS_COLS.ID_EXTRATO_BANCO + 1, 'EB2');
+
+    const result = renegociarParcelamento('PARC-0001', { parcelas: 2, primeiroVencimento: '2026-10-10' });
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/2\/3 parcialmente conciliada/);
+    expect(lancamentos.rows().map((r) => r[TB_LANCAMENTOS_COLS.STATUS])).toEqual([
+      'Status', 'PAGA', 'PENDENTE', 'PENDENTE',
+    ]);
+  });
+});